@@ -1,10 +1,16 @@
 // SPDX-License-Identifier: MIT
 pragma solidity ^0.8.24;
 
-import { FHE, euint32, ebool } from "@fhevm/solidity/lib/FHE.sol";
+import { FHE, euint32, euint64, euint128, externalEuint32 } from "@fhevm/solidity/lib/FHE.sol";
 import { SepoliaConfig } from "@fhevm/solidity/config/ZamaConfig.sol";
 
 contract AiRoyalties_FHE is SepoliaConfig {
+    enum EpochPhase { Open, Closing, Settled }
+    enum ReviewStatus { Pending, Approved, Rejected }
+    enum OperationKind { Payout, Withdrawal }
+    enum OperationStatus { Pending, Executed, Cancelled }
+    enum DisputeStatus { Open, Upheld, Dismissed }
+
     struct EncryptedContribution {
         uint256 id;
         euint32 encryptedComputeHours;  // Encrypted compute hours contributed
@@ -12,76 +18,548 @@ contract AiRoyalties_FHE is SepoliaConfig {
         euint32 encryptedModelImpact;   // Encrypted model improvement impact
         uint256 timestamp;
         bytes32 contributorHash;       // Hashed contributor identifier
+        uint256 epoch;
+        euint64 encryptedScore;        // Weighted score, only meaningful relative to the epoch's total
+        bytes32 modelId;               // keccak256 of the model name
+        uint256 rulesetId;             // Weights the score was computed with
     }
 
     struct RoyaltyDistribution {
         euint32 encryptedShare;
-        euint32 encryptedPaymentAmount;
-        ebool isClaimed;
+        euint128 encryptedPaymentAmount;  // Wei; too wide for euint32
+        bool isClaimed;
+        uint256 epoch;
+        uint256 contributionId;
+        uint256 challengeEndsAt;  // Claims wait until disputes can no longer be opened
+        bool isVoided;            // An upheld dispute voids the royalty for good
     }
 
+    // The share and payment stay encrypted in the distribution; only their calculation is public
     struct DecryptedRoyalty {
-        uint32 sharePercentage;
-        uint256 paymentAmount;
-        bool isRevealed;
+        bool isRevealed;  // The oracle answered the calculation and the contributor can decrypt the result
+        uint256 rulesetId;
+    }
+
+    // Rulesets are never edited; changing a model's weights creates a new one,
+    // so every calculated share keeps pointing at the weights that produced it
+    struct WeightRuleset {
+        bytes32 modelId;
+        uint32 computeWeight;
+        uint32 qualityWeight;
+        uint32 impactWeight;
+        uint256 createdAt;
+    }
+
+    // A verifier has to approve a contribution before its royalty can be calculated
+    struct Review {
+        ReviewStatus status;
+        address reviewer;       // Verifier assigned to the contribution; zero until assigned
+        uint256 evidenceCount;
+        uint256 decidedAt;
+    }
+
+    // Payouts and pool withdrawals only move funds once `approvalThreshold` treasurers approved them
+    struct Operation {
+        OperationKind kind;
+        OperationStatus status;
+        address payable recipient;
+        uint256 amount;
+        uint256 epoch;              // Epoch whose pool pays for the operation
+        bytes32 contributorHash;    // Payouts only
+        uint256 requestId;          // Payouts only: the claim's decryption request
+    }
+
+    // Opened against a calculated royalty during its challenge period; the claim stays frozen until it is resolved
+    struct Dispute {
+        uint256 contributionId;
+        address challenger;
+        uint256 bond;
+        bytes32 evidenceHash;   // Content hash of the evidence, which stays off chain
+        DisputeStatus status;
+        uint256 openedAt;
+        uint256 upholdVotes;
+        uint256 dismissVotes;
     }
 
+    struct Epoch {
+        uint256 rewardPool;       // Deposits made during the epoch plus funds rolled over into it
+        uint256 committed;        // Payments fixed by royalty calculations; zero until revealed
+        uint256 paid;
+        uint256 contributionCount;
+        euint64 encryptedScoreTotal;  // Sum of the scores of every contribution in the epoch
+        uint64 scoreTotal;            // Decrypted along with the first calculation of the epoch
+        euint128 encryptedCommitted;  // Sum of the calculated payments, none of which is decrypted on its own
+        uint256 challengesEndAt;      // End of the latest challenge period of the epoch's royalties
+        uint256 openDisputes;
+        bool committedRevealed;       // `committed` holds the decrypted sum
+        bool revealRequested;         // The sum is being decrypted; no calculation can change it any more
+    }
+
+    // Models without a profile of their own are scored with this one
+    bytes32 public constant DEFAULT_MODEL = bytes32(0);
+
+    // Admins manage roles and weights, verifiers request royalty calculations,
+    // treasurers approve payouts and move unused funds and contributors submit work
+    bytes32 public constant ADMIN_ROLE = keccak256("ADMIN_ROLE");
+    bytes32 public constant VERIFIER_ROLE = keccak256("VERIFIER_ROLE");
+    bytes32 public constant TREASURER_ROLE = keccak256("TREASURER_ROLE");
+    bytes32 public constant CONTRIBUTOR_ROLE = keccak256("CONTRIBUTOR_ROLE");
+
+    mapping(bytes32 => mapping(address => bool)) private roles;
+    uint256 public adminCount;
+    uint256 public treasurerCount;
+    uint256 public approvalThreshold;
     uint256 public contributionCount;
     uint256 public totalRewardPool;
+    uint256 public immutable epochDuration;
+    uint256 public immutable genesisTimestamp;
+    mapping(uint256 => Epoch) public epochs;
     mapping(uint256 => EncryptedContribution) public contributions;
     mapping(bytes32 => RoyaltyDistribution) public royaltyDistributions;
+    mapping(bytes32 => address) public commitmentOwners;  // Contributor hash to the account that first used it
     mapping(uint256 => DecryptedRoyalty) public decryptedRoyalties;
+    uint256 public weightRulesetCount;
+    mapping(uint256 => WeightRuleset) public weightRulesets;
+    mapping(bytes32 => uint256) public activeRulesets;
+    mapping(uint256 => Review) public reviews;
+    uint256 public operationCount;
+    mapping(uint256 => Operation) public operations;
+    mapping(uint256 => mapping(address => bool)) public operationApprovals;
+    mapping(bytes32 => uint256) public pendingPayouts;  // Contributor hash to its unexecuted payout operation
+    uint256 public challengePeriod;
+    uint256 public disputeBond;
+    uint256 public disputeQuorum;  // Verifier votes on one side that resolve a dispute without an admin
+    uint256 public disputeCount;
+    mapping(uint256 => Dispute) public disputes;
+    mapping(uint256 => uint256) public activeDisputes;  // Contribution id to its open dispute
+    mapping(uint256 => mapping(address => bool)) public disputeVotes;
     
     mapping(uint256 => uint256) private requestToContributionId;
+    mapping(uint256 => uint256) private requestToCommittedEpoch;  // Epoch plus one, so epoch 0 is not unset
     mapping(uint256 => bytes32) private requestToContributorHash;
+    mapping(uint256 => address) private contributorAddresses;
+    mapping(uint256 => address payable) private requestToPayoutAddress;
+    mapping(bytes32 => address) private distributionContributors;
+    mapping(uint256 => address[]) private operationApprovers;
     
     event ContributionRecorded(uint256 indexed id, bytes32 contributorHash, uint256 timestamp);
-    event RoyaltyCalculationRequested(uint256 indexed contributionId);
+    event ContributionTransferred(uint256 indexed contributionId, address indexed from, address indexed to);
+    event RoyaltyCalculationRequested(uint256 indexed contributionId, uint256 requestId, address indexed verifier);
     event RoyaltyDecrypted(uint256 indexed contributionId);
-    event RewardPoolDeposited(uint256 amount);
+    event CommittedRevealRequested(uint256 indexed epoch, uint256 requestId, address indexed requester);
+    event CommittedRevealed(uint256 indexed epoch, uint256 committed);
+    event RewardPoolDeposited(address indexed sponsor, uint256 indexed epoch, uint256 amount);
+    event RoyaltyClaimRequested(
+        bytes32 indexed contributorHash,
+        uint256 requestId,
+        address payoutAddress,
+        address submitter
+    );
+    event RoyaltyPaid(
+        uint256 indexed requestId,
+        bytes32 indexed contributorHash,
+        address indexed payoutAddress,
+        uint256 amount,
+        address executor
+    );
+    event EpochRolledOver(uint256 indexed fromEpoch, uint256 indexed toEpoch, uint256 amount);
+    event WeightRulesetCreated(
+        uint256 indexed rulesetId,
+        bytes32 indexed modelId,
+        uint32 computeWeight,
+        uint32 qualityWeight,
+        uint32 impactWeight
+    );
+    event ReviewerAssigned(uint256 indexed contributionId, address indexed reviewer, address indexed assignedBy);
+    event EvidenceAttached(
+        uint256 indexed contributionId,
+        bytes32 indexed contentHash,
+        string label,
+        address indexed attachedBy
+    );
+    event ReviewDecided(uint256 indexed contributionId, address indexed reviewer, bool approved, string reason);
+    event RoleGranted(bytes32 indexed role, address indexed account, address indexed sender);
+    event RoleRevoked(bytes32 indexed role, address indexed account, address indexed sender);
+    event ApprovalThresholdChanged(uint256 threshold, address indexed admin);
+    event PayoutQueued(
+        uint256 indexed requestId,
+        uint256 indexed operationId,
+        bytes32 indexed contributorHash,
+        address payoutAddress,
+        uint256 amount
+    );
+    event WithdrawalProposed(
+        uint256 indexed operationId,
+        uint256 indexed epoch,
+        address indexed recipient,
+        uint256 amount,
+        address proposer
+    );
+    event OperationApproved(uint256 indexed operationId, address indexed treasurer, uint256 approvals);
+    event OperationCancelled(uint256 indexed operationId, address indexed admin);
+    event PoolWithdrawn(uint256 indexed operationId, uint256 indexed epoch, address indexed recipient, uint256 amount);
+    event DisputeTermsChanged(uint256 challengePeriod, uint256 bond, uint256 quorum, address indexed admin);
+    event DisputeOpened(
+        uint256 indexed disputeId,
+        uint256 indexed contributionId,
+        address indexed challenger,
+        bytes32 evidenceHash,
+        uint256 bond
+    );
+    event DisputeVoted(uint256 indexed disputeId, address indexed voter, bool uphold);
+    event DisputeResolved(
+        uint256 indexed disputeId,
+        uint256 indexed contributionId,
+        bool upheld,
+        address indexed resolvedBy
+    );
 
-    modifier onlyAuthorized() {
+    modifier onlyRole(bytes32 role) {
+        require(roles[role][msg.sender], "Missing role");
         _;
     }
 
-    function depositRewardPool() public payable onlyAuthorized {
+    constructor(uint256 _epochDuration) {
+        require(_epochDuration > 0, "Invalid epoch duration");
+        epochDuration = _epochDuration;
+        genesisTimestamp = block.timestamp;
+        _grantRole(ADMIN_ROLE, msg.sender);
+        approvalThreshold = 1;
+        challengePeriod = 2 days;
+        disputeBond = 0.01 ether;
+        disputeQuorum = 2;
+        _createRuleset(DEFAULT_MODEL, 40, 35, 25);
+    }
+
+    // Applies to contributions submitted from now on; earlier ones keep the ruleset they were scored with
+    function setWeightProfile(
+        bytes32 modelId,
+        uint32 computeWeight,
+        uint32 qualityWeight,
+        uint32 impactWeight
+    ) public onlyRole(ADMIN_ROLE) returns (uint256) {
+        return _createRuleset(modelId, computeWeight, qualityWeight, impactWeight);
+    }
+
+    function hasRole(bytes32 role, address account) public view returns (bool) {
+        return roles[role][account];
+    }
+
+    function grantRole(bytes32 role, address account) public onlyRole(ADMIN_ROLE) {
+        require(
+            role == ADMIN_ROLE || role == VERIFIER_ROLE || role == TREASURER_ROLE || role == CONTRIBUTOR_ROLE,
+            "Unknown role"
+        );
+        require(!roles[role][account], "Role already granted");
+        _grantRole(role, account);
+    }
+
+    function revokeRole(bytes32 role, address account) public onlyRole(ADMIN_ROLE) {
+        require(roles[role][account], "Role not granted");
+        // Nobody could grant roles or change weights any more
+        if (role == ADMIN_ROLE) {
+            require(adminCount > 1, "Cannot remove the last admin");
+            adminCount -= 1;
+        }
+        // Payouts could no longer collect enough approvals
+        if (role == TREASURER_ROLE) {
+            require(treasurerCount > approvalThreshold, "Too few treasurers for the threshold");
+            treasurerCount -= 1;
+        }
+        roles[role][account] = false;
+        emit RoleRevoked(role, account, msg.sender);
+    }
+
+    function _grantRole(bytes32 role, address account) private {
+        roles[role][account] = true;
+        if (role == ADMIN_ROLE) adminCount += 1;
+        if (role == TREASURER_ROLE) treasurerCount += 1;
+        emit RoleGranted(role, account, msg.sender);
+    }
+
+    // Number of treasurers that must approve a payout or withdrawal, M of the N treasurers
+    function setApprovalThreshold(uint256 threshold) public onlyRole(ADMIN_ROLE) {
+        require(threshold > 0 && threshold <= treasurerCount, "Invalid threshold");
+        approvalThreshold = threshold;
+        emit ApprovalThresholdChanged(threshold, msg.sender);
+    }
+
+    // Royalties calculated from now on get `period` seconds in which disputes can be opened
+    function setDisputeTerms(uint256 period, uint256 bond, uint256 quorum) public onlyRole(ADMIN_ROLE) {
+        require(quorum > 0, "Invalid quorum");
+        challengePeriod = period;
+        disputeBond = bond;
+        disputeQuorum = quorum;
+        emit DisputeTermsChanged(period, bond, quorum, msg.sender);
+    }
+
+    // The ruleset a contribution for `modelId` submitted now would be scored with
+    function rulesetFor(bytes32 modelId) public view returns (uint256) {
+        uint256 rulesetId = activeRulesets[modelId];
+        return rulesetId != 0 ? rulesetId : activeRulesets[DEFAULT_MODEL];
+    }
+
+    function _createRuleset(
+        bytes32 modelId,
+        uint32 computeWeight,
+        uint32 qualityWeight,
+        uint32 impactWeight
+    ) private returns (uint256) {
+        // Percentages keep the epoch's encrypted score total far from the euint64 limit
+        require(uint256(computeWeight) + qualityWeight + impactWeight == 100, "Weights must sum to 100");
+        
+        weightRulesetCount += 1;
+        uint256 rulesetId = weightRulesetCount;
+        weightRulesets[rulesetId] = WeightRuleset({
+            modelId: modelId,
+            computeWeight: computeWeight,
+            qualityWeight: qualityWeight,
+            impactWeight: impactWeight,
+            createdAt: block.timestamp
+        });
+        activeRulesets[modelId] = rulesetId;
+        
+        emit WeightRulesetCreated(rulesetId, modelId, computeWeight, qualityWeight, impactWeight);
+        return rulesetId;
+    }
+
+    function currentEpoch() public view returns (uint256) {
+        return (block.timestamp - genesisTimestamp) / epochDuration;
+    }
+
+    function epochStart(uint256 epoch) public view returns (uint256) {
+        return genesisTimestamp + epoch * epochDuration;
+    }
+
+    // An epoch collects contributions and deposits while open, has its shares
+    // calculated against the now fixed pool during the following epoch, and is
+    // settled after that
+    function epochPhase(uint256 epoch) public view returns (EpochPhase) {
+        uint256 current = currentEpoch();
+        if (epoch >= current) return EpochPhase.Open;
+        if (epoch + 1 == current) return EpochPhase.Closing;
+        return EpochPhase.Settled;
+    }
+
+    function depositRewardPool() public payable {
+        uint256 epoch = currentEpoch();
         totalRewardPool += msg.value;
-        emit RewardPoolDeposited(msg.value);
+        epochs[epoch].rewardPool += msg.value;
+        emit RewardPoolDeposited(msg.sender, epoch, msg.value);
+    }
+
+    // Moves the part of a settled epoch's pool that no calculation committed into the current epoch
+    function rollOver(uint256 epoch) public onlyRole(TREASURER_ROLE) {
+        require(epochPhase(epoch) == EpochPhase.Settled, "Epoch not settled");
+        
+        Epoch storage ep = epochs[epoch];
+        require(ep.committedRevealed, "Committed total not revealed");
+        require(ep.rewardPool > ep.committed, "Nothing to roll over");
+        
+        uint256 amount = ep.rewardPool - ep.committed;
+        uint256 target = currentEpoch();
+        ep.rewardPool = ep.committed;
+        epochs[target].rewardPool += amount;
+        
+        emit EpochRolledOver(epoch, target, amount);
+    }
+
+    // Decrypts the sum of a settled epoch's payments once no calculation or dispute can change it; the
+    // payments themselves stay encrypted
+    function revealCommitted(uint256 epoch) public {
+        require(epochPhase(epoch) == EpochPhase.Settled, "Epoch not settled");
+        Epoch storage ep = epochs[epoch];
+        require(!ep.committedRevealed, "Committed total revealed");
+        require(block.timestamp >= ep.challengesEndAt && ep.openDisputes == 0, "Royalties still disputable");
+        ep.revealRequested = true;
+        
+        // Nothing was calculated, so there is nothing to decrypt
+        if (!FHE.isInitialized(ep.encryptedCommitted)) {
+            ep.committedRevealed = true;
+            emit CommittedRevealed(epoch, 0);
+            return;
+        }
+        
+        bytes32[] memory ciphertexts = new bytes32[](1);
+        ciphertexts[0] = FHE.toBytes32(ep.encryptedCommitted);
+        uint256 reqId = FHE.requestDecryption(ciphertexts, this.processCommittedReveal.selector);
+        requestToCommittedEpoch[reqId] = epoch + 1;
+        
+        emit CommittedRevealRequested(epoch, reqId, msg.sender);
+    }
+
+    function processCommittedReveal(
+        uint256 requestId,
+        bytes memory cleartexts,
+        bytes memory proof
+    ) public {
+        uint256 epoch = requestToCommittedEpoch[requestId];
+        require(epoch != 0, "Invalid request");
+        epoch -= 1;
+        
+        Epoch storage ep = epochs[epoch];
+        require(!ep.committedRevealed, "Already processed");
+        
+        FHE.checkSignatures(requestId, cleartexts, proof);
+        
+        ep.committed = abi.decode(cleartexts, (uint128));
+        ep.committedRevealed = true;
+        emit CommittedRevealed(epoch, ep.committed);
     }
 
     function submitEncryptedContribution(
-        euint32 computeHours,
-        euint32 dataQuality,
-        euint32 modelImpact,
-        bytes32 contributorHash
-    ) public onlyAuthorized {
+        externalEuint32 computeHours,
+        externalEuint32 dataQuality,
+        externalEuint32 modelImpact,
+        bytes calldata inputProof,
+        bytes32 contributorHash,
+        bytes32 modelId
+    ) public onlyRole(CONTRIBUTOR_ROLE) {
+        // Nobody can submit under another account's commitment and take over the royalty calculated for it
+        address owner = commitmentOwners[contributorHash];
+        require(owner == address(0) || owner == msg.sender, "Contributor hash in use");
+        commitmentOwners[contributorHash] = msg.sender;
+        
+        euint32 encryptedComputeHours = FHE.fromExternal(computeHours, inputProof);
+        euint32 encryptedDataQuality = FHE.fromExternal(dataQuality, inputProof);
+        euint32 encryptedModelImpact = FHE.fromExternal(modelImpact, inputProof);
+        
+        // Keep the contract able to request decryption of the metrics later on
+        FHE.allowThis(encryptedComputeHours);
+        FHE.allowThis(encryptedDataQuality);
+        FHE.allowThis(encryptedModelImpact);
+        
+        // The submitter may user-decrypt their own metrics
+        FHE.allow(encryptedComputeHours, msg.sender);
+        FHE.allow(encryptedDataQuality, msg.sender);
+        FHE.allow(encryptedModelImpact, msg.sender);
+        
         contributionCount += 1;
         uint256 newId = contributionCount;
+        uint256 epoch = currentEpoch();
+        contributorAddresses[newId] = msg.sender;
+        
+        // Scores are summed while encrypted so shares can be normalized against the whole epoch.
+        // The weights are fixed here: a profile edited later must not change a total already summed
+        uint256 rulesetId = rulesetFor(modelId);
+        euint64 score = weightedScore(
+            weightRulesets[rulesetId],
+            encryptedComputeHours,
+            encryptedDataQuality,
+            encryptedModelImpact
+        );
+        FHE.allowThis(score);
+        FHE.allow(score, msg.sender);
+        
+        Epoch storage ep = epochs[epoch];
+        ep.contributionCount += 1;
+        ep.encryptedScoreTotal = FHE.add(ep.encryptedScoreTotal, score);
+        FHE.allowThis(ep.encryptedScoreTotal);
         
         contributions[newId] = EncryptedContribution({
             id: newId,
-            encryptedComputeHours: computeHours,
-            encryptedDataQuality: dataQuality,
-            encryptedModelImpact: modelImpact,
+            encryptedComputeHours: encryptedComputeHours,
+            encryptedDataQuality: encryptedDataQuality,
+            encryptedModelImpact: encryptedModelImpact,
             timestamp: block.timestamp,
-            contributorHash: contributorHash
+            contributorHash: contributorHash,
+            epoch: epoch,
+            encryptedScore: score,
+            modelId: modelId,
+            rulesetId: rulesetId
         });
         
         emit ContributionRecorded(newId, contributorHash, block.timestamp);
     }
 
-    function calculateRoyaltyShare(uint256 contributionId) public onlyAuthorized {
+    // Makes another account the contributor, e.g. the owner of a migrated legacy record: it is granted the
+    // handles and receives the share and payment. The previous contributor keeps the access it already had
+    function transferContribution(uint256 contributionId, address to) public {
+        require(msg.sender == contributorAddresses[contributionId], "Not the contributor");
+        require(to != address(0), "Invalid contributor");
+        require(to != reviews[contributionId].reviewer, "Cannot review own contribution");
+        
+        EncryptedContribution storage contrib = contributions[contributionId];
+        FHE.allow(contrib.encryptedComputeHours, to);
+        FHE.allow(contrib.encryptedDataQuality, to);
+        FHE.allow(contrib.encryptedModelImpact, to);
+        FHE.allow(contrib.encryptedScore, to);
+        contributorAddresses[contributionId] = to;
+        
+        if (distributionContributors[contrib.contributorHash] != address(0)) {
+            RoyaltyDistribution storage distribution = royaltyDistributions[contrib.contributorHash];
+            FHE.allow(distribution.encryptedShare, to);
+            FHE.allow(distribution.encryptedPaymentAmount, to);
+            distributionContributors[contrib.contributorHash] = to;
+        }
+        emit ContributionTransferred(contributionId, msg.sender, to);
+    }
+
+    // Admins assign any verifier but the submitter; a verifier can take an unassigned contribution for themselves
+    function assignReviewer(uint256 contributionId, address reviewer) public {
+        require(contributions[contributionId].id != 0, "Unknown contribution");
+        require(roles[VERIFIER_ROLE][reviewer], "Reviewer is not a verifier");
+        require(reviewer != contributorAddresses[contributionId], "Cannot review own contribution");
+        Review storage review = reviews[contributionId];
+        require(review.status == ReviewStatus.Pending, "Review already decided");
+        require(
+            roles[ADMIN_ROLE][msg.sender] || (msg.sender == reviewer && review.reviewer == address(0)),
+            "Cannot assign reviewer"
+        );
+        
+        review.reviewer = reviewer;
+        emit ReviewerAssigned(contributionId, reviewer, msg.sender);
+    }
+
+    // Evidence such as logs or eval reports stays off chain; only its content hash is recorded
+    function attachEvidence(uint256 contributionId, bytes32 contentHash, string calldata label) public {
+        require(contributions[contributionId].id != 0, "Unknown contribution");
+        require(
+            msg.sender == contributorAddresses[contributionId] || roles[VERIFIER_ROLE][msg.sender],
+            "Cannot attach evidence"
+        );
+        require(contentHash != bytes32(0), "Invalid evidence hash");
+        Review storage review = reviews[contributionId];
+        require(review.status == ReviewStatus.Pending, "Review already decided");
+        
+        review.evidenceCount += 1;
+        emit EvidenceAttached(contributionId, contentHash, label, msg.sender);
+    }
+
+    function decideReview(
+        uint256 contributionId,
+        bool approved,
+        string calldata reason
+    ) public onlyRole(VERIFIER_ROLE) {
+        Review storage review = reviews[contributionId];
+        require(review.reviewer == msg.sender, "Not the assigned reviewer");
+        require(review.status == ReviewStatus.Pending, "Review already decided");
+        require(approved || bytes(reason).length > 0, "Rejection needs a reason");
+        
+        review.status = approved ? ReviewStatus.Approved : ReviewStatus.Rejected;
+        review.decidedAt = block.timestamp;
+        emit ReviewDecided(contributionId, msg.sender, approved, reason);
+    }
+
+    function calculateRoyaltyShare(uint256 contributionId) public onlyRole(VERIFIER_ROLE) {
         EncryptedContribution storage contrib = contributions[contributionId];
+        require(contrib.id != 0, "Unknown contribution");
+        
+        EpochPhase phase = epochPhase(contrib.epoch);
+        require(phase != EpochPhase.Open, "Epoch still open");
+        require(phase != EpochPhase.Settled, "Epoch settled");
+        require(reviews[contributionId].status == ReviewStatus.Approved, "Contribution not approved");
+        require(distributionContributors[contrib.contributorHash] == address(0), "Royalty already calculated");
         
-        bytes32[] memory ciphertexts = new bytes32[](3);
-        ciphertexts[0] = FHE.toBytes32(contrib.encryptedComputeHours);
-        ciphertexts[1] = FHE.toBytes32(contrib.encryptedDataQuality);
-        ciphertexts[2] = FHE.toBytes32(contrib.encryptedModelImpact);
+        // Only the epoch's total is decrypted, never a single score. It no longer changes once the epoch
+        // is closing, so every calculation sees the same one
+        bytes32[] memory ciphertexts = new bytes32[](1);
+        ciphertexts[0] = FHE.toBytes32(epochs[contrib.epoch].encryptedScoreTotal);
         
         uint256 reqId = FHE.requestDecryption(ciphertexts, this.processRoyaltyCalculation.selector);
         requestToContributionId[reqId] = contributionId;
         
-        emit RoyaltyCalculationRequested(contributionId);
+        emit RoyaltyCalculationRequested(contributionId, reqId, msg.sender);
     }
 
     function processRoyaltyCalculation(
@@ -93,40 +571,104 @@ contract AiRoyalties_FHE is SepoliaConfig {
         require(contributionId != 0, "Invalid request");
         
         EncryptedContribution storage contrib = contributions[contributionId];
-        require(!royaltyDistributions[contrib.contributorHash].isClaimed, "Already processed");
+        require(distributionContributors[contrib.contributorHash] == address(0), "Already processed");
+        Epoch storage ep = epochs[contrib.epoch];
+        // A calculation still pending when the reveal was requested would be missing from the revealed sum
+        require(!ep.revealRequested, "Committed total requested");
         
         FHE.checkSignatures(requestId, cleartexts, proof);
         
-        (uint32 computeHours, uint32 dataQuality, uint32 modelImpact) = 
-            abi.decode(cleartexts, (uint32, uint32, uint32));
+        uint64 scoreTotal = abi.decode(cleartexts, (uint64));
+        ep.scoreTotal = scoreTotal;
+        
+        // Computed under FHE against the public total, so the share and payment are never decrypted
+        // before the claim. Rounding down keeps the sum of all payments of the epoch within its pool
+        euint32 encryptedShare;
+        euint128 encryptedPaymentAmount;
+        if (scoreTotal > 0) {
+            // Basis points
+            encryptedShare = FHE.asEuint32(FHE.div(FHE.mul(contrib.encryptedScore, uint64(10000)), scoreTotal));
+            encryptedPaymentAmount = FHE.div(
+                FHE.mul(FHE.asEuint128(contrib.encryptedScore), uint128(ep.rewardPool)),
+                uint128(scoreTotal)
+            );
+        } else {
+            encryptedShare = FHE.asEuint32(0);
+            encryptedPaymentAmount = FHE.asEuint128(0);
+        }
+        ep.encryptedCommitted = FHE.add(ep.encryptedCommitted, encryptedPaymentAmount);
+        FHE.allowThis(ep.encryptedCommitted);
         
-        uint32 share = calculateSharePercentage(computeHours, dataQuality, modelImpact);
-        uint256 payment = (totalRewardPool * share) / 10000; // Basis points
+        // The contract decrypts the payment at claim time; only the contributor
+        // can read either value before that, through user decryption
+        address contributor = contributorAddresses[contributionId];
+        FHE.allowThis(encryptedShare);
+        FHE.allowThis(encryptedPaymentAmount);
+        FHE.allow(encryptedShare, contributor);
+        FHE.allow(encryptedPaymentAmount, contributor);
+        distributionContributors[contrib.contributorHash] = contributor;
         
+        uint256 challengeEndsAt = block.timestamp + challengePeriod;
+        if (challengeEndsAt > ep.challengesEndAt) {
+            ep.challengesEndAt = challengeEndsAt;
+        }
         royaltyDistributions[contrib.contributorHash] = RoyaltyDistribution({
-            encryptedShare: FHE.asEuint32(share),
-            encryptedPaymentAmount: FHE.asEuint32(uint32(payment)),
-            isClaimed: FHE.asEbool(false)
+            encryptedShare: encryptedShare,
+            encryptedPaymentAmount: encryptedPaymentAmount,
+            isClaimed: false,
+            epoch: contrib.epoch,
+            contributionId: contributionId,
+            challengeEndsAt: challengeEndsAt,
+            isVoided: false
         });
         
-        decryptedRoyalties[contributionId] = DecryptedRoyalty({
-            sharePercentage: share,
-            paymentAmount: payment,
-            isRevealed: true
-        });
+        decryptedRoyalties[contributionId] = DecryptedRoyalty({ isRevealed: true, rulesetId: contrib.rulesetId });
         
         emit RoyaltyDecrypted(contributionId);
     }
 
-    function claimRoyalty(bytes32 contributorHash) public {
+    // Contributor hashes commit to a claim key that only the contributor's
+    // local secret can derive; the salt keeps commitments of the same key apart
+    function commitmentOf(address claimer, bytes32 salt) public pure returns (bytes32) {
+        return keccak256(abi.encode(claimer, salt));
+    }
+
+    // Signed by the claim key; binding the payout address stops a relayed claim from being redirected
+    function claimDigest(bytes32 contributorHash, address payoutAddress) public view returns (bytes32) {
+        return keccak256(abi.encode(address(this), block.chainid, contributorHash, payoutAddress));
+    }
+
+    // Any account may submit the claim, as long as it carries a signature from the committed claim key
+    function claimRoyalty(
+        bytes32 contributorHash,
+        address payable payoutAddress,
+        address claimer,
+        bytes32 salt,
+        bytes calldata signature
+    ) public {
+        require(distributionContributors[contributorHash] != address(0), "No royalty calculated");
+        require(payoutAddress != address(0), "Invalid payout address");
+        require(commitmentOf(claimer, salt) == contributorHash, "Invalid commitment");
+        require(
+            recoverSigner(claimDigest(contributorHash, payoutAddress), signature) == claimer,
+            "Invalid claim signature"
+        );
+        
         RoyaltyDistribution storage dist = royaltyDistributions[contributorHash];
-        require(!FHE.decrypt(dist.isClaimed), "Already claimed");
+        require(!dist.isClaimed, "Already claimed");
+        require(pendingPayouts[contributorHash] == 0, "Payout awaiting approval");
+        require(!dist.isVoided, "Royalty voided");
+        require(block.timestamp >= dist.challengeEndsAt, "Challenge period running");
+        require(activeDisputes[dist.contributionId] == 0, "Royalty disputed");
         
         bytes32[] memory ciphertexts = new bytes32[](1);
         ciphertexts[0] = FHE.toBytes32(dist.encryptedPaymentAmount);
         
         uint256 reqId = FHE.requestDecryption(ciphertexts, this.processRoyaltyPayment.selector);
         requestToContributorHash[reqId] = contributorHash;
+        requestToPayoutAddress[reqId] = payoutAddress;
+        
+        emit RoyaltyClaimRequested(contributorHash, reqId, payoutAddress, msg.sender);
     }
 
     function processRoyaltyPayment(
@@ -138,33 +680,262 @@ contract AiRoyalties_FHE is SepoliaConfig {
         require(contributorHash != bytes32(0), "Invalid request");
         
         RoyaltyDistribution storage dist = royaltyDistributions[contributorHash];
-        require(!FHE.decrypt(dist.isClaimed), "Already processed");
+        require(!dist.isClaimed, "Already processed");
+        require(pendingPayouts[contributorHash] == 0, "Payout awaiting approval");
         
         FHE.checkSignatures(requestId, cleartexts, proof);
         
-        uint32 amount = abi.decode(cleartexts, (uint32));
+        // The amount is public from here on, but nothing moves until the treasurers approve it
+        uint128 amount = abi.decode(cleartexts, (uint128));
+        uint256 operationId = _createOperation(
+            OperationKind.Payout,
+            requestToPayoutAddress[requestId],
+            amount,
+            dist.epoch,
+            contributorHash,
+            requestId
+        );
+        pendingPayouts[contributorHash] = operationId;
         
-        // In a real implementation, send funds to contributor
-        // payable(contributor).transfer(amount);
+        emit PayoutQueued(requestId, operationId, contributorHash, requestToPayoutAddress[requestId], amount);
+    }
+
+    // Proposes sending the part of a settled epoch's pool that no calculation committed out of the contract
+    function proposeWithdrawal(
+        uint256 epoch,
+        address payable recipient,
+        uint256 amount
+    ) public onlyRole(TREASURER_ROLE) returns (uint256) {
+        require(epochPhase(epoch) == EpochPhase.Settled, "Epoch not settled");
+        require(recipient != address(0), "Invalid recipient");
+        require(amount > 0, "Invalid amount");
+        Epoch storage ep = epochs[epoch];
+        require(ep.committedRevealed, "Committed total not revealed");
+        require(amount <= ep.rewardPool - ep.committed, "Exceeds uncommitted pool");
         
-        dist.isClaimed = FHE.asEbool(true);
+        uint256 operationId = _createOperation(OperationKind.Withdrawal, recipient, amount, epoch, bytes32(0), 0);
+        emit WithdrawalProposed(operationId, epoch, recipient, amount, msg.sender);
+        // Proposing counts as the proposer's approval
+        approveOperation(operationId);
+        return operationId;
     }
 
-    function getDecryptedRoyalty(uint256 contributionId) public view returns (
-        uint32 share,
+    function approveOperation(uint256 operationId) public onlyRole(TREASURER_ROLE) {
+        Operation storage op = operations[operationId];
+        require(op.recipient != address(0), "Unknown operation");
+        require(op.status == OperationStatus.Pending, "Operation closed");
+        require(!operationApprovals[operationId][msg.sender], "Already approved");
+        
+        operationApprovals[operationId][msg.sender] = true;
+        operationApprovers[operationId].push(msg.sender);
+        emit OperationApproved(operationId, msg.sender, approvalCount(operationId));
+    }
+
+    // Once enough treasurers approved, anyone may execute; the epoch's pool is checked again at this point
+    function executeOperation(uint256 operationId) public {
+        Operation storage op = operations[operationId];
+        require(op.recipient != address(0), "Unknown operation");
+        require(op.status == OperationStatus.Pending, "Operation closed");
+        require(approvalCount(operationId) >= approvalThreshold, "Not enough approvals");
+        
+        // Settle before the transfer so a reentrant call sees the operation as executed
+        Epoch storage ep = epochs[op.epoch];
+        op.status = OperationStatus.Executed;
+        if (op.kind == OperationKind.Payout) {
+            require(ep.paid + op.amount <= ep.rewardPool, "Insufficient epoch pool");
+            royaltyDistributions[op.contributorHash].isClaimed = true;
+            delete pendingPayouts[op.contributorHash];
+            ep.paid += op.amount;
+        } else {
+            require(op.amount <= ep.rewardPool - ep.committed, "Exceeds uncommitted pool");
+            ep.rewardPool -= op.amount;
+        }
+        totalRewardPool -= op.amount;
+        
+        (bool sent, ) = op.recipient.call{value: op.amount}("");
+        require(sent, "Transfer failed");
+        
+        if (op.kind == OperationKind.Payout) {
+            emit RoyaltyPaid(op.requestId, op.contributorHash, op.recipient, op.amount, msg.sender);
+        } else {
+            emit PoolWithdrawn(operationId, op.epoch, op.recipient, op.amount);
+        }
+    }
+
+    // A cancelled payout lets the contributor claim again, e.g. to a payout address that accepts the transfer
+    function cancelOperation(uint256 operationId) public onlyRole(ADMIN_ROLE) {
+        Operation storage op = operations[operationId];
+        require(op.recipient != address(0), "Unknown operation");
+        require(op.status == OperationStatus.Pending, "Operation closed");
+        
+        op.status = OperationStatus.Cancelled;
+        if (op.kind == OperationKind.Payout) {
+            delete pendingPayouts[op.contributorHash];
+        }
+        emit OperationCancelled(operationId, msg.sender);
+    }
+
+    // Approvals of accounts that are no longer treasurers do not count
+    function approvalCount(uint256 operationId) public view returns (uint256 count) {
+        address[] storage approvers = operationApprovers[operationId];
+        for (uint256 i = 0; i < approvers.length; i++) {
+            if (roles[TREASURER_ROLE][approvers[i]]) count += 1;
+        }
+    }
+
+    function approversOf(uint256 operationId) public view returns (address[] memory) {
+        return operationApprovers[operationId];
+    }
+
+    function _createOperation(
+        OperationKind kind,
+        address payable recipient,
         uint256 amount,
-        bool isRevealed
-    ) {
+        uint256 epoch,
+        bytes32 contributorHash,
+        uint256 requestId
+    ) private returns (uint256) {
+        operationCount += 1;
+        operations[operationCount] = Operation({
+            kind: kind,
+            status: OperationStatus.Pending,
+            recipient: recipient,
+            amount: amount,
+            epoch: epoch,
+            contributorHash: contributorHash,
+            requestId: requestId
+        });
+        return operationCount;
+    }
+
+    // Other contributors and verifiers can challenge a calculated royalty until its challenge period ends
+    function openDispute(uint256 contributionId, bytes32 evidenceHash) public payable returns (uint256) {
+        require(
+            roles[CONTRIBUTOR_ROLE][msg.sender] || roles[VERIFIER_ROLE][msg.sender],
+            "Cannot open dispute"
+        );
+        require(msg.sender != contributorAddresses[contributionId], "Cannot dispute own contribution");
+        require(decryptedRoyalties[contributionId].isRevealed, "Royalty not calculated");
+        RoyaltyDistribution storage dist = royaltyDistributions[contributions[contributionId].contributorHash];
+        require(!dist.isVoided, "Royalty voided");
+        require(block.timestamp < dist.challengeEndsAt, "Challenge period over");
+        require(activeDisputes[contributionId] == 0, "Dispute already open");
+        require(evidenceHash != bytes32(0), "Invalid evidence hash");
+        require(msg.value == disputeBond, "Wrong bond");
+        
+        disputeCount += 1;
+        disputes[disputeCount] = Dispute({
+            contributionId: contributionId,
+            challenger: msg.sender,
+            bond: msg.value,
+            evidenceHash: evidenceHash,
+            status: DisputeStatus.Open,
+            openedAt: block.timestamp,
+            upholdVotes: 0,
+            dismissVotes: 0
+        });
+        activeDisputes[contributionId] = disputeCount;
+        epochs[dist.epoch].openDisputes += 1;
+        
+        emit DisputeOpened(disputeCount, contributionId, msg.sender, evidenceHash, msg.value);
+        return disputeCount;
+    }
+
+    // Verifiers other than the parties vote; the first side to reach the quorum decides
+    function voteOnDispute(uint256 disputeId, bool uphold) public onlyRole(VERIFIER_ROLE) {
+        Dispute storage dispute = disputes[disputeId];
+        require(dispute.challenger != address(0) && dispute.status == DisputeStatus.Open, "Dispute not open");
+        require(
+            msg.sender != dispute.challenger && msg.sender != contributorAddresses[dispute.contributionId],
+            "Cannot vote on own dispute"
+        );
+        require(!disputeVotes[disputeId][msg.sender], "Already voted");
+        
+        disputeVotes[disputeId][msg.sender] = true;
+        if (uphold) {
+            dispute.upholdVotes += 1;
+        } else {
+            dispute.dismissVotes += 1;
+        }
+        emit DisputeVoted(disputeId, msg.sender, uphold);
+        
+        if (dispute.upholdVotes >= disputeQuorum) {
+            _resolveDispute(disputeId, true);
+        } else if (dispute.dismissVotes >= disputeQuorum) {
+            _resolveDispute(disputeId, false);
+        }
+    }
+
+    function resolveDispute(uint256 disputeId, bool uphold) public onlyRole(ADMIN_ROLE) {
+        Dispute storage dispute = disputes[disputeId];
+        require(dispute.challenger != address(0) && dispute.status == DisputeStatus.Open, "Dispute not open");
+        _resolveDispute(disputeId, uphold);
+    }
+
+    // Upholding voids the royalty and refunds the bond; a dismissed challenger's bond funds the current epoch
+    function _resolveDispute(uint256 disputeId, bool uphold) private {
+        Dispute storage dispute = disputes[disputeId];
+        dispute.status = uphold ? DisputeStatus.Upheld : DisputeStatus.Dismissed;
+        delete activeDisputes[dispute.contributionId];
+        emit DisputeResolved(disputeId, dispute.contributionId, uphold, msg.sender);
+        
+        RoyaltyDistribution storage dist = royaltyDistributions[contributions[dispute.contributionId].contributorHash];
+        Epoch storage ep = epochs[dist.epoch];
+        ep.openDisputes -= 1;
+        bool refunded = false;
+        if (uphold) {
+            // The payment goes back to the part of the epoch's pool no calculation committed
+            dist.isVoided = true;
+            ep.encryptedCommitted = FHE.sub(ep.encryptedCommitted, dist.encryptedPaymentAmount);
+            FHE.allowThis(ep.encryptedCommitted);
+            // A challenger that cannot receive ETH forfeits the bond rather than keep the dispute open
+            (refunded, ) = payable(dispute.challenger).call{value: dispute.bond}("");
+        }
+        if (!refunded) {
+            uint256 epoch = currentEpoch();
+            epochs[epoch].rewardPool += dispute.bond;
+            totalRewardPool += dispute.bond;
+        }
+    }
+
+    // Account that submitted the contribution and was granted access to its handles
+    function contributorOf(uint256 contributionId) public view returns (address) {
+        return contributorAddresses[contributionId];
+    }
+
+    function getDecryptedRoyalty(uint256 contributionId) public view returns (bool isRevealed, uint256 rulesetId) {
         DecryptedRoyalty storage r = decryptedRoyalties[contributionId];
-        return (r.sharePercentage, r.paymentAmount, r.isRevealed);
+        return (r.isRevealed, r.rulesetId);
+    }
+
+    function weightedScore(
+        WeightRuleset storage ruleset,
+        euint32 computeHours,
+        euint32 dataQuality,
+        euint32 modelImpact
+    ) private returns (euint64) {
+        euint64 score = FHE.mul(FHE.asEuint64(computeHours), uint64(ruleset.computeWeight));
+        score = FHE.add(score, FHE.mul(FHE.asEuint64(dataQuality), uint64(ruleset.qualityWeight)));
+        return FHE.add(score, FHE.mul(FHE.asEuint64(modelImpact), uint64(ruleset.impactWeight)));
     }
 
-    function calculateSharePercentage(
-        uint32 computeHours,
-        uint32 dataQuality,
-        uint32 modelImpact
-    ) private pure returns (uint32) {
-        return (computeHours * 40 + dataQuality * 35 + modelImpact * 25) / 100;
+    // Recovers the signer of an EIP-191 personal message over `digest`
+    function recoverSigner(bytes32 digest, bytes calldata signature) private pure returns (address) {
+        require(signature.length == 65, "Invalid claim signature");
+        
+        bytes32 r = bytes32(signature[0:32]);
+        bytes32 s = bytes32(signature[32:64]);
+        uint8 v = uint8(signature[64]);
+        // Reject malleable signatures with a high s
+        require(
+            uint256(s) <= 0x7FFFFFFFFFFFFFFFFFFFFFFFFFFFFFFF5D576E7357A4501DDFE92F46681B20A0,
+            "Invalid claim signature"
+        );
+        
+        bytes32 message = keccak256(abi.encodePacked("\x19Ethereum Signed Message:\n32", digest));
+        address signer = ecrecover(message, v, r, s);
+        require(signer != address(0), "Invalid claim signature");
+        return signer;
     }
 
     function bytes32ToUint(bytes32 b) private pure returns (uint256) {
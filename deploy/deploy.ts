@@ -3,7 +3,7 @@ import fs from "fs";
 import path from "path";
 import readline from "readline";
 import { ethers as hardhatEthers } from "hardhat";
-import { Wallet, JsonRpcProvider } from "ethers";
+import { Wallet, JsonRpcProvider, getAddress, id } from "ethers";
 
 
 const WORD_LIBRARY = [
@@ -308,6 +308,8 @@ class DifferentialGenerator {
   }
 }
 
+const DEFAULT_EPOCH_DURATION = 7 * 24 * 60 * 60;
+
 async function ask(prompt: string): Promise<string> {
   const rl = readline.createInterface({ input: process.stdin, output: process.stdout });
   return new Promise<string>((resolve) =>
@@ -331,6 +333,36 @@ async function main() {
   const privateKey = await ask("Enter the deployer private key (testnet only): ");
   let rpc = await ask("Enter the RPC URL (press Enter to use public Sepolia: https://sepolia.drpc.org): ");
   if (!rpc) rpc = "https://sepolia.drpc.org";
+  const epochInput = await ask("Enter the royalty epoch duration in seconds (press Enter for 7 days): ");
+  const epochDuration = epochInput ? Number(epochInput) : DEFAULT_EPOCH_DURATION;
+  if (!Number.isInteger(epochDuration) || epochDuration <= 0) {
+    throw new Error(`Invalid epoch duration: ${epochInput}`);
+  }
+  // Calculated royalties can be disputed this long before they are claimable
+  const challengeInput = await ask("Enter the dispute challenge period in seconds (press Enter for 2 days): ");
+  const challengePeriod = challengeInput ? Number(challengeInput) : undefined;
+  if (challengePeriod !== undefined && (!Number.isInteger(challengePeriod) || challengePeriod < 0)) {
+    throw new Error(`Invalid challenge period: ${challengeInput}`);
+  }
+
+  // The deployer becomes the only admin; the other roles start empty unless filled in here
+  const verifiers = (await ask("Enter comma-separated verifier addresses (press Enter for none): "))
+    .split(",")
+    .filter(Boolean)
+    .map((address) => getAddress(address.trim()));
+  const treasurers = (await ask("Enter comma-separated treasurer addresses (press Enter for none): "))
+    .split(",")
+    .filter(Boolean)
+    .map((address) => getAddress(address.trim()));
+  // Payouts and withdrawals need this many treasurer approvals
+  const thresholdInput = treasurers.length
+    ? await ask(`Enter the payout approval threshold, 1-${treasurers.length} (press Enter for 1): `)
+    : "";
+  const approvalThreshold = thresholdInput ? Number(thresholdInput) : 1;
+  const maxThreshold = Math.max(treasurers.length, 1);
+  if (!Number.isInteger(approvalThreshold) || approvalThreshold < 1 || approvalThreshold > maxThreshold) {
+    throw new Error(`Invalid approval threshold: ${thresholdInput}`);
+  }
 
   const provider = new JsonRpcProvider(rpc);
   const wallet = new Wallet(privateKey, provider);
@@ -341,24 +373,65 @@ async function main() {
   const UniversalAdapterFactory = await hardhatEthers.getContractFactory("UniversalAdapter", wallet);
   const factory = await UniversalAdapterFactory.deploy();
   await factory.waitForDeployment();
+  const deployReceipt = await factory.deploymentTransaction()?.wait();
 
   const deployedAddress = (factory as any).target || (factory as any).address;
   console.log("UniversalAdapter contract deployed at:", deployedAddress);
 
+  // Deploy the FHE royalty contract
+  const RoyaltiesFactory = await hardhatEthers.getContractFactory("AiRoyalties_FHE", wallet);
+  const royalties = await RoyaltiesFactory.deploy(epochDuration);
+  await royalties.waitForDeployment();
+  const royaltiesReceipt = await royalties.deploymentTransaction()?.wait();
+
+  const royaltiesAddress = await royalties.getAddress();
+  console.log("AiRoyalties_FHE contract deployed at:", royaltiesAddress);
+
+  const grants: [string, string[]][] = [
+    ["VERIFIER_ROLE", verifiers],
+    ["TREASURER_ROLE", treasurers],
+  ];
+  for (const [role, accounts] of grants) {
+    for (const account of accounts) {
+      await (await royalties.grantRole(id(role), account)).wait();
+      console.log(`Granted ${role} to ${account}`);
+    }
+  }
+  if (approvalThreshold > 1) {
+    await (await royalties.setApprovalThreshold(approvalThreshold)).wait();
+    console.log(`Payouts need ${approvalThreshold} of ${treasurers.length} treasurer approvals`);
+  }
+  if (challengePeriod !== undefined) {
+    // Keeps the default bond and quorum
+    const [bond, quorum] = await Promise.all([royalties.disputeBond(), royalties.disputeQuorum()]);
+    await (await royalties.setDisputeTerms(challengePeriod, bond, quorum)).wait();
+    console.log(`Royalties can be disputed for ${challengePeriod} seconds after their calculation`);
+  }
+
   // Write config for the frontend
   const frontendConfigDir = path.join(__dirname, "..", "frontend", "web", "src");
   if (!fs.existsSync(frontendConfigDir)) {
     console.warn("Frontend src directory not found, skipping config.json write:", frontendConfigDir);
   } else {
+    // Keep the network registry and other settings already in the frontend config
+    const configPath = path.join(frontendConfigDir, "config.json");
+    const existing = fs.existsSync(configPath) ? JSON.parse(fs.readFileSync(configPath, "utf8")) : {};
+    const { chainId } = await provider.getNetwork();
+    const networkName = Object.keys(existing.networks || {}).find(
+      (name) => BigInt(existing.networks[name].chainId) === chainId
+    );
+
     const config = {
+      ...existing,
+      ...(networkName ? { defaultNetwork: networkName } : {}),
       network: rpc,
       contractAddress: deployedAddress,
+      royaltiesContractAddress: royaltiesAddress,
+      deployBlock: deployReceipt?.blockNumber ?? 0,
+      royaltiesDeployBlock: royaltiesReceipt?.blockNumber ?? 0,
       deployer: wallet.address,
     };
-    fs.writeFileSync(
-      path.join(frontendConfigDir, "config.json"),
-      JSON.stringify(config, null, 2)
-    );
+    fs.writeFileSync(configPath, JSON.stringify(config, null, 2));
     console.log("Wrote frontend config: frontend/web/src/config.json");
 
     // Copy ABI to the frontend
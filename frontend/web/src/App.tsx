@@ -1,22 +1,79 @@
 import React, { useEffect, useState } from "react";
 import { ethers } from "ethers";
-import { getContractReadOnly, getContractWithSigner } from "./contract";
+import { Link, useMatch } from "react-router-dom";
+import {
+  config,
+  getContractReadOnly,
+  getContractWithSigner,
+  getRoyaltiesClientReadOnly,
+  getRoyaltiesClientWithSigner,
+  loadContributionIndex,
+  streamContributionPages
+} from "./contract";
+import { CONTRIBUTION_KEY_PREFIX } from "../../../src/contributionIndex";
+import { getFhevmInstance } from "./fhevm";
+import { getDecryptionTracker } from "./decryptions";
+import DecryptionProgress from "./components/DecryptionProgress";
+import RewardPoolPanel from "./components/RewardPoolPanel";
+import EpochsPanel from "./components/EpochsPanel";
+import WeightProfilesPanel from "./components/WeightProfilesPanel";
+import { DecryptionRequest } from "../../../src/decryptionTracker";
+import { RevealedRoyalty, revealRoyaltyShare } from "../../../src/userDecryption";
+import { encryptContributionMetrics } from "../../../src/encryption";
+import { PayoutQueued } from "../../../src/royaltiesClient";
+import {
+  ContributionFacts,
+  ContributionState,
+  ContributionTransition,
+  ContributionEvents,
+  OFF_CHAIN_FACTS,
+  availableActions,
+  chainState,
+  deriveState,
+  loadContributionEvents,
+  loadContributionFacts,
+  loadContributionHistory
+} from "../../../src/contributionLifecycle";
+import { Role, can, loadAccountRoles } from "../../../src/roles";
+import { canOpenDispute } from "../../../src/disputes";
+import { KNOWN_MODELS, modelIdFor } from "../../../src/weightProfiles";
+import {
+  createClaimProof,
+  deriveCommitment,
+  loadOrCreateSecret,
+  loadSecret,
+  migratedCommitment
+} from "../../../src/contributorSecret";
+import ContributorSecretPanel from "./components/ContributorSecretPanel";
+import AclInspectorPanel from "./components/AclInspectorPanel";
+import RolesPanel from "./components/RolesPanel";
+import ReviewQueuePanel from "./components/ReviewQueuePanel";
+import TreasuryPanel from "./components/TreasuryPanel";
+import PayoutApprovals from "./components/PayoutApprovals";
+import DisputesPanel from "./components/DisputesPanel";
 import WalletManager from "./components/WalletManager";
 import WalletSelector from "./components/WalletSelector";
 import "./App.css";
 
 interface RoyaltyContribution {
   id: string;
-  encryptedData: string;
+  fheContributionId?: string;
+  // Moved over from UniversalAdapter; claimed with the owner's wallet instead of the contributor secret
+  migrated?: boolean;
   timestamp: number;
   owner: string;
   model: string;
   amount: number;
-  status: "pending" | "verified" | "paid";
+  facts: ContributionFacts;
 }
 
 const App: React.FC = () => {
   const [account, setAccount] = useState("");
+  // Verifiers work through submitted contributions on their own route
+  const reviewRoute = useMatch("/verify");
+  // Roles the connected account holds on the royalties contract
+  const [roles, setRoles] = useState<Role[]>([]);
+  const [rolesVersion, setRolesVersion] = useState(0);
   const [loading, setLoading] = useState(true);
   const [contributions, setContributions] = useState<RoyaltyContribution[]>([]);
   const [provider, setProvider] = useState<ethers.BrowserProvider | null>(null);
@@ -24,6 +81,19 @@ const App: React.FC = () => {
   const [showCreateModal, setShowCreateModal] = useState(false);
   const [creating, setCreating] = useState(false);
   const [walletSelectorOpen, setWalletSelectorOpen] = useState(false);
+  const [decryptions, setDecryptions] = useState<DecryptionRequest[]>([]);
+  // Privately revealed shares live in memory only and are never written back on-chain
+  const [revealedShares, setRevealedShares] = useState<Record<string, RevealedRoyalty>>({});
+  // On-chain transitions with the account behind each, loaded when a row's history is opened
+  const [histories, setHistories] = useState<Record<string, ContributionTransition[]>>({});
+  const [openHistory, setOpenHistory] = useState<string | null>(null);
+  const [claimTarget, setClaimTarget] = useState<RoyaltyContribution | null>(null);
+  const [claiming, setClaiming] = useState(false);
+  const [payoutReceipt, setPayoutReceipt] = useState<PayoutQueued | null>(null);
+  // Contribution picked with a row's Dispute button
+  const [disputeTarget, setDisputeTarget] = useState<string | undefined>();
+  // Bumped whenever a calculation or payout changes the pool accounting
+  const [poolVersion, setPoolVersion] = useState(0);
   const [transactionStatus, setTransactionStatus] = useState<{
     visible: boolean;
     status: "pending" | "success" | "error";
@@ -32,19 +102,62 @@ const App: React.FC = () => {
   const [newContributionData, setNewContributionData] = useState({
     model: "",
     description: "",
-    amount: ""
+    amount: "",
+    computeHours: "",
+    dataQuality: "",
+    modelImpact: ""
   });
 
+  const latestDecryption = (contribution: RoyaltyContribution) =>
+    decryptions.filter(r => r.contributionId === contribution.fheContributionId).pop();
+
+  // A request tracked in this session counts as pending before the facts are reloaded
+  const factsOf = (contribution: RoyaltyContribution): ContributionFacts =>
+    latestDecryption(contribution)?.status === "pending" && !contribution.facts.revealed
+      ? { ...contribution.facts, calculationPending: true }
+      : contribution.facts;
+
+  const stateOf = (contribution: RoyaltyContribution): ContributionState => chainState(factsOf(contribution));
+
+  const actionsOf = (contribution: RoyaltyContribution) =>
+    availableActions(stateOf(contribution), factsOf(contribution));
+
   // Calculate statistics for dashboard
-  const verifiedCount = contributions.filter(c => c.status === "verified").length;
-  const pendingCount = contributions.filter(c => c.status === "pending").length;
-  const paidCount = contributions.filter(c => c.status === "paid").length;
+  const calculatedStates: ContributionState[] = ["calculated", "claimable", "claiming"];
+  const verifiedCount = contributions.filter(c => calculatedStates.includes(stateOf(c))).length;
+  const paidCount = contributions.filter(c => stateOf(c) === "paid").length;
   const totalRoyalty = contributions.reduce((sum, c) => sum + c.amount, 0);
 
   useEffect(() => {
     loadContributions().finally(() => setLoading(false));
   }, []);
 
+  useEffect(() => {
+    let unsubscribe = () => {};
+    getDecryptionTracker()
+      .then(tracker => {
+        if (!tracker) return;
+        setDecryptions(tracker.list());
+        unsubscribe = tracker.subscribe(setDecryptions);
+      })
+      .catch(e => console.error("Failed to start decryption tracker:", e));
+    return () => unsubscribe();
+  }, []);
+
+  useEffect(() => {
+    if (!account) {
+      setRoles([]);
+      return;
+    }
+    getRoyaltiesClientReadOnly()
+      .then(royalties => (royalties ? loadAccountRoles(royalties, account) : []))
+      .then(setRoles)
+      .catch(e => {
+        console.error("Failed to load account roles:", e);
+        setRoles([]);
+      });
+  }, [account, rolesVersion]);
+
   const onWalletSelect = async (wallet: any) => {
     if (!wallet.provider) return;
     try {
@@ -82,45 +195,82 @@ const App: React.FC = () => {
         return;
       }
       
-      const keysBytes = await contract.getData("contribution_keys");
-      let keys: string[] = [];
+      const index = await loadContributionIndex();
+      // Newest first, so the first page holds the most recent contributions
+      const keys = index.map(entry => entry.id).reverse();
       
-      if (keysBytes.length > 0) {
+      const list: RoyaltyContribution[] = [];
+      const royalties = await getRoyaltiesClientReadOnly();
+      const tracker = await getDecryptionTracker().catch(() => null);
+      
+      // One chunked query per event type covers a whole page of contributions
+      const eventsFor = async (fheContributionIds: string[]): Promise<ContributionEvents | undefined> => {
+        if (!royalties || fheContributionIds.length === 0) return undefined;
         try {
-          keys = JSON.parse(ethers.toUtf8String(keysBytes));
+          return await loadContributionEvents(royalties, fheContributionIds, {
+            fromBlock: config.royaltiesDeployBlock
+          });
         } catch (e) {
-          console.error("Error parsing contribution keys:", e);
+          console.error("Failed to load contribution events:", e);
+          return undefined;
         }
-      }
-      
-      const list: RoyaltyContribution[] = [];
+      };
       
-      for (const key of keys) {
+      // The lifecycle state is derived from these on-chain facts, not from the stored status
+      const factsFor = async (events?: ContributionEvents, fheContributionId?: string): Promise<ContributionFacts> => {
+        if (!royalties || !events || !fheContributionId) return OFF_CHAIN_FACTS;
         try {
-          const contributionBytes = await contract.getData(`contribution_${key}`);
-          if (contributionBytes.length > 0) {
-            try {
-              const contributionData = JSON.parse(ethers.toUtf8String(contributionBytes));
-              list.push({
-                id: key,
-                encryptedData: contributionData.data,
-                timestamp: contributionData.timestamp,
-                owner: contributionData.owner,
-                model: contributionData.model,
-                amount: contributionData.amount || 0,
-                status: contributionData.status || "pending"
-              });
-            } catch (e) {
-              console.error(`Error parsing contribution data for ${key}:`, e);
-            }
-          }
+          return await loadContributionFacts(royalties, fheContributionId, {
+            events,
+            decryption: tracker?.latestForContribution(fheContributionId)?.status
+          });
         } catch (e) {
-          console.error(`Error loading contribution ${key}:`, e);
+          console.error(`Failed to load on-chain state of contribution ${fheContributionId}:`, e);
+          return OFF_CHAIN_FACTS;
         }
-      }
+      };
       
-      list.sort((a, b) => b.timestamp - a.timestamp);
-      setContributions(list);
+      for await (const page of await streamContributionPages(keys)) {
+        const records = page.records.flatMap(record => {
+          const key = record.key.substring(CONTRIBUTION_KEY_PREFIX.length);
+          if (record.value === "0x") return [];
+          try {
+            return [{ key, contributionData: JSON.parse(ethers.toUtf8String(record.value)) }];
+          } catch (e) {
+            console.error(`Error parsing contribution data for ${key}:`, e);
+            return [];
+          }
+        });
+        const events = await eventsFor(
+          records
+            .map(({ contributionData }) => contributionData.fheContributionId)
+            .filter((id): id is string => typeof id === "string" && /^[0-9]+$/.test(id))
+        );
+        const load = async ({ key, contributionData }: typeof records[number]): Promise<RoyaltyContribution | null> => {
+          try {
+            const facts = await factsFor(events, contributionData.fheContributionId);
+            return {
+              id: key,
+              fheContributionId: contributionData.fheContributionId,
+              migrated: !!contributionData.migrated,
+              timestamp: contributionData.timestamp,
+              owner: contributionData.owner,
+              model: contributionData.model,
+              amount: contributionData.amount || 0,
+              facts
+            };
+          } catch (e) {
+            console.error(`Error loading contribution ${key}:`, e);
+            return null;
+          }
+        };
+        const parsed = await Promise.all(records.map(load));
+        list.push(...parsed.filter((contribution): contribution is RoyaltyContribution => contribution !== null));
+        
+        list.sort((a, b) => b.timestamp - a.timestamp);
+        setContributions([...list]);
+        setLoading(false);
+      }
     } catch (e) {
       console.error("Error loading contributions:", e);
     } finally {
@@ -134,6 +284,10 @@ const App: React.FC = () => {
       alert("Please connect wallet first"); 
       return; 
     }
+    if (!can(roles, "submit")) {
+      alert("Only accounts with the contributor role can submit contributions");
+      return;
+    }
     
     setCreating(true);
     setTransactionStatus({
@@ -143,48 +297,53 @@ const App: React.FC = () => {
     });
     
     try {
-      // Simulate FHE encryption
-      const encryptedData = `FHE-${btoa(JSON.stringify(newContributionData))}`;
+      const royalties = await getRoyaltiesClientWithSigner();
+      const fhevm = await getFhevmInstance();
+      const sender = ethers.getAddress(account);
+
+      // Metrics are encrypted client-side as euint32 inputs bound to the royalty contract
+      const encrypted = await encryptContributionMetrics(fhevm, royalties.address, sender, {
+        computeHours: Number(newContributionData.computeHours),
+        dataQuality: Number(newContributionData.dataQuality),
+        modelImpact: Number(newContributionData.modelImpact)
+      });
+      
+      setTransactionStatus({
+        visible: true,
+        status: "pending",
+        message: "Submitting encrypted contribution..."
+      });
+      
+      const contributionId = `${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
+      // Only this device's secret can later prove ownership of the hash
+      const commitment = deriveCommitment(loadOrCreateSecret(window.localStorage, sender), contributionId);
+      
+      const { contributionId: fheContributionId } = await royalties.submitEncryptedContribution({
+        ...encrypted,
+        contributorHash: commitment.contributorHash,
+        modelId: modelIdFor(newContributionData.model)
+      });
       
       const contract = await getContractWithSigner();
       if (!contract) {
         throw new Error("Failed to get contract with signer");
       }
-      
-      const contributionId = `${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
 
       const contributionData = {
-        data: encryptedData,
+        fheContributionId: fheContributionId.toString(),
         timestamp: Math.floor(Date.now() / 1000),
         owner: account,
         model: newContributionData.model,
         amount: parseFloat(newContributionData.amount) || 0,
-        status: "pending"
+        status: "submitted"
       };
       
-      // Store encrypted data on-chain using FHE
-      await contract.setData(
+      // The DataStored event emitted here is what adds the record to the contribution index
+      const tx = await contract.setData(
         `contribution_${contributionId}`, 
         ethers.toUtf8Bytes(JSON.stringify(contributionData))
       );
-      
-      const keysBytes = await contract.getData("contribution_keys");
-      let keys: string[] = [];
-      
-      if (keysBytes.length > 0) {
-        try {
-          keys = JSON.parse(ethers.toUtf8String(keysBytes));
-        } catch (e) {
-          console.error("Error parsing keys:", e);
-        }
-      }
-      
-      keys.push(contributionId);
-      
-      await contract.setData(
-        "contribution_keys", 
-        ethers.toUtf8Bytes(JSON.stringify(keys))
-      );
+      await tx.wait();
       
       setTransactionStatus({
         visible: true,
@@ -200,7 +359,10 @@ const App: React.FC = () => {
         setNewContributionData({
           model: "",
           description: "",
-          amount: ""
+          amount: "",
+          computeHours: "",
+          dataQuality: "",
+          modelImpact: ""
         });
       }, 2000);
     } catch (e: any) {
@@ -222,7 +384,7 @@ const App: React.FC = () => {
     }
   };
 
-  const verifyContribution = async (contributionId: string) => {
+  const verifyContribution = async (contribution: RoyaltyContribution) => {
     if (!provider) {
       alert("Please connect wallet first");
       return;
@@ -231,34 +393,51 @@ const App: React.FC = () => {
     setTransactionStatus({
       visible: true,
       status: "pending",
-      message: "Processing encrypted contribution with FHE..."
+      message: "Requesting FHE royalty calculation..."
     });
 
     try {
-      // Simulate FHE computation time
-      await new Promise(resolve => setTimeout(resolve, 3000));
-      
-      const contract = await getContractWithSigner();
-      if (!contract) {
-        throw new Error("Failed to get contract with signer");
+      if (!contribution.fheContributionId) {
+        throw new Error("Contribution has no encrypted on-chain record");
+      }
+      if (!can(roles, "calculate")) {
+        throw new Error("Only verifiers can request royalty calculations");
+      }
+      if (!actionsOf(contribution).includes("calculate")) {
+        throw new Error(`A ${stateOf(contribution)} contribution cannot be calculated`);
       }
       
-      const contributionBytes = await contract.getData(`contribution_${contributionId}`);
-      if (contributionBytes.length === 0) {
-        throw new Error("Contribution not found");
+      const tracker = await getDecryptionTracker();
+      if (!tracker) {
+        throw new Error("Royalties contract is not available");
       }
       
-      const contributionData = JSON.parse(ethers.toUtf8String(contributionBytes));
+      const royalties = await getRoyaltiesClientWithSigner();
+      const { requestId, receipt } = await royalties.calculateRoyaltyShare(contribution.fheContributionId);
+      tracker.track({
+        requestId: requestId.toString(),
+        contributionId: contribution.fheContributionId,
+        requestBlock: receipt.blockNumber,
+        transactionHash: receipt.hash
+      });
       
-      const updatedContribution = {
-        ...contributionData,
-        status: "verified"
-      };
+      setTransactionStatus({
+        visible: true,
+        status: "success",
+        message: "Calculation requested, waiting for the decryption oracle"
+      });
       
-      await contract.setData(
-        `contribution_${contributionId}`, 
-        ethers.toUtf8Bytes(JSON.stringify(updatedContribution))
-      );
+      setTimeout(() => {
+        setTransactionStatus({ visible: false, status: "pending", message: "" });
+      }, 2000);
+      
+      // The oracle answers asynchronously; progress is shown on the contribution row meanwhile
+      const result = await tracker.waitFor(requestId);
+      if (result.status !== "decrypted") {
+        throw new Error(result.error || `Decryption ${result.status}`);
+      }
+      
+      setPoolVersion(v => v + 1);
       
       setTransactionStatus({
         visible: true,
@@ -284,60 +463,156 @@ const App: React.FC = () => {
     }
   };
 
-  const payoutContribution = async (contributionId: string) => {
+  const claimContribution = async (contribution: RoyaltyContribution, payoutAddress: string) => {
     if (!provider) {
       alert("Please connect wallet first");
       return;
     }
 
+    setClaiming(true);
     setTransactionStatus({
       visible: true,
       status: "pending",
-      message: "Processing royalty payout with FHE..."
+      message: "Requesting payout decryption..."
     });
 
     try {
-      // Simulate FHE computation time
-      await new Promise(resolve => setTimeout(resolve, 3000));
-      
-      const contract = await getContractWithSigner();
-      if (!contract) {
-        throw new Error("Failed to get contract with signer");
+      if (!contribution.fheContributionId) {
+        throw new Error("Contribution has no encrypted on-chain record");
+      }
+      if (!actionsOf(contribution).includes("claim")) {
+        throw new Error(`A ${stateOf(contribution)} contribution cannot be claimed`);
       }
       
-      const contributionBytes = await contract.getData(`contribution_${contributionId}`);
-      if (contributionBytes.length === 0) {
+      const royalties = await getRoyaltiesClientWithSigner();
+      const record = await royalties.getContribution(contribution.fheContributionId);
+      if (!record) {
         throw new Error("Contribution not found");
       }
       
-      const contributionData = JSON.parse(ethers.toUtf8String(contributionBytes));
-      
-      const updatedContribution = {
-        ...contributionData,
-        status: "paid"
-      };
+      let commitment;
+      if (contribution.migrated) {
+        if (contribution.owner.toLowerCase() !== account.toLowerCase()) {
+          throw new Error("Migrated contributions can only be claimed from the wallet that owned them");
+        }
+        commitment = {
+          ...migratedCommitment(contribution.owner, contribution.id),
+          claimKey: await provider.getSigner()
+        };
+      } else {
+        const secret = loadSecret(window.localStorage, account);
+        if (!secret) {
+          throw new Error("No contributor secret on this device; import your backup first");
+        }
+        commitment = deriveCommitment(secret, contribution.id);
+      }
+      if (commitment.contributorHash !== record.contributorHash) {
+        throw new Error("This contribution was committed with a different contributor secret");
+      }
       
-      await contract.setData(
-        `contribution_${contributionId}`, 
-        ethers.toUtf8Bytes(JSON.stringify(updatedContribution))
-      );
+      const payout = ethers.getAddress(payoutAddress);
+      const { chainId } = await provider.getNetwork();
+      const proof = await createClaimProof(commitment, royalties.address, chainId, payout);
+      const { requestId, receipt } = await royalties.claimRoyalty(record.contributorHash, payout, proof);
       
       setTransactionStatus({
         visible: true,
-        status: "success",
-        message: "Royalty payout completed successfully!"
+        status: "pending",
+        message: "Claim submitted, waiting for the decryption oracle to queue the payout..."
       });
       
+      const queued = await royalties.waitForPayoutQueued(requestId, receipt.blockNumber);
+      setPayoutReceipt(queued);
+      setPoolVersion(v => v + 1);
+      
+      setTransactionStatus({ visible: false, status: "pending", message: "" });
       await loadContributions();
+    } catch (e: any) {
+      setTransactionStatus({
+        visible: true,
+        status: "error",
+        message: "Claim failed: " + (e.message || "Unknown error")
+      });
       
       setTimeout(() => {
         setTransactionStatus({ visible: false, status: "pending", message: "" });
-      }, 2000);
+      }, 3000);
+    } finally {
+      setClaiming(false);
+    }
+  };
+
+  const closeClaim = () => {
+    setClaimTarget(null);
+    setPayoutReceipt(null);
+  };
+
+  // Fetched on demand so loading the list costs no per-contribution history scan
+  const toggleHistory = async (contribution: RoyaltyContribution) => {
+    if (openHistory === contribution.id) {
+      setOpenHistory(null);
+      return;
+    }
+    setOpenHistory(contribution.id);
+    try {
+      const royalties = await getRoyaltiesClientReadOnly();
+      if (!royalties) return;
+      const history = await loadContributionHistory(royalties, contribution.fheContributionId, {
+        fromBlock: config.royaltiesDeployBlock
+      });
+      try {
+        deriveState(contribution.facts, history);
+      } catch (e) {
+        // Still shown as the chain has it, but the change skipped the lifecycle graph or its guards
+        console.error(`Contribution ${contribution.id} left its lifecycle:`, e);
+      }
+      setHistories(current => ({ ...current, [contribution.id]: history }));
+    } catch (e) {
+      console.error(`Failed to load history of contribution ${contribution.id}:`, e);
+      setHistories(current => ({ ...current, [contribution.id]: [] }));
+    }
+  };
+
+  const revealShare = async (contribution: RoyaltyContribution) => {
+    if (!provider) {
+      alert("Please connect wallet first");
+      return;
+    }
+
+    setTransactionStatus({
+      visible: true,
+      status: "pending",
+      message: "Sign the request to decrypt your share privately..."
+    });
+
+    try {
+      if (!contribution.fheContributionId) {
+        throw new Error("Contribution has no encrypted on-chain record");
+      }
+      
+      const royalties = await getRoyaltiesClientReadOnly();
+      if (!royalties) {
+        throw new Error("Royalties contract is not available");
+      }
+      
+      const record = await royalties.getContribution(contribution.fheContributionId);
+      if (!record) {
+        throw new Error("Contribution not found");
+      }
+      
+      const revealed = await revealRoyaltyShare(
+        await getFhevmInstance(),
+        await provider.getSigner(),
+        royalties,
+        record.contributorHash
+      );
+      setRevealedShares(prev => ({ ...prev, [contribution.id]: revealed }));
+      setTransactionStatus({ visible: false, status: "pending", message: "" });
     } catch (e: any) {
       setTransactionStatus({
         visible: true,
         status: "error",
-        message: "Payout failed: " + (e.message || "Unknown error")
+        message: "Reveal failed: " + (e.message || "Unknown error")
       });
       
       setTimeout(() => {
@@ -399,10 +674,17 @@ const App: React.FC = () => {
           <h1>FHE<span>Royalties</span></h1>
         </div>
         
+        <nav className="header-nav">
+          <Link to="/" className={reviewRoute ? "" : "active"}>Dashboard</Link>
+          <Link to="/verify" className={reviewRoute ? "active" : ""}>Review Queue</Link>
+        </nav>
+        
         <div className="header-actions">
           <button 
             onClick={() => setShowCreateModal(true)} 
             className="create-contribution-btn cyber-button"
+            disabled={!can(roles, "submit")}
+            title={can(roles, "submit") ? undefined : "Requires the contributor role"}
           >
             <div className="add-icon"></div>
             Add Contribution
@@ -411,148 +693,260 @@ const App: React.FC = () => {
         </div>
       </header>
       
-      <div className="main-content">
-        <div className="welcome-banner">
-          <div className="welcome-text">
-            <h2>Anonymous Royalties for AI Model Contributions</h2>
-            <p>Securely receive royalties for your AI model contributions using FHE technology</p>
-          </div>
+      {reviewRoute ? (
+        <div className="main-content">
+          <ReviewQueuePanel account={account} roles={roles} onDecided={loadContributions} />
         </div>
-        
-        <div className="dashboard-grid">
-          <div className="dashboard-card cyber-card intro-card">
-            <h3>Project Introduction</h3>
-            <p>FHE Royalties enables decentralized AI model contributors to receive anonymous, encrypted royalty payments using Fully Homomorphic Encryption technology.</p>
-            <div className="fhe-badge">
-              <span>FHE-Powered</span>
+      ) : (
+        <div className="main-content">
+          <div className="welcome-banner">
+            <div className="welcome-text">
+              <h2>Anonymous Royalties for AI Model Contributions</h2>
+              <p>Securely receive royalties for your AI model contributions using FHE technology</p>
             </div>
-            <div className="feature-list">
-              <div className="feature-item">
-                <div className="feature-icon">🔒</div>
-                <span>Encrypted contribution verification</span>
-              </div>
-              <div className="feature-item">
-                <div className="feature-icon">🤖</div>
-                <span>Anonymous royalty distribution</span>
+          </div>
+        
+          <div className="dashboard-grid">
+            <div className="dashboard-card cyber-card intro-card">
+              <h3>Project Introduction</h3>
+              <p>FHE Royalties enables decentralized AI model contributors to receive anonymous, encrypted royalty payments using Fully Homomorphic Encryption technology.</p>
+              <div className="fhe-badge">
+                <span>FHE-Powered</span>
               </div>
-              <div className="feature-item">
-                <div className="feature-icon">⚡</div>
-                <span>Decentralized AI ecosystem support</span>
+              <div className="feature-list">
+                <div className="feature-item">
+                  <div className="feature-icon">🔒</div>
+                  <span>Encrypted contribution verification</span>
+                </div>
+                <div className="feature-item">
+                  <div className="feature-icon">🤖</div>
+                  <span>Anonymous royalty distribution</span>
+                </div>
+                <div className="feature-item">
+                  <div className="feature-icon">⚡</div>
+                  <span>Decentralized AI ecosystem support</span>
+                </div>
               </div>
             </div>
-          </div>
           
-          <div className="dashboard-card cyber-card">
-            <h3>Royalty Statistics</h3>
-            <div className="stats-grid">
-              <div className="stat-item">
-                <div className="stat-value">{contributions.length}</div>
-                <div className="stat-label">Total Contributions</div>
-              </div>
-              <div className="stat-item">
-                <div className="stat-value">{verifiedCount}</div>
-                <div className="stat-label">Verified</div>
-              </div>
-              <div className="stat-item">
-                <div className="stat-value">{paidCount}</div>
-                <div className="stat-label">Paid Out</div>
-              </div>
-              <div className="stat-item">
-                <div className="stat-value">{totalRoyalty.toFixed(2)}</div>
-                <div className="stat-label">Total Royalty (ETH)</div>
+            <div className="dashboard-card cyber-card">
+              <h3>Royalty Statistics</h3>
+              <div className="stats-grid">
+                <div className="stat-item">
+                  <div className="stat-value">{contributions.length}</div>
+                  <div className="stat-label">Total Contributions</div>
+                </div>
+                <div className="stat-item">
+                  <div className="stat-value">{verifiedCount}</div>
+                  <div className="stat-label">Verified</div>
+                </div>
+                <div className="stat-item">
+                  <div className="stat-value">{paidCount}</div>
+                  <div className="stat-label">Paid Out</div>
+                </div>
+                <div className="stat-item">
+                  <div className="stat-value">{totalRoyalty.toFixed(2)}</div>
+                  <div className="stat-label">Reported Royalty (ETH)</div>
+                </div>
               </div>
             </div>
-          </div>
           
-          <div className="dashboard-card cyber-card">
-            <h3>Top Models by Royalty</h3>
-            {contributions.length > 0 ? (
-              renderBarChart()
-            ) : (
-              <div className="no-data">No data available</div>
-            )}
-          </div>
-        </div>
-        
-        <div className="contributions-section">
-          <div className="section-header">
-            <h2>AI Model Contributions</h2>
-            <div className="header-actions">
-              <button 
-                onClick={loadContributions}
-                className="refresh-btn cyber-button"
-                disabled={isRefreshing}
-              >
-                {isRefreshing ? "Refreshing..." : "Refresh"}
-              </button>
+            <div className="dashboard-card cyber-card">
+              <h3>Top Models by Royalty</h3>
+              {contributions.length > 0 ? (
+                renderBarChart()
+              ) : (
+                <div className="no-data">No data available</div>
+              )}
             </div>
           </div>
-          
-          <div className="contributions-list cyber-card">
-            <div className="table-header">
-              <div className="header-cell">ID</div>
-              <div className="header-cell">Model</div>
-              <div className="header-cell">Contributor</div>
-              <div className="header-cell">Date</div>
-              <div className="header-cell">Amount</div>
-              <div className="header-cell">Status</div>
-              <div className="header-cell">Actions</div>
-            </div>
-            
-            {contributions.length === 0 ? (
-              <div className="no-contributions">
-                <div className="no-contributions-icon"></div>
-                <p>No contributions found</p>
+        
+          <RewardPoolPanel account={account} refreshKey={poolVersion} />
+        
+          <EpochsPanel
+            roles={roles}
+            refreshKey={poolVersion}
+            onRolledOver={() => setPoolVersion(v => v + 1)}
+          />
+        
+          <TreasuryPanel
+            account={account}
+            roles={roles}
+            refreshKey={poolVersion}
+            onExecuted={() => {
+              setPoolVersion(v => v + 1);
+              loadContributions();
+            }}
+          />
+        
+          <DisputesPanel
+            account={account}
+            roles={roles}
+            target={disputeTarget}
+            onResolved={() => {
+              setPoolVersion(v => v + 1);
+              loadContributions();
+            }}
+          />
+        
+          <WeightProfilesPanel roles={roles} refreshKey={poolVersion} />
+        
+          <RolesPanel roles={roles} refreshKey={rolesVersion} onChanged={() => setRolesVersion(v => v + 1)} />
+        
+          {account && <ContributorSecretPanel account={account} />}
+        
+          <AclInspectorPanel />
+        
+          <div className="contributions-section">
+            <div className="section-header">
+              <h2>AI Model Contributions</h2>
+              <div className="header-actions">
                 <button 
-                  className="cyber-button primary"
-                  onClick={() => setShowCreateModal(true)}
+                  onClick={loadContributions}
+                  className="refresh-btn cyber-button"
+                  disabled={isRefreshing}
                 >
-                  Create First Contribution
+                  {isRefreshing ? "Refreshing..." : "Refresh"}
                 </button>
               </div>
-            ) : (
-              contributions.map(contribution => (
-                <div className="contribution-row" key={contribution.id}>
-                  <div className="table-cell contribution-id">#{contribution.id.substring(0, 6)}</div>
-                  <div className="table-cell">{contribution.model}</div>
-                  <div className="table-cell">{contribution.owner.substring(0, 6)}...{contribution.owner.substring(38)}</div>
-                  <div className="table-cell">
-                    {new Date(contribution.timestamp * 1000).toLocaleDateString()}
-                  </div>
-                  <div className="table-cell">{contribution.amount} ETH</div>
-                  <div className="table-cell">
-                    <span className={`status-badge ${contribution.status}`}>
-                      {contribution.status}
-                    </span>
-                  </div>
-                  <div className="table-cell actions">
-                    {isOwner(contribution.owner) && (
-                      <>
-                        {contribution.status === "pending" && (
-                          <button 
-                            className="action-btn cyber-button success"
-                            onClick={() => verifyContribution(contribution.id)}
-                          >
-                            Verify
-                          </button>
-                        )}
-                        {contribution.status === "verified" && (
-                          <button 
-                            className="action-btn cyber-button primary"
-                            onClick={() => payoutContribution(contribution.id)}
+            </div>
+          
+            <div className="contributions-list cyber-card">
+              <div className="table-header">
+                <div className="header-cell">ID</div>
+                <div className="header-cell">Model</div>
+                <div className="header-cell">Contributor</div>
+                <div className="header-cell">Date</div>
+                <div className="header-cell">Amount</div>
+                <div className="header-cell">Status</div>
+                <div className="header-cell">Actions</div>
+              </div>
+            
+              {contributions.length === 0 ? (
+                <div className="no-contributions">
+                  <div className="no-contributions-icon"></div>
+                  <p>No contributions found</p>
+                  <button 
+                    className="cyber-button primary"
+                    onClick={() => setShowCreateModal(true)}
+                    disabled={!can(roles, "submit")}
+                  >
+                    Create First Contribution
+                  </button>
+                </div>
+              ) : (
+                contributions.map(contribution => (
+                  <div className="contribution-row" key={contribution.id}>
+                    <div className="table-cell contribution-id">#{contribution.id.substring(0, 6)}</div>
+                    <div className="table-cell">{contribution.model}</div>
+                    <div className="table-cell">{contribution.owner.substring(0, 6)}...{contribution.owner.substring(38)}</div>
+                    <div className="table-cell">
+                      {new Date(contribution.timestamp * 1000).toLocaleDateString()}
+                    </div>
+                    <div className="table-cell">{contribution.amount} ETH</div>
+                    <div className="table-cell">
+                      <span className={`status-badge ${stateOf(contribution)}`}>
+                        {stateOf(contribution).replace("-", " ")}
+                      </span>
+                      <DecryptionProgress request={latestDecryption(contribution)} />
+                      {contribution.facts.challengeRunning && (
+                        <div className="challenge-window">
+                          Challengeable until{" "}
+                          {new Date(Number(contribution.facts.challengeEndsAt) * 1000).toLocaleString()}
+                        </div>
+                      )}
+                      {actionsOf(contribution).includes("approvePayout") && contribution.fheContributionId && (
+                        <PayoutApprovals
+                          account={account}
+                          roles={roles}
+                          contributionId={contribution.fheContributionId}
+                          onExecuted={() => {
+                            setPoolVersion(v => v + 1);
+                            loadContributions();
+                          }}
+                        />
+                      )}
+                      {contribution.facts.onChain && (
+                        <button className="history-toggle" onClick={() => toggleHistory(contribution)}>
+                          {openHistory === contribution.id ? "Hide history" : "History"}
+                        </button>
+                      )}
+                      {openHistory === contribution.id && (
+                        <div className="transition-history">
+                          {!histories[contribution.id] && <span>Loading...</span>}
+                          {histories[contribution.id]?.map(entry => (
+                            <span
+                              key={`${entry.transactionHash}-${entry.state}`}
+                              title={entry.decision?.reason || entry.actor || undefined}
+                            >
+                              {entry.decision
+                                ? entry.decision.approved ? "approved" : "rejected"
+                                : entry.state.replace("-", " ")}{" "}
+                              by{" "}
+                              {entry.actor ? `${entry.actor.substring(0, 6)}...${entry.actor.substring(38)}` : "oracle"}
+                            </span>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+                    <div className="table-cell actions">
+                      {can(roles, "calculate") && actionsOf(contribution).includes("calculate") && (
+                        <button 
+                          className="action-btn cyber-button success"
+                          onClick={() => verifyContribution(contribution)}
+                        >
+                          Calculate
+                        </button>
+                      )}
+                      {can(roles, "review") && actionsOf(contribution).includes("review") && (
+                        <Link to="/verify" className="action-btn cyber-button">
+                          Review
+                        </Link>
+                      )}
+                      {actionsOf(contribution).includes("dispute") &&
+                        canOpenDispute(roles, account, contribution.owner) && (
+                          <button
+                            className="action-btn cyber-button danger"
+                            onClick={() => setDisputeTarget(contribution.fheContributionId)}
                           >
-                            Payout
+                            Dispute
                           </button>
                         )}
-                      </>
-                    )}
+                      {isOwner(contribution.owner) && (
+                        <>
+                          {actionsOf(contribution).includes("claim") && (
+                            <button 
+                              className="action-btn cyber-button primary"
+                              onClick={() => setClaimTarget(contribution)}
+                            >
+                              Claim
+                            </button>
+                          )}
+                          {actionsOf(contribution).includes("reveal") && (
+                            revealedShares[contribution.id] ? (
+                              <span className="revealed-share" title="Visible to you only">
+                                {(Number(revealedShares[contribution.id].share) / 100).toFixed(2)}% ·{" "}
+                                {ethers.formatEther(revealedShares[contribution.id].paymentAmount)} ETH
+                              </span>
+                            ) : (
+                              <button 
+                                className="action-btn cyber-button"
+                                onClick={() => revealShare(contribution)}
+                              >
+                                Reveal to me
+                              </button>
+                            )
+                          )}
+                        </>
+                      )}
+                    </div>
                   </div>
-                </div>
-              ))
-            )}
+                ))
+              )}
+            </div>
           </div>
         </div>
-      </div>
+      )}
   
       {showCreateModal && (
         <ModalCreate 
@@ -564,6 +958,17 @@ const App: React.FC = () => {
         />
       )}
       
+      {claimTarget && (
+        <ModalClaim 
+          contribution={claimTarget}
+          defaultPayoutAddress={account}
+          onSubmit={(payoutAddress) => claimContribution(claimTarget, payoutAddress)} 
+          onClose={closeClaim} 
+          claiming={claiming}
+          receipt={payoutReceipt}
+        />
+      )}
+      
       {walletSelectorOpen && (
         <WalletSelector
           isOpen={walletSelectorOpen}
@@ -642,7 +1047,13 @@ const ModalCreate: React.FC<ModalCreateProps> = ({
   };
 
   const handleSubmit = () => {
-    if (!contributionData.model || !contributionData.amount) {
+    if (
+      !contributionData.model ||
+      !contributionData.amount ||
+      !contributionData.computeHours ||
+      !contributionData.dataQuality ||
+      !contributionData.modelImpact
+    ) {
       alert("Please fill required fields");
       return;
     }
@@ -673,11 +1084,11 @@ const ModalCreate: React.FC<ModalCreateProps> = ({
                 className="cyber-select"
               >
                 <option value="">Select model</option>
-                <option value="Bittensor">Bittensor</option>
-                <option value="GPT-4">GPT-4</option>
-                <option value="LLaMA">LLaMA</option>
-                <option value="Stable Diffusion">Stable Diffusion</option>
-                <option value="Custom">Custom Model</option>
+                {KNOWN_MODELS.map(model => (
+                  <option key={model} value={model}>
+                    {model === "Custom" ? "Custom Model" : model}
+                  </option>
+                ))}
               </select>
             </div>
             
@@ -695,6 +1106,48 @@ const ModalCreate: React.FC<ModalCreateProps> = ({
               />
             </div>
             
+            <div className="form-group">
+              <label>Compute Hours *</label>
+              <input 
+                type="number"
+                name="computeHours"
+                value={contributionData.computeHours} 
+                onChange={handleChange}
+                placeholder="0" 
+                className="cyber-input"
+                step="1"
+                min="0"
+              />
+            </div>
+            
+            <div className="form-group">
+              <label>Data Quality Score *</label>
+              <input 
+                type="number"
+                name="dataQuality"
+                value={contributionData.dataQuality} 
+                onChange={handleChange}
+                placeholder="0" 
+                className="cyber-input"
+                step="1"
+                min="0"
+              />
+            </div>
+            
+            <div className="form-group">
+              <label>Model Impact Score *</label>
+              <input 
+                type="number"
+                name="modelImpact"
+                value={contributionData.modelImpact} 
+                onChange={handleChange}
+                placeholder="0" 
+                className="cyber-input"
+                step="1"
+                min="0"
+              />
+            </div>
+            
             <div className="form-group full-width">
               <label>Contribution Description</label>
               <textarea 
@@ -733,4 +1186,106 @@ const ModalCreate: React.FC<ModalCreateProps> = ({
   );
 };
 
+interface ModalClaimProps {
+  contribution: RoyaltyContribution;
+  defaultPayoutAddress: string;
+  onSubmit: (payoutAddress: string) => void;
+  onClose: () => void;
+  claiming: boolean;
+  receipt: PayoutQueued | null;
+}
+
+const ModalClaim: React.FC<ModalClaimProps> = ({
+  contribution,
+  defaultPayoutAddress,
+  onSubmit,
+  onClose,
+  claiming,
+  receipt
+}) => {
+  const [payoutAddress, setPayoutAddress] = useState(defaultPayoutAddress);
+
+  const handleSubmit = () => {
+    if (!ethers.isAddress(payoutAddress)) {
+      alert("Please enter a valid payout address");
+      return;
+    }
+    
+    onSubmit(payoutAddress);
+  };
+
+  return (
+    <div className="modal-overlay">
+      <div className="create-modal cyber-card">
+        <div className="modal-header">
+          <h2>{receipt ? "Payout Queued" : "Claim Royalty"}</h2>
+          <button onClick={onClose} className="close-modal">&times;</button>
+        </div>
+        
+        <div className="modal-body">
+          {receipt ? (
+            <div className="payout-receipt">
+              <div className="receipt-row">
+                <span>Amount</span>
+                <span>{ethers.formatEther(receipt.amount)} ETH</span>
+              </div>
+              <div className="receipt-row">
+                <span>Pays to</span>
+                <span>{receipt.payoutAddress}</span>
+              </div>
+              <div className="receipt-row">
+                <span>Payout</span>
+                <span>#{receipt.operationId.toString()}, awaiting treasurer approval</span>
+              </div>
+              <div className="receipt-row">
+                <span>Transaction</span>
+                <span>{receipt.transactionHash}</span>
+              </div>
+              <div className="receipt-row">
+                <span>Block</span>
+                <span>{receipt.blockNumber}</span>
+              </div>
+            </div>
+          ) : (
+            <>
+              <div className="fhe-notice-banner">
+                <div className="key-icon"></div> The payout amount for {contribution.model} stays encrypted until the oracle releases it
+              </div>
+              
+              <div className="form-group">
+                <label>Payout Address *</label>
+                <input 
+                  type="text"
+                  value={payoutAddress} 
+                  onChange={(e) => setPayoutAddress(e.target.value)}
+                  placeholder="0x..." 
+                  className="cyber-input"
+                />
+              </div>
+            </>
+          )}
+        </div>
+        
+        <div className="modal-footer">
+          <button 
+            onClick={onClose}
+            className="cancel-btn cyber-button"
+          >
+            {receipt ? "Close" : "Cancel"}
+          </button>
+          {!receipt && (
+            <button 
+              onClick={handleSubmit} 
+              disabled={claiming}
+              className="submit-btn cyber-button primary"
+            >
+              {claiming ? "Waiting for decryption..." : "Claim Royalty"}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
 export default App;
\ No newline at end of file
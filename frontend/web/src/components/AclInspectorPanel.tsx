@@ -0,0 +1,118 @@
+import React, { useState } from 'react';
+import { config, getRoyaltiesClientReadOnly } from '../contract';
+import { getAclReadOnly } from '../fhevm';
+import { ContributionAclReport, inspectContributionAcl } from '../../../../src/aclInspector';
+
+const shortAddress = (address: string | null) =>
+  address ? `${address.substring(0, 6)}...${address.substring(38)}` : 'unknown';
+
+const shortHandle = (handle: string) => `${handle.substring(0, 10)}...${handle.substring(58)}`;
+
+export default function AclInspectorPanel() {
+  const [contributionId, setContributionId] = useState('');
+  const [report, setReport] = useState<ContributionAclReport | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  const inspect = async () => {
+    setLoading(true);
+    try {
+      const royalties = await getRoyaltiesClientReadOnly();
+      if (!royalties) {
+        setError('Royalties contract is not available');
+        return;
+      }
+      setReport(
+        await inspectContributionAcl(royalties, await getAclReadOnly(), BigInt(contributionId), {
+          fromBlock: config.royaltiesDeployBlock
+        })
+      );
+      setError('');
+    } catch (e: any) {
+      console.error('Failed to inspect ACL:', e);
+      setReport(null);
+      setError(e.message || 'Failed to inspect ACL');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const undecryptable = report ? report.handles.filter(handle => handle.undecryptable) : [];
+
+  return (
+    <div className="acl-panel cyber-card">
+      <div className="section-header">
+        <h2>ACL Inspector</h2>
+        <div className="acl-form">
+          <input
+            type="number"
+            min="1"
+            value={contributionId}
+            onChange={e => setContributionId(e.target.value)}
+            placeholder="Contribution ID"
+            className="cyber-input"
+          />
+          <button onClick={inspect} disabled={!contributionId || loading} className="cyber-button">
+            {loading ? 'Inspecting...' : 'Inspect'}
+          </button>
+        </div>
+      </div>
+
+      {error && <div className="no-data">{error}</div>}
+
+      {report && (
+        <>
+          <div className="acl-principals">
+            {report.principals.map(principal => (
+              <span key={principal.role} title={principal.address ?? undefined}>
+                {principal.role}: {shortAddress(principal.address)}
+              </span>
+            ))}
+          </div>
+
+          {undecryptable.length > 0 && (
+            <div className="pool-warning">
+              Nobody can decrypt {undecryptable.map(handle => handle.name).join(', ')}.
+            </div>
+          )}
+
+          <div className="acl-table">
+            <div className="table-header">
+              <div className="header-cell">Field</div>
+              <div className="header-cell">Handle</div>
+              {report.principals.map(principal => (
+                <div className="header-cell" key={principal.role}>
+                  {principal.role}
+                </div>
+              ))}
+            </div>
+            {report.handles.map(handle => (
+              <div className={`table-row ${handle.undecryptable ? 'acl-undecryptable' : ''}`} key={handle.name}>
+                <div className="table-cell">{handle.name}</div>
+                <div className="table-cell acl-handle" title={handle.handle}>
+                  {handle.isSet ? shortHandle(handle.handle) : 'not set'}
+                </div>
+                {report.principals.map(principal => {
+                  const entry = handle.access.find(access => access.role === principal.role);
+                  return (
+                    <div className="table-cell" key={principal.role}>
+                      {entry ? (
+                        <span className={entry.allowed ? 'acl-allowed' : 'acl-denied'}>{entry.allowed ? '✓' : '✗'}</span>
+                      ) : (
+                        '–'
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            ))}
+          </div>
+
+          <div className="acl-note">
+            The oracle column shows handles marked for public decryption by a calculation or claim request.
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,100 @@
+import React, { useEffect, useState } from 'react';
+import { exportSecret, importSecret, loadSecret, saveSecret } from '../../../../src/contributorSecret';
+
+interface ContributorSecretPanelProps {
+  account: string;
+}
+
+export default function ContributorSecretPanel({ account }: ContributorSecretPanelProps) {
+  const [hasSecret, setHasSecret] = useState(false);
+  const [passphrase, setPassphrase] = useState('');
+  const [keystoreFile, setKeystoreFile] = useState<File | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState('');
+
+  useEffect(() => {
+    setHasSecret(!!loadSecret(window.localStorage, account));
+    setMessage('');
+  }, [account]);
+
+  const exportBackup = async () => {
+    const secret = loadSecret(window.localStorage, account);
+    if (!secret) return;
+
+    setBusy(true);
+    try {
+      const keystore = await exportSecret(secret, passphrase);
+      const url = URL.createObjectURL(new Blob([keystore], { type: 'application/json' }));
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `contributor-secret-${account.substring(0, 8)}.json`;
+      link.click();
+      URL.revokeObjectURL(url);
+      setPassphrase('');
+      setMessage('Backup downloaded. Keep the file and its passphrase somewhere safe.');
+    } catch (e: any) {
+      alert('Export failed: ' + (e.message || 'Unknown error'));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const importBackup = async () => {
+    if (!keystoreFile) return;
+    if (hasSecret && !window.confirm('Replace the contributor secret stored on this device?')) return;
+
+    setBusy(true);
+    try {
+      const secret = await importSecret(await keystoreFile.text(), passphrase);
+      saveSecret(window.localStorage, account, secret);
+      setHasSecret(true);
+      setPassphrase('');
+      setKeystoreFile(null);
+      setMessage('Secret imported. Contributions committed with it can be claimed from this device.');
+    } catch (e: any) {
+      alert('Import failed: ' + (e.message || 'Wrong passphrase or invalid file'));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="secret-panel cyber-card">
+      <div className="section-header">
+        <h2>Contributor Secret</h2>
+        <span className={`status-badge ${hasSecret ? 'verified' : 'pending'}`}>
+          {hasSecret ? 'Stored on this device' : 'Not on this device'}
+        </span>
+      </div>
+
+      <p className="secret-note">
+        Contributor hashes are commitments derived from a secret kept in this browser. Claiming a royalty requires a
+        signature only that secret can produce, so export an encrypted backup before switching devices.
+      </p>
+
+      <div className="secret-form">
+        <input
+          type="password"
+          value={passphrase}
+          onChange={e => setPassphrase(e.target.value)}
+          placeholder="Backup passphrase"
+          className="cyber-input"
+        />
+        <button onClick={exportBackup} disabled={!hasSecret || !passphrase || busy} className="cyber-button">
+          {busy ? 'Working...' : 'Export backup'}
+        </button>
+        <input
+          type="file"
+          accept="application/json,.json"
+          onChange={e => setKeystoreFile(e.target.files?.[0] ?? null)}
+          className="cyber-input"
+        />
+        <button onClick={importBackup} disabled={!keystoreFile || !passphrase || busy} className="cyber-button primary">
+          {busy ? 'Working...' : 'Import backup'}
+        </button>
+      </div>
+
+      {message && <div className="secret-message">{message}</div>}
+    </div>
+  );
+}
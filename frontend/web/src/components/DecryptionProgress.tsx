@@ -0,0 +1,51 @@
+import React, { useEffect, useState } from 'react';
+import { DEFAULT_DECRYPTION_TIMEOUT_MS, DecryptionRequest } from '../../../../src/decryptionTracker';
+
+interface DecryptionProgressProps {
+  request?: DecryptionRequest;
+  timeoutMs?: number;
+}
+
+const formatElapsed = (ms: number) => {
+  const seconds = Math.max(0, Math.floor(ms / 1000));
+  return `${Math.floor(seconds / 60)}m ${(seconds % 60).toString().padStart(2, '0')}s`;
+};
+
+export default function DecryptionProgress({ request, timeoutMs = DEFAULT_DECRYPTION_TIMEOUT_MS }: DecryptionProgressProps) {
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    if (request?.status !== 'pending') return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [request?.status]);
+
+  if (!request) return null;
+
+  if (request.status === 'pending') {
+    const elapsed = now - request.requestedAt;
+    return (
+      <div className="decryption-progress pending" title={`Request #${request.requestId}`}>
+        <div className="decryption-track">
+          <div
+            className="decryption-fill"
+            style={{ width: `${Math.min(100, (elapsed / timeoutMs) * 100)}%` }}
+          ></div>
+        </div>
+        <span>Decrypting · {formatElapsed(elapsed)}</span>
+      </div>
+    );
+  }
+
+  const labels = {
+    decrypted: 'Share calculated',
+    timeout: 'Decryption timed out',
+    failed: 'Callback failed'
+  };
+
+  return (
+    <div className={`decryption-progress ${request.status}`} title={request.error || `Request #${request.requestId}`}>
+      <span>{labels[request.status]}</span>
+    </div>
+  );
+}
@@ -0,0 +1,296 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ethers } from 'ethers';
+import { config, getRoyaltiesClientReadOnly, getRoyaltiesClientWithSigner } from '../contract';
+import { DisputeTerms, DisputeVoted } from '../../../../src/royaltiesClient';
+import { DisputeItem, canVote, loadDisputes } from '../../../../src/disputes';
+import { hashEvidence } from '../../../../src/reviewQueue';
+import { Role, can } from '../../../../src/roles';
+
+interface DisputesPanelProps {
+  account: string;
+  // Roles of the connected account; contributors and verifiers challenge, verifiers vote, admins resolve
+  roles: Role[];
+  // Contribution picked with the Dispute button of the contribution list; prefills the form
+  target?: string;
+  // Called after a dispute was resolved so the contribution list can reload
+  onResolved?: () => void;
+}
+
+const formatEth = (wei: bigint) => Number(ethers.formatEther(wei)).toFixed(4);
+
+const shortAddress = (address: string) => `${address.substring(0, 6)}...${address.substring(38)}`;
+
+const shortHash = (hash: string) => `${hash.substring(0, 10)}...${hash.substring(58)}`;
+
+const describeVote = (vote: DisputeVoted) =>
+  `${shortAddress(vote.voter)} voted to ${vote.uphold ? 'uphold' : 'dismiss'}`;
+
+const formatPeriod = (seconds: bigint) => `${(Number(seconds) / 3600).toFixed(1)} h`;
+
+export default function DisputesPanel({ account, roles, target, onResolved }: DisputesPanelProps) {
+  const [disputes, setDisputes] = useState<DisputeItem[]>([]);
+  const [terms, setTerms] = useState<DisputeTerms | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [pending, setPending] = useState<string | null>(null);
+  const [contributionId, setContributionId] = useState('');
+  const [evidenceHash, setEvidenceHash] = useState('');
+  const [newTerms, setNewTerms] = useState({ hours: '', bond: '', quorum: '' });
+  const formRef = useRef<HTMLDivElement>(null);
+
+  const isAdmin = can(roles, 'resolveDisputes');
+  const mayChallenge = roles.includes('contributor') || roles.includes('verifier');
+
+  const refresh = async () => {
+    setLoading(true);
+    try {
+      const royalties = await getRoyaltiesClientReadOnly();
+      if (!royalties) {
+        setError('Royalties contract is not available');
+        return;
+      }
+      const [items, disputeTerms] = await Promise.all([
+        loadDisputes(royalties, config.royaltiesDeployBlock),
+        royalties.getDisputeTerms()
+      ]);
+      setDisputes(items);
+      setTerms(disputeTerms);
+      setError('');
+    } catch (e: any) {
+      console.error('Failed to load disputes:', e);
+      setError(e.message || 'Failed to load disputes');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    refresh();
+  }, []);
+
+  useEffect(() => {
+    if (!target) return;
+    setContributionId(target);
+    formRef.current?.scrollIntoView({ behavior: 'smooth' });
+  }, [target]);
+
+  // Every write goes through here so the list reloads and errors surface the same way
+  const send = async (key: string, label: string, action: () => Promise<unknown>) => {
+    setPending(key);
+    try {
+      await action();
+      await refresh();
+      return true;
+    } catch (e: any) {
+      alert(`${label} failed: ` + (e.shortMessage || e.message || 'Unknown error'));
+      return false;
+    } finally {
+      setPending(null);
+    }
+  };
+
+  const open = async () => {
+    if (!/^[0-9]+$/.test(contributionId) || !/^0x[0-9a-fA-F]{64}$/.test(evidenceHash)) {
+      alert('Please enter a contribution ID and choose an evidence file or paste its 32-byte hash');
+      return;
+    }
+    if (!terms) return;
+    const opened = await send('open', 'Opening the dispute', async () => {
+      const royalties = await getRoyaltiesClientWithSigner();
+      await royalties.openDispute(contributionId, evidenceHash, terms.bond);
+    });
+    if (opened) {
+      setContributionId('');
+      setEvidenceHash('');
+      onResolved?.();
+    }
+  };
+
+  const vote = async (item: DisputeItem, uphold: boolean) => {
+    const voted = await send(`vote:${item.id}`, 'Voting', async () => {
+      const royalties = await getRoyaltiesClientWithSigner();
+      await royalties.voteOnDispute(item.id, uphold);
+    });
+    // The vote may have reached the quorum
+    if (voted) onResolved?.();
+  };
+
+  const resolve = async (item: DisputeItem, uphold: boolean) => {
+    const resolved = await send(`resolve:${item.id}`, 'Resolving the dispute', async () => {
+      const royalties = await getRoyaltiesClientWithSigner();
+      await royalties.resolveDispute(item.id, uphold);
+    });
+    if (resolved) onResolved?.();
+  };
+
+  const updateTerms = async () => {
+    let bond: bigint;
+    try {
+      bond = ethers.parseEther(newTerms.bond);
+    } catch {
+      alert('Please enter a valid bond');
+      return;
+    }
+    if (!/^[0-9]+(\.[0-9]+)?$/.test(newTerms.hours)) {
+      alert('Please enter the challenge period in hours');
+      return;
+    }
+    if (!/^[1-9][0-9]*$/.test(newTerms.quorum)) {
+      alert('Please enter a positive number of votes');
+      return;
+    }
+    const updated = await send('terms', 'Updating the dispute terms', async () => {
+      const royalties = await getRoyaltiesClientWithSigner();
+      const challengePeriod = BigInt(Math.round(Number(newTerms.hours) * 3600));
+      await royalties.setDisputeTerms({ challengePeriod, bond, quorum: BigInt(newTerms.quorum) });
+    });
+    if (updated) setNewTerms({ hours: '', bond: '', quorum: '' });
+  };
+
+  const hashFile = async (file: File | undefined) => {
+    if (!file) return;
+    setEvidenceHash(hashEvidence(new Uint8Array(await file.arrayBuffer())));
+  };
+
+  return (
+    <div className="disputes-panel cyber-card">
+      <div className="section-header">
+        <h2>Disputes</h2>
+        <button onClick={refresh} className="refresh-btn cyber-button" disabled={loading}>
+          {loading ? 'Loading...' : 'Refresh'}
+        </button>
+      </div>
+
+      {error && <div className="no-data">{error}</div>}
+
+      {terms && (
+        <div className="dispute-terms">
+          Royalties can be challenged for {formatPeriod(terms.challengePeriod)} after their calculation with a
+          bond of {formatEth(terms.bond)} ETH. {terms.quorum.toString()} verifier votes decide a dispute.
+          {isAdmin && (
+            <div className="dispute-form">
+              <input
+                type="text"
+                value={newTerms.hours}
+                onChange={e => setNewTerms({ ...newTerms, hours: e.target.value })}
+                placeholder="Challenge period (hours)"
+                className="cyber-input"
+              />
+              <input
+                type="text"
+                value={newTerms.bond}
+                onChange={e => setNewTerms({ ...newTerms, bond: e.target.value })}
+                placeholder="Bond (ETH)"
+                className="cyber-input"
+              />
+              <input
+                type="number"
+                min="1"
+                value={newTerms.quorum}
+                onChange={e => setNewTerms({ ...newTerms, quorum: e.target.value })}
+                placeholder="Quorum"
+                className="cyber-input"
+              />
+              <button onClick={updateTerms} disabled={pending !== null} className="cyber-button">
+                {pending === 'terms' ? 'Updating...' : 'Set terms'}
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+
+      {disputes.length > 0 ? (
+        <div className="dispute-list">
+          {disputes.map(item => (
+            <div className={`dispute-item ${item.status}`} key={item.id.toString()}>
+              <span>
+                #{item.id.toString()} against contribution #{item.contributionId.toString()} by{' '}
+                <span title={item.challenger}>{shortAddress(item.challenger)}</span>
+              </span>
+              <span className="evidence-hash" title={item.evidenceHash}>
+                {shortHash(item.evidenceHash)}
+              </span>
+              <span title={item.votes.map(describeVote).join(', ')}>
+                {item.upholdVotes.toString()} uphold / {item.dismissVotes.toString()} dismiss
+              </span>
+              <span className={`status-badge dispute-${item.status}`}>
+                {item.status}
+                {item.resolution && ` by ${shortAddress(item.resolution.resolvedBy)}`}
+              </span>
+              {item.status === 'open' && (
+                <div className="dispute-actions">
+                  {canVote(item, roles, account) && (
+                    <>
+                      <button
+                        className="action-btn cyber-button danger"
+                        onClick={() => vote(item, true)}
+                        disabled={pending !== null}
+                      >
+                        Vote uphold
+                      </button>
+                      <button
+                        className="action-btn cyber-button"
+                        onClick={() => vote(item, false)}
+                        disabled={pending !== null}
+                      >
+                        Vote dismiss
+                      </button>
+                    </>
+                  )}
+                  {isAdmin && (
+                    <>
+                      <button
+                        className="action-btn cyber-button danger"
+                        onClick={() => resolve(item, true)}
+                        disabled={pending !== null}
+                      >
+                        Uphold
+                      </button>
+                      <button
+                        className="action-btn cyber-button success"
+                        onClick={() => resolve(item, false)}
+                        disabled={pending !== null}
+                      >
+                        Dismiss
+                      </button>
+                    </>
+                  )}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      ) : (
+        !loading && <div className="no-data">No disputes yet</div>
+      )}
+
+      {mayChallenge && account && (
+        <div className="dispute-form" ref={formRef}>
+          <input
+            type="text"
+            value={contributionId}
+            onChange={e => setContributionId(e.target.value)}
+            placeholder="Contribution ID"
+            className="cyber-input"
+          />
+          <input type="file" onChange={e => hashFile(e.target.files?.[0])} />
+          <input
+            type="text"
+            value={evidenceHash}
+            onChange={e => setEvidenceHash(e.target.value)}
+            placeholder="Evidence hash (0x...)"
+            className="cyber-input"
+          />
+          <button onClick={open} disabled={pending !== null || !terms} className="cyber-button primary">
+            {pending === 'open' ? 'Opening...' : `Open dispute${terms ? ` (${formatEth(terms.bond)} ETH bond)` : ''}`}
+          </button>
+        </div>
+      )}
+
+      <div className="dispute-note">
+        Claims wait until the challenge period is over. An upheld dispute voids the royalty, releases its payment back
+        into the pool and refunds the bond; a dismissed challenger's bond is added to the current epoch's pool.
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,154 @@
+import React, { useEffect, useState } from 'react';
+import { ethers } from 'ethers';
+import { getRoyaltiesClientReadOnly, getRoyaltiesClientWithSigner } from '../contract';
+import { EpochSummary, loadEpochs } from '../../../../src/epochs';
+import { Role, can } from '../../../../src/roles';
+
+interface EpochsPanelProps {
+  // Roles of the connected account; only treasurers can roll funds over
+  roles: Role[];
+  // Changing it reloads the epochs
+  refreshKey?: number;
+  onRolledOver?: () => void;
+}
+
+const formatEth = (wei: bigint) => Number(ethers.formatEther(wei)).toFixed(4);
+
+const formatDate = (seconds: bigint) => new Date(Number(seconds) * 1000).toLocaleString();
+
+const PHASE_LABELS: Record<EpochSummary['phase'], string> = {
+  open: 'Open',
+  closing: 'Closing',
+  settled: 'Settled'
+};
+
+export default function EpochsPanel({ roles, refreshKey, onRolledOver }: EpochsPanelProps) {
+  const [epochs, setEpochs] = useState<EpochSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [rollingOver, setRollingOver] = useState<bigint | null>(null);
+  const [revealing, setRevealing] = useState<bigint | null>(null);
+
+  const refresh = async () => {
+    setLoading(true);
+    try {
+      const royalties = await getRoyaltiesClientReadOnly();
+      if (!royalties) {
+        setError('Royalties contract is not available');
+        return;
+      }
+      setEpochs(await loadEpochs(royalties));
+      setError('');
+    } catch (e: any) {
+      console.error('Failed to load epochs:', e);
+      setError(e.message || 'Failed to load epochs');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    refresh();
+  }, [refreshKey]);
+
+  const rollOver = async (epoch: bigint) => {
+    setRollingOver(epoch);
+    try {
+      const royalties = await getRoyaltiesClientWithSigner();
+      await royalties.rollOver(epoch);
+      await refresh();
+      onRolledOver?.();
+    } catch (e: any) {
+      alert('Roll over failed: ' + (e.shortMessage || e.message || 'Unknown error'));
+    } finally {
+      setRollingOver(null);
+    }
+  };
+
+  // Anyone may reveal; the total shows up once the oracle answered
+  const revealCommitted = async (epoch: bigint) => {
+    setRevealing(epoch);
+    try {
+      const royalties = await getRoyaltiesClientWithSigner();
+      await royalties.revealCommitted(epoch);
+      await refresh();
+    } catch (e: any) {
+      alert('Revealing the committed total failed: ' + (e.shortMessage || e.message || 'Unknown error'));
+    } finally {
+      setRevealing(null);
+    }
+  };
+
+  return (
+    <div className="epochs-panel cyber-card">
+      <div className="section-header">
+        <h2>Royalty Epochs</h2>
+        <button onClick={refresh} className="refresh-btn cyber-button" disabled={loading}>
+          {loading ? 'Loading...' : 'Refresh'}
+        </button>
+      </div>
+
+      {error && <div className="no-data">{error}</div>}
+
+      {epochs.length > 0 && (
+        <div className="epochs-table">
+          <div className="table-header">
+            <div className="header-cell">Epoch</div>
+            <div className="header-cell">Phase</div>
+            <div className="header-cell">Period</div>
+            <div className="header-cell">Contributions</div>
+            <div className="header-cell">Pool (ETH)</div>
+            <div className="header-cell">Committed (ETH)</div>
+            <div className="header-cell">Paid (ETH)</div>
+            <div className="header-cell">Uncommitted (ETH)</div>
+          </div>
+          {epochs.map(epoch => (
+            <div className="table-row" key={epoch.epoch.toString()}>
+              <div className="table-cell">#{epoch.epoch.toString()}</div>
+              <div className="table-cell">
+                <span className={`status-badge epoch-${epoch.phase}`}>{PHASE_LABELS[epoch.phase]}</span>
+              </div>
+              <div className="table-cell epoch-period">
+                {formatDate(epoch.start)} – {formatDate(epoch.end)}
+              </div>
+              <div className="table-cell">{epoch.contributionCount.toString()}</div>
+              <div className="table-cell">{formatEth(epoch.rewardPool)}</div>
+              <div className="table-cell">
+                {epoch.committedRevealed ? formatEth(epoch.committed) : 'Encrypted'}
+                {epoch.phase === 'settled' && !epoch.committedRevealed && epoch.openDisputes === 0n && (
+                  <button
+                    className="action-btn cyber-button"
+                    onClick={() => revealCommitted(epoch.epoch)}
+                    disabled={revealing !== null}
+                  >
+                    {revealing === epoch.epoch ? 'Revealing...' : 'Reveal'}
+                  </button>
+                )}
+              </div>
+              <div className="table-cell">{formatEth(epoch.paid)}</div>
+              <div className="table-cell">
+                {epoch.uncommitted === null ? '–' : formatEth(epoch.uncommitted)}
+                {epoch.phase === 'settled' && epoch.uncommitted !== null && epoch.uncommitted > 0n &&
+                  can(roles, 'rollOver') && (
+                  <button
+                    className="action-btn cyber-button"
+                    onClick={() => rollOver(epoch.epoch)}
+                    disabled={rollingOver !== null}
+                  >
+                    {rollingOver === epoch.epoch ? 'Rolling...' : 'Roll over'}
+                  </button>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="epochs-note">
+        Contributions and deposits land in the open epoch. Shares are calculated while it is closing, against that
+        epoch's pool, and stay encrypted. Once an epoch is settled and its royalties can no longer be disputed, the
+        sum of its payments can be revealed and the leftovers rolled into the current one.
+      </div>
+    </div>
+  );
+}
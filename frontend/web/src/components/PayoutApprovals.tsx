@@ -0,0 +1,83 @@
+import React, { useEffect, useState } from 'react';
+import { getRoyaltiesClientReadOnly, getRoyaltiesClientWithSigner } from '../contract';
+import { PayoutApproval, hasApproved, loadPayoutApproval } from '../../../../src/treasury';
+import { Role, can } from '../../../../src/roles';
+
+interface PayoutApprovalsProps {
+  account: string;
+  // Roles of the connected account; only treasurers approve
+  roles: Role[];
+  contributionId: string;
+  // Called after the payout was executed so the contribution list can reload
+  onExecuted?: () => void;
+}
+
+const shortAddress = (address: string) => `${address.substring(0, 6)}...${address.substring(38)}`;
+
+export default function PayoutApprovals({ account, roles, contributionId, onExecuted }: PayoutApprovalsProps) {
+  const [approval, setApproval] = useState<PayoutApproval | null>(null);
+  const [sending, setSending] = useState(false);
+
+  const refresh = async () => {
+    try {
+      const royalties = await getRoyaltiesClientReadOnly();
+      const contribution = royalties && (await royalties.getContribution(contributionId));
+      setApproval(contribution ? await loadPayoutApproval(royalties, contribution.contributorHash) : null);
+    } catch (e) {
+      console.error('Failed to load payout approvals:', e);
+    }
+  };
+
+  useEffect(() => {
+    refresh();
+  }, [contributionId]);
+
+  if (!approval) return null;
+  const { operation, policy, executable } = approval;
+
+  const send = async (label: string, action: (operationId: bigint) => Promise<unknown>) => {
+    setSending(true);
+    try {
+      await action(operation.id);
+      await refresh();
+    } catch (e: any) {
+      alert(`${label} failed: ` + (e.shortMessage || e.message || 'Unknown error'));
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const approve = () =>
+    send('Approval', async operationId => {
+      const royalties = await getRoyaltiesClientWithSigner();
+      await royalties.approveOperation(operationId);
+    });
+
+  const execute = () =>
+    send('Payout', async operationId => {
+      const royalties = await getRoyaltiesClientWithSigner();
+      await royalties.executeOperation(operationId);
+      onExecuted?.();
+    });
+
+  return (
+    <div
+      className={`payout-approvals ${executable ? 'ready' : ''}`}
+      title={operation.approvers.length > 0 ? `Approved by ${operation.approvers.map(shortAddress).join(', ')}` : ''}
+    >
+      <span>
+        Approvals {operation.approvals.toString()}/{policy.threshold.toString()}
+      </span>
+      {can(roles, 'approvePayouts') && !hasApproved(operation, account) && (
+        <button className="action-btn cyber-button" onClick={approve} disabled={sending}>
+          Approve
+        </button>
+      )}
+      {executable && account && (
+        <button className="action-btn cyber-button success" onClick={execute} disabled={sending}>
+          Execute
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,351 @@
+import React, { useEffect, useState } from 'react';
+import { config, getRoyaltiesClientReadOnly, getRoyaltiesClientWithSigner } from '../contract';
+import {
+  ReviewFilter,
+  ReviewItem,
+  ReviewTrailEntry,
+  filterReviewQueue,
+  findEvidence,
+  hashEvidence,
+  loadReviewQueue
+} from '../../../../src/reviewQueue';
+import { Role, RoleMember, can, loadRoleMembers } from '../../../../src/roles';
+
+interface ReviewQueuePanelProps {
+  account: string;
+  // Roles of the connected account; verifiers review, admins assign
+  roles: Role[];
+  // Called after an approval or rejection so the contribution list can reload
+  onDecided?: () => void;
+}
+
+const FILTERS: { key: ReviewFilter; label: string }[] = [
+  { key: 'awaiting', label: 'Awaiting review' },
+  { key: 'assigned', label: 'Assigned to me' },
+  { key: 'decided', label: 'Decided' },
+  { key: 'all', label: 'All' }
+];
+
+const shortAddress = (address: string) => `${address.substring(0, 6)}...${address.substring(38)}`;
+
+const shortHash = (hash: string) => `${hash.substring(0, 10)}...${hash.substring(58)}`;
+
+const sameAddress = (a: string | null, b: string) => !!a && !!b && a.toLowerCase() === b.toLowerCase();
+
+const readFile = async (file: File) => new Uint8Array(await file.arrayBuffer());
+
+const describeTrailEntry = (entry: ReviewTrailEntry) => {
+  switch (entry.kind) {
+    case 'assigned':
+      return `${shortAddress(entry.assignedBy)} assigned ${shortAddress(entry.reviewer)}`;
+    case 'evidence':
+      return `${shortAddress(entry.attachedBy)} attached ${entry.label || 'evidence'} (${shortHash(entry.contentHash)})`;
+    case 'decided':
+      return `${shortAddress(entry.reviewer)} ${entry.approved ? 'approved' : 'rejected'}${
+        entry.reason ? `: ${entry.reason}` : ''
+      }`;
+  }
+};
+
+export default function ReviewQueuePanel({ account, roles, onDecided }: ReviewQueuePanelProps) {
+  const [items, setItems] = useState<ReviewItem[]>([]);
+  const [verifiers, setVerifiers] = useState<RoleMember[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [filter, setFilter] = useState<ReviewFilter>('awaiting');
+  const [selectedId, setSelectedId] = useState<bigint | null>(null);
+  const [sending, setSending] = useState(false);
+  const [assignee, setAssignee] = useState('');
+  const [reason, setReason] = useState('');
+  const [evidenceLabel, setEvidenceLabel] = useState('');
+  const [evidenceHash, setEvidenceHash] = useState('');
+  const [checkResult, setCheckResult] = useState('');
+
+  const isVerifier = can(roles, 'review');
+  const isAdmin = can(roles, 'assignReviewers');
+  const visible = filterReviewQueue(items, filter, account);
+  const selected = items.find(item => item.contributionId === selectedId) ?? null;
+
+  const refresh = async () => {
+    setLoading(true);
+    try {
+      const royalties = await getRoyaltiesClientReadOnly();
+      if (!royalties) {
+        setError('Royalties contract is not available');
+        return;
+      }
+      const [queue, members] = await Promise.all([
+        loadReviewQueue(royalties, config.royaltiesDeployBlock),
+        loadRoleMembers(royalties, config.royaltiesDeployBlock)
+      ]);
+      setItems(queue);
+      setVerifiers(members.verifier);
+      setError('');
+    } catch (e: any) {
+      console.error('Failed to load review queue:', e);
+      setError(e.message || 'Failed to load review queue');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    refresh();
+  }, []);
+
+  const select = (item: ReviewItem) => {
+    setSelectedId(item.contributionId);
+    setReason('');
+    setEvidenceLabel('');
+    setEvidenceHash('');
+    setCheckResult('');
+    setAssignee('');
+  };
+
+  // Every write goes through here so the queue reloads and errors surface the same way
+  const send = async (label: string, action: () => Promise<unknown>) => {
+    setSending(true);
+    try {
+      await action();
+      await refresh();
+      return true;
+    } catch (e: any) {
+      alert(`${label} failed: ` + (e.shortMessage || e.message || 'Unknown error'));
+      return false;
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const assign = (item: ReviewItem, reviewer: string) =>
+    send('Assignment', async () => {
+      const royalties = await getRoyaltiesClientWithSigner();
+      await royalties.assignReviewer(item.contributionId, reviewer);
+    });
+
+  const attach = async (item: ReviewItem) => {
+    if (!/^0x[0-9a-fA-F]{64}$/.test(evidenceHash)) {
+      alert('Choose a file or paste a 32-byte content hash');
+      return;
+    }
+    const attached = await send('Attaching evidence', async () => {
+      const royalties = await getRoyaltiesClientWithSigner();
+      await royalties.attachEvidence(item.contributionId, evidenceHash, evidenceLabel);
+    });
+    if (attached) {
+      setEvidenceHash('');
+      setEvidenceLabel('');
+    }
+  };
+
+  const decide = async (item: ReviewItem, approved: boolean) => {
+    if (!approved && !reason.trim()) {
+      alert('Please give a reason for the rejection');
+      return;
+    }
+    const decided = await send(approved ? 'Approval' : 'Rejection', async () => {
+      const royalties = await getRoyaltiesClientWithSigner();
+      await royalties.decideReview(item.contributionId, approved, reason.trim());
+    });
+    if (decided) {
+      setReason('');
+      onDecided?.();
+    }
+  };
+
+  const hashFile = async (file: File | undefined) => {
+    if (!file) return;
+    setEvidenceHash(hashEvidence(await readFile(file)));
+    if (!evidenceLabel) setEvidenceLabel(file.name);
+  };
+
+  const checkFile = async (item: ReviewItem, file: File | undefined) => {
+    if (!file) return;
+    const match = findEvidence(item, await readFile(file));
+    setCheckResult(
+      match
+        ? `${file.name} matches "${match.label || 'evidence'}" attached by ${shortAddress(match.attachedBy)}`
+        : `${file.name} does not match any evidence attached to this contribution`
+    );
+  };
+
+  const renderDetail = (item: ReviewItem) => {
+    const pending = item.review.status === 'pending';
+    const canAttach = pending && (isVerifier || sameAddress(item.submitter, account));
+    const canDecide = pending && isVerifier && sameAddress(item.review.reviewer, account);
+
+    return (
+      <div className="review-detail">
+        <h3>Contribution #{item.contributionId.toString()}</h3>
+        <div className="receipt-row">
+          <span>Submitted by</span>
+          <span title={item.submitter}>{shortAddress(item.submitter)}</span>
+        </div>
+        <div className="receipt-row">
+          <span>Epoch</span>
+          <span>
+            #{item.epoch.toString()} ({item.epochPhase})
+          </span>
+        </div>
+        <div className="receipt-row">
+          <span>Reviewer</span>
+          <span title={item.review.reviewer ?? undefined}>
+            {item.review.reviewer ? shortAddress(item.review.reviewer) : 'Unassigned'}
+          </span>
+        </div>
+
+        {pending && isAdmin && (
+          <div className="review-actions">
+            <select value={assignee} onChange={e => setAssignee(e.target.value)} className="cyber-select">
+              <option value="">Assign a verifier...</option>
+              {verifiers.filter(verifier => !sameAddress(item.submitter, verifier.account)).map(verifier => (
+                <option key={verifier.account} value={verifier.account}>
+                  {verifier.account}
+                </option>
+              ))}
+            </select>
+            <button
+              onClick={() => assign(item, assignee)}
+              disabled={sending || !assignee}
+              className="cyber-button"
+            >
+              Assign
+            </button>
+          </div>
+        )}
+        {pending && isVerifier && !isAdmin && !item.review.reviewer && !sameAddress(item.submitter, account) && (
+          <button onClick={() => assign(item, account)} disabled={sending} className="cyber-button">
+            Take this review
+          </button>
+        )}
+
+        <h4>Evidence</h4>
+        {item.evidence.length > 0 ? (
+          <div className="evidence-list">
+            {item.evidence.map(entry => (
+              <div className="receipt-row" key={`${entry.transactionHash}-${entry.logIndex}`}>
+                <span title={`Attached by ${entry.attachedBy}`}>{entry.label || 'Untitled'}</span>
+                <span className="evidence-hash" title={entry.contentHash}>
+                  {shortHash(entry.contentHash)}
+                </span>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <div className="no-data">No evidence attached</div>
+        )}
+        {item.evidence.length > 0 && (
+          <label className="evidence-check">
+            Check a file against the attached hashes
+            <input type="file" onChange={e => checkFile(item, e.target.files?.[0])} />
+          </label>
+        )}
+        {checkResult && <div className="evidence-check-result">{checkResult}</div>}
+
+        {canAttach && (
+          <div className="evidence-form">
+            <input type="file" onChange={e => hashFile(e.target.files?.[0])} />
+            <input
+              type="text"
+              value={evidenceHash}
+              onChange={e => setEvidenceHash(e.target.value)}
+              placeholder="Content hash (0x...)"
+              className="cyber-input"
+            />
+            <input
+              type="text"
+              value={evidenceLabel}
+              onChange={e => setEvidenceLabel(e.target.value)}
+              placeholder="Label, e.g. eval report"
+              className="cyber-input"
+            />
+            <button onClick={() => attach(item)} disabled={sending || !evidenceHash} className="cyber-button">
+              Attach evidence
+            </button>
+          </div>
+        )}
+
+        {canDecide && (
+          <div className="review-decision">
+            <textarea
+              value={reason}
+              onChange={e => setReason(e.target.value)}
+              placeholder="Reason (required to reject)"
+              className="cyber-textarea"
+            />
+            <div className="review-actions">
+              <button onClick={() => decide(item, true)} disabled={sending} className="cyber-button success">
+                Approve
+              </button>
+              <button onClick={() => decide(item, false)} disabled={sending} className="cyber-button danger">
+                Reject
+              </button>
+            </div>
+          </div>
+        )}
+
+        <h4>Audit trail</h4>
+        {item.trail.length > 0 ? (
+          <div className="review-trail">
+            {item.trail.map(entry => (
+              <div key={`${entry.transactionHash}-${entry.logIndex}`} title={entry.transactionHash}>
+                Block {entry.blockNumber}: {describeTrailEntry(entry)}
+              </div>
+            ))}
+          </div>
+        ) : (
+          <div className="no-data">No review activity yet</div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="review-queue-panel cyber-card">
+      <div className="section-header">
+        <h2>Review Queue</h2>
+        <button onClick={refresh} className="refresh-btn cyber-button" disabled={loading}>
+          {loading ? 'Loading...' : 'Refresh'}
+        </button>
+      </div>
+
+      {!isVerifier && !isAdmin && (
+        <div className="review-note">
+          Reviews are decided by verifiers. You can follow them here and attach evidence to your own contributions.
+        </div>
+      )}
+      {error && <div className="no-data">{error}</div>}
+
+      <div className="review-filters">
+        {FILTERS.map(option => (
+          <button
+            key={option.key}
+            onClick={() => setFilter(option.key)}
+            className={`cyber-button ${filter === option.key ? 'primary' : ''}`}
+          >
+            {option.label} ({filterReviewQueue(items, option.key, account).length})
+          </button>
+        ))}
+      </div>
+
+      <div className="review-layout">
+        <div className="review-list">
+          {visible.length === 0 && <div className="no-data">Nothing to show</div>}
+          {visible.map(item => (
+            <div
+              key={item.contributionId.toString()}
+              className={`review-item ${item.contributionId === selectedId ? 'selected' : ''}`}
+              onClick={() => select(item)}
+            >
+              <span>#{item.contributionId.toString()}</span>
+              <span>{shortAddress(item.submitter)}</span>
+              <span>{item.evidence.length} evidence</span>
+              <span className={`status-badge review-${item.review.status}`}>{item.review.status}</span>
+            </div>
+          ))}
+        </div>
+        {selected ? renderDetail(selected) : <div className="no-data">Select a contribution to review</div>}
+      </div>
+    </div>
+  );
+}
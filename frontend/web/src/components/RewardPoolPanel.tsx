@@ -0,0 +1,153 @@
+import React, { useEffect, useState } from 'react';
+import { ethers } from 'ethers';
+import { config, getRoyaltiesClientReadOnly, getRoyaltiesClientWithSigner } from '../contract';
+import { RewardPoolSummary, loadRewardPoolSummary } from '../../../../src/rewardPool';
+
+interface RewardPoolPanelProps {
+  account: string;
+  // Changing it reloads the summary
+  refreshKey?: number;
+}
+
+const formatEth = (wei: bigint) => Number(ethers.formatEther(wei)).toFixed(4);
+
+const shortAddress = (address: string) => `${address.substring(0, 6)}...${address.substring(38)}`;
+
+export default function RewardPoolPanel({ account, refreshKey }: RewardPoolPanelProps) {
+  const [summary, setSummary] = useState<RewardPoolSummary | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [amount, setAmount] = useState('');
+  const [depositing, setDepositing] = useState(false);
+
+  const refresh = async () => {
+    setLoading(true);
+    try {
+      const royalties = await getRoyaltiesClientReadOnly();
+      if (!royalties) {
+        setError('Royalties contract is not available');
+        return;
+      }
+      setSummary(await loadRewardPoolSummary(royalties, config.royaltiesDeployBlock));
+      setError('');
+    } catch (e: any) {
+      console.error('Failed to load reward pool:', e);
+      setError(e.message || 'Failed to load reward pool');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    refresh();
+  }, [refreshKey]);
+
+  const deposit = async () => {
+    let value: bigint;
+    try {
+      value = ethers.parseEther(amount);
+    } catch {
+      alert('Please enter a valid ETH amount');
+      return;
+    }
+    if (value <= 0n) {
+      alert('Deposit must be greater than zero');
+      return;
+    }
+
+    setDepositing(true);
+    try {
+      const royalties = await getRoyaltiesClientWithSigner();
+      await royalties.depositRewardPool(value);
+      setAmount('');
+      await refresh();
+    } catch (e: any) {
+      alert('Deposit failed: ' + (e.shortMessage || e.message || 'Unknown error'));
+    } finally {
+      setDepositing(false);
+    }
+  };
+
+  const stats = summary
+    ? [
+        { label: 'Pool Balance', value: summary.balance },
+        { label: 'Total Deposited', value: summary.deposited },
+        { label: 'Committed', value: summary.committed },
+        { label: 'Unclaimed', value: summary.unclaimed },
+        { label: 'Encrypted Epochs', value: summary.undisclosed },
+        { label: 'Paid Out', value: summary.paidOut },
+        { label: 'Withdrawn', value: summary.withdrawn },
+        { label: 'Uncommitted', value: summary.uncommitted }
+      ]
+    : [];
+
+  return (
+    <div className="reward-pool-panel cyber-card">
+      <div className="section-header">
+        <h2>Reward Pool</h2>
+        <button onClick={refresh} className="refresh-btn cyber-button" disabled={loading}>
+          {loading ? 'Loading...' : 'Refresh'}
+        </button>
+      </div>
+
+      {error && <div className="no-data">{error}</div>}
+
+      {summary && (
+        <>
+          <div className="pool-stats">
+            {stats.map(stat => (
+              <div className="stat-item" key={stat.label}>
+                <div className={`stat-value ${stat.value < 0n ? 'negative' : ''}`}>{formatEth(stat.value)}</div>
+                <div className="stat-label">{stat.label} (ETH)</div>
+              </div>
+            ))}
+          </div>
+          {summary.uncommitted < 0n && (
+            <div className="pool-warning">
+              Calculated royalties exceed the pool; later claims will fail until it is topped up.
+            </div>
+          )}
+        </>
+      )}
+
+      <div className="pool-body">
+        <div className="pool-deposits">
+          <h3>Recent Deposits</h3>
+          {summary && summary.deposits.length > 0 ? (
+            summary.deposits
+              .slice(-5)
+              .reverse()
+              .map(deposit => (
+                <div className="receipt-row" key={`${deposit.transactionHash}-${deposit.logIndex}`}>
+                  <span title={deposit.sponsor}>{shortAddress(deposit.sponsor)}</span>
+                  <span>{formatEth(deposit.amount)} ETH</span>
+                </div>
+              ))
+          ) : (
+            <div className="no-data">No deposits yet</div>
+          )}
+        </div>
+
+        <div className="pool-deposit-form">
+          <h3>Sponsor the Pool</h3>
+          <input
+            type="number"
+            value={amount}
+            onChange={e => setAmount(e.target.value)}
+            placeholder="0.00"
+            className="cyber-input"
+            step="0.01"
+            min="0"
+          />
+          <button
+            onClick={deposit}
+            disabled={!account || depositing || !amount}
+            className="cyber-button primary"
+          >
+            {depositing ? 'Depositing...' : account ? 'Deposit ETH' : 'Connect wallet to deposit'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,153 @@
+import React, { useEffect, useState } from 'react';
+import { ethers } from 'ethers';
+import { config, getRoyaltiesClientReadOnly, getRoyaltiesClientWithSigner } from '../contract';
+import { ROLES, ROLE_IDS, Role, RoleMember, can, loadRoleMembers } from '../../../../src/roles';
+
+interface RolesPanelProps {
+  // Roles of the connected account; only admins can grant and revoke
+  roles: Role[];
+  // Changing it reloads the members
+  refreshKey?: number;
+  onChanged?: () => void;
+}
+
+const ROLE_LABELS: Record<Role, string> = {
+  admin: 'Admins',
+  verifier: 'Verifiers',
+  treasurer: 'Treasurers',
+  contributor: 'Contributors'
+};
+
+const shortAddress = (address: string) => `${address.substring(0, 6)}...${address.substring(38)}`;
+
+export default function RolesPanel({ roles, refreshKey, onChanged }: RolesPanelProps) {
+  const [members, setMembers] = useState<Record<Role, RoleMember[]> | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [role, setRole] = useState<Role>('contributor');
+  const [address, setAddress] = useState('');
+  const [pending, setPending] = useState<string | null>(null);
+
+  const isAdmin = can(roles, 'manageRoles');
+
+  const refresh = async () => {
+    setLoading(true);
+    try {
+      const royalties = await getRoyaltiesClientReadOnly();
+      if (!royalties) {
+        setError('Royalties contract is not available');
+        return;
+      }
+      setMembers(await loadRoleMembers(royalties, config.royaltiesDeployBlock));
+      setError('');
+    } catch (e: any) {
+      console.error('Failed to load roles:', e);
+      setError(e.message || 'Failed to load roles');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    refresh();
+  }, [refreshKey]);
+
+  const change = async (action: 'grant' | 'revoke', target: Role, account: string) => {
+    setPending(`${action}:${target}:${account}`);
+    try {
+      const royalties = await getRoyaltiesClientWithSigner();
+      if (action === 'grant') {
+        await royalties.grantRole(ROLE_IDS[target], ethers.getAddress(account));
+        setAddress('');
+      } else {
+        await royalties.revokeRole(ROLE_IDS[target], account);
+      }
+      await refresh();
+      onChanged?.();
+    } catch (e: any) {
+      alert(`Failed to ${action} role: ` + (e.shortMessage || e.message || 'Unknown error'));
+    } finally {
+      setPending(null);
+    }
+  };
+
+  const grant = () => {
+    if (!ethers.isAddress(address)) {
+      alert('Please enter a valid address');
+      return;
+    }
+    change('grant', role, address);
+  };
+
+  return (
+    <div className="roles-panel cyber-card">
+      <div className="section-header">
+        <h2>Roles</h2>
+        <button onClick={refresh} className="refresh-btn cyber-button" disabled={loading}>
+          {loading ? 'Loading...' : 'Refresh'}
+        </button>
+      </div>
+
+      {error && <div className="no-data">{error}</div>}
+
+      {members && (
+        <div className="roles-grid">
+          {ROLES.map(current => (
+            <div className="role-group" key={current}>
+              <h3>{ROLE_LABELS[current]}</h3>
+              {members[current].length > 0 ? (
+                members[current].map(member => (
+                  <div className="receipt-row" key={member.account}>
+                    <span title={`${member.account}, granted by ${member.grantedBy}`}>
+                      {shortAddress(member.account)}
+                    </span>
+                    {isAdmin && (
+                      <button
+                        className="action-btn cyber-button"
+                        onClick={() => change('revoke', current, member.account)}
+                        disabled={pending !== null || (current === 'admin' && members.admin.length === 1)}
+                      >
+                        {pending === `revoke:${current}:${member.account}` ? 'Revoking...' : 'Revoke'}
+                      </button>
+                    )}
+                  </div>
+                ))
+              ) : (
+                <div className="no-data">Nobody</div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {isAdmin && (
+        <div className="role-grant-form">
+          <select value={role} onChange={e => setRole(e.target.value as Role)} className="cyber-select">
+            {ROLES.map(option => (
+              <option key={option} value={option}>
+                {option}
+              </option>
+            ))}
+          </select>
+          <input
+            type="text"
+            value={address}
+            onChange={e => setAddress(e.target.value)}
+            placeholder="0x..."
+            className="cyber-input"
+          />
+          <button onClick={grant} disabled={pending !== null || !address} className="cyber-button primary">
+            {pending?.startsWith('grant:') ? 'Granting...' : 'Grant role'}
+          </button>
+        </div>
+      )}
+
+      <div className="roles-note">
+        Contributors submit work, verifiers request royalty calculations and vote on disputes, treasurers approve
+        payouts and move unused funds, and admins manage roles, weights, the approval threshold and dispute terms.
+        Contributors and verifiers may dispute other contributors' royalties. Claims only need the contributor's own
+        signature.
+      </div>
+    </div>
+  );
+}
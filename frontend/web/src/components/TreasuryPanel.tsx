@@ -0,0 +1,244 @@
+import React, { useEffect, useState } from 'react';
+import { ethers } from 'ethers';
+import { getRoyaltiesClientReadOnly, getRoyaltiesClientWithSigner } from '../contract';
+import { Operation } from '../../../../src/royaltiesClient';
+import { ApprovalPolicy, hasApproved, isExecutable, loadApprovalPolicy, loadOperations } from '../../../../src/treasury';
+import { Role, can } from '../../../../src/roles';
+
+interface TreasuryPanelProps {
+  account: string;
+  // Roles of the connected account; treasurers propose and approve, admins set the threshold
+  roles: Role[];
+  // Changing it reloads the operations
+  refreshKey?: number;
+  onExecuted?: () => void;
+}
+
+const formatEth = (wei: bigint) => Number(ethers.formatEther(wei)).toFixed(4);
+
+const shortAddress = (address: string) => `${address.substring(0, 6)}...${address.substring(38)}`;
+
+export default function TreasuryPanel({ account, roles, refreshKey, onExecuted }: TreasuryPanelProps) {
+  const [operations, setOperations] = useState<Operation[]>([]);
+  const [policy, setPolicy] = useState<ApprovalPolicy | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [pending, setPending] = useState<string | null>(null);
+  const [threshold, setThreshold] = useState('');
+  const [withdrawal, setWithdrawal] = useState({ epoch: '', recipient: '', amount: '' });
+
+  const isTreasurer = can(roles, 'approvePayouts');
+  const isAdmin = can(roles, 'setApprovalThreshold');
+
+  const refresh = async () => {
+    setLoading(true);
+    try {
+      const royalties = await getRoyaltiesClientReadOnly();
+      if (!royalties) {
+        setError('Royalties contract is not available');
+        return;
+      }
+      const [pendingOperations, approvalPolicy] = await Promise.all([
+        loadOperations(royalties, true),
+        loadApprovalPolicy(royalties)
+      ]);
+      setOperations(pendingOperations);
+      setPolicy(approvalPolicy);
+      setError('');
+    } catch (e: any) {
+      console.error('Failed to load treasury operations:', e);
+      setError(e.message || 'Failed to load treasury operations');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    refresh();
+  }, [refreshKey]);
+
+  // Every write goes through here so the list reloads and errors surface the same way
+  const send = async (key: string, label: string, action: () => Promise<unknown>) => {
+    setPending(key);
+    try {
+      await action();
+      await refresh();
+      return true;
+    } catch (e: any) {
+      alert(`${label} failed: ` + (e.shortMessage || e.message || 'Unknown error'));
+      return false;
+    } finally {
+      setPending(null);
+    }
+  };
+
+  const approve = (operation: Operation) =>
+    send(`approve:${operation.id}`, 'Approval', async () => {
+      const royalties = await getRoyaltiesClientWithSigner();
+      await royalties.approveOperation(operation.id);
+    });
+
+  const execute = async (operation: Operation) => {
+    const executed = await send(`execute:${operation.id}`, 'Execution', async () => {
+      const royalties = await getRoyaltiesClientWithSigner();
+      await royalties.executeOperation(operation.id);
+    });
+    if (executed) onExecuted?.();
+  };
+
+  const cancel = (operation: Operation) =>
+    send(`cancel:${operation.id}`, 'Cancelling', async () => {
+      const royalties = await getRoyaltiesClientWithSigner();
+      await royalties.cancelOperation(operation.id);
+    });
+
+  const updateThreshold = async () => {
+    if (!/^[1-9][0-9]*$/.test(threshold)) {
+      alert('Please enter a positive number of approvals');
+      return;
+    }
+    const updated = await send('threshold', 'Updating the threshold', async () => {
+      const royalties = await getRoyaltiesClientWithSigner();
+      await royalties.setApprovalThreshold(threshold);
+    });
+    if (updated) setThreshold('');
+  };
+
+  const proposeWithdrawal = async () => {
+    if (!/^[0-9]+$/.test(withdrawal.epoch) || !ethers.isAddress(withdrawal.recipient)) {
+      alert('Please enter a settled epoch and a valid recipient address');
+      return;
+    }
+    let amount: bigint;
+    try {
+      amount = ethers.parseEther(withdrawal.amount);
+    } catch {
+      alert('Please enter a valid amount');
+      return;
+    }
+    const proposed = await send('withdrawal', 'Proposing the withdrawal', async () => {
+      const royalties = await getRoyaltiesClientWithSigner();
+      await royalties.proposeWithdrawal(withdrawal.epoch, ethers.getAddress(withdrawal.recipient), amount);
+    });
+    if (proposed) setWithdrawal({ epoch: '', recipient: '', amount: '' });
+  };
+
+  return (
+    <div className="treasury-panel cyber-card">
+      <div className="section-header">
+        <h2>Treasury Approvals</h2>
+        <button onClick={refresh} className="refresh-btn cyber-button" disabled={loading}>
+          {loading ? 'Loading...' : 'Refresh'}
+        </button>
+      </div>
+
+      {error && <div className="no-data">{error}</div>}
+
+      {policy && (
+        <div className="treasury-policy">
+          Payouts and withdrawals need {policy.threshold.toString()} of {policy.treasurers.toString()} treasurer
+          approvals.
+          {isAdmin && (
+            <div className="treasury-form">
+              <input
+                type="number"
+                min="1"
+                max={policy.treasurers.toString()}
+                value={threshold}
+                onChange={e => setThreshold(e.target.value)}
+                placeholder="Approvals"
+                className="cyber-input"
+              />
+              <button onClick={updateThreshold} disabled={pending !== null || !threshold} className="cyber-button">
+                {pending === 'threshold' ? 'Updating...' : 'Set threshold'}
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+
+      {operations.length > 0 ? (
+        <div className="treasury-operations">
+          {operations.map(operation => (
+            <div className="treasury-operation" key={operation.id.toString()}>
+              <span>
+                #{operation.id.toString()} {operation.kind === 'payout' ? 'Payout' : 'Withdrawal'} of{' '}
+                {formatEth(operation.amount)} ETH to{' '}
+                <span title={operation.recipient}>{shortAddress(operation.recipient)}</span> from epoch #
+                {operation.epoch.toString()}
+              </span>
+              <span title={operation.approvers.map(shortAddress).join(', ')}>
+                {operation.approvals.toString()}/{policy?.threshold.toString()} approvals
+              </span>
+              <div className="treasury-actions">
+                {isTreasurer && !hasApproved(operation, account) && (
+                  <button
+                    className="action-btn cyber-button"
+                    onClick={() => approve(operation)}
+                    disabled={pending !== null}
+                  >
+                    {pending === `approve:${operation.id}` ? 'Approving...' : 'Approve'}
+                  </button>
+                )}
+                {policy && isExecutable(operation, policy) && account && (
+                  <button
+                    className="action-btn cyber-button success"
+                    onClick={() => execute(operation)}
+                    disabled={pending !== null}
+                  >
+                    {pending === `execute:${operation.id}` ? 'Executing...' : 'Execute'}
+                  </button>
+                )}
+                {isAdmin && (
+                  <button
+                    className="action-btn cyber-button danger"
+                    onClick={() => cancel(operation)}
+                    disabled={pending !== null}
+                  >
+                    {pending === `cancel:${operation.id}` ? 'Cancelling...' : 'Cancel'}
+                  </button>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      ) : (
+        !loading && <div className="no-data">Nothing waits for approval</div>
+      )}
+
+      {isTreasurer && (
+        <div className="treasury-form">
+          <input
+            type="text"
+            value={withdrawal.epoch}
+            onChange={e => setWithdrawal({ ...withdrawal, epoch: e.target.value })}
+            placeholder="Settled epoch"
+            className="cyber-input"
+          />
+          <input
+            type="text"
+            value={withdrawal.recipient}
+            onChange={e => setWithdrawal({ ...withdrawal, recipient: e.target.value })}
+            placeholder="Recipient 0x..."
+            className="cyber-input"
+          />
+          <input
+            type="text"
+            value={withdrawal.amount}
+            onChange={e => setWithdrawal({ ...withdrawal, amount: e.target.value })}
+            placeholder="Amount (ETH)"
+            className="cyber-input"
+          />
+          <button onClick={proposeWithdrawal} disabled={pending !== null} className="cyber-button primary">
+            {pending === 'withdrawal' ? 'Proposing...' : 'Propose withdrawal'}
+          </button>
+        </div>
+      )}
+
+      <div className="treasury-note">
+        A claimed payout is queued once the oracle decrypts its amount and only leaves the contract after enough
+        treasurers approved it. Withdrawals can only take funds of settled epochs that no calculation committed.
+      </div>
+    </div>
+  );
+}
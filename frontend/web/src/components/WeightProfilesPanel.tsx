@@ -0,0 +1,184 @@
+import React, { useEffect, useState } from 'react';
+import { config, getRoyaltiesClientReadOnly, getRoyaltiesClientWithSigner } from '../contract';
+import { RoyaltyWeights } from '../../../../src/royaltiesClient';
+import { WeightProfile, loadWeightProfiles, validateWeights } from '../../../../src/weightProfiles';
+import { Role, can } from '../../../../src/roles';
+
+interface WeightProfilesPanelProps {
+  // Roles of the connected account; only admins can edit weights
+  roles: Role[];
+  // Changing it reloads the profiles
+  refreshKey?: number;
+}
+
+const WEIGHT_FIELDS: { key: keyof RoyaltyWeights; label: string }[] = [
+  { key: 'computeWeight', label: 'Compute' },
+  { key: 'qualityWeight', label: 'Data Quality' },
+  { key: 'impactWeight', label: 'Model Impact' }
+];
+
+const profileName = (profile: WeightProfile) => profile.model ?? 'Default';
+
+const formatWeights = (weights: RoyaltyWeights) =>
+  WEIGHT_FIELDS.map(field => weights[field.key]).join(' / ');
+
+export default function WeightProfilesPanel({ roles, refreshKey }: WeightProfilesPanelProps) {
+  const [profiles, setProfiles] = useState<WeightProfile[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [editing, setEditing] = useState<string | null>(null);
+  const [draft, setDraft] = useState<RoyaltyWeights>({ computeWeight: 0, qualityWeight: 0, impactWeight: 0 });
+  const [saving, setSaving] = useState(false);
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  const refresh = async () => {
+    setLoading(true);
+    try {
+      const royalties = await getRoyaltiesClientReadOnly();
+      if (!royalties) {
+        setError('Royalties contract is not available');
+        return;
+      }
+      setProfiles(await loadWeightProfiles(royalties, undefined, config.royaltiesDeployBlock));
+      setError('');
+    } catch (e: any) {
+      console.error('Failed to load weight profiles:', e);
+      setError(e.message || 'Failed to load weight profiles');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    refresh();
+  }, [refreshKey]);
+
+  const startEditing = (profile: WeightProfile) => {
+    setEditing(profile.modelId);
+    setDraft({
+      computeWeight: profile.active.computeWeight,
+      qualityWeight: profile.active.qualityWeight,
+      impactWeight: profile.active.impactWeight
+    });
+  };
+
+  const save = async () => {
+    if (!editing) return;
+    const invalid = validateWeights(draft);
+    if (invalid) {
+      alert(invalid);
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const royalties = await getRoyaltiesClientWithSigner();
+      await royalties.setWeightProfile(editing, draft);
+      setEditing(null);
+      await refresh();
+    } catch (e: any) {
+      alert('Saving weights failed: ' + (e.shortMessage || e.message || 'Unknown error'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="weight-profiles-panel cyber-card">
+      <div className="section-header">
+        <h2>Royalty Weight Profiles</h2>
+        <button onClick={refresh} className="refresh-btn cyber-button" disabled={loading}>
+          {loading ? 'Loading...' : 'Refresh'}
+        </button>
+      </div>
+
+      {error && <div className="no-data">{error}</div>}
+
+      <div className="weight-profiles">
+        {profiles.map(profile => (
+          <div className="weight-profile" key={profile.modelId}>
+            <div className="weight-profile-header">
+              <h3>{profileName(profile)}</h3>
+              <span className="ruleset-id">Ruleset #{profile.active.id.toString()}</span>
+            </div>
+
+            {editing === profile.modelId ? (
+              <div className="weight-form">
+                {WEIGHT_FIELDS.map(field => (
+                  <label key={field.key}>
+                    {field.label}
+                    <input
+                      type="number"
+                      className="cyber-input"
+                      min="0"
+                      max="100"
+                      value={draft[field.key]}
+                      onChange={e => setDraft({ ...draft, [field.key]: Number(e.target.value) })}
+                    />
+                  </label>
+                ))}
+                <div className="weight-form-actions">
+                  <button onClick={() => setEditing(null)} className="cyber-button" disabled={saving}>
+                    Cancel
+                  </button>
+                  <button onClick={save} className="cyber-button primary" disabled={saving}>
+                    {saving ? 'Saving...' : 'Save'}
+                  </button>
+                </div>
+              </div>
+            ) : (
+              <>
+                <div className="weight-values">
+                  {WEIGHT_FIELDS.map(field => (
+                    <div className="weight-value" key={field.key}>
+                      <span>{field.label}</span>
+                      <span>{profile.active[field.key]}%</span>
+                    </div>
+                  ))}
+                </div>
+                {profile.inherited && <div className="weight-note">Uses the default profile</div>}
+                <div className="weight-profile-actions">
+                  {can(roles, 'setWeights') && (
+                    <button onClick={() => startEditing(profile)} className="action-btn cyber-button">
+                      Edit
+                    </button>
+                  )}
+                  {profile.history.length > 0 && (
+                    <button
+                      onClick={() => setExpanded(expanded === profile.modelId ? null : profile.modelId)}
+                      className="action-btn cyber-button"
+                    >
+                      {expanded === profile.modelId ? 'Hide history' : `History (${profile.history.length})`}
+                    </button>
+                  )}
+                </div>
+              </>
+            )}
+
+            {expanded === profile.modelId && (
+              <div className="ruleset-history">
+                {profile.history
+                  .slice()
+                  .reverse()
+                  .map(entry => (
+                    <div className="receipt-row" key={entry.id.toString()}>
+                      <span>
+                        #{entry.id.toString()} · {formatWeights(entry)} ·{' '}
+                        {new Date(Number(entry.createdAt) * 1000).toLocaleDateString()}
+                      </span>
+                      <span>{entry.calculatedContributionIds.length} shares</span>
+                    </div>
+                  ))}
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+
+      <div className="weight-profiles-note">
+        Contributions are scored with the profile active for their model when they are submitted; later edits create a
+        new ruleset and leave earlier shares untouched.
+      </div>
+    </div>
+  );
+}
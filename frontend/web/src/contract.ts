@@ -2,6 +2,17 @@
 import { ethers } from "ethers";
 import abiJson from "./abi/UniversalAdapter.json";
 import configJson from "./config.json";
+import { RoyaltiesClient } from "../../../src/royaltiesClient";
+import {
+  CONTRIBUTION_KEY_PREFIX,
+  ContributionIndexEntry,
+  ContributionIndexSnapshot,
+  findDeploymentBlock,
+  syncContributionIndex
+} from "../../../src/contributionIndex";
+import { streamDataPages } from "../../../src/batchReader";
+import { ProviderPool, resolveNetworkProfiles } from "../../../src/providerPool";
+import { UniversalAdapter__factory } from "../../../types";
 
 export const ABI = (abiJson as any).abi || abiJson;
 export const config = configJson;
@@ -18,40 +29,48 @@ const retry = async <T>(fn: () => Promise<T>, retries = 3, delay = 1000): Promis
   }
 };
 
-const getTestnetProvider = async () => {
-  const rpcUrls = [
-    "https://sepolia.infura.io/v3/96406da962744120afbe0cf64c8bd7b3",
-    "https://rpc.ankr.com/eth_sepolia/f5a86d4556184938f528d746ecfa1eabcf7e4b970fc86df257418084c9305ae4",
-    "https://rpc.sepolia.org",
-    "https://rpc2.sepolia.org",
-    "https://eth-sepolia.public.blastapi.io"
-  ];
-  
-  for (const url of rpcUrls) {
-    try {
-      const provider = new ethers.JsonRpcProvider(url, {
-        name: "sepolia",
-        chainId: 11155111
-      });
-      
-      const blockNumber = await Promise.race([
-        provider.getBlockNumber(),
-        new Promise((_, reject) => 
-          setTimeout(() => reject(new Error("RPC timeout")), 10000)
-        )
-      ]);
-      
-      return provider;
-    } catch (error) {
+// RPC URLs from VITE_<NETWORK>_RPC_URLS (comma separated) are tried before the ones in config.json,
+// which keeps keyed endpoints out of the repository
+const envRpcUrls = () => {
+  const urls: Record<string, string[]> = {};
+  for (const name of Object.keys(config.networks)) {
+    const value = import.meta.env[`VITE_${name.toUpperCase()}_RPC_URLS`];
+    if (value) {
+      urls[name] = value.split(",").map((url: string) => url.trim()).filter(Boolean);
     }
   }
-  
-  throw new Error("All RPC providers failed");
+  return urls;
+};
+
+export const networkProfiles = resolveNetworkProfiles(config.networks, envRpcUrls());
+export const selectedNetwork: string = import.meta.env.VITE_NETWORK || config.defaultNetwork;
+
+let providerPool: ProviderPool | null = null;
+let initialProbe: Promise<unknown> | null = null;
+
+export function getProviderPool() {
+  if (!providerPool) {
+    const profile = networkProfiles[selectedNetwork];
+    if (!profile) {
+      throw new Error(`Unknown network "${selectedNetwork}"`);
+    }
+    providerPool = new ProviderPool(profile);
+  }
+  return providerPool;
+}
+
+export const getReadProvider = async () => {
+  const pool = getProviderPool();
+  if (!initialProbe) {
+    initialProbe = pool.probe();
+  }
+  await initialProbe;
+  return pool.provider;
 };
 
 export async function getContractReadOnly() {
   try {
-    const provider = await getTestnetProvider();
+    const provider = await getReadProvider();
     const contract = new ethers.Contract(config.contractAddress, ABI, provider);
     
     const code = await retry(() => provider.getCode(config.contractAddress));
@@ -66,6 +85,40 @@ export async function getContractReadOnly() {
   }
 }
 
+const indexStorageKey = () => `contribution_index_${normAddr(config.contractAddress)}`;
+
+// Contribution IDs come from DataStored history; the scanned range is cached locally
+export async function loadContributionIndex(): Promise<ContributionIndexEntry[]> {
+  const provider = await getReadProvider();
+  const adapter = UniversalAdapter__factory.connect(config.contractAddress, provider);
+
+  let snapshot: ContributionIndexSnapshot | null = null;
+  try {
+    const cached = localStorage.getItem(indexStorageKey());
+    if (cached) snapshot = JSON.parse(cached);
+  } catch (e) {
+    console.error("Ignoring unreadable contribution index cache:", e);
+  }
+
+  const fromBlock = snapshot
+    ? undefined
+    : config.deployBlock || (await findDeploymentBlock(provider, config.contractAddress));
+  const next = await syncContributionIndex(adapter, snapshot, { fromBlock });
+
+  localStorage.setItem(indexStorageKey(), JSON.stringify(next));
+  return next.entries;
+}
+
+export async function streamContributionPages(ids: string[], pageSize = 25) {
+  const provider = await getReadProvider();
+  const adapter = UniversalAdapter__factory.connect(config.contractAddress, provider);
+  return streamDataPages(
+    adapter,
+    ids.map(id => `${CONTRIBUTION_KEY_PREFIX}${id}`),
+    { pageSize }
+  );
+}
+
 export async function getContractWithSigner() {
   if (!(window as any).ethereum) {
     throw new Error("No injected wallet");
@@ -81,6 +134,40 @@ export async function getContractWithSigner() {
   }
 }
 
+export async function getRoyaltiesClientReadOnly() {
+  if (!config.royaltiesContractAddress) {
+    return null;
+  }
+  try {
+    const provider = await getReadProvider();
+    const code = await retry(() => provider.getCode(config.royaltiesContractAddress));
+    if (code === "0x") {
+      return null;
+    }
+    return new RoyaltiesClient(config.royaltiesContractAddress, provider);
+  } catch (error) {
+    console.error("Failed to create read-only royalties client:", error);
+    return null;
+  }
+}
+
+export async function getRoyaltiesClientWithSigner() {
+  if (!config.royaltiesContractAddress) {
+    throw new Error("Royalties contract address is not configured");
+  }
+  if (!(window as any).ethereum) {
+    throw new Error("No injected wallet");
+  }
+  try {
+    const provider = new ethers.BrowserProvider((window as any).ethereum);
+    const signer = await provider.getSigner();
+    return new RoyaltiesClient(config.royaltiesContractAddress, signer);
+  } catch (error) {
+    console.error("Failed to create royalties client with signer:", error);
+    throw error;
+  }
+}
+
 export function normAddr(a: string) { 
   return a ? a.toLowerCase() : a; 
 }
\ No newline at end of file
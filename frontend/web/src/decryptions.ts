@@ -0,0 +1,52 @@
+// decryptions.ts
+import {
+  DecryptionRequest,
+  DecryptionRequestStore,
+  DecryptionTracker
+} from "../../../src/decryptionTracker";
+import { config, getRoyaltiesClientReadOnly } from "./contract";
+
+const localStorageStore = (key: string): DecryptionRequestStore => ({
+  load: () => {
+    try {
+      return JSON.parse(localStorage.getItem(key) || "[]") as DecryptionRequest[];
+    } catch (e) {
+      console.error("Ignoring unreadable decryption request cache:", e);
+      return [];
+    }
+  },
+  save: (requests) => localStorage.setItem(key, JSON.stringify(requests)),
+  loadCursor: () => {
+    const cursor = Number(localStorage.getItem(`${key}_cursor`));
+    return Number.isInteger(cursor) && cursor > 0 ? cursor : undefined;
+  },
+  saveCursor: (block) => localStorage.setItem(`${key}_cursor`, String(block))
+});
+
+let trackerPromise: Promise<DecryptionTracker | null> | null = null;
+
+// One tracker per page, shared by the contribution table and the verify flow
+export function getDecryptionTracker(): Promise<DecryptionTracker | null> {
+  if (!trackerPromise) {
+    trackerPromise = (async () => {
+      const client = await getRoyaltiesClientReadOnly();
+      if (!client) return null;
+
+      const tracker = new DecryptionTracker(
+        client,
+        localStorageStore(`decryption_requests_${client.address.toLowerCase()}`)
+      );
+      try {
+        await tracker.sync(config.royaltiesDeployBlock);
+      } catch (e) {
+        console.error("Failed to sync decryption requests:", e);
+      }
+      await tracker.start();
+      return tracker;
+    })().catch((e) => {
+      trackerPromise = null;
+      throw e;
+    });
+  }
+  return trackerPromise;
+}
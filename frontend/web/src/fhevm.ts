@@ -0,0 +1,75 @@
+// fhevm.ts
+import { initSDK, createInstance, SepoliaConfig } from "@zama-fhe/relayer-sdk/bundle";
+import type { FhevmInstance, FhevmInstanceConfig } from "@zama-fhe/relayer-sdk/bundle";
+import { JsonRpcProvider } from "ethers";
+import { IACL__factory } from "../../../types";
+import { getProviderPool, getReadProvider } from "./contract";
+
+// Chain id of `npx hardhat node`, which runs the plugin's mock FHEVM instead of Zama's relayer and KMS
+const LOCAL_CHAIN_ID = 31337;
+
+let configPromise: Promise<FhevmInstanceConfig> | null = null;
+let instancePromise: Promise<FhevmInstance> | null = null;
+
+const localRpcUrl = () => getProviderPool().network.rpcUrls[0];
+
+// A local node reports where its mock FHEVM contracts live; the gateway settings are read from them
+async function loadLocalConfig() {
+  const { contracts } = await import("@fhevm/mock-utils");
+  const provider = new JsonRpcProvider(localRpcUrl());
+  const metadata = await provider.send("fhevm_relayer_metadata", []);
+  const repository = await contracts.FhevmContractsRepository.create(provider, {
+    aclContractAddress: metadata.ACLAddress,
+    kmsContractAddress: metadata.KMSVerifierAddress
+  });
+  return repository.getFhevmInstanceConfig({ chainId: LOCAL_CHAIN_ID, relayerUrl: localRpcUrl() });
+}
+
+// FHEVM deployment of the selected network profile
+export function getFhevmConfig(): Promise<FhevmInstanceConfig> {
+  if (!configPromise) {
+    configPromise = (async () => {
+      const { name, chainId } = getProviderPool().network;
+      if (chainId === SepoliaConfig.chainId) return SepoliaConfig;
+      if (chainId === LOCAL_CHAIN_ID) return loadLocalConfig();
+      throw new Error(`No FHEVM deployment is known for network "${name}"`);
+    })().catch((e) => {
+      configPromise = null;
+      throw e;
+    });
+  }
+  return configPromise;
+}
+
+// The SDK (loaded from the CDN script in index.html) initializes its WASM once;
+// later callers share the same instance. On a local node the mock instance answers instead.
+export function getFhevmInstance(): Promise<FhevmInstance> {
+  if (!instancePromise) {
+    instancePromise = (async () => {
+      const config = await getFhevmConfig();
+      if (config.chainId === LOCAL_CHAIN_ID) {
+        const { MockFhevmInstance } = await import("@fhevm/mock-utils");
+        const provider = new JsonRpcProvider(localRpcUrl());
+        return MockFhevmInstance.create(provider, provider, {
+          ...config,
+          chainId: LOCAL_CHAIN_ID
+        });
+      }
+      if (!window.ethereum) {
+        throw new Error("No injected wallet");
+      }
+      await initSDK();
+      return createInstance({ ...config, network: window.ethereum });
+    })().catch((e) => {
+      instancePromise = null;
+      throw e;
+    });
+  }
+  return instancePromise;
+}
+
+// ACL of the FHEVM deployment the selected network uses
+export async function getAclReadOnly() {
+  const [config, provider] = await Promise.all([getFhevmConfig(), getReadProvider()]);
+  return IACL__factory.connect(config.aclContractAddress, provider);
+}
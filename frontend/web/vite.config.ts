@@ -1,8 +1,17 @@
-import { defineConfig } from "vite";
+import { defineConfig, searchForWorkspaceRoot } from "vite";
 import react from "@vitejs/plugin-react";
 
 export default defineConfig({
   plugins: [react()],
+  resolve: {
+    // Shared modules under ../../src resolve ethers from the root install otherwise
+    dedupe: ["ethers"]
+  },
+  server: {
+    fs: {
+      allow: [searchForWorkspaceRoot(process.cwd()), "../../src", "../../types"]
+    }
+  },
   define: {
     'process.env': process.env
   },
@@ -3,12 +3,23 @@ import "@nomicfoundation/hardhat-toolbox";
 import "@nomicfoundation/hardhat-ethers";
 import "@fhevm/hardhat-plugin";
 
+import "./tasks/aclInspector";
+import "./tasks/decryptionRelayer";
+import "./tasks/kmsVerifier";
+import "./tasks/legacyMigration";
+import "./tasks/royaltySimulator";
+
 const config: HardhatUserConfig = {
   defaultNetwork: "hardhat",
   networks: {
     hardhat: {
       chainId: 31337,
     },
+    // `npx hardhat node`, which runs the same mock FHEVM coprocessor as the in-process network
+    localhost: {
+      chainId: 31337,
+      url: "http://127.0.0.1:8545",
+    },
     sepolia: {
       chainId: 11155111,
       url: "https://sepolia.drpc.org",
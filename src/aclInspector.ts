@@ -0,0 +1,127 @@
+// aclInspector.ts
+import { ZeroAddress, ZeroHash } from "ethers";
+import type { BigNumberish } from "ethers";
+import type { BlockTag, RoyaltiesClient } from "./royaltiesClient";
+import { loadRoleMembers } from "./roles";
+
+// Read side of the FHEVM ACL; the typechain `IACL` binding and `MockFhevm` both satisfy it
+export interface AclReader {
+  isAllowed(handle: string, account: string): Promise<boolean>;
+  isAllowedForDecryption(handle: string): Promise<boolean>;
+}
+
+export type AclRole = "contract" | "contributor" | "admin" | "oracle";
+
+export interface AclPrincipal {
+  role: AclRole;
+  // null when the address is unknown; only the oracle's access can be checked without it
+  address: string | null;
+}
+
+export interface PrincipalAccess extends AclPrincipal {
+  allowed: boolean;
+}
+
+export interface HandleAccess {
+  // Field the handle is stored in, e.g. `encryptedComputeHours`
+  name: string;
+  handle: string;
+  // False for handles the contract has not written yet
+  isSet: boolean;
+  access: PrincipalAccess[];
+  // Nobody can user-decrypt it, the oracle has not been given it and the contract cannot request it
+  undecryptable: boolean;
+}
+
+export interface ContributionAclReport {
+  contributionId: bigint;
+  contributorHash: string;
+  principals: AclPrincipal[];
+  handles: HandleAccess[];
+}
+
+export interface InspectAclOptions {
+  // Shown for reference; the oracle's access is the ACL's public decryption flag
+  oracle?: string;
+  // Admin account to check; defaults to the earliest current admin found from `fromBlock`
+  admin?: string;
+  fromBlock?: BlockTag;
+}
+
+async function defaultAdmin(client: RoyaltiesClient, fromBlock?: BlockTag): Promise<string | null> {
+  const { admin } = await loadRoleMembers(client, fromBlock);
+  return admin[0]?.account ?? null;
+}
+
+async function inspectHandle(
+  acl: AclReader,
+  name: string,
+  handle: string,
+  principals: AclPrincipal[]
+): Promise<HandleAccess> {
+  if (handle === ZeroHash) {
+    return { name, handle, isSet: false, access: [], undecryptable: false };
+  }
+
+  const access = await Promise.all(
+    principals.map(async (principal): Promise<PrincipalAccess> => {
+      // The oracle decrypts whatever `FHE.requestDecryption` marked for decryption
+      if (principal.role === "oracle") {
+        return { ...principal, allowed: await acl.isAllowedForDecryption(handle) };
+      }
+      if (!principal.address || principal.address === ZeroAddress) {
+        return { ...principal, allowed: false };
+      }
+      return { ...principal, allowed: await acl.isAllowed(handle, principal.address) };
+    })
+  );
+  return { name, handle, isSet: true, access, undecryptable: access.every((entry) => !entry.allowed) };
+}
+
+/**
+ * Lists every ciphertext handle a contribution touches, from its metrics to
+ * the calculated share and payment, with the principals the ACL lets read
+ * each of them. The epoch's score total is shared by every contribution of
+ * the epoch.
+ */
+export async function inspectContributionAcl(
+  client: RoyaltiesClient,
+  acl: AclReader,
+  contributionId: BigNumberish,
+  options: InspectAclOptions = {}
+): Promise<ContributionAclReport> {
+  const contribution = await client.getContribution(contributionId);
+  if (!contribution) {
+    throw new Error(`Contribution ${contributionId} does not exist`);
+  }
+
+  const [contributor, admin, epoch, distribution] = await Promise.all([
+    client.getContributor(contribution.id),
+    options.admin ?? defaultAdmin(client, options.fromBlock),
+    client.getEpochTotals(contribution.epoch),
+    client.getRoyaltyDistribution(contribution.contributorHash),
+  ]);
+  const principals: AclPrincipal[] = [
+    { role: "contract", address: client.address },
+    { role: "contributor", address: contributor },
+    { role: "admin", address: admin },
+    { role: "oracle", address: options.oracle ?? null },
+  ];
+
+  const handles: [string, string][] = [
+    ["encryptedComputeHours", contribution.encryptedComputeHours],
+    ["encryptedDataQuality", contribution.encryptedDataQuality],
+    ["encryptedModelImpact", contribution.encryptedModelImpact],
+    ["encryptedScore", contribution.encryptedScore],
+    ["encryptedScoreTotal", epoch.encryptedScoreTotal],
+    ["encryptedShare", distribution.encryptedShare],
+    ["encryptedPaymentAmount", distribution.encryptedPaymentAmount],
+  ];
+
+  return {
+    contributionId: contribution.id,
+    contributorHash: contribution.contributorHash,
+    principals,
+    handles: await Promise.all(handles.map(([name, handle]) => inspectHandle(acl, name, handle, principals))),
+  };
+}
@@ -0,0 +1,160 @@
+// batchReader.ts
+import { Interface } from "ethers";
+import type { UniversalAdapter } from "../types";
+
+// Multicall3 is deployed at the same address on Sepolia, mainnet and most public chains
+export const MULTICALL3_ADDRESS = "0xcA11bde05977b3631167028862bE2a173976CA11";
+
+const multicallInterface = new Interface([
+  "function aggregate3((address target, bool allowFailure, bytes callData)[] calls) payable returns ((bool success, bytes returnData)[] returnData)",
+]);
+
+const DEFAULT_PAGE_SIZE = 25;
+const DEFAULT_BATCH_SIZE = 100;
+const DEFAULT_CONCURRENCY = 5;
+
+export interface DataRecord {
+  key: string;
+  // Hex-encoded stored bytes, "0x" when the key has no value or the read failed
+  value: string;
+}
+
+export interface DataPage {
+  records: DataRecord[];
+  // Offset to resume from, null once every key has been read
+  nextCursor: number | null;
+}
+
+export interface BatchReadOptions {
+  batchSize?: number;
+  concurrency?: number;
+  multicallAddress?: string;
+}
+
+export interface PageOptions extends BatchReadOptions {
+  pageSize?: number;
+  cursor?: number;
+}
+
+const multicallAvailable = new Map<string, Promise<boolean>>();
+
+async function hasMulticall(adapter: UniversalAdapter, address: string): Promise<boolean> {
+  const provider = adapter.runner?.provider;
+  if (!provider) return false;
+
+  const { chainId } = await provider.getNetwork();
+  const cacheKey = `${chainId}:${address.toLowerCase()}`;
+  if (!multicallAvailable.has(cacheKey)) {
+    multicallAvailable.set(
+      cacheKey,
+      provider.getCode(address).then(
+        (code) => code !== "0x",
+        () => false
+      )
+    );
+  }
+  return multicallAvailable.get(cacheKey)!;
+}
+
+async function readWithMulticall(adapter: UniversalAdapter, keys: string[], multicallAddress: string) {
+  const provider = adapter.runner!.provider!;
+  const target = await adapter.getAddress();
+  const calls = keys.map((key) => ({
+    target,
+    allowFailure: true,
+    callData: adapter.interface.encodeFunctionData("getData", [key]),
+  }));
+
+  const raw = await provider.call({
+    to: multicallAddress,
+    data: multicallInterface.encodeFunctionData("aggregate3", [calls]),
+  });
+  const [results] = multicallInterface.decodeFunctionResult("aggregate3", raw);
+
+  return keys.map((key, i): DataRecord => {
+    const [success, returnData] = results[i];
+    if (!success) return { key, value: "0x" };
+    const [value] = adapter.interface.decodeFunctionResult("getData", returnData);
+    return { key, value };
+  });
+}
+
+// Fallback for chains without Multicall3 (e.g. a fresh hardhat node): bounded parallel eth_calls
+async function readWithChunks(adapter: UniversalAdapter, keys: string[], concurrency: number) {
+  const records: DataRecord[] = new Array(keys.length);
+  for (let i = 0; i < keys.length; i += concurrency) {
+    const slice = keys.slice(i, i + concurrency);
+    const values = await Promise.all(
+      slice.map((key) =>
+        adapter.getData(key).catch((e) => {
+          console.error(`Error loading ${key}:`, e);
+          return "0x";
+        })
+      )
+    );
+    values.forEach((value, j) => {
+      records[i + j] = { key: slice[j], value };
+    });
+  }
+  return records;
+}
+
+/**
+ * Reads `getData(key)` for every key, batching through Multicall3 when the
+ * chain has it and falling back to bounded parallel calls otherwise.
+ */
+export async function readDataBatch(
+  adapter: UniversalAdapter,
+  keys: string[],
+  options: BatchReadOptions = {}
+): Promise<DataRecord[]> {
+  const batchSize = options.batchSize ?? DEFAULT_BATCH_SIZE;
+  const concurrency = options.concurrency ?? DEFAULT_CONCURRENCY;
+  const multicallAddress = options.multicallAddress ?? MULTICALL3_ADDRESS;
+  const useMulticall = await hasMulticall(adapter, multicallAddress);
+
+  const records: DataRecord[] = [];
+  for (let i = 0; i < keys.length; i += batchSize) {
+    const batch = keys.slice(i, i + batchSize);
+    if (useMulticall) {
+      try {
+        records.push(...(await readWithMulticall(adapter, batch, multicallAddress)));
+        continue;
+      } catch (e) {
+        console.error("Multicall batch failed, falling back to individual calls:", e);
+      }
+    }
+    records.push(...(await readWithChunks(adapter, batch, concurrency)));
+  }
+  return records;
+}
+
+export async function readDataPage(
+  adapter: UniversalAdapter,
+  keys: string[],
+  options: PageOptions = {}
+): Promise<DataPage> {
+  const pageSize = options.pageSize ?? DEFAULT_PAGE_SIZE;
+  const cursor = options.cursor ?? 0;
+  const end = Math.min(cursor + pageSize, keys.length);
+
+  const records = await readDataBatch(adapter, keys.slice(cursor, end), options);
+  return { records, nextCursor: end < keys.length ? end : null };
+}
+
+/**
+ * Yields pages of records in key order, so callers can render the first page
+ * while the rest is still loading.
+ */
+export async function* streamDataPages(
+  adapter: UniversalAdapter,
+  keys: string[],
+  options: PageOptions = {}
+): AsyncGenerator<DataPage> {
+  let cursor: number | null = options.cursor ?? 0;
+  while (cursor !== null) {
+    const page = await readDataPage(adapter, keys, { ...options, cursor });
+    yield page;
+    cursor = page.nextCursor;
+  }
+}
@@ -0,0 +1,109 @@
+// contributionIndex.ts
+import type { Provider } from "ethers";
+import type { UniversalAdapter } from "../types";
+import { queryInChunks } from "./logRange";
+
+export const CONTRIBUTION_KEY_PREFIX = "contribution_";
+
+// Key of the legacy JSON array index, written by older frontends
+export const LEGACY_KEYS_KEY = "contribution_keys";
+
+export interface ContributionIndexEntry {
+  id: string;
+  creator: string;
+  createdBlock: number;
+  updatedBlock: number;
+}
+
+export interface ContributionIndexSnapshot {
+  lastBlock: number;
+  entries: ContributionIndexEntry[];
+}
+
+export interface SyncOptions {
+  fromBlock?: number;
+  toBlock?: number;
+  chunkSize?: number;
+}
+
+export function contributionIdFromKey(key: string): string | null {
+  if (key === LEGACY_KEYS_KEY || !key.startsWith(CONTRIBUTION_KEY_PREFIX)) {
+    return null;
+  }
+  const id = key.substring(CONTRIBUTION_KEY_PREFIX.length);
+  return id.length > 0 ? id : null;
+}
+
+/**
+ * Finds the block a contract was deployed in by binary searching `getCode`.
+ * Used as the scan start when no deployment block is configured.
+ */
+export async function findDeploymentBlock(provider: Provider, address: string): Promise<number> {
+  let low = 0;
+  let high = await provider.getBlockNumber();
+  if ((await provider.getCode(address, high)) === "0x") {
+    throw new Error(`No contract deployed at ${address}`);
+  }
+  while (low < high) {
+    const mid = Math.floor((low + high) / 2);
+    if ((await provider.getCode(address, mid)) === "0x") {
+      low = mid + 1;
+    } else {
+      high = mid;
+    }
+  }
+  return low;
+}
+
+/**
+ * Brings a contribution index up to date from `DataStored` events. The index
+ * is derived purely from chain history, so concurrent submitters can no
+ * longer drop each other's keys. Pass the previous snapshot to only scan
+ * blocks after `snapshot.lastBlock`.
+ */
+export async function syncContributionIndex(
+  adapter: UniversalAdapter,
+  snapshot: ContributionIndexSnapshot | null,
+  options: SyncOptions = {}
+): Promise<ContributionIndexSnapshot> {
+  const provider = adapter.runner?.provider;
+  if (!provider) {
+    throw new Error("Contract runner has no provider");
+  }
+
+  const toBlock = options.toBlock ?? (await provider.getBlockNumber());
+  const start = snapshot ? snapshot.lastBlock + 1 : options.fromBlock ?? 0;
+
+  const entries = new Map<string, ContributionIndexEntry>();
+  for (const entry of snapshot?.entries ?? []) {
+    entries.set(entry.id, { ...entry });
+  }
+
+  const logs = await queryInChunks(
+    (from, to) => adapter.queryFilter(adapter.filters.DataStored(), from, to),
+    start,
+    toBlock,
+    options
+  );
+  for (const log of logs) {
+    const id = contributionIdFromKey(log.args.key);
+    if (!id) continue;
+
+    const existing = entries.get(id);
+    if (existing) {
+      existing.updatedBlock = Math.max(existing.updatedBlock, log.blockNumber);
+    } else {
+      entries.set(id, {
+        id,
+        creator: log.args.sender,
+        createdBlock: log.blockNumber,
+        updatedBlock: log.blockNumber,
+      });
+    }
+  }
+
+  return {
+    lastBlock: Math.max(toBlock, snapshot?.lastBlock ?? -1),
+    entries: Array.from(entries.values()).sort((a, b) => a.createdBlock - b.createdBlock),
+  };
+}
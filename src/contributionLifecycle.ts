@@ -0,0 +1,481 @@
+// contributionLifecycle.ts
+import type { BigNumberish } from "ethers";
+import type { AiRoyalties_FHE } from "../types";
+import type { TypedEventLog } from "../types/common";
+import type { EncryptedContribution, EpochPhase, ReviewStatus, RoyaltiesClient } from "./royaltiesClient";
+import { DEFAULT_DECRYPTION_TIMEOUT_MS } from "./decryptionTracker";
+import type { DecryptionStatus } from "./decryptionTracker";
+import { queryInChunks } from "./logRange";
+import type { ChunkOptions } from "./logRange";
+
+export type ContributionState =
+  | "draft"
+  | "submitted"
+  | "under-review"
+  | "calculating"
+  | "calculated"
+  | "claimable"
+  | "claiming"
+  | "paid"
+  | "rejected"
+  | "disputed"
+  | "expired";
+
+export type ContributionAction = "review" | "calculate" | "dispute" | "claim" | "approvePayout" | "reveal";
+
+// What the chain says about a contribution; the only input the guards trust
+export interface ContributionFacts {
+  // The record points at an existing AiRoyalties_FHE contribution
+  onChain: boolean;
+  epochPhase: EpochPhase | null;
+  review: ReviewStatus;
+  // Verifier assigned to review the contribution
+  reviewer: string | null;
+  // A calculation was requested and the oracle has neither answered nor been given up on
+  calculationPending: boolean;
+  revealed: boolean;
+  // Unix seconds until which the calculated royalty can be disputed; zero before the calculation
+  challengeEndsAt: bigint;
+  // The latest block is still inside the challenge period
+  challengeRunning: boolean;
+  disputed: boolean;
+  // A dispute against the royalty was upheld
+  voided: boolean;
+  // A claim waits for the oracle or the treasurers, or was paid
+  claimRequested: boolean;
+  // The oracle decrypted the claimed amount and the payout waits for treasurer approvals
+  payoutPending: boolean;
+  claimed: boolean;
+}
+
+export const OFF_CHAIN_FACTS: ContributionFacts = {
+  onChain: false,
+  epochPhase: null,
+  review: "pending",
+  reviewer: null,
+  calculationPending: false,
+  revealed: false,
+  challengeEndsAt: 0n,
+  challengeRunning: false,
+  disputed: false,
+  voided: false,
+  claimRequested: false,
+  payoutPending: false,
+  claimed: false,
+};
+
+export const TRANSITIONS: Record<ContributionState, readonly ContributionState[]> = {
+  draft: ["submitted"],
+  submitted: ["under-review", "calculating", "expired"],
+  "under-review": ["submitted", "rejected", "expired"],
+  // Back to submitted, or expired once the epoch settled, when the oracle never answered
+  calculating: ["calculated", "submitted", "expired"],
+  // Claimable once the challenge period is over
+  calculated: ["claimable", "disputed"],
+  claimable: ["claiming"],
+  // Back to claimable when the payout callback failed
+  claiming: ["paid", "claimable"],
+  paid: [],
+  rejected: [],
+  // Dismissed disputes return the royalty, upheld ones void it
+  disputed: ["calculated", "rejected"],
+  // The oracle may still answer a calculation that was given up on
+  expired: ["calculated"],
+};
+
+// Each guard returns why the chain rules the state out, or null when it is consistent
+const GUARDS: Record<ContributionState, (facts: ContributionFacts) => string | null> = {
+  draft: (f) => (f.onChain ? "Contribution is already on chain" : null),
+  submitted: (f) =>
+    !f.onChain
+      ? "Contribution is not on chain"
+      : f.revealed || f.calculationPending
+      ? "Royalty calculation has started"
+      : f.review === "rejected"
+      ? "Contribution was rejected"
+      : f.epochPhase === "settled"
+      ? "Epoch is settled"
+      : null,
+  "under-review": (f) =>
+    !f.onChain
+      ? "Contribution is not on chain"
+      : !f.reviewer
+      ? "No verifier is assigned"
+      : f.review !== "pending"
+      ? "Review is decided"
+      : null,
+  calculating: (f) => (!f.calculationPending ? "No calculation is pending" : null),
+  calculated: (f) =>
+    !f.revealed
+      ? "Royalty is not calculated"
+      : !f.challengeRunning
+      ? "Challenge period is over"
+      : f.claimRequested
+      ? "Royalty is claimed"
+      : f.disputed
+      ? "Royalty is disputed"
+      : f.voided
+      ? "Royalty was voided"
+      : null,
+  claimable: (f) =>
+    !f.revealed
+      ? "Royalty is not calculated"
+      : f.challengeRunning
+      ? "Challenge period running"
+      : f.claimRequested
+      ? "Royalty is claimed"
+      : f.disputed
+      ? "Royalty is disputed"
+      : f.voided
+      ? "Royalty was voided"
+      : null,
+  claiming: (f) => (!f.claimRequested ? "No claim was requested" : f.claimed ? "Royalty is paid" : null),
+  paid: (f) => (!f.claimed ? "Royalty is not paid" : null),
+  rejected: (f) => (f.review !== "rejected" && !f.voided ? "Contribution was not rejected" : null),
+  disputed: (f) => (!f.disputed ? "No dispute is open" : null),
+  expired: (f) => (f.epochPhase !== "settled" ? "Epoch is not settled" : f.revealed ? "Royalty is calculated" : null),
+};
+
+// Statuses written by earlier frontends
+const LEGACY_STATES: Record<string, ContributionState> = {
+  pending: "submitted",
+  verified: "calculated",
+  paid: "paid",
+};
+
+export function isContributionState(value: unknown): value is ContributionState {
+  return typeof value === "string" && value in TRANSITIONS;
+}
+
+export function normalizeState(value: unknown): ContributionState | null {
+  if (isContributionState(value)) return value;
+  return typeof value === "string" ? LEGACY_STATES[value] ?? null : null;
+}
+
+export function canTransition(from: ContributionState, to: ContributionState): boolean {
+  return TRANSITIONS[from].includes(to);
+}
+
+export function checkGuard(state: ContributionState, facts: ContributionFacts): string | null {
+  return GUARDS[state](facts);
+}
+
+// Whether `to` follows `from` through any number of transitions
+function canReach(from: ContributionState, to: ContributionState): boolean {
+  const seen = new Set<ContributionState>([from]);
+  const queue = [from];
+  for (let state = queue.shift(); state; state = queue.shift()) {
+    for (const next of TRANSITIONS[state]) {
+      if (next === to) return true;
+      if (!seen.has(next)) {
+        seen.add(next);
+        queue.push(next);
+      }
+    }
+  }
+  return false;
+}
+
+/**
+ * The state to show for a contribution. Reviews and disputes are on chain
+ * too, so every state comes from the chain and a rewritten record status
+ * cannot skip ahead.
+ */
+export function chainState(facts: ContributionFacts): ContributionState {
+  if (!facts.onChain) return "draft";
+  if (facts.claimed) return "paid";
+  if (facts.claimRequested) return "claiming";
+  if (facts.voided) return "rejected";
+  if (facts.disputed) return "disputed";
+  if (facts.revealed) return facts.challengeRunning ? "calculated" : "claimable";
+  if (facts.calculationPending) return "calculating";
+  if (facts.review === "rejected") return "rejected";
+  if (facts.epochPhase === "settled") return "expired";
+  if (facts.review === "pending" && facts.reviewer) return "under-review";
+  return "submitted";
+}
+
+/**
+ * `chainState` checked against the lifecycle: the state has to follow the
+ * last on-chain transition, directly or through states that leave no event
+ * such as a calculation given up on, and pass its guard.
+ */
+export function deriveState(facts: ContributionFacts, history: ContributionTransition[]): ContributionState {
+  const from = history.length > 0 ? history[history.length - 1].state : "draft";
+  const to = chainState(facts);
+  if (to !== from && !canReach(from, to)) {
+    throw new Error(`A contribution cannot move from ${from} to ${to}`);
+  }
+  const reason = checkGuard(to, facts);
+  if (reason) {
+    throw new Error(`A contribution cannot be ${to}: ${reason}`);
+  }
+  return to;
+}
+
+export function availableActions(state: ContributionState, facts: ContributionFacts): ContributionAction[] {
+  const actions: ContributionAction[] = [];
+  if ((state === "submitted" || state === "under-review") && facts.review === "pending") actions.push("review");
+  if (state === "submitted" && facts.review === "approved" && facts.epochPhase === "closing") actions.push("calculate");
+  if (state === "calculated") actions.push("dispute");
+  if (state === "claimable") actions.push("claim");
+  if (state === "claiming" && facts.payoutPending) actions.push("approvePayout");
+  if (facts.revealed) actions.push("reveal");
+  return actions;
+}
+
+type EventsOf<K extends keyof AiRoyalties_FHE["filters"]> = TypedEventLog<AiRoyalties_FHE["filters"][K]>[];
+
+/**
+ * Lifecycle events of a set of contributions, grouped by contribution id,
+ * by contributor hash for claims and payouts, and by operation id for
+ * cancellations.
+ */
+export interface ContributionEvents {
+  contributions: Map<bigint, EncryptedContribution>;
+  recorded: Map<bigint, EventsOf<"ContributionRecorded">>;
+  assignments: Map<bigint, EventsOf<"ReviewerAssigned">>;
+  decisions: Map<bigint, EventsOf<"ReviewDecided">>;
+  requests: Map<bigint, EventsOf<"RoyaltyCalculationRequested">>;
+  decrypted: Map<bigint, EventsOf<"RoyaltyDecrypted">>;
+  disputes: Map<bigint, EventsOf<"DisputeOpened">>;
+  resolutions: Map<bigint, EventsOf<"DisputeResolved">>;
+  claims: Map<string, EventsOf<"RoyaltyClaimRequested">>;
+  queued: Map<string, EventsOf<"PayoutQueued">>;
+  payments: Map<string, EventsOf<"RoyaltyPaid">>;
+  cancellations: Map<bigint, EventsOf<"OperationCancelled">>;
+}
+
+export interface LoadEventsOptions extends ChunkOptions {
+  // Usually the contract's deployment block
+  fromBlock?: number;
+  toBlock?: number;
+}
+
+// ethers matches an indexed argument against every value of an array; the typechain filters only accept one
+const anyOf = <T>(values: T[]) => values as unknown as T;
+
+function groupBy<K, T>(items: T[], keyOf: (item: T) => K): Map<K, T[]> {
+  const groups = new Map<K, T[]>();
+  for (const item of items) {
+    const key = keyOf(item);
+    const group = groups.get(key);
+    if (group) group.push(item);
+    else groups.set(key, [item]);
+  }
+  return groups;
+}
+
+/**
+ * Loads the lifecycle events of several contributions with one chunked query
+ * per event type, so a page of contributions costs the same number of
+ * eth_getLogs calls as a single one. Contributions that are not on chain are
+ * left out.
+ */
+export async function loadContributionEvents(
+  client: RoyaltiesClient,
+  contributionIds: BigNumberish[],
+  options: LoadEventsOptions = {}
+): Promise<ContributionEvents> {
+  const { contract } = client;
+  const provider = contract.runner?.provider;
+  if (!provider) {
+    throw new Error("Contract runner has no provider");
+  }
+  const [toBlock, found] = await Promise.all([
+    options.toBlock ?? provider.getBlockNumber(),
+    Promise.all(contributionIds.map((id) => client.getContribution(id))),
+  ]);
+  const contributions = new Map<bigint, EncryptedContribution>();
+  for (const contribution of found) {
+    if (contribution) contributions.set(contribution.id, contribution);
+  }
+  const ids = anyOf(Array.from(contributions.keys()));
+  const hashes = anyOf(Array.from(contributions.values(), (contribution) => contribution.contributorHash));
+  const fromBlock = options.fromBlock ?? 0;
+  const { filters } = contract;
+  const query = <T>(run: (from: number, to: number) => Promise<T[]>) =>
+    contributions.size > 0 ? queryInChunks(run, fromBlock, toBlock, options) : Promise.resolve([]);
+
+  const [recorded, assignments, decisions, requests, decrypted, disputes, resolutions, claims, queued, payments] =
+    await Promise.all([
+      query((from, to) => contract.queryFilter(filters.ContributionRecorded(ids), from, to)),
+      query((from, to) => contract.queryFilter(filters.ReviewerAssigned(ids), from, to)),
+      query((from, to) => contract.queryFilter(filters.ReviewDecided(ids), from, to)),
+      query((from, to) => contract.queryFilter(filters.RoyaltyCalculationRequested(ids), from, to)),
+      query((from, to) => contract.queryFilter(filters.RoyaltyDecrypted(ids), from, to)),
+      query((from, to) => contract.queryFilter(filters.DisputeOpened(undefined, ids), from, to)),
+      query((from, to) => contract.queryFilter(filters.DisputeResolved(undefined, ids), from, to)),
+      query((from, to) => contract.queryFilter(filters.RoyaltyClaimRequested(hashes), from, to)),
+      query((from, to) => contract.queryFilter(filters.PayoutQueued(undefined, undefined, hashes), from, to)),
+      query((from, to) => contract.queryFilter(filters.RoyaltyPaid(undefined, hashes), from, to)),
+    ]);
+  const operationIds = queued.map((log) => log.args.operationId);
+  const cancellations =
+    operationIds.length > 0
+      ? await query((from, to) => contract.queryFilter(filters.OperationCancelled(anyOf(operationIds)), from, to))
+      : [];
+
+  return {
+    contributions,
+    recorded: groupBy(recorded, (log) => log.args.id),
+    assignments: groupBy(assignments, (log) => log.args.contributionId),
+    decisions: groupBy(decisions, (log) => log.args.contributionId),
+    requests: groupBy(requests, (log) => log.args.contributionId),
+    decrypted: groupBy(decrypted, (log) => log.args.contributionId),
+    disputes: groupBy(disputes, (log) => log.args.contributionId),
+    resolutions: groupBy(resolutions, (log) => log.args.contributionId),
+    claims: groupBy(claims, (log) => log.args.contributorHash),
+    queued: groupBy(queued, (log) => log.args.contributorHash),
+    payments: groupBy(payments, (log) => log.args.contributorHash),
+    cancellations: groupBy(cancellations, (log) => log.args.operationId),
+  };
+}
+
+// Preloaded events when they cover the contribution, otherwise its own
+async function eventsOf(
+  client: RoyaltiesClient,
+  contributionId: string,
+  options: LoadEventsOptions & { events?: ContributionEvents }
+): Promise<{ contribution: EncryptedContribution | null; events: ContributionEvents }> {
+  const preloaded = options.events?.contributions.get(BigInt(contributionId));
+  if (preloaded) return { contribution: preloaded, events: options.events! };
+  const events = await loadContributionEvents(client, [contributionId], options);
+  return { contribution: events.contributions.get(BigInt(contributionId)) ?? null, events };
+}
+
+export interface LoadFactsOptions extends LoadEventsOptions {
+  // Shared by a page of contributions; loaded for this contribution alone when missing
+  events?: ContributionEvents;
+  // Latest tracked oracle status of the calculation; a failed or timed out request no longer counts as pending
+  decryption?: DecryptionStatus;
+  // How long a claim may wait for the oracle to queue its payout before it counts as failed
+  claimTimeoutMs?: number;
+}
+
+export async function loadContributionFacts(
+  client: RoyaltiesClient,
+  contributionId: string | undefined,
+  options: LoadFactsOptions = {}
+): Promise<ContributionFacts> {
+  if (!contributionId) return OFF_CHAIN_FACTS;
+  const { contribution, events } = await eventsOf(client, contributionId, options);
+  if (!contribution) return OFF_CHAIN_FACTS;
+
+  const provider = client.contract.runner?.provider;
+  if (!provider) {
+    throw new Error("Contract runner has no provider");
+  }
+  const [epochPhase, review, royalty, distribution, pendingPayout, dispute, block] = await Promise.all([
+    client.getEpochPhase(contribution.epoch),
+    client.getReview(contribution.id),
+    client.getDecryptedRoyalty(contribution.id),
+    client.getRoyaltyDistribution(contribution.contributorHash),
+    client.getPendingPayout(contribution.contributorHash),
+    client.getActiveDispute(contribution.id),
+    provider.getBlock("latest"),
+  ]);
+  const requests = events.requests.get(contribution.id) ?? [];
+  const claims = events.claims.get(contribution.contributorHash) ?? [];
+  const queued = events.queued.get(contribution.contributorHash) ?? [];
+  const givenUp = options.decryption === "timeout" || options.decryption === "failed";
+
+  // A cancelled payout or a reverted callback leaves the royalty claimable again, so only the latest claim
+  // counts, and only while the oracle may still queue its payout
+  const lastClaim = claims[claims.length - 1];
+  let claimAwaitingOracle = false;
+  if (lastClaim && block && !queued.some((log) => log.args.requestId === lastClaim.args.requestId)) {
+    const claimBlock = await lastClaim.getBlock();
+    const timeoutMs = options.claimTimeoutMs ?? DEFAULT_DECRYPTION_TIMEOUT_MS;
+    claimAwaitingOracle = (block.timestamp - claimBlock.timestamp) * 1000 < timeoutMs;
+  }
+
+  return {
+    onChain: true,
+    epochPhase,
+    review: review.status,
+    reviewer: review.reviewer,
+    calculationPending: requests.length > 0 && !royalty.isRevealed && !givenUp,
+    revealed: royalty.isRevealed,
+    challengeEndsAt: distribution.challengeEndsAt,
+    challengeRunning: royalty.isRevealed && !!block && BigInt(block.timestamp) < distribution.challengeEndsAt,
+    disputed: dispute !== null,
+    voided: distribution.isVoided,
+    claimRequested: distribution.isClaimed || pendingPayout !== null || claimAwaitingOracle,
+    payoutPending: pendingPayout !== null,
+    claimed: distribution.isClaimed,
+  };
+}
+
+export interface ContributionTransition {
+  state: ContributionState;
+  // Account that sent the transaction; null for transitions the decryption oracle completes
+  actor: string | null;
+  // Set on the transitions a review decision caused; an approval returns the contribution to submitted
+  decision?: { approved: boolean; reason: string };
+  blockNumber: number;
+  transactionHash: string;
+}
+
+export interface LoadHistoryOptions extends LoadEventsOptions {
+  events?: ContributionEvents;
+}
+
+/**
+ * The on-chain transitions of a contribution in order, with who performed
+ * each: the contributor submits, a reviewer is assigned and decides, a
+ * verifier requests the calculation, a challenger may dispute it until an
+ * admin or the deciding verifier vote resolves the dispute, the claim is sent
+ * by whoever relays the contributor's signature and the approved payout by
+ * whoever executes it, unless an admin cancels it.
+ */
+export async function loadContributionHistory(
+  client: RoyaltiesClient,
+  contributionId: string | undefined,
+  options: LoadHistoryOptions = {}
+): Promise<ContributionTransition[]> {
+  if (!contributionId) return [];
+  const { contribution, events } = await eventsOf(client, contributionId, options);
+  if (!contribution) return [];
+
+  const contributor = await client.getContributor(contribution.id);
+  const byId = <T>(groups: Map<bigint, T[]>) => groups.get(contribution.id) ?? [];
+  const byHash = <T>(groups: Map<string, T[]>) => groups.get(contribution.contributorHash) ?? [];
+  // A cancelled payout makes the royalty claimable again
+  const cancellations = byHash(events.queued).flatMap((log) => events.cancellations.get(log.args.operationId) ?? []);
+
+  const transition = (
+    state: ContributionState,
+    actor: string | null,
+    log: { blockNumber: number; transactionHash: string; index: number }
+  ) => ({ state, actor, blockNumber: log.blockNumber, transactionHash: log.transactionHash, logIndex: log.index });
+  const history = [
+    ...byId(events.recorded).map((log) => transition("submitted", contributor, log)),
+    ...byId(events.assignments).map((log) => transition("under-review", log.args.assignedBy, log)),
+    ...byId(events.decisions).map((log) => ({
+      ...transition(log.args.approved ? "submitted" : "rejected", log.args.reviewer, log),
+      decision: { approved: log.args.approved, reason: log.args.reason },
+    })),
+    ...byId(events.requests).map((log) => transition("calculating", log.args.verifier, log)),
+    ...byId(events.decrypted).map((log) => transition("calculated", null, log)),
+    ...byId(events.disputes).map((log) => transition("disputed", log.args.challenger, log)),
+    ...byId(events.resolutions).map((log) =>
+      transition(log.args.upheld ? "rejected" : "calculated", log.args.resolvedBy, log)
+    ),
+    ...byHash(events.claims).map((log) => transition("claiming", log.args.submitter, log)),
+    ...cancellations.map((log) => transition("claimable", log.args.admin, log)),
+    ...byHash(events.payments).map((log) => transition("paid", log.args.executor, log)),
+  ].sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex);
+
+  // The end of the challenge period leaves no event, so a claim may follow a calculation without an edge
+  let previous: ContributionState = "draft";
+  for (const entry of history) {
+    if (entry.state !== previous && !canReach(previous, entry.state)) {
+      throw new Error(
+        `Contribution ${contributionId} moved from ${previous} to ${entry.state} in ${entry.transactionHash}`
+      );
+    }
+    previous = entry.state;
+  }
+  return history.map(({ logIndex, ...entry }) => entry);
+}
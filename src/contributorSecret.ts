@@ -0,0 +1,147 @@
+// contributorSecret.ts
+import { AbiCoder, Wallet, getAddress, getBytes, hexlify, keccak256, randomBytes, solidityPacked } from "ethers";
+import type { Signer } from "ethers";
+
+export interface ContributorCommitment {
+  // Local contribution id the commitment was derived for
+  label: string;
+  salt: string;
+  // Address of the claim key; revealed only when claiming
+  claimer: string;
+  contributorHash: string;
+  claimKey: Wallet;
+}
+
+// Anything that can sign the claim digest with EIP-191
+export type ClaimKey = Pick<Signer, "signMessage">;
+
+// Commitment of a record migrated from UniversalAdapter, claimed with the owner's own wallet
+export interface MigratedCommitment {
+  // Key of the record in UniversalAdapter, without the `contribution_` prefix
+  legacyId: string;
+  salt: string;
+  claimer: string;
+  contributorHash: string;
+}
+
+export interface ClaimProof {
+  claimer: string;
+  salt: string;
+  signature: string;
+}
+
+// Minimal slice of the Web Storage API, so `window.localStorage` works as is
+export interface SecretStorage {
+  getItem(key: string): string | null;
+  setItem(key: string, value: string): void;
+}
+
+const STORAGE_PREFIX = "ai-royalties:contributor-secret:";
+
+const abi = AbiCoder.defaultAbiCoder();
+
+export function generateSecret(): string {
+  return hexlify(randomBytes(32));
+}
+
+const derive = (secret: string, purpose: string, label: string) =>
+  keccak256(solidityPacked(["bytes32", "string", "string"], [secret, purpose, label]));
+
+/**
+ * Derives the contributor hash for one contribution. Salt and claim key both
+ * come from the secret and the label, so the secret alone is enough to claim
+ * every contribution it committed to, and two commitments cannot be linked
+ * before they are claimed.
+ */
+export function deriveCommitment(secret: string, label: string): ContributorCommitment {
+  const salt = derive(secret, "salt:", label);
+  const claimKey = new Wallet(derive(secret, "claim-key:", label));
+  return {
+    label,
+    salt,
+    claimer: claimKey.address,
+    contributorHash: keccak256(abi.encode(["address", "bytes32"], [claimKey.address, salt])),
+    claimKey,
+  };
+}
+
+/**
+ * Derives the contributor hash of a migrated record. Its owner never had a
+ * contributor secret, so the owner address, already public in the record,
+ * is the claimer and the salt only depends on the legacy id. Deterministic,
+ * which lets a migration find its earlier submissions on chain. The
+ * migration then transfers the contribution to the owner, whose wallet can
+ * reveal its share.
+ */
+export function migratedCommitment(owner: string, legacyId: string): MigratedCommitment {
+  const claimer = getAddress(owner);
+  const salt = keccak256(solidityPacked(["string", "string"], ["legacy:", legacyId]));
+  return {
+    legacyId,
+    salt,
+    claimer,
+    contributorHash: keccak256(abi.encode(["address", "bytes32"], [claimer, salt])),
+  };
+}
+
+// Same digest as the contract's `claimDigest`
+export function claimDigest(
+  contractAddress: string,
+  chainId: bigint,
+  contributorHash: string,
+  payoutAddress: string
+): string {
+  return keccak256(
+    abi.encode(
+      ["address", "uint256", "bytes32", "address"],
+      [contractAddress, chainId, contributorHash, payoutAddress]
+    )
+  );
+}
+
+export async function createClaimProof(
+  commitment: Pick<ContributorCommitment, "claimer" | "salt" | "contributorHash"> & { claimKey: ClaimKey },
+  contractAddress: string,
+  chainId: bigint,
+  payoutAddress: string
+): Promise<ClaimProof> {
+  const digest = claimDigest(contractAddress, chainId, commitment.contributorHash, payoutAddress);
+  return {
+    claimer: commitment.claimer,
+    salt: commitment.salt,
+    signature: await commitment.claimKey.signMessage(getBytes(digest)),
+  };
+}
+
+// Secrets are kept per wallet account so switching accounts does not mix commitments
+export function loadSecret(storage: SecretStorage, account: string): string | null {
+  return storage.getItem(STORAGE_PREFIX + account.toLowerCase());
+}
+
+export function saveSecret(storage: SecretStorage, account: string, secret: string): void {
+  storage.setItem(STORAGE_PREFIX + account.toLowerCase(), secret);
+}
+
+export function loadOrCreateSecret(storage: SecretStorage, account: string): string {
+  const existing = loadSecret(storage, account);
+  if (existing) return existing;
+  const secret = generateSecret();
+  saveSecret(storage, account, secret);
+  return secret;
+}
+
+/**
+ * Encrypts the secret with a passphrase as a standard JSON keystore (scrypt
+ * and AES-128-CTR), for moving it to another device.
+ */
+export function exportSecret(secret: string, passphrase: string): Promise<string> {
+  if (!passphrase) {
+    throw new Error("A passphrase is required to export the secret");
+  }
+  return new Wallet(secret).encrypt(passphrase);
+}
+
+export async function importSecret(keystore: string, passphrase: string): Promise<string> {
+  const wallet = await Wallet.fromEncryptedJson(keystore, passphrase);
+  return wallet.privateKey;
+}
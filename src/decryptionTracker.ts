@@ -0,0 +1,266 @@
+// decryptionTracker.ts
+import type { BigNumberish } from "ethers";
+import { queryInChunks } from "./logRange";
+import type { ChunkOptions } from "./logRange";
+import type { RoyaltiesClient } from "./royaltiesClient";
+
+export const DEFAULT_DECRYPTION_TIMEOUT_MS = 10 * 60_000;
+
+export type DecryptionStatus = "pending" | "decrypted" | "timeout" | "failed";
+
+export interface DecryptionRequest {
+  requestId: string;
+  contributionId: string;
+  // Milliseconds since epoch
+  requestedAt: number;
+  requestBlock: number;
+  transactionHash: string;
+  status: DecryptionStatus;
+  callbackTransactionHash?: string;
+  error?: string;
+}
+
+export interface DecryptionRequestStore {
+  load(): DecryptionRequest[];
+  save(requests: DecryptionRequest[]): void;
+  // Last block `sync` reconciled; without it every sync starts from its `fromBlock` again
+  loadCursor?(): number | undefined;
+  saveCursor?(block: number): void;
+}
+
+// Reports the outcome of oracle callbacks sent off-chain, e.g. by the LocalDecryptionRelayer
+export interface DecryptionResultSource {
+  subscribe(listener: (result: { requestId: bigint; error?: string; gaveUp?: boolean }) => void): () => void;
+}
+
+export interface DecryptionTrackerOptions {
+  // How long the oracle may take before a pending request is reported as timed out
+  timeoutMs?: number;
+  checkIntervalMs?: number;
+}
+
+export function memoryStore(initial: DecryptionRequest[] = []): DecryptionRequestStore {
+  let requests = initial;
+  let cursor: number | undefined;
+  return {
+    load: () => requests,
+    save: (next) => {
+      requests = next;
+    },
+    loadCursor: () => cursor,
+    saveCursor: (block) => {
+      cursor = block;
+    },
+  };
+}
+
+/**
+ * Follows royalty calculation decryptions from the `RoyaltyCalculationRequested`
+ * event to the oracle callback (`DecryptionFulfilled` + `RoyaltyDecrypted`).
+ * Requests are persisted through the store so pending ones survive reloads.
+ * A late callback still moves a timed out request to "decrypted".
+ */
+export class DecryptionTracker {
+  private client: RoyaltiesClient;
+  private store: DecryptionRequestStore;
+  private timeoutMs: number;
+  private checkIntervalMs: number;
+  private requests = new Map<string, DecryptionRequest>();
+  private listeners = new Set<(requests: DecryptionRequest[]) => void>();
+
+  constructor(client: RoyaltiesClient, store: DecryptionRequestStore, options: DecryptionTrackerOptions = {}) {
+    this.client = client;
+    this.store = store;
+    this.timeoutMs = options.timeoutMs ?? DEFAULT_DECRYPTION_TIMEOUT_MS;
+    this.checkIntervalMs = options.checkIntervalMs ?? 5_000;
+    for (const request of store.load()) {
+      this.requests.set(request.requestId, request);
+    }
+  }
+
+  list(): DecryptionRequest[] {
+    return Array.from(this.requests.values()).sort((a, b) => a.requestedAt - b.requestedAt);
+  }
+
+  get(requestId: BigNumberish): DecryptionRequest | undefined {
+    return this.requests.get(requestId.toString());
+  }
+
+  latestForContribution(contributionId: BigNumberish): DecryptionRequest | undefined {
+    const id = contributionId.toString();
+    return this.list()
+      .filter((r) => r.contributionId === id)
+      .pop();
+  }
+
+  subscribe(listener: (requests: DecryptionRequest[]) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private changed(): void {
+    const requests = this.list();
+    this.store.save(requests);
+    for (const listener of this.listeners) {
+      listener(requests);
+    }
+  }
+
+  private update(requestId: string, patch: Partial<DecryptionRequest>): boolean {
+    const current = this.requests.get(requestId);
+    if (!current) return false;
+    this.requests.set(requestId, { ...current, ...patch });
+    return true;
+  }
+
+  track(request: Omit<DecryptionRequest, "status" | "requestedAt"> & { requestedAt?: number }): DecryptionRequest {
+    const tracked: DecryptionRequest = {
+      requestedAt: Date.now(),
+      ...request,
+      status: "pending",
+    };
+    this.requests.set(tracked.requestId, tracked);
+    this.changed();
+    return tracked;
+  }
+
+  // For failures seen outside the chain, e.g. a relayer whose callback transaction reverted
+  markFailed(requestId: BigNumberish, error: string): void {
+    const current = this.get(requestId);
+    if (current && current.status !== "decrypted" && this.update(current.requestId, { status: "failed", error })) {
+      this.changed();
+    }
+  }
+
+  // Marks tracked requests failed once the source gives up on their callback. Returns an unsubscribe function
+  followResults(source: DecryptionResultSource): () => void {
+    return source.subscribe((result) => {
+      if (result.gaveUp) this.markFailed(result.requestId, result.error ?? "Callback failed");
+    });
+  }
+
+  private fulfill(requestId: string, callbackTransactionHash: string): boolean {
+    const current = this.requests.get(requestId);
+    if (!current || current.status === "decrypted") return false;
+    return this.update(requestId, { status: "decrypted", callbackTransactionHash, error: undefined });
+  }
+
+  checkTimeouts(now = Date.now()): void {
+    let dirty = false;
+    for (const request of this.requests.values()) {
+      if (request.status === "pending" && now - request.requestedAt > this.timeoutMs) {
+        this.update(request.requestId, {
+          status: "timeout",
+          error: `No oracle callback after ${Math.round(this.timeoutMs / 1000)}s`,
+        });
+        dirty = true;
+      }
+    }
+    if (dirty) this.changed();
+  }
+
+  /**
+   * Reconciles the tracked requests with chain history: picks up requests
+   * made elsewhere (other tabs, other verifiers) and callbacks that landed
+   * while nobody was listening. Resumes after the block the previous sync
+   * reached, as persisted by the store.
+   */
+  async sync(fromBlock = 0, options: ChunkOptions = {}): Promise<void> {
+    const provider = this.client.contract.runner?.provider;
+    if (!provider) {
+      throw new Error("Contract runner has no provider");
+    }
+    const cursor = this.store.loadCursor?.();
+    const start = cursor === undefined ? fromBlock : Math.max(fromBlock, cursor + 1);
+    const toBlock = await provider.getBlockNumber();
+    if (toBlock < start) {
+      this.checkTimeouts();
+      return;
+    }
+
+    const [requested, fulfilled] = await Promise.all([
+      queryInChunks(
+        (from, to) => this.client.queryRoyaltyCalculationRequested(from, to),
+        start,
+        toBlock,
+        options
+      ),
+      queryInChunks((from, to) => this.client.queryDecryptionFulfilled(from, to), start, toBlock, options),
+    ]);
+
+    const untracked = requested.filter((event) => !this.requests.has(event.requestId.toString()));
+    const blockNumbers = Array.from(new Set(untracked.map((event) => event.blockNumber)));
+    const blocks = await Promise.all(blockNumbers.map((blockNumber) => provider.getBlock(blockNumber)));
+    const timestamps = new Map(blockNumbers.map((blockNumber, i) => [blockNumber, blocks[i]?.timestamp]));
+    for (const event of untracked) {
+      const requestId = event.requestId.toString();
+      const timestamp = timestamps.get(event.blockNumber);
+      this.requests.set(requestId, {
+        requestId,
+        contributionId: event.contributionId.toString(),
+        requestedAt: timestamp !== undefined ? timestamp * 1000 : Date.now(),
+        requestBlock: event.blockNumber,
+        transactionHash: event.transactionHash,
+        status: "pending",
+      });
+    }
+
+    for (const event of fulfilled) {
+      this.fulfill(event.requestId.toString(), event.transactionHash);
+    }
+
+    this.store.saveCursor?.(toBlock);
+    this.changed();
+    this.checkTimeouts();
+  }
+
+  /**
+   * Listens for callbacks and checks timeouts periodically. Returns a
+   * function that stops both.
+   */
+  async start(): Promise<() => Promise<void>> {
+    const stopFulfilled = await this.client.onDecryptionFulfilled((event) => {
+      if (this.fulfill(event.requestId.toString(), event.transactionHash)) {
+        this.changed();
+      }
+    });
+    const stopRequested = await this.client.onRoyaltyCalculationRequested((event) => {
+      const requestId = event.requestId.toString();
+      if (!this.requests.has(requestId)) {
+        this.track({
+          requestId,
+          contributionId: event.contributionId.toString(),
+          requestBlock: event.blockNumber,
+          transactionHash: event.transactionHash,
+        });
+      }
+    });
+    const timer = setInterval(() => this.checkTimeouts(), this.checkIntervalMs);
+
+    return async () => {
+      clearInterval(timer);
+      await Promise.all([stopFulfilled(), stopRequested()]);
+    };
+  }
+
+  // Resolves once the request leaves "pending", whatever the outcome
+  waitFor(requestId: BigNumberish): Promise<DecryptionRequest> {
+    const id = requestId.toString();
+    return new Promise((resolve, reject) => {
+      const check = () => {
+        const request = this.requests.get(id);
+        if (!request) {
+          unsubscribe();
+          reject(new Error(`Decryption request ${id} is not tracked`));
+        } else if (request.status !== "pending") {
+          unsubscribe();
+          resolve(request);
+        }
+      };
+      const unsubscribe = this.subscribe(check);
+      check();
+    });
+  }
+}
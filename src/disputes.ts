@@ -0,0 +1,61 @@
+// disputes.ts
+import type { BlockTag, Dispute, DisputeResolved, DisputeVoted, RoyaltiesClient } from "./royaltiesClient";
+import { can } from "./roles";
+import type { Role } from "./roles";
+
+export interface DisputeItem extends Dispute {
+  // Account that submitted the disputed contribution
+  contributor: string;
+  votes: DisputeVoted[];
+  // Null while the dispute is open
+  resolution: DisputeResolved | null;
+}
+
+/**
+ * Every dispute with its votes and resolution, newest first. Disputes are
+ * numbered from one and read by id; votes and resolutions are read with one
+ * query each.
+ */
+export async function loadDisputes(client: RoyaltiesClient, fromBlock?: BlockTag): Promise<DisputeItem[]> {
+  const [count, votes, resolutions] = await Promise.all([
+    client.getDisputeCount(),
+    client.queryDisputeVoted(undefined, fromBlock),
+    client.queryDisputeResolved(undefined, fromBlock),
+  ]);
+  const ids: bigint[] = [];
+  for (let id = count; id > 0n; id--) {
+    ids.push(id);
+  }
+
+  const items = await Promise.all(
+    ids.map(async (id): Promise<DisputeItem | null> => {
+      const dispute = await client.getDispute(id);
+      if (!dispute) return null;
+      return {
+        ...dispute,
+        contributor: await client.getContributor(dispute.contributionId),
+        votes: votes.filter((vote) => vote.disputeId === id),
+        resolution: resolutions.find((resolution) => resolution.disputeId === id) ?? null,
+      };
+    })
+  );
+  return items.filter((item): item is DisputeItem => item !== null);
+}
+
+const sameAddress = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+
+// Mirrors the contract: other contributors and verifiers may challenge, never the contributor
+export function canOpenDispute(roles: readonly Role[], account: string, contributor: string): boolean {
+  return (roles.includes("contributor") || roles.includes("verifier")) && !sameAddress(account, contributor);
+}
+
+// Verifiers vote once, unless they are a party to the dispute
+export function canVote(item: DisputeItem, roles: readonly Role[], account: string): boolean {
+  return (
+    item.status === "open" &&
+    can(roles, "voteOnDisputes") &&
+    !sameAddress(account, item.challenger) &&
+    !sameAddress(account, item.contributor) &&
+    !item.votes.some((vote) => sameAddress(vote.voter, account))
+  );
+}
@@ -0,0 +1,73 @@
+// encryption.ts
+import { ethers } from "ethers";
+
+export const UINT32_MAX = 0xffffffff;
+
+export interface ContributionMetrics {
+  computeHours: number;
+  dataQuality: number;
+  modelImpact: number;
+}
+
+export interface EncryptedContributionMetrics {
+  computeHours: string;
+  dataQuality: string;
+  modelImpact: string;
+  inputProof: string;
+}
+
+/**
+ * The part of a relayer SDK `FhevmInstance` needed to encrypt inputs. Both the
+ * browser and node SDK builds satisfy it, as does the hardhat plugin's mock.
+ */
+export interface EncryptedInputSource {
+  createEncryptedInput(
+    contractAddress: string,
+    userAddress: string
+  ): {
+    add32(value: number | bigint): unknown;
+    encrypt(): Promise<{ handles: Uint8Array[]; inputProof: Uint8Array }>;
+  };
+}
+
+const METRIC_FIELDS: (keyof ContributionMetrics)[] = ["computeHours", "dataQuality", "modelImpact"];
+
+export function validateMetrics(metrics: ContributionMetrics): void {
+  for (const field of METRIC_FIELDS) {
+    const value = metrics[field];
+    if (!Number.isInteger(value) || value < 0 || value > UINT32_MAX) {
+      throw new Error(`${field} must be an integer between 0 and ${UINT32_MAX}, got ${value}`);
+    }
+  }
+}
+
+/**
+ * Encrypts the three contribution metrics as euint32 inputs bound to
+ * `contractAddress` and `userAddress`, in the order expected by
+ * `submitEncryptedContribution`.
+ */
+export async function encryptContributionMetrics(
+  fhevm: EncryptedInputSource,
+  contractAddress: string,
+  userAddress: string,
+  metrics: ContributionMetrics
+): Promise<EncryptedContributionMetrics> {
+  validateMetrics(metrics);
+
+  const input = fhevm.createEncryptedInput(contractAddress, userAddress);
+  for (const field of METRIC_FIELDS) {
+    input.add32(metrics[field]);
+  }
+
+  const { handles, inputProof } = await input.encrypt();
+  if (handles.length !== METRIC_FIELDS.length) {
+    throw new Error(`Expected ${METRIC_FIELDS.length} input handles, got ${handles.length}`);
+  }
+
+  return {
+    computeHours: ethers.hexlify(handles[0]),
+    dataQuality: ethers.hexlify(handles[1]),
+    modelImpact: ethers.hexlify(handles[2]),
+    inputProof: ethers.hexlify(inputProof),
+  };
+}
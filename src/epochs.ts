@@ -0,0 +1,44 @@
+// epochs.ts
+import type { EpochPhase, EpochTotals, RoyaltiesClient } from "./royaltiesClient";
+
+export interface EpochSummary extends EpochTotals {
+  epoch: bigint;
+  phase: EpochPhase;
+  // Unix seconds; `end` is the start of the next epoch
+  start: bigint;
+  end: bigint;
+  // Pool left over once every committed payment is paid; null until the committed total is revealed
+  uncommitted: bigint | null;
+}
+
+/**
+ * Loads the current epoch and up to `limit - 1` epochs before it, newest
+ * first. Phases come from the contract, so they follow the latest block
+ * timestamp rather than the local clock.
+ */
+export async function loadEpochs(client: RoyaltiesClient, limit = 4): Promise<EpochSummary[]> {
+  const [current, duration] = await Promise.all([client.getCurrentEpoch(), client.getEpochDuration()]);
+
+  const epochs: bigint[] = [];
+  for (let epoch = current; epoch >= 0n && epochs.length < limit; epoch--) {
+    epochs.push(epoch);
+  }
+
+  return Promise.all(
+    epochs.map(async (epoch) => {
+      const [start, phase, totals] = await Promise.all([
+        client.getEpochStart(epoch),
+        client.getEpochPhase(epoch),
+        client.getEpochTotals(epoch),
+      ]);
+      return {
+        ...totals,
+        epoch,
+        phase,
+        start,
+        end: start + duration,
+        uncommitted: totals.committedRevealed ? totals.rewardPool - totals.committed : null,
+      };
+    })
+  );
+}
@@ -0,0 +1,317 @@
+// kmsVerifier.ts
+import {
+  AbiCoder,
+  Contract,
+  Interface,
+  TypedDataEncoder,
+  concat,
+  dataLength,
+  dataSlice,
+  getBytes,
+  recoverAddress,
+  toBeHex,
+  zeroPadValue,
+} from "ethers";
+import type { BytesLike, ContractRunner, TransactionReceipt } from "ethers";
+import type { RoyaltiesClient } from "./royaltiesClient";
+
+// The parts of KMSVerifier needed to rebuild its check; `IKMSVerifier` only exposes the verification itself
+const kmsVerifierInterface = new Interface([
+  "function getKmsSigners() view returns (address[])",
+  "function getThreshold() view returns (uint256)",
+  "function eip712Domain() view returns (bytes1 fields, string name, string version, uint256 chainId, address verifyingContract, bytes32 salt, uint256[] extensions)",
+]);
+
+// Emitted by the decryption oracle in the transaction that requested the decryption
+const oracleInterface = new Interface([
+  "event DecryptionRequest(uint256 indexed counter, uint256 requestID, bytes32[] cts, address contractCaller, bytes4 callbackSelector)",
+]);
+
+// Type the KMS signs for public decryptions; the domain is the Decryption contract of the gateway chain
+const PUBLIC_DECRYPT_TYPES = {
+  PublicDecryptVerification: [
+    { name: "ctHandles", type: "bytes32[]" },
+    { name: "decryptedResult", type: "bytes" },
+    { name: "extraData", type: "bytes" },
+  ],
+};
+
+// Same bound as the contracts' signature checks, rejecting malleable signatures
+const SECP256K1_HALF_N = 0x7fffffffffffffffffffffffffffffff5d576e7357a4501ddfe92f46681b20a0n;
+
+const abi = AbiCoder.defaultAbiCoder();
+
+export interface KmsDomain {
+  name: string;
+  version: string;
+  chainId: bigint;
+  verifyingContract: string;
+}
+
+export interface KmsSignerSet {
+  address: string;
+  domain: KmsDomain;
+  signers: string[];
+  threshold: bigint;
+}
+
+export interface DecryptionProof {
+  signatures: string[];
+  extraData: string;
+}
+
+export interface SignatureCheck {
+  index: number;
+  signature: string;
+  // null when the signature does not recover to any address
+  signer: string | null;
+  trusted: boolean;
+  // A configured signer that already signed earlier in the proof; counted once
+  duplicate: boolean;
+}
+
+export interface DecryptionAudit {
+  transactionHash: string;
+  blockNumber: number;
+  contributionId: bigint;
+  requestId: bigint;
+  handles: string[];
+  cleartexts: string;
+  epoch: bigint;
+  scoreTotal: bigint;
+  kms: KmsSignerSet;
+  digest: string;
+  signatures: SignatureCheck[];
+  validSigners: number;
+  passed: boolean;
+  // Reasons the audit failed, empty when it passed
+  issues: string[];
+}
+
+/**
+ * Splits a decryption proof the way KMSVerifier does: one byte with the
+ * number of signatures, 65 bytes per signature, then the extra data.
+ */
+export function parseDecryptionProof(proof: BytesLike): DecryptionProof {
+  const bytes = getBytes(proof);
+  if (bytes.length === 0) {
+    throw new Error("Decryption proof is empty");
+  }
+  const extraDataOffset = 1 + 65 * bytes[0];
+  if (bytes.length < extraDataOffset) {
+    throw new Error(`Decryption proof is too short for ${bytes[0]} signatures`);
+  }
+
+  const signatures: string[] = [];
+  for (let i = 0; i < bytes[0]; i++) {
+    signatures.push(dataSlice(bytes, 1 + 65 * i, 1 + 65 * (i + 1)));
+  }
+  return { signatures, extraData: dataSlice(bytes, extraDataOffset) };
+}
+
+// `FHE.checkSignatures` appends the signatures offset the KMS encodes after the cleartexts
+export function decryptedResultOf(cleartexts: BytesLike): string {
+  return concat([cleartexts, zeroPadValue(toBeHex(32 + dataLength(cleartexts) + 32), 32)]);
+}
+
+export function decryptionDigest(
+  domain: KmsDomain,
+  handles: string[],
+  decryptedResult: BytesLike,
+  extraData: BytesLike
+): string {
+  return TypedDataEncoder.hash(domain, PUBLIC_DECRYPT_TYPES, {
+    ctHandles: handles,
+    decryptedResult,
+    extraData,
+  });
+}
+
+function recoverKmsSigner(digest: string, signature: string): string | null {
+  try {
+    const s = BigInt(dataSlice(signature, 32, 64));
+    if (s > SECP256K1_HALF_N) return null;
+    return recoverAddress(digest, signature);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Reads the signer set, threshold and EIP712 domain of a KMSVerifier,
+ * optionally as they were at a past block.
+ */
+export async function loadKmsSignerSet(
+  address: string,
+  runner: ContractRunner,
+  blockTag?: number
+): Promise<KmsSignerSet> {
+  const kms = new Contract(address, kmsVerifierInterface, runner);
+  const overrides = blockTag === undefined ? {} : { blockTag };
+  const [signers, threshold, domain] = await Promise.all([
+    kms.getKmsSigners(overrides),
+    kms.getThreshold(overrides),
+    kms.eip712Domain(overrides),
+  ]);
+  return {
+    address,
+    domain: {
+      name: domain.name,
+      version: domain.version,
+      chainId: domain.chainId,
+      verifyingContract: domain.verifyingContract,
+    },
+    signers: [...signers],
+    threshold,
+  };
+}
+
+/**
+ * Checks the signatures of a proof against a signer set. Stricter than
+ * KMSVerifier, which stops reading once the threshold is reached: every
+ * signature in the proof has to come from a configured signer.
+ */
+export function verifyDecryptionSignatures(
+  kms: KmsSignerSet,
+  handles: string[],
+  cleartexts: BytesLike,
+  proof: BytesLike
+): Pick<DecryptionAudit, "digest" | "signatures" | "validSigners" | "passed" | "issues"> {
+  const { signatures, extraData } = parseDecryptionProof(proof);
+  const digest = decryptionDigest(kms.domain, handles, decryptedResultOf(cleartexts), extraData);
+  const configured = new Set(kms.signers.map((signer) => signer.toLowerCase()));
+
+  const seen = new Set<string>();
+  const checks = signatures.map((signature, index): SignatureCheck => {
+    const signer = recoverKmsSigner(digest, signature);
+    const trusted = signer !== null && configured.has(signer.toLowerCase());
+    const duplicate = trusted && seen.has(signer!.toLowerCase());
+    if (trusted) seen.add(signer!.toLowerCase());
+    return { index, signature, signer, trusted, duplicate };
+  });
+
+  const issues: string[] = [];
+  if (signatures.length === 0) {
+    issues.push("Proof carries no signatures");
+  }
+  for (const check of checks) {
+    if (!check.trusted) {
+      issues.push(`Signature ${check.index} recovers to ${check.signer ?? "no address"}, not a configured KMS signer`);
+    }
+  }
+  if (BigInt(seen.size) < kms.threshold) {
+    issues.push(`Only ${seen.size} distinct KMS signers, threshold is ${kms.threshold}`);
+  }
+
+  return { digest, signatures: checks, validSigners: seen.size, passed: issues.length === 0, issues };
+}
+
+async function requestedHandles(client: RoyaltiesClient, contributionId: bigint, requestId: bigint) {
+  const provider = client.contract.runner!.provider!;
+  const requests = await client.contract.queryFilter(
+    client.contract.filters.RoyaltyCalculationRequested(contributionId)
+  );
+  const request = requests.find((log) => log.args.requestId === requestId);
+  if (!request) {
+    throw new Error(`No calculation request ${requestId} for contribution ${contributionId}`);
+  }
+
+  const receipt = (await provider.getTransactionReceipt(request.transactionHash))!;
+  for (const log of receipt.logs) {
+    const parsed = oracleInterface.parseLog(log);
+    if (
+      parsed?.name === "DecryptionRequest" &&
+      parsed.args.requestID === requestId &&
+      parsed.args.contractCaller.toLowerCase() === client.address.toLowerCase()
+    ) {
+      return [...parsed.args.cts] as string[];
+    }
+  }
+  throw new Error(`Request transaction ${request.transactionHash} has no DecryptionRequest for request ${requestId}`);
+}
+
+function findRoyaltyDecrypted(client: RoyaltiesClient, receipt: TransactionReceipt): bigint | null {
+  for (const log of receipt.logs) {
+    if (log.address.toLowerCase() !== client.address.toLowerCase()) continue;
+    const parsed = client.contract.interface.parseLog(log);
+    if (parsed?.name === "RoyaltyDecrypted") return parsed.args.contributionId;
+  }
+  return null;
+}
+
+/**
+ * Audits the oracle callback that revealed a contribution's royalty. The
+ * cleartexts and proof are taken from the `processRoyaltyCalculation`
+ * calldata, the handles from the oracle's `DecryptionRequest` in the request
+ * transaction, and the KMS signatures are checked against the signer set
+ * the KMSVerifier had when the callback was mined. The request also has to
+ * decrypt nothing but the epoch's score total, and the decrypted total has
+ * to match the one the epoch recorded.
+ */
+export async function auditRoyaltyDecryption(
+  client: RoyaltiesClient,
+  transactionHash: string,
+  kmsVerifierAddress: string
+): Promise<DecryptionAudit> {
+  const provider = client.contract.runner?.provider;
+  if (!provider) {
+    throw new Error("The royalties client needs a provider to audit decryptions");
+  }
+  const [transaction, receipt] = await Promise.all([
+    provider.getTransaction(transactionHash),
+    provider.getTransactionReceipt(transactionHash),
+  ]);
+  if (!transaction || !receipt) {
+    throw new Error(`Transaction ${transactionHash} not found`);
+  }
+  const contributionId = findRoyaltyDecrypted(client, receipt);
+  if (contributionId === null) {
+    throw new Error(`Transaction ${transactionHash} did not emit RoyaltyDecrypted`);
+  }
+  const call = client.contract.interface.parseTransaction(transaction);
+  if (call?.name !== "processRoyaltyCalculation") {
+    throw new Error(`Transaction ${transactionHash} does not call processRoyaltyCalculation directly`);
+  }
+
+  const requestId: bigint = call.args.requestId;
+  const cleartexts: string = call.args.cleartexts;
+  const contribution = await client.getContribution(contributionId);
+  if (!contribution) {
+    throw new Error(`Contribution ${contributionId} not found`);
+  }
+  const [handles, kms, totals] = await Promise.all([
+    requestedHandles(client, contributionId, requestId),
+    loadKmsSignerSet(kmsVerifierAddress, provider, receipt.blockNumber),
+    client.getEpochTotals(contribution.epoch),
+  ]);
+
+  const result = verifyDecryptionSignatures(kms, handles, cleartexts, call.args.proof);
+  const [scoreTotal] = abi.decode(["uint64"], cleartexts).map((value) => BigInt(value));
+  if (dataLength(cleartexts) !== 32 * handles.length) {
+    result.issues.push(`Callback carries ${dataLength(cleartexts) / 32} cleartexts for ${handles.length} handles`);
+  }
+  if (handles.length !== 1 || handles[0] !== totals.encryptedScoreTotal) {
+    result.issues.push(
+      `Request decrypts ${handles.join(", ")}, not only the score total of epoch ${contribution.epoch}`
+    );
+  }
+  if (scoreTotal !== totals.scoreTotal) {
+    result.issues.push(
+      `Decrypted score total ${scoreTotal} does not match ${totals.scoreTotal} recorded for the epoch`
+    );
+  }
+
+  return {
+    transactionHash,
+    blockNumber: receipt.blockNumber,
+    contributionId,
+    requestId,
+    handles,
+    cleartexts,
+    epoch: contribution.epoch,
+    scoreTotal,
+    kms,
+    ...result,
+    passed: result.issues.length === 0,
+  };
+}
@@ -0,0 +1,338 @@
+// legacyMigration.ts
+import { decodeBase64, getAddress, isAddress, toUtf8Bytes, toUtf8String } from "ethers";
+import type { Signer } from "ethers";
+import type { UniversalAdapter } from "../types";
+import { readDataBatch } from "./batchReader";
+import { CONTRIBUTION_KEY_PREFIX, LEGACY_KEYS_KEY, syncContributionIndex } from "./contributionIndex";
+import { migratedCommitment } from "./contributorSecret";
+import { encryptContributionMetrics, validateMetrics } from "./encryption";
+import type { ContributionMetrics, EncryptedInputSource } from "./encryption";
+import type { RoyaltiesClient } from "./royaltiesClient";
+import { ROLE_IDS } from "./roles";
+import { DEFAULT_MODEL_ID, modelIdFor } from "./weightProfiles";
+
+// Prefix older frontends put in front of the base64 JSON of the submitted form
+const LEGACY_PAYLOAD_PREFIX = "FHE-";
+
+export interface LegacyRecord {
+  legacyId: string;
+  owner: string | null;
+  model: string | null;
+  timestamp: number | null;
+  // Taken from the record itself or from the form payload stored in its `data` field
+  metrics: ContributionMetrics | null;
+  // Set on records that were submitted to AiRoyalties_FHE when they were created
+  fheContributionId: string | null;
+  data: Record<string, any>;
+}
+
+export type MigrationStatus = "migrated" | "existing" | "skipped" | "failed" | "planned";
+
+export interface MigrationEntry {
+  legacyId: string;
+  status: MigrationStatus;
+  contributionId?: string;
+  contributorHash?: string;
+  transactionHash?: string;
+  legacyTimestamp?: number;
+  // Whether the record's owner is now the contributor, with access to the handles
+  ownerGranted?: boolean;
+  // Whether the UniversalAdapter record now points at the new contribution
+  recordUpdated?: boolean;
+  reason?: string;
+}
+
+// Old id → new id mapping, persisted between runs so an interrupted migration resumes where it stopped
+export interface MigrationMap {
+  adapter: string;
+  royalties: string;
+  chainId: string;
+  entries: Record<string, MigrationEntry>;
+}
+
+export interface MigrationOptions {
+  // Plans every record without encrypting or sending anything
+  dryRun?: boolean;
+  // First block of the UniversalAdapter history to scan
+  fromBlock?: number;
+  // First block of the AiRoyalties_FHE history searched for earlier submissions
+  royaltiesFromBlock?: number;
+  // Metrics by legacy id, for records that never stored them
+  metrics?: Record<string, ContributionMetrics>;
+  // Writes the new contribution id back into each migrated UniversalAdapter record
+  updateRecords?: boolean;
+  // Called after every record, e.g. to save the mapping
+  onEntry?: (entry: MigrationEntry, map: MigrationMap) => void | Promise<void>;
+}
+
+export interface MigrationReport {
+  entries: MigrationEntry[];
+  counts: Record<MigrationStatus, number>;
+}
+
+interface MigrationContext {
+  adapter: UniversalAdapter;
+  royalties: RoyaltiesClient;
+  fhevm: EncryptedInputSource;
+  // Account the metrics are encrypted for; null on dry runs
+  submitter: string | null;
+  // Earlier submissions by contributor hash
+  recorded: Map<string, { id: bigint; transactionHash: string }>;
+  options: MigrationOptions;
+}
+
+export function emptyMigrationMap(adapter: string, royalties: string, chainId: bigint): MigrationMap {
+  return { adapter, royalties, chainId: chainId.toString(), entries: {} };
+}
+
+const readMetrics = (source: Record<string, any> | null | undefined): ContributionMetrics | null => {
+  if (!source) return null;
+  const values = [source.computeHours, source.dataQuality, source.modelImpact].map((value) =>
+    value === undefined || value === null || value === "" ? NaN : Number(value)
+  );
+  if (values.some((value) => Number.isNaN(value))) return null;
+  return { computeHours: values[0], dataQuality: values[1], modelImpact: values[2] };
+};
+
+function decodePayload(data: unknown): Record<string, any> | null {
+  if (typeof data !== "string" || !data.startsWith(LEGACY_PAYLOAD_PREFIX)) return null;
+  try {
+    return JSON.parse(toUtf8String(decodeBase64(data.substring(LEGACY_PAYLOAD_PREFIX.length))));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Parses a `contribution_${id}` value. Throws when it is not JSON; fields the
+ * record lacks come back as null.
+ */
+export function parseLegacyRecord(legacyId: string, value: string): LegacyRecord {
+  const data = JSON.parse(toUtf8String(value));
+  if (!data || typeof data !== "object") {
+    throw new Error("Record is not a JSON object");
+  }
+  const payload = decodePayload(data.data);
+  return {
+    legacyId,
+    owner: typeof data.owner === "string" && isAddress(data.owner) ? getAddress(data.owner) : null,
+    model: data.model || payload?.model || null,
+    timestamp: typeof data.timestamp === "number" ? data.timestamp : null,
+    metrics: readMetrics(data) ?? readMetrics(payload),
+    fheContributionId: data.fheContributionId ? String(data.fheContributionId) : null,
+    data,
+  };
+}
+
+/**
+ * Lists every legacy contribution id, from the `DataStored` history and the
+ * JSON keys index older frontends maintained, in the order they were created.
+ */
+export async function listLegacyIds(adapter: UniversalAdapter, fromBlock?: number): Promise<string[]> {
+  const index = await syncContributionIndex(adapter, null, { fromBlock });
+  const ids = index.entries.map((entry) => entry.id);
+
+  const keysValue = await adapter.getData(LEGACY_KEYS_KEY);
+  if (keysValue !== "0x") {
+    try {
+      const keys: unknown = JSON.parse(toUtf8String(keysValue));
+      if (Array.isArray(keys)) {
+        const known = new Set(ids);
+        ids.push(...keys.map(String).filter((id) => !known.has(id)));
+      }
+    } catch (e) {
+      console.error("Ignoring unreadable legacy keys index:", e);
+    }
+  }
+  return ids;
+}
+
+async function updateRecord(adapter: UniversalAdapter, record: LegacyRecord, contributionId: string) {
+  const updated = { ...record.data, fheContributionId: contributionId, migrated: true };
+  const tx = await adapter.setData(
+    `${CONTRIBUTION_KEY_PREFIX}${record.legacyId}`,
+    toUtf8Bytes(JSON.stringify(updated))
+  );
+  await tx.wait();
+}
+
+async function migrateRecord(
+  context: MigrationContext,
+  legacyId: string,
+  value: string,
+  previous: MigrationEntry | undefined
+): Promise<MigrationEntry> {
+  const { options } = context;
+  if (value === "0x") {
+    return { legacyId, status: "skipped", reason: "Record is empty" };
+  }
+  let record: LegacyRecord;
+  try {
+    record = parseLegacyRecord(legacyId, value);
+  } catch (e) {
+    return { legacyId, status: "skipped", reason: `Unreadable record: ${e instanceof Error ? e.message : e}` };
+  }
+  const base = { legacyId, legacyTimestamp: record.timestamp ?? undefined };
+
+  if (record.fheContributionId && !record.data.migrated) {
+    return { ...base, status: "existing", contributionId: record.fheContributionId };
+  }
+  if (!record.owner) {
+    return { ...base, status: "skipped", reason: "Record has no owner address to claim with" };
+  }
+  const metrics = options.metrics?.[legacyId] ?? record.metrics;
+  if (!metrics) {
+    return { ...base, status: "skipped", reason: "Record has no metrics; supply them in the metrics file" };
+  }
+  try {
+    validateMetrics(metrics);
+  } catch (e) {
+    return { ...base, status: "skipped", reason: e instanceof Error ? e.message : String(e) };
+  }
+
+  const { contributorHash } = migratedCommitment(record.owner, legacyId);
+  // The hash is public, so another account may have submitted under it first; that contribution is not ours
+  const owner = await context.royalties.getCommitmentOwner(contributorHash);
+  if (owner && context.submitter && owner !== context.submitter) {
+    return { ...base, status: "failed", contributorHash, reason: `Contributor hash is already used by ${owner}` };
+  }
+  const earlier = context.recorded.get(contributorHash);
+  if (options.dryRun) {
+    return earlier
+      ? { ...base, status: "migrated", contributorHash, contributionId: earlier.id.toString() }
+      : { ...base, status: "planned", contributorHash };
+  }
+
+  let entry: MigrationEntry;
+  if (previous?.status === "migrated") {
+    entry = { ...previous, reason: undefined };
+  } else if (earlier) {
+    entry = {
+      ...base,
+      status: "migrated",
+      contributorHash,
+      contributionId: earlier.id.toString(),
+      transactionHash: earlier.transactionHash,
+    };
+  } else {
+    try {
+      const { royalties } = context;
+      const encrypted = await encryptContributionMetrics(context.fhevm, royalties.address, context.submitter!, metrics);
+      const { contributionId, receipt } = await royalties.submitEncryptedContribution({
+        ...encrypted,
+        contributorHash,
+        modelId: record.model ? modelIdFor(record.model) : DEFAULT_MODEL_ID,
+      });
+      entry = {
+        ...base,
+        status: "migrated",
+        contributorHash,
+        contributionId: contributionId.toString(),
+        transactionHash: receipt.hash,
+      };
+    } catch (e) {
+      return { ...base, status: "failed", contributorHash, reason: e instanceof Error ? e.message : String(e) };
+    }
+  }
+
+  // The metrics were encrypted for the migrating account; handing the contribution over grants the owner its
+  // handles and later its share, which "Reveal to me" needs. Entries migrated before this step get it on the next run
+  const reasons: string[] = [];
+  try {
+    const contributor = await context.royalties.getContributor(entry.contributionId!);
+    if (contributor !== record.owner) {
+      await context.royalties.transferContribution(entry.contributionId!, record.owner);
+    }
+    entry.ownerGranted = true;
+  } catch (e) {
+    entry.ownerGranted = false;
+    reasons.push(`Transfer to ${record.owner} failed: ${e instanceof Error ? e.message : e}`);
+  }
+
+  if (options.updateRecords) {
+    try {
+      await updateRecord(context.adapter, record, entry.contributionId!);
+      entry.recordUpdated = true;
+    } catch (e) {
+      // The contribution exists either way; the next run only retries the record update
+      entry.recordUpdated = false;
+      reasons.push(`Record update failed: ${e instanceof Error ? e.message : e}`);
+    }
+  }
+  if (reasons.length > 0) entry.reason = reasons.join("; ");
+  return entry;
+}
+
+/**
+ * Moves the JSON contribution records of UniversalAdapter onto
+ * AiRoyalties_FHE. Each record's metrics are encrypted for the migrating
+ * account and submitted under a contributor hash its owner can claim with
+ * their wallet (see `migratedCommitment`), then transferred to the owner so
+ * they can decrypt it; the new contribution lands in the current epoch.
+ * Records already in `map` as migrated are left alone, and since the
+ * contributor hash is deterministic, submissions whose mapping entry was
+ * never saved are recovered from `ContributionRecorded` instead of being
+ * sent twice, unless another account took the hash first. A failing record
+ * is recorded and the run moves on. The migrating account needs the
+ * contributor role.
+ */
+export async function migrateLegacyContributions(
+  adapter: UniversalAdapter,
+  royalties: RoyaltiesClient,
+  fhevm: EncryptedInputSource,
+  map: MigrationMap,
+  options: MigrationOptions = {}
+): Promise<MigrationReport> {
+  const ids = await listLegacyIds(adapter, options.fromBlock);
+  const values = await readDataBatch(
+    adapter,
+    ids.map((legacyId) => `${CONTRIBUTION_KEY_PREFIX}${legacyId}`)
+  );
+
+  const recorded = new Map<string, { id: bigint; transactionHash: string }>();
+  for (const event of await royalties.queryContributionRecorded(options.royaltiesFromBlock)) {
+    recorded.set(event.contributorHash, { id: event.id, transactionHash: event.transactionHash });
+  }
+
+  let submitter: string | null = null;
+  if (!options.dryRun) {
+    const runner = royalties.contract.runner as Signer | null;
+    if (!runner || typeof runner.getAddress !== "function") {
+      throw new Error("Migrating needs a royalties client connected to a signer");
+    }
+    submitter = await runner.getAddress();
+    // Checked up front so a missing grant does not fail every record one by one
+    if (!(await royalties.hasRole(ROLE_IDS.contributor, submitter))) {
+      throw new Error(`Migrating account ${submitter} needs the contributor role`);
+    }
+  }
+  const context: MigrationContext = { adapter, royalties, fhevm, submitter, recorded, options };
+
+  const entries: MigrationEntry[] = [];
+  for (let i = 0; i < ids.length; i++) {
+    const legacyId = ids[i];
+    const previous = map.entries[legacyId];
+    const done =
+      previous?.status === "existing" ||
+      (previous?.status === "migrated" &&
+        previous.ownerGranted &&
+        (previous.recordUpdated || !options.updateRecords));
+    if (done) {
+      entries.push(previous);
+      continue;
+    }
+
+    const entry = await migrateRecord(context, legacyId, values[i].value, previous);
+    entries.push(entry);
+    if (!options.dryRun) {
+      map.entries[legacyId] = entry;
+      await options.onEntry?.(entry, map);
+    }
+  }
+
+  const counts: Record<MigrationStatus, number> = { migrated: 0, existing: 0, skipped: 0, failed: 0, planned: 0 };
+  for (const entry of entries) {
+    counts[entry.status]++;
+  }
+  return { entries, counts };
+}
@@ -0,0 +1,169 @@
+// localDecryptionRelayer.ts
+import { Interface } from "ethers";
+import type { DecryptionRequest, MockFhevm } from "./mockFhevm";
+
+export interface RelayedDecryption {
+  requestId: bigint;
+  // Contract whose callback selector is invoked
+  contractAddress: string;
+  handles: string[];
+  requestBlock: number;
+  requestTransactionHash: string;
+  callbackTransactionHash?: string;
+  error?: string;
+  // Callbacks sent for this request so far, this one included
+  attempts: number;
+  // The callback failed `maxAttempts` times and will not be sent again
+  gaveUp?: boolean;
+}
+
+export interface LocalDecryptionRelayerOptions {
+  // First block to scan; local chains are short, so by default the whole history is picked up
+  fromBlock?: number;
+  pollIntervalMs?: number;
+  maxAttempts?: number;
+  // Wait before the first retry of a failed callback, doubled after each further failure
+  retryDelayMs?: number;
+}
+
+interface FailedRequest {
+  request: DecryptionRequest;
+  attempts: number;
+  retryAt: number;
+}
+
+// Emitted by `FHE.checkSignatures` in the requesting contract once the callback accepted the proof
+const fulfilledInterface = new Interface(["event DecryptionFulfilled(uint256 indexed requestID)"]);
+
+/**
+ * Stands in for the Zama relayer and KMS on a local `npx hardhat node`.
+ * Watches the decryption oracle for `DecryptionRequest` events and has the
+ * mock backend answer them: cleartexts are read from the mock coprocessor,
+ * signed with the mock KMS keys and sent to each contract's callback. A
+ * reverting callback is reported and retried with backoff without holding
+ * back the rest, until it has failed `maxAttempts` times.
+ */
+export class LocalDecryptionRelayer {
+  private mock: MockFhevm;
+  private nextBlock: number;
+  private pollIntervalMs: number;
+  private maxAttempts: number;
+  private retryDelayMs: number;
+  private failed = new Map<bigint, FailedRequest>();
+  private running: Promise<RelayedDecryption[]> | null = null;
+  private listeners = new Set<(relayed: RelayedDecryption) => void>();
+
+  constructor(mock: MockFhevm, options: LocalDecryptionRelayerOptions = {}) {
+    this.mock = mock;
+    this.nextBlock = options.fromBlock ?? 0;
+    this.pollIntervalMs = options.pollIntervalMs ?? 1_000;
+    this.maxAttempts = options.maxAttempts ?? 5;
+    this.retryDelayMs = options.retryDelayMs ?? 2_000;
+  }
+
+  subscribe(listener: (relayed: RelayedDecryption) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Answers every request emitted since the previous pass, one callback at a
+   * time, and retries failed callbacks whose backoff has passed. Concurrent
+   * calls share the pass in flight, so a request is never submitted twice.
+   */
+  relayPending(): Promise<RelayedDecryption[]> {
+    if (!this.running) {
+      this.running = this.relay().finally(() => {
+        this.running = null;
+      });
+    }
+    return this.running;
+  }
+
+  private async relay(): Promise<RelayedDecryption[]> {
+    const provider = this.mock.hre.ethers.provider;
+    const toBlock = await provider.getBlockNumber();
+    const now = Date.now();
+    const requests = Array.from(this.failed.values())
+      .filter((failed) => failed.retryAt <= now)
+      .map((failed) => failed.request);
+    if (toBlock >= this.nextBlock) {
+      const logs = await provider.getLogs({
+        address: this.mock.addresses.decryptionOracle,
+        fromBlock: this.nextBlock,
+        toBlock,
+      });
+      requests.push(...this.mock.hre.fhevm.parseDecryptionRequestEvents(logs));
+    }
+
+    const relayed: RelayedDecryption[] = [];
+    for (const request of requests) {
+      const [fulfilled] = await provider.getLogs({
+        address: request.contractCallerAddress,
+        topics: fulfilledInterface.encodeFilterTopics("DecryptionFulfilled", [request.requestID]),
+        fromBlock: request.blockNumber,
+      });
+      // Answered in an earlier pass or by someone else
+      if (fulfilled) {
+        this.failed.delete(request.requestID);
+        continue;
+      }
+
+      const result: RelayedDecryption = {
+        requestId: request.requestID,
+        contractAddress: request.contractCallerAddress,
+        handles: [...request.handlesBytes32Hex],
+        requestBlock: request.blockNumber,
+        requestTransactionHash: request.transactionHash,
+        attempts: (this.failed.get(request.requestID)?.attempts ?? 0) + 1,
+      };
+      try {
+        const receipt = await this.mock.fulfillDecryption(request);
+        result.callbackTransactionHash = receipt?.hash;
+        this.failed.delete(request.requestID);
+      } catch (e) {
+        result.error = e instanceof Error ? e.message : String(e);
+        if (result.attempts >= this.maxAttempts) {
+          result.gaveUp = true;
+          this.failed.delete(request.requestID);
+        } else {
+          const retryAt = Date.now() + this.retryDelayMs * 2 ** (result.attempts - 1);
+          this.failed.set(request.requestID, { request, attempts: result.attempts, retryAt });
+        }
+      }
+
+      relayed.push(result);
+      for (const listener of this.listeners) {
+        listener(result);
+      }
+    }
+    // Failed requests are kept for their retries, so the next pass only scans new blocks
+    this.nextBlock = Math.max(this.nextBlock, toBlock + 1);
+    return relayed;
+  }
+
+  // Polls until the returned function is called
+  start(): () => void {
+    let stopped = false;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const poll = async () => {
+      try {
+        await this.relayPending();
+      } catch (e) {
+        console.error("Decryption relay pass failed:", e);
+      }
+      if (!stopped) {
+        timer = setTimeout(poll, this.pollIntervalMs);
+      }
+    };
+    void poll();
+
+    return () => {
+      stopped = true;
+      clearTimeout(timer);
+    };
+  }
+}
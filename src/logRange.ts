@@ -0,0 +1,35 @@
+// logRange.ts
+const DEFAULT_CHUNK_SIZE = 10_000;
+const MIN_CHUNK_SIZE = 100;
+
+export interface ChunkOptions {
+  chunkSize?: number;
+}
+
+/**
+ * Runs `query` over consecutive block windows from `fromBlock` to `toBlock`
+ * and concatenates the results. Most RPCs cap the range or result size of
+ * eth_getLogs, so a failing window is retried at half the size.
+ */
+export async function queryInChunks<T>(
+  query: (fromBlock: number, toBlock: number) => Promise<T[]>,
+  fromBlock: number,
+  toBlock: number,
+  options: ChunkOptions = {}
+): Promise<T[]> {
+  const results: T[] = [];
+  let chunkSize = options.chunkSize ?? DEFAULT_CHUNK_SIZE;
+  let from = fromBlock;
+  while (from <= toBlock) {
+    const to = Math.min(from + chunkSize - 1, toBlock);
+    try {
+      results.push(...(await query(from, to)));
+    } catch (e) {
+      if (chunkSize <= MIN_CHUNK_SIZE) throw e;
+      chunkSize = Math.max(MIN_CHUNK_SIZE, Math.floor(chunkSize / 2));
+      continue;
+    }
+    from = to + 1;
+  }
+  return results;
+}
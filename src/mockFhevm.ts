@@ -0,0 +1,141 @@
+// mockFhevm.ts
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import type { FhevmTypeEuint } from "@fhevm/hardhat-plugin";
+import { AbiCoder, concat, solidityPacked } from "ethers";
+import type { TransactionReceipt } from "ethers";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import { IACL__factory } from "../types";
+import type { IACL } from "../types";
+import type { EncryptedInputSource } from "./encryption";
+import type { UserDecryptionSource } from "./userDecryption";
+
+export type DecryptionRequest = ReturnType<HardhatRuntimeEnvironment["fhevm"]["parseDecryptionRequestEvents"]>[number];
+
+// ABI type of the cleartext behind each FHE type, which a handle carries in its second to last byte
+const CLEARTEXT_TYPES: Record<number, string> = {
+  [FhevmType.ebool]: "bool",
+  [FhevmType.euint8]: "uint8",
+  [FhevmType.euint16]: "uint16",
+  [FhevmType.euint32]: "uint32",
+  [FhevmType.euint64]: "uint64",
+  [FhevmType.euint128]: "uint128",
+  [FhevmType.eaddress]: "address",
+  [FhevmType.euint256]: "uint256",
+};
+
+export interface MockFhevmAddresses {
+  acl: string;
+  executor: string;
+  inputVerifier: string;
+  kmsVerifier: string;
+  decryptionOracle: string;
+}
+
+/**
+ * Offline FHEVM stack for the `hardhat` network (`npx hardhat test`) and a
+ * local `npx hardhat node` (`--network localhost`). Backed by the mock
+ * coprocessor of `@fhevm/hardhat-plugin`: handles map to plaintexts kept by
+ * the plugin, input proofs and KMS signatures come from local signers, the
+ * ACL is the real contract deployed at the addresses `SepoliaConfig` resolves
+ * to, and the oracle calls back the selector passed to `FHE.requestDecryption`.
+ */
+export class MockFhevm {
+  readonly hre: HardhatRuntimeEnvironment;
+  readonly addresses: MockFhevmAddresses;
+  readonly acl: IACL;
+
+  private constructor(hre: HardhatRuntimeEnvironment, addresses: MockFhevmAddresses) {
+    this.hre = hre;
+    this.addresses = addresses;
+    this.acl = IACL__factory.connect(addresses.acl, hre.ethers.provider);
+  }
+
+  static async create(hre: HardhatRuntimeEnvironment): Promise<MockFhevm> {
+    // `hardhat test` sets the plugin up itself; scripts against a node have to ask for it
+    if (hre.network.name !== "hardhat") {
+      await hre.fhevm.initializeCLIApi();
+    }
+    if (!hre.fhevm.isMock) {
+      throw new Error(`Network ${hre.network.name} is not running the mock FHEVM coprocessor`);
+    }
+
+    const metadata = await hre.fhevm.getRelayerMetadata();
+    return new MockFhevm(hre, {
+      acl: metadata.ACLAddress,
+      executor: metadata.CoprocessorAddress,
+      inputVerifier: metadata.InputVerifierAddress,
+      kmsVerifier: metadata.KMSVerifierAddress,
+      decryptionOracle: metadata.DecryptionOracleAddress,
+    });
+  }
+
+  // Same shape as a relayer SDK instance, so the shared encryption and decryption helpers run unchanged
+  get instance(): EncryptedInputSource & UserDecryptionSource {
+    return this.hre.fhevm;
+  }
+
+  // Reads the plaintext behind a handle directly, bypassing the ACL; for assertions only
+  decryptEuint32(handle: string): Promise<bigint> {
+    return this.hre.fhevm.debugger.decryptEuint(FhevmType.euint32, handle);
+  }
+
+  isAllowed(handle: string, account: string): Promise<boolean> {
+    return this.acl.isAllowed(handle, account);
+  }
+
+  isAllowedForDecryption(handle: string): Promise<boolean> {
+    return this.acl.isAllowedForDecryption(handle);
+  }
+
+  /**
+   * Answers every pending `FHE.requestDecryption` call: the plaintexts are
+   * signed with the mock KMS keys and the requesting contract's callback is
+   * invoked, so `FHE.checkSignatures` passes as it would on Sepolia.
+   */
+  async fulfillDecryptions(): Promise<void> {
+    await this.hre.fhevm.awaitDecryptionOracle();
+  }
+
+  /**
+   * Answers a single `FHE.requestDecryption` call the way the oracle would,
+   * but on its own: a reverting callback throws here without holding back
+   * any other request.
+   */
+  async fulfillDecryption(request: DecryptionRequest): Promise<TransactionReceipt | null> {
+    const { debugger: fhevmDebugger } = this.hre.fhevm;
+    const types: string[] = [];
+    const values: (bigint | string | boolean)[] = [];
+    for (const handle of request.handlesBytes32Hex) {
+      const fhevmType = Number((BigInt(handle) >> 8n) & 0xffn);
+      const type = CLEARTEXT_TYPES[fhevmType];
+      if (!type) {
+        throw new Error(`Unsupported FHE type ${fhevmType} in handle ${handle}`);
+      }
+      types.push(type);
+      if (fhevmType === FhevmType.ebool) {
+        values.push(await fhevmDebugger.decryptEbool(handle));
+      } else if (fhevmType === FhevmType.eaddress) {
+        values.push(await fhevmDebugger.decryptEaddress(handle));
+      } else {
+        values.push(await fhevmDebugger.decryptEuint(fhevmType as FhevmTypeEuint, handle));
+      }
+    }
+
+    // Typed as the signatures alone, but the plugin resolves to the whole KMS result
+    const signed = (await fhevmDebugger.createDecryptionSignatures(request.handlesBytes32Hex, values)) as unknown as
+      | string[]
+      | { signatures: string[] };
+    const signatures = Array.isArray(signed) ? signed : signed.signatures;
+    // Same layout as the KMS proof: signer count, signatures, then the version 0 extra data
+    const proof = concat([solidityPacked(["uint8"], [signatures.length]), ...signatures, "0x00"]);
+    const coder = AbiCoder.defaultAbiCoder();
+    const args = coder.encode(["uint256", "bytes", "bytes"], [request.requestID, coder.encode(types, values), proof]);
+
+    const [relayer] = await this.hre.ethers.getSigners();
+    const tx = await relayer.sendTransaction({
+      to: request.contractCallerAddress,
+      data: concat([request.callbackSelectorBytes4Hex, args]),
+    });
+    return tx.wait();
+  }
+}
@@ -0,0 +1,190 @@
+// providerPool.ts
+import { AbstractProvider, JsonRpcProvider, Network, isError } from "ethers";
+import type { PerformActionRequest } from "ethers";
+
+export interface NetworkProfile {
+  name: string;
+  chainId: number;
+  rpcUrls: string[];
+}
+
+export interface ProviderPoolOptions {
+  // How long a single probe or request may take before counting as a failure
+  timeoutMs?: number;
+  // Base cooldown after a failure; doubles with each consecutive failure
+  cooldownMs?: number;
+  maxCooldownMs?: number;
+}
+
+export interface EndpointHealth {
+  url: string;
+  // Exponentially weighted success rate, 1 = every recent request succeeded
+  score: number;
+  latencyMs: number | null;
+  consecutiveFailures: number;
+  cooldownUntil: number;
+  lastError: string | null;
+}
+
+interface Endpoint extends EndpointHealth {
+  provider: JsonRpcProvider;
+}
+
+const SCORE_WEIGHT = 0.3;
+const LATENCY_WEIGHT = 0.3;
+
+// Errors that describe the request itself rather than the endpoint; retrying elsewhere would not help
+const NON_RETRYABLE = ["CALL_EXCEPTION", "INVALID_ARGUMENT", "INSUFFICIENT_FUNDS", "NONCE_EXPIRED"] as const;
+
+const withTimeout = <T>(promise: Promise<T>, ms: number): Promise<T> => {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(`RPC timeout after ${ms}ms`)), ms);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+};
+
+/**
+ * Keeps per-endpoint health for one network and routes each request to the
+ * healthiest, fastest endpoint. A failing endpoint is put on cooldown and the
+ * request is retried on the next one, so a dead RPC mid-session is invisible
+ * to callers holding the pool's provider.
+ */
+export class ProviderPool {
+  readonly network: NetworkProfile;
+  readonly provider: PooledProvider;
+  private endpoints: Endpoint[];
+  private timeoutMs: number;
+  private cooldownMs: number;
+  private maxCooldownMs: number;
+
+  constructor(network: NetworkProfile, options: ProviderPoolOptions = {}) {
+    if (network.rpcUrls.length === 0) {
+      throw new Error(`No RPC URLs configured for network ${network.name}`);
+    }
+    this.network = network;
+    this.timeoutMs = options.timeoutMs ?? 10_000;
+    this.cooldownMs = options.cooldownMs ?? 5_000;
+    this.maxCooldownMs = options.maxCooldownMs ?? 120_000;
+
+    const staticNetwork = Network.from({ name: network.name, chainId: network.chainId });
+    this.endpoints = network.rpcUrls.map((url) => ({
+      url,
+      provider: new JsonRpcProvider(url, staticNetwork, { staticNetwork }),
+      score: 1,
+      latencyMs: null,
+      consecutiveFailures: 0,
+      cooldownUntil: 0,
+      lastError: null,
+    }));
+    this.provider = new PooledProvider(this, staticNetwork);
+  }
+
+  health(): EndpointHealth[] {
+    return this.endpoints.map(({ provider, ...health }) => ({ ...health }));
+  }
+
+  // Measures every endpoint once, so selection starts from real latencies
+  async probe(): Promise<EndpointHealth[]> {
+    await Promise.all(
+      this.endpoints.map((endpoint) =>
+        this.attempt(endpoint, () => endpoint.provider.getBlockNumber()).catch(() => undefined)
+      )
+    );
+    return this.health();
+  }
+
+  private ranked(): Endpoint[] {
+    const now = Date.now();
+    const cost = (e: Endpoint) => (e.latencyMs ?? this.timeoutMs / 2) / Math.max(e.score, 0.05);
+    const available = this.endpoints.filter((e) => e.cooldownUntil <= now).sort((a, b) => cost(a) - cost(b));
+    // When everything is cooling down, try the endpoint that recovers first rather than failing outright
+    const cooling = this.endpoints
+      .filter((e) => e.cooldownUntil > now)
+      .sort((a, b) => a.cooldownUntil - b.cooldownUntil);
+    return [...available, ...cooling];
+  }
+
+  private async attempt<T>(endpoint: Endpoint, fn: () => Promise<T>): Promise<T> {
+    const started = Date.now();
+    try {
+      const result = await withTimeout(fn(), this.timeoutMs);
+      const latency = Date.now() - started;
+      endpoint.latencyMs =
+        endpoint.latencyMs === null ? latency : endpoint.latencyMs * (1 - LATENCY_WEIGHT) + latency * LATENCY_WEIGHT;
+      endpoint.score = endpoint.score * (1 - SCORE_WEIGHT) + SCORE_WEIGHT;
+      endpoint.consecutiveFailures = 0;
+      endpoint.cooldownUntil = 0;
+      return result;
+    } catch (e) {
+      if (NON_RETRYABLE.some((code) => isError(e, code))) {
+        throw e;
+      }
+      endpoint.score = endpoint.score * (1 - SCORE_WEIGHT);
+      endpoint.consecutiveFailures += 1;
+      endpoint.cooldownUntil =
+        Date.now() + Math.min(this.cooldownMs * 2 ** (endpoint.consecutiveFailures - 1), this.maxCooldownMs);
+      endpoint.lastError = e instanceof Error ? e.message : String(e);
+      throw e;
+    }
+  }
+
+  async run<T>(fn: (provider: JsonRpcProvider) => Promise<T>): Promise<T> {
+    let lastError: unknown = null;
+    for (const endpoint of this.ranked()) {
+      try {
+        return await this.attempt(endpoint, () => fn(endpoint.provider));
+      } catch (e) {
+        if (NON_RETRYABLE.some((code) => isError(e, code))) {
+          throw e;
+        }
+        lastError = e;
+      }
+    }
+    throw new Error(`All RPC providers failed for ${this.network.name}`, { cause: lastError });
+  }
+
+  destroy(): void {
+    this.provider.destroy();
+    for (const endpoint of this.endpoints) {
+      endpoint.provider.destroy();
+    }
+  }
+}
+
+/**
+ * Read-only provider backed by a ProviderPool; every low-level request goes
+ * through `pool.run`, which handles endpoint selection and failover.
+ */
+export class PooledProvider extends AbstractProvider {
+  private pool: ProviderPool;
+
+  constructor(pool: ProviderPool, network: Network) {
+    super(network);
+    this.pool = pool;
+  }
+
+  async _detectNetwork(): Promise<Network> {
+    return Network.from({ name: this.pool.network.name, chainId: this.pool.network.chainId });
+  }
+
+  async _perform<T = any>(req: PerformActionRequest): Promise<T> {
+    return this.pool.run((provider) => provider._perform(req));
+  }
+}
+
+/**
+ * Builds network profiles from a config object, prepending any extra RPC URLs
+ * supplied per network (e.g. from environment variables) so they are tried first.
+ */
+export function resolveNetworkProfiles(
+  networks: Record<string, { chainId: number; rpcUrls: string[] }>,
+  extraRpcUrls: Record<string, string[]> = {}
+): Record<string, NetworkProfile> {
+  const profiles: Record<string, NetworkProfile> = {};
+  for (const [name, network] of Object.entries(networks)) {
+    const urls = [...(extraRpcUrls[name] ?? []), ...network.rpcUrls];
+    profiles[name] = { name, chainId: network.chainId, rpcUrls: Array.from(new Set(urls)) };
+  }
+  return profiles;
+}
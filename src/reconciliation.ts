@@ -0,0 +1,95 @@
+// reconciliation.ts
+import type { BigNumberish } from "ethers";
+import type { EpochTotals, RoyaltiesClient } from "./royaltiesClient";
+
+export interface EpochAllocation {
+  operationId: bigint;
+  contributorHash: string;
+  // Plaintext amount the executed payout sent; unpaid royalties stay encrypted
+  amount: bigint;
+}
+
+export interface EpochReconciliation {
+  epoch: bigint;
+  rewardPool: bigint;
+  committed: bigint;
+  committedRevealed: boolean;
+  paid: bigint;
+  // Sum of the executed payouts
+  allocated: bigint;
+  allocations: EpochAllocation[];
+  // Empty when the epoch's books balance
+  issues: string[];
+}
+
+/**
+ * Checks the payouts of an epoch against its totals. Individual payments are
+ * only known once paid, so calculations are checked in aggregate: payments
+ * are rounded down, so the committed total can be less than the pool but
+ * never more. Before the committed total is revealed only the paid amounts
+ * can be checked.
+ */
+export function reconcileAllocations(
+  epoch: bigint,
+  totals: Pick<EpochTotals, "rewardPool" | "committed" | "committedRevealed" | "paid">,
+  allocations: EpochAllocation[]
+): EpochReconciliation {
+  const allocated = allocations.reduce((total, allocation) => total + allocation.amount, 0n);
+
+  const issues: string[] = [];
+  if (allocated !== totals.paid) {
+    issues.push(`Epoch paid ${totals.paid} wei but payouts sent ${allocated} wei`);
+  }
+  if (totals.paid > totals.rewardPool) {
+    issues.push(`Epoch paid ${totals.paid} wei, more than its pool of ${totals.rewardPool} wei`);
+  }
+  if (totals.committedRevealed) {
+    if (totals.committed > totals.rewardPool) {
+      issues.push(`Epoch committed ${totals.committed} wei, more than its pool of ${totals.rewardPool} wei`);
+    }
+    if (totals.paid > totals.committed) {
+      issues.push(`Epoch paid ${totals.paid} wei, more than the ${totals.committed} wei committed`);
+    }
+  }
+
+  return {
+    epoch,
+    rewardPool: totals.rewardPool,
+    committed: totals.committed,
+    committedRevealed: totals.committedRevealed,
+    paid: totals.paid,
+    allocated,
+    allocations,
+    issues,
+  };
+}
+
+// Rebuilds an epoch's executed payouts from chain history and reconciles them
+export async function reconcileEpoch(
+  client: RoyaltiesClient,
+  epoch: BigNumberish,
+  fromBlock = 0
+): Promise<EpochReconciliation> {
+  const target = BigInt(epoch);
+  const [totals, queued] = await Promise.all([client.getEpochTotals(target), client.queryPayoutQueued(fromBlock)]);
+
+  const allocations = await Promise.all(
+    queued.map(async ({ operationId, contributorHash }): Promise<EpochAllocation | null> => {
+      const operation = await client.getOperation(operationId);
+      if (!operation || operation.epoch !== target || operation.status !== "executed") return null;
+      return { operationId, contributorHash, amount: operation.amount };
+    })
+  );
+
+  return reconcileAllocations(
+    target,
+    totals,
+    allocations.filter((allocation): allocation is EpochAllocation => allocation !== null)
+  );
+}
+
+export function assertEpochReconciled(reconciliation: EpochReconciliation): void {
+  if (reconciliation.issues.length > 0) {
+    throw new Error(`Epoch ${reconciliation.epoch} does not reconcile: ${reconciliation.issues.join("; ")}`);
+  }
+}
@@ -0,0 +1,120 @@
+// reviewQueue.ts
+import { keccak256, toUtf8Bytes } from "ethers";
+import type {
+  BlockTag,
+  EpochPhase,
+  EvidenceAttached,
+  Review,
+  ReviewDecided,
+  ReviewerAssigned,
+  RoyaltiesClient,
+} from "./royaltiesClient";
+
+export type ReviewTrailEntry =
+  | ({ kind: "assigned" } & ReviewerAssigned)
+  | ({ kind: "evidence" } & EvidenceAttached)
+  | ({ kind: "decided" } & ReviewDecided);
+
+export interface ReviewItem {
+  contributionId: bigint;
+  contributorHash: string;
+  // Account that submitted the contribution; it may attach evidence
+  submitter: string;
+  epoch: bigint;
+  epochPhase: EpochPhase;
+  submittedAt: bigint;
+  review: Review;
+  evidence: EvidenceAttached[];
+  // Assignments, evidence and decisions in chain order
+  trail: ReviewTrailEntry[];
+}
+
+// awaiting: undecided and still calculable; assigned: undecided and assigned to the given account
+export type ReviewFilter = "awaiting" | "assigned" | "decided" | "all";
+
+/**
+ * Content hash recorded for a piece of evidence, e.g. a training log or an
+ * eval report. Text is hashed as UTF-8, so a reviewer can check a file they
+ * were sent against the hash on chain.
+ */
+export function hashEvidence(content: Uint8Array | string): string {
+  return keccak256(typeof content === "string" ? toUtf8Bytes(content) : content);
+}
+
+// The attached evidence `content` matches, or null when it was never attached to the contribution
+export function findEvidence(item: ReviewItem, content: Uint8Array | string): EvidenceAttached | null {
+  const hash = hashEvidence(content);
+  return item.evidence.find((entry) => entry.contentHash === hash) ?? null;
+}
+
+const byChainOrder = (a: ReviewTrailEntry, b: ReviewTrailEntry) =>
+  a.blockNumber - b.blockNumber || a.logIndex - b.logIndex;
+
+/**
+ * Loads every contribution with its review, newest first. Assignments,
+ * evidence and decisions are read with one query each for the whole queue
+ * rather than per contribution.
+ */
+export async function loadReviewQueue(client: RoyaltiesClient, fromBlock?: BlockTag): Promise<ReviewItem[]> {
+  const [recorded, assignments, evidence, decisions] = await Promise.all([
+    client.queryContributionRecorded(fromBlock),
+    client.queryReviewerAssigned(undefined, fromBlock),
+    client.queryEvidenceAttached(undefined, fromBlock),
+    client.queryReviewDecided(undefined, fromBlock),
+  ]);
+
+  const phases = new Map<bigint, Promise<EpochPhase>>();
+  const phaseOf = (epoch: bigint) => {
+    if (!phases.has(epoch)) phases.set(epoch, client.getEpochPhase(epoch));
+    return phases.get(epoch)!;
+  };
+
+  const items = await Promise.all(
+    recorded.map(async (event): Promise<ReviewItem> => {
+      const [contribution, submitter, review] = await Promise.all([
+        client.getContribution(event.id),
+        client.getContributor(event.id),
+        client.getReview(event.id),
+      ]);
+      const epoch = contribution!.epoch;
+      const own = <T extends { contributionId: bigint }>(entries: T[]) =>
+        entries.filter((entry) => entry.contributionId === event.id);
+
+      const itemEvidence = own(evidence);
+      const trail: ReviewTrailEntry[] = [
+        ...own(assignments).map((entry) => ({ kind: "assigned" as const, ...entry })),
+        ...itemEvidence.map((entry) => ({ kind: "evidence" as const, ...entry })),
+        ...own(decisions).map((entry) => ({ kind: "decided" as const, ...entry })),
+      ].sort(byChainOrder);
+
+      return {
+        contributionId: event.id,
+        contributorHash: event.contributorHash,
+        submitter,
+        epoch,
+        epochPhase: await phaseOf(epoch),
+        submittedAt: event.timestamp,
+        review,
+        evidence: itemEvidence,
+        trail,
+      };
+    })
+  );
+  return items.reverse();
+}
+
+export function filterReviewQueue(items: ReviewItem[], filter: ReviewFilter, account?: string): ReviewItem[] {
+  const pending = (item: ReviewItem) => item.review.status === "pending" && item.epochPhase !== "settled";
+  switch (filter) {
+    case "awaiting":
+      return items.filter(pending);
+    case "assigned":
+      return items.filter(
+        (item) => pending(item) && !!account && item.review.reviewer?.toLowerCase() === account.toLowerCase()
+      );
+    case "decided":
+      return items.filter((item) => item.review.status !== "pending");
+    case "all":
+      return items;
+  }
+}
@@ -0,0 +1,91 @@
+// rewardPool.ts
+import type { RewardPoolDeposited, RoyaltiesClient } from "./royaltiesClient";
+
+export interface RewardPoolSummary {
+  // `totalRewardPool`: deposits minus payouts and withdrawals
+  balance: bigint;
+  // ETH actually held by the contract: `balance` plus the bonds of open disputes
+  contractBalance: bigint;
+  // Bonds of open disputes; refunded or added to the pool once each dispute is resolved
+  disputeBonds: bigint;
+  // ETH held beyond the pool and the open bonds; nonzero only if ETH was forced in
+  surplus: bigint;
+  deposited: bigint;
+  paidOut: bigint;
+  // Uncommitted funds of settled epochs the treasurers sent out of the contract
+  withdrawn: bigint;
+  // Payments of epochs whose committed total was revealed, claimed or not
+  committed: bigint;
+  // Committed payments that have not been paid out yet
+  unclaimed: bigint;
+  // Unpaid pool of epochs whose payments are still encrypted; all of it may be owed to contributors
+  undisclosed: bigint;
+  // Pool that no calculation can claim anymore; can be rolled over or withdrawn
+  uncommitted: bigint;
+  deposits: RewardPoolDeposited[];
+}
+
+/**
+ * Rebuilds the pool accounting from chain history. Individual payments stay
+ * encrypted, so commitments are only known per epoch, once the epoch's
+ * committed total was revealed; until then its whole unpaid pool counts as
+ * undisclosed. Open dispute bonds are held by the contract outside the pool.
+ */
+export async function loadRewardPoolSummary(client: RoyaltiesClient, fromBlock = 0): Promise<RewardPoolSummary> {
+  const provider = client.contract.runner?.provider;
+  if (!provider) {
+    throw new Error("Contract runner has no provider");
+  }
+
+  const [balance, contractBalance, current, disputeCount, deposits, payouts, withdrawals] = await Promise.all([
+    client.getTotalRewardPool(),
+    provider.getBalance(client.address),
+    client.getCurrentEpoch(),
+    client.getDisputeCount(),
+    client.queryRewardPoolDeposited(fromBlock),
+    client.queryRoyaltyPaid(fromBlock),
+    client.queryPoolWithdrawn(fromBlock),
+  ]);
+
+  const epochs: bigint[] = [];
+  for (let epoch = 0n; epoch <= current; epoch++) {
+    epochs.push(epoch);
+  }
+  const disputeIds: bigint[] = [];
+  for (let id = 1n; id <= disputeCount; id++) {
+    disputeIds.push(id);
+  }
+  const [totals, disputes] = await Promise.all([
+    Promise.all(epochs.map((epoch) => client.getEpochTotals(epoch))),
+    Promise.all(disputeIds.map((id) => client.getDispute(id))),
+  ]);
+
+  let committed = 0n;
+  let unclaimed = 0n;
+  let undisclosed = 0n;
+  for (const epoch of totals) {
+    if (epoch.committedRevealed) {
+      committed += epoch.committed;
+      unclaimed += epoch.committed - epoch.paid;
+    } else {
+      undisclosed += epoch.rewardPool - epoch.paid;
+    }
+  }
+
+  const sum = (values: bigint[]) => values.reduce((total, value) => total + value, 0n);
+  const disputeBonds = sum(disputes.map((dispute) => (dispute?.status === "open" ? dispute.bond : 0n)));
+  return {
+    balance,
+    contractBalance,
+    disputeBonds,
+    surplus: contractBalance - balance - disputeBonds,
+    deposited: sum(deposits.map((event) => event.amount)),
+    paidOut: sum(payouts.map((event) => event.amount)),
+    withdrawn: sum(withdrawals.map((event) => event.amount)),
+    committed,
+    unclaimed,
+    undisclosed,
+    uncommitted: balance - unclaimed - undisclosed,
+    deposits,
+  };
+}
@@ -0,0 +1,105 @@
+// roles.ts
+import { id } from "ethers";
+import type { BlockTag, RoleChanged, RoyaltiesClient } from "./royaltiesClient";
+
+export type Role = "admin" | "verifier" | "treasurer" | "contributor";
+
+export const ROLES: readonly Role[] = ["admin", "verifier", "treasurer", "contributor"];
+
+// The contract's role constants, keccak256 of their names
+export const ROLE_IDS: Record<Role, string> = {
+  admin: id("ADMIN_ROLE"),
+  verifier: id("VERIFIER_ROLE"),
+  treasurer: id("TREASURER_ROLE"),
+  contributor: id("CONTRIBUTOR_ROLE"),
+};
+
+// Actions gated by a role; claiming and revealing are bound to the contributor's own keys instead
+export type PermissionedAction =
+  | "submit"
+  | "review"
+  | "assignReviewers"
+  | "calculate"
+  | "rollOver"
+  | "approvePayouts"
+  | "setWeights"
+  | "setApprovalThreshold"
+  | "voteOnDisputes"
+  | "resolveDisputes"
+  | "manageRoles";
+
+// The role the contract checks for each action
+export const ACTION_ROLES: Record<PermissionedAction, Role> = {
+  submit: "contributor",
+  // Verifiers can also take unassigned reviews for themselves
+  review: "verifier",
+  assignReviewers: "admin",
+  calculate: "verifier",
+  rollOver: "treasurer",
+  // Payouts and pool withdrawals; treasurers also propose withdrawals
+  approvePayouts: "treasurer",
+  setWeights: "admin",
+  setApprovalThreshold: "admin",
+  // Opening a dispute is open to contributors as well, see `canOpenDispute` in disputes.ts
+  voteOnDisputes: "verifier",
+  resolveDisputes: "admin",
+  manageRoles: "admin",
+};
+
+export function roleOf(roleId: string): Role | null {
+  return ROLES.find((role) => ROLE_IDS[role] === roleId.toLowerCase()) ?? null;
+}
+
+export function can(roles: readonly Role[], action: PermissionedAction): boolean {
+  return roles.includes(ACTION_ROLES[action]);
+}
+
+// Roles `account` currently holds
+export async function loadAccountRoles(client: RoyaltiesClient, account: string): Promise<Role[]> {
+  const held = await Promise.all(ROLES.map((role) => client.hasRole(ROLE_IDS[role], account)));
+  return ROLES.filter((_, i) => held[i]);
+}
+
+export interface RoleMember {
+  account: string;
+  role: Role;
+  // Admin that granted the role, and when
+  grantedBy: string;
+  blockNumber: number;
+  transactionHash: string;
+}
+
+/**
+ * Current members of every role, replayed from the grant and revoke
+ * history. `fromBlock` has to reach back to the deployment, which granted
+ * the first admin.
+ */
+export async function loadRoleMembers(
+  client: RoyaltiesClient,
+  fromBlock?: BlockTag
+): Promise<Record<Role, RoleMember[]>> {
+  const members = new Map<string, RoleMember>();
+  const changes: RoleChanged[] = await client.queryRoleChanges(fromBlock);
+  for (const change of changes) {
+    const role = roleOf(change.role);
+    if (!role) continue;
+    const key = `${role}:${change.account.toLowerCase()}`;
+    if (change.granted) {
+      members.set(key, {
+        account: change.account,
+        role,
+        grantedBy: change.sender,
+        blockNumber: change.blockNumber,
+        transactionHash: change.transactionHash,
+      });
+    } else {
+      members.delete(key);
+    }
+  }
+
+  const byRole: Record<Role, RoleMember[]> = { admin: [], verifier: [], treasurer: [], contributor: [] };
+  for (const member of members.values()) {
+    byRole[member.role].push(member);
+  }
+  return byRole;
+}
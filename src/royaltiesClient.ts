@@ -0,0 +1,1321 @@
+// royaltiesClient.ts
+import { ZeroAddress, ZeroHash } from "ethers";
+import type {
+  BigNumberish,
+  BytesLike,
+  ContractRunner,
+  ContractTransactionReceipt,
+  ContractEventPayload,
+  ContractTransactionResponse,
+} from "ethers";
+import { AiRoyalties_FHE__factory } from "../types";
+import type { AiRoyalties_FHE } from "../types";
+import type { TypedContractEvent, TypedEventLog, TypedListener } from "../types/common";
+import type { ClaimProof } from "./contributorSecret";
+
+export interface EncryptedContribution {
+  id: bigint;
+  encryptedComputeHours: string;
+  encryptedDataQuality: string;
+  encryptedModelImpact: string;
+  timestamp: bigint;
+  contributorHash: string;
+  epoch: bigint;
+  encryptedScore: string;
+  modelId: string;
+  rulesetId: bigint;
+}
+
+export interface RoyaltyDistribution {
+  encryptedShare: string;
+  encryptedPaymentAmount: string;
+  isClaimed: boolean;
+  epoch: bigint;
+  contributionId: bigint;
+  // Unix seconds; claims wait until then while disputes can be opened
+  challengeEndsAt: bigint;
+  // Set when a dispute against the royalty was upheld
+  isVoided: boolean;
+}
+
+export type EpochPhase = "open" | "closing" | "settled";
+
+// Order of the contract's EpochPhase enum
+const EPOCH_PHASES: EpochPhase[] = ["open", "closing", "settled"];
+
+export type ReviewStatus = "pending" | "approved" | "rejected";
+
+// Order of the contract's ReviewStatus enum
+const REVIEW_STATUSES: ReviewStatus[] = ["pending", "approved", "rejected"];
+
+export interface Review {
+  status: ReviewStatus;
+  // Verifier assigned to the contribution, null until one is
+  reviewer: string | null;
+  evidenceCount: bigint;
+  // Zero while pending
+  decidedAt: bigint;
+}
+
+export type OperationKind = "payout" | "withdrawal";
+
+export type OperationStatus = "pending" | "executed" | "cancelled";
+
+// Order of the contract's OperationKind and OperationStatus enums
+const OPERATION_KINDS: OperationKind[] = ["payout", "withdrawal"];
+const OPERATION_STATUSES: OperationStatus[] = ["pending", "executed", "cancelled"];
+
+// A payout or pool withdrawal waiting for, or done after, treasurer approval
+export interface Operation {
+  id: bigint;
+  kind: OperationKind;
+  status: OperationStatus;
+  recipient: string;
+  amount: bigint;
+  // Epoch whose pool pays for the operation
+  epoch: bigint;
+  // Payouts only
+  contributorHash: string | null;
+  requestId: bigint | null;
+  // Everyone who approved, including accounts that have since lost the treasurer role
+  approvers: string[];
+  // Approvals that still count towards the threshold
+  approvals: bigint;
+}
+
+export type DisputeStatus = "open" | "upheld" | "dismissed";
+
+// Order of the contract's DisputeStatus enum
+const DISPUTE_STATUSES: DisputeStatus[] = ["open", "upheld", "dismissed"];
+
+export interface Dispute {
+  id: bigint;
+  contributionId: bigint;
+  challenger: string;
+  bond: bigint;
+  // keccak256 of the evidence, see `hashEvidence` in reviewQueue.ts
+  evidenceHash: string;
+  status: DisputeStatus;
+  openedAt: bigint;
+  upholdVotes: bigint;
+  dismissVotes: bigint;
+}
+
+// Applies to royalties calculated after the terms were set
+export interface DisputeTerms {
+  // Seconds after a calculation in which disputes can be opened
+  challengePeriod: bigint;
+  bond: bigint;
+  // Verifier votes on one side that resolve a dispute
+  quorum: bigint;
+}
+
+export interface EpochTotals {
+  rewardPool: bigint;
+  // Sum of the calculated payments; zero until `committedRevealed`
+  committed: bigint;
+  paid: bigint;
+  contributionCount: bigint;
+  encryptedScoreTotal: string;
+  // Zero until the first calculation of the epoch has been answered
+  scoreTotal: bigint;
+  encryptedCommitted: string;
+  // Unix seconds; the committed total can be revealed once every challenge period ended and no dispute is open
+  challengesEndAt: bigint;
+  openDisputes: bigint;
+  committedRevealed: boolean;
+  // Set with the first reveal request; calculations answered after it are rejected
+  revealRequested: boolean;
+}
+
+// The share and payment stay encrypted; only their contributor can decrypt them, see userDecryption.ts
+export interface DecryptedRoyalty {
+  // The oracle answered the calculation
+  isRevealed: boolean;
+  // Weight ruleset the share was computed with
+  rulesetId: bigint;
+}
+
+export interface RoyaltyWeights {
+  computeWeight: number;
+  qualityWeight: number;
+  impactWeight: number;
+}
+
+export interface WeightRuleset extends RoyaltyWeights {
+  id: bigint;
+  modelId: string;
+  createdAt: bigint;
+}
+
+export interface EventMeta {
+  blockNumber: number;
+  transactionHash: string;
+  logIndex: number;
+}
+
+export interface ContributionRecorded extends EventMeta {
+  id: bigint;
+  contributorHash: string;
+  timestamp: bigint;
+}
+
+export interface RoyaltyCalculationRequested extends EventMeta {
+  contributionId: bigint;
+  requestId: bigint;
+  verifier: string;
+}
+
+export interface RoyaltyDecrypted extends EventMeta {
+  contributionId: bigint;
+}
+
+export interface RewardPoolDeposited extends EventMeta {
+  sponsor: string;
+  epoch: bigint;
+  amount: bigint;
+}
+
+export interface EpochRolledOver extends EventMeta {
+  fromEpoch: bigint;
+  toEpoch: bigint;
+  amount: bigint;
+}
+
+export interface WeightRulesetCreated extends EventMeta, RoyaltyWeights {
+  rulesetId: bigint;
+  modelId: string;
+}
+
+export interface DecryptionFulfilled extends EventMeta {
+  requestId: bigint;
+}
+
+export interface RoyaltyClaimRequested extends EventMeta {
+  contributorHash: string;
+  requestId: bigint;
+  payoutAddress: string;
+  // Account that sent the claim; anyone holding the claim signature may relay it
+  submitter: string;
+}
+
+export interface RoyaltyPaid extends EventMeta {
+  requestId: bigint;
+  contributorHash: string;
+  payoutAddress: string;
+  amount: bigint;
+  // Account that executed the approved payout
+  executor: string;
+}
+
+export interface PayoutQueued extends EventMeta {
+  requestId: bigint;
+  operationId: bigint;
+  contributorHash: string;
+  payoutAddress: string;
+  amount: bigint;
+}
+
+export interface WithdrawalProposed extends EventMeta {
+  operationId: bigint;
+  epoch: bigint;
+  recipient: string;
+  amount: bigint;
+  proposer: string;
+}
+
+export interface OperationApproved extends EventMeta {
+  operationId: bigint;
+  treasurer: string;
+  // Approvals that counted right after this one
+  approvals: bigint;
+}
+
+export interface PoolWithdrawn extends EventMeta {
+  operationId: bigint;
+  epoch: bigint;
+  recipient: string;
+  amount: bigint;
+}
+
+export interface ReviewerAssigned extends EventMeta {
+  contributionId: bigint;
+  reviewer: string;
+  assignedBy: string;
+}
+
+export interface EvidenceAttached extends EventMeta {
+  contributionId: bigint;
+  // keccak256 of the evidence file, see `hashEvidence` in reviewQueue.ts
+  contentHash: string;
+  label: string;
+  attachedBy: string;
+}
+
+export interface ReviewDecided extends EventMeta {
+  contributionId: bigint;
+  reviewer: string;
+  approved: boolean;
+  reason: string;
+}
+
+export interface RoleChanged extends EventMeta {
+  role: string;
+  account: string;
+  // Admin that granted or revoked the role
+  sender: string;
+  granted: boolean;
+}
+
+export interface DisputeOpened extends EventMeta {
+  disputeId: bigint;
+  contributionId: bigint;
+  challenger: string;
+  evidenceHash: string;
+  bond: bigint;
+}
+
+export interface DisputeVoted extends EventMeta {
+  disputeId: bigint;
+  voter: string;
+  uphold: boolean;
+}
+
+export interface DisputeResolved extends EventMeta {
+  disputeId: bigint;
+  contributionId: bigint;
+  upheld: boolean;
+  // The admin, or the verifier whose vote reached the quorum
+  resolvedBy: string;
+}
+
+export interface CommittedRevealRequested extends EventMeta {
+  epoch: bigint;
+  requestId: bigint;
+  requester: string;
+}
+
+export interface CommittedRevealed extends EventMeta {
+  epoch: bigint;
+  // Sum of the epoch's calculated payments
+  committed: bigint;
+}
+
+export interface ApprovalThresholdChanged extends EventMeta {
+  threshold: bigint;
+  admin: string;
+}
+
+export interface OperationCancelled extends EventMeta {
+  operationId: bigint;
+  admin: string;
+}
+
+export interface DisputeTermsChanged extends EventMeta, DisputeTerms {
+  admin: string;
+}
+
+export interface EncryptedContributionInput {
+  computeHours: BytesLike;
+  dataQuality: BytesLike;
+  modelImpact: BytesLike;
+  inputProof: BytesLike;
+  contributorHash: BytesLike;
+  // Defaults to the contract's default weight profile
+  modelId?: BytesLike;
+}
+
+export type BlockTag = number | string;
+
+export const DEFAULT_PAYOUT_TIMEOUT_MS = 10 * 60_000;
+
+const meta = (log: TypedEventLog<TypedContractEvent>): EventMeta => ({
+  blockNumber: log.blockNumber,
+  transactionHash: log.transactionHash,
+  logIndex: log.index,
+});
+
+/**
+ * Typed wrapper around the AiRoyalties_FHE contract. Write methods wait for
+ * the transaction to be mined and return its receipt; event helpers return
+ * plain objects so callers do not depend on ethers log types.
+ */
+export class RoyaltiesClient {
+  readonly contract: AiRoyalties_FHE;
+
+  constructor(address: string, runner: ContractRunner) {
+    this.contract = AiRoyalties_FHE__factory.connect(address, runner);
+  }
+
+  get address(): string {
+    return this.contract.target as string;
+  }
+
+  connect(runner: ContractRunner): RoyaltiesClient {
+    return new RoyaltiesClient(this.address, runner);
+  }
+
+  private async send(tx: Promise<ContractTransactionResponse>): Promise<ContractTransactionReceipt> {
+    const response = await tx;
+    const receipt = await response.wait();
+    if (!receipt) {
+      throw new Error(`Transaction ${response.hash} was not mined`);
+    }
+    return receipt;
+  }
+
+  private findEvent(receipt: ContractTransactionReceipt, name: string) {
+    for (const log of receipt.logs) {
+      if (log.address.toLowerCase() !== this.address.toLowerCase()) continue;
+      const parsed = this.contract.interface.parseLog(log);
+      if (parsed?.name === name) return parsed;
+    }
+    throw new Error(`${name} event missing from ${receipt.hash}`);
+  }
+
+  // Operations
+
+  depositRewardPool(amount: BigNumberish): Promise<ContractTransactionReceipt> {
+    return this.send(this.contract.depositRewardPool({ value: amount }));
+  }
+
+  async submitEncryptedContribution(
+    input: EncryptedContributionInput
+  ): Promise<{ contributionId: bigint; receipt: ContractTransactionReceipt }> {
+    const receipt = await this.send(
+      this.contract.submitEncryptedContribution(
+        input.computeHours,
+        input.dataQuality,
+        input.modelImpact,
+        input.inputProof,
+        input.contributorHash,
+        input.modelId ?? ZeroHash
+      )
+    );
+    const event = this.findEvent(receipt, "ContributionRecorded");
+    return { contributionId: event.args.id as bigint, receipt };
+  }
+
+  // Only the current contributor may hand the contribution and its handles to `to`
+  transferContribution(contributionId: BigNumberish, to: string): Promise<ContractTransactionReceipt> {
+    return this.send(this.contract.transferContribution(contributionId, to));
+  }
+
+  assignReviewer(contributionId: BigNumberish, reviewer: string): Promise<ContractTransactionReceipt> {
+    return this.send(this.contract.assignReviewer(contributionId, reviewer));
+  }
+
+  attachEvidence(
+    contributionId: BigNumberish,
+    contentHash: BytesLike,
+    label: string
+  ): Promise<ContractTransactionReceipt> {
+    return this.send(this.contract.attachEvidence(contributionId, contentHash, label));
+  }
+
+  // Rejections need a reason; approvals may leave it empty
+  decideReview(contributionId: BigNumberish, approved: boolean, reason = ""): Promise<ContractTransactionReceipt> {
+    return this.send(this.contract.decideReview(contributionId, approved, reason));
+  }
+
+  async calculateRoyaltyShare(
+    contributionId: BigNumberish
+  ): Promise<{ requestId: bigint; receipt: ContractTransactionReceipt }> {
+    const receipt = await this.send(this.contract.calculateRoyaltyShare(contributionId));
+    const event = this.findEvent(receipt, "RoyaltyCalculationRequested");
+    return { requestId: event.args.requestId as bigint, receipt };
+  }
+
+  // `proof` comes from `createClaimProof` in contributorSecret.ts
+  async claimRoyalty(
+    contributorHash: BytesLike,
+    payoutAddress: string,
+    proof: ClaimProof
+  ): Promise<{ requestId: bigint; receipt: ContractTransactionReceipt }> {
+    const receipt = await this.send(
+      this.contract.claimRoyalty(contributorHash, payoutAddress, proof.claimer, proof.salt, proof.signature)
+    );
+    const event = this.findEvent(receipt, "RoyaltyClaimRequested");
+    return { requestId: event.args.requestId as bigint, receipt };
+  }
+
+  /**
+   * Resolves once the oracle callback for claim `requestId` has queued the
+   * payout for treasurer approval. A reverted callback leaves the claim open,
+   * so this rejects after `timeoutMs` and the contributor can claim again.
+   */
+  waitForPayoutQueued(
+    requestId: BigNumberish,
+    fromBlock: BlockTag,
+    timeoutMs = DEFAULT_PAYOUT_TIMEOUT_MS
+  ): Promise<PayoutQueued> {
+    const id = BigInt(requestId);
+    return this.waitForEvent(
+      (listener) => this.onPayoutQueued(listener),
+      () => this.queryPayoutQueued(fromBlock),
+      (event) => event.requestId === id,
+      `No payout queued for claim ${id}`,
+      timeoutMs
+    );
+  }
+
+  // Resolves once the treasurers have approved and executed the payout of claim `requestId`
+  waitForRoyaltyPaid(
+    requestId: BigNumberish,
+    fromBlock: BlockTag,
+    timeoutMs = DEFAULT_PAYOUT_TIMEOUT_MS
+  ): Promise<RoyaltyPaid> {
+    const id = BigInt(requestId);
+    return this.waitForEvent(
+      (listener) => this.onRoyaltyPaid(listener),
+      () => this.queryRoyaltyPaid(fromBlock),
+      (event) => event.requestId === id,
+      `No payout for claim ${id}`,
+      timeoutMs
+    );
+  }
+
+  private async waitForEvent<T>(
+    subscribe: (listener: (event: T) => void) => Promise<() => Promise<void>>,
+    history: () => Promise<T[]>,
+    matches: (event: T) => boolean,
+    failure: string,
+    timeoutMs: number
+  ): Promise<T> {
+    let onEvent!: (event: T) => void;
+    const received = new Promise<T>((resolve) => {
+      onEvent = resolve;
+    });
+    // Subscribe before reading history so an event landing in between is not missed
+    const unsubscribe = await subscribe((event) => {
+      if (matches(event)) onEvent(event);
+    });
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    try {
+      const past = (await history()).find(matches);
+      if (past) return past;
+      return await Promise.race([
+        received,
+        new Promise<never>((_, reject) => {
+          timer = setTimeout(
+            () => reject(new Error(`${failure} after ${Math.round(timeoutMs / 1000)}s`)),
+            timeoutMs
+          );
+        }),
+      ]);
+    } finally {
+      clearTimeout(timer);
+      await unsubscribe();
+    }
+  }
+
+  rollOver(epoch: BigNumberish): Promise<ContractTransactionReceipt> {
+    return this.send(this.contract.rollOver(epoch));
+  }
+
+  // `requestId` is null for an epoch without calculations, whose total is revealed as zero right away
+  async revealCommitted(
+    epoch: BigNumberish
+  ): Promise<{ requestId: bigint | null; receipt: ContractTransactionReceipt }> {
+    const receipt = await this.send(this.contract.revealCommitted(epoch));
+    const revealed = receipt.logs.some(
+      (log) => this.contract.interface.parseLog(log)?.name === "CommittedRevealed"
+    );
+    if (revealed) return { requestId: null, receipt };
+    const event = this.findEvent(receipt, "CommittedRevealRequested");
+    return { requestId: event.args.requestId as bigint, receipt };
+  }
+
+  async setWeightProfile(
+    modelId: BytesLike,
+    weights: RoyaltyWeights
+  ): Promise<{ rulesetId: bigint; receipt: ContractTransactionReceipt }> {
+    const receipt = await this.send(
+      this.contract.setWeightProfile(modelId, weights.computeWeight, weights.qualityWeight, weights.impactWeight)
+    );
+    const event = this.findEvent(receipt, "WeightRulesetCreated");
+    return { rulesetId: event.args.rulesetId as bigint, receipt };
+  }
+
+  // `role` is one of the contract's role ids, see ROLE_IDS in roles.ts
+  grantRole(role: BytesLike, account: string): Promise<ContractTransactionReceipt> {
+    return this.send(this.contract.grantRole(role, account));
+  }
+
+  revokeRole(role: BytesLike, account: string): Promise<ContractTransactionReceipt> {
+    return this.send(this.contract.revokeRole(role, account));
+  }
+
+  setDisputeTerms(terms: DisputeTerms): Promise<ContractTransactionReceipt> {
+    return this.send(this.contract.setDisputeTerms(terms.challengePeriod, terms.bond, terms.quorum));
+  }
+
+  // `bond` has to match the current dispute bond, see `getDisputeTerms`
+  async openDispute(
+    contributionId: BigNumberish,
+    evidenceHash: BytesLike,
+    bond: BigNumberish
+  ): Promise<{ disputeId: bigint; receipt: ContractTransactionReceipt }> {
+    const receipt = await this.send(this.contract.openDispute(contributionId, evidenceHash, { value: bond }));
+    const event = this.findEvent(receipt, "DisputeOpened");
+    return { disputeId: event.args.disputeId as bigint, receipt };
+  }
+
+  voteOnDispute(disputeId: BigNumberish, uphold: boolean): Promise<ContractTransactionReceipt> {
+    return this.send(this.contract.voteOnDispute(disputeId, uphold));
+  }
+
+  resolveDispute(disputeId: BigNumberish, uphold: boolean): Promise<ContractTransactionReceipt> {
+    return this.send(this.contract.resolveDispute(disputeId, uphold));
+  }
+
+  // Treasurer approvals a payout or withdrawal needs; at most the number of treasurers
+  setApprovalThreshold(threshold: BigNumberish): Promise<ContractTransactionReceipt> {
+    return this.send(this.contract.setApprovalThreshold(threshold));
+  }
+
+  // Counts as the proposing treasurer's approval
+  async proposeWithdrawal(
+    epoch: BigNumberish,
+    recipient: string,
+    amount: BigNumberish
+  ): Promise<{ operationId: bigint; receipt: ContractTransactionReceipt }> {
+    const receipt = await this.send(this.contract.proposeWithdrawal(epoch, recipient, amount));
+    const event = this.findEvent(receipt, "WithdrawalProposed");
+    return { operationId: event.args.operationId as bigint, receipt };
+  }
+
+  approveOperation(operationId: BigNumberish): Promise<ContractTransactionReceipt> {
+    return this.send(this.contract.approveOperation(operationId));
+  }
+
+  executeOperation(operationId: BigNumberish): Promise<ContractTransactionReceipt> {
+    return this.send(this.contract.executeOperation(operationId));
+  }
+
+  cancelOperation(operationId: BigNumberish): Promise<ContractTransactionReceipt> {
+    return this.send(this.contract.cancelOperation(operationId));
+  }
+
+  // Oracle callbacks, exposed for relayers and local tooling.
+
+  processRoyaltyCalculation(
+    requestId: BigNumberish,
+    cleartexts: BytesLike,
+    proof: BytesLike
+  ): Promise<ContractTransactionReceipt> {
+    return this.send(this.contract.processRoyaltyCalculation(requestId, cleartexts, proof));
+  }
+
+  processRoyaltyPayment(
+    requestId: BigNumberish,
+    cleartexts: BytesLike,
+    proof: BytesLike
+  ): Promise<ContractTransactionReceipt> {
+    return this.send(this.contract.processRoyaltyPayment(requestId, cleartexts, proof));
+  }
+
+  processCommittedReveal(
+    requestId: BigNumberish,
+    cleartexts: BytesLike,
+    proof: BytesLike
+  ): Promise<ContractTransactionReceipt> {
+    return this.send(this.contract.processCommittedReveal(requestId, cleartexts, proof));
+  }
+
+  // Views
+
+  getContributionCount(): Promise<bigint> {
+    return this.contract.contributionCount();
+  }
+
+  getTotalRewardPool(): Promise<bigint> {
+    return this.contract.totalRewardPool();
+  }
+
+  getCurrentEpoch(): Promise<bigint> {
+    return this.contract.currentEpoch();
+  }
+
+  getEpochDuration(): Promise<bigint> {
+    return this.contract.epochDuration();
+  }
+
+  getEpochStart(epoch: BigNumberish): Promise<bigint> {
+    return this.contract.epochStart(epoch);
+  }
+
+  async getEpochPhase(epoch: BigNumberish): Promise<EpochPhase> {
+    return EPOCH_PHASES[Number(await this.contract.epochPhase(epoch))];
+  }
+
+  async getEpochTotals(epoch: BigNumberish): Promise<EpochTotals> {
+    const e = await this.contract.epochs(epoch);
+    return {
+      rewardPool: e.rewardPool,
+      committed: e.committed,
+      paid: e.paid,
+      contributionCount: e.contributionCount,
+      encryptedScoreTotal: e.encryptedScoreTotal,
+      scoreTotal: e.scoreTotal,
+      encryptedCommitted: e.encryptedCommitted,
+      challengesEndAt: e.challengesEndAt,
+      openDisputes: e.openDisputes,
+      committedRevealed: e.committedRevealed,
+      revealRequested: e.revealRequested,
+    };
+  }
+
+  hasRole(role: BytesLike, account: string): Promise<boolean> {
+    return this.contract.hasRole(role, account);
+  }
+
+  getAdminCount(): Promise<bigint> {
+    return this.contract.adminCount();
+  }
+
+  getTreasurerCount(): Promise<bigint> {
+    return this.contract.treasurerCount();
+  }
+
+  getApprovalThreshold(): Promise<bigint> {
+    return this.contract.approvalThreshold();
+  }
+
+  getOperationCount(): Promise<bigint> {
+    return this.contract.operationCount();
+  }
+
+  async getOperation(operationId: BigNumberish): Promise<Operation | null> {
+    const [o, approvers, approvals] = await Promise.all([
+      this.contract.operations(operationId),
+      this.contract.approversOf(operationId),
+      this.contract.approvalCount(operationId),
+    ]);
+    if (o.recipient === ZeroAddress) return null;
+    const payout = OPERATION_KINDS[Number(o.kind)] === "payout";
+    return {
+      id: BigInt(operationId),
+      kind: OPERATION_KINDS[Number(o.kind)],
+      status: OPERATION_STATUSES[Number(o.status)],
+      recipient: o.recipient,
+      amount: o.amount,
+      epoch: o.epoch,
+      contributorHash: payout ? o.contributorHash : null,
+      requestId: payout ? o.requestId : null,
+      approvers: [...approvers],
+      approvals,
+    };
+  }
+
+  // The payout of `contributorHash` that waits for approval, if any
+  async getPendingPayout(contributorHash: BytesLike): Promise<Operation | null> {
+    const operationId = await this.contract.pendingPayouts(contributorHash);
+    return operationId === 0n ? null : this.getOperation(operationId);
+  }
+
+  hasApprovedOperation(operationId: BigNumberish, account: string): Promise<boolean> {
+    return this.contract.operationApprovals(operationId, account);
+  }
+
+  async getDisputeTerms(): Promise<DisputeTerms> {
+    const [challengePeriod, bond, quorum] = await Promise.all([
+      this.contract.challengePeriod(),
+      this.contract.disputeBond(),
+      this.contract.disputeQuorum(),
+    ]);
+    return { challengePeriod, bond, quorum };
+  }
+
+  getDisputeCount(): Promise<bigint> {
+    return this.contract.disputeCount();
+  }
+
+  async getDispute(disputeId: BigNumberish): Promise<Dispute | null> {
+    const d = await this.contract.disputes(disputeId);
+    if (d.challenger === ZeroAddress) return null;
+    return {
+      id: BigInt(disputeId),
+      contributionId: d.contributionId,
+      challenger: d.challenger,
+      bond: d.bond,
+      evidenceHash: d.evidenceHash,
+      status: DISPUTE_STATUSES[Number(d.status)],
+      openedAt: d.openedAt,
+      upholdVotes: d.upholdVotes,
+      dismissVotes: d.dismissVotes,
+    };
+  }
+
+  // The open dispute against the royalty of `contributionId`, if any
+  async getActiveDispute(contributionId: BigNumberish): Promise<Dispute | null> {
+    const disputeId = await this.contract.activeDisputes(contributionId);
+    return disputeId === 0n ? null : this.getDispute(disputeId);
+  }
+
+  hasVotedOnDispute(disputeId: BigNumberish, account: string): Promise<boolean> {
+    return this.contract.disputeVotes(disputeId, account);
+  }
+
+  async getWeightRuleset(rulesetId: BigNumberish): Promise<WeightRuleset | null> {
+    const r = await this.contract.weightRulesets(rulesetId);
+    if (r.createdAt === 0n) return null;
+    return {
+      id: BigInt(rulesetId),
+      modelId: r.modelId,
+      computeWeight: Number(r.computeWeight),
+      qualityWeight: Number(r.qualityWeight),
+      impactWeight: Number(r.impactWeight),
+      createdAt: r.createdAt,
+    };
+  }
+
+  // Falls back to the default profile for models without one of their own
+  async getActiveRuleset(modelId: BytesLike): Promise<WeightRuleset> {
+    const ruleset = await this.getWeightRuleset(await this.contract.rulesetFor(modelId));
+    if (!ruleset) {
+      throw new Error("No weight ruleset is active");
+    }
+    return ruleset;
+  }
+
+  getProtocolId(): Promise<bigint> {
+    return this.contract.protocolId();
+  }
+
+  async getContribution(contributionId: BigNumberish): Promise<EncryptedContribution | null> {
+    const c = await this.contract.contributions(contributionId);
+    if (c.id === 0n) return null;
+    return {
+      id: c.id,
+      encryptedComputeHours: c.encryptedComputeHours,
+      encryptedDataQuality: c.encryptedDataQuality,
+      encryptedModelImpact: c.encryptedModelImpact,
+      timestamp: c.timestamp,
+      contributorHash: c.contributorHash,
+      epoch: c.epoch,
+      encryptedScore: c.encryptedScore,
+      modelId: c.modelId,
+      rulesetId: c.rulesetId,
+    };
+  }
+
+  async getRoyaltyDistribution(contributorHash: BytesLike): Promise<RoyaltyDistribution> {
+    const d = await this.contract.royaltyDistributions(contributorHash);
+    return {
+      encryptedShare: d.encryptedShare,
+      encryptedPaymentAmount: d.encryptedPaymentAmount,
+      isClaimed: d.isClaimed,
+      epoch: d.epoch,
+      contributionId: d.contributionId,
+      challengeEndsAt: d.challengeEndsAt,
+      isVoided: d.isVoided,
+    };
+  }
+
+  async getReview(contributionId: BigNumberish): Promise<Review> {
+    const r = await this.contract.reviews(contributionId);
+    return {
+      status: REVIEW_STATUSES[Number(r.status)],
+      reviewer: r.reviewer === ZeroAddress ? null : r.reviewer,
+      evidenceCount: r.evidenceCount,
+      decidedAt: r.decidedAt,
+    };
+  }
+
+  getContributor(contributionId: BigNumberish): Promise<string> {
+    return this.contract.contributorOf(contributionId);
+  }
+
+  // Account that first submitted under `contributorHash`, the only one that may use it again
+  async getCommitmentOwner(contributorHash: BytesLike): Promise<string | null> {
+    const owner = await this.contract.commitmentOwners(contributorHash);
+    return owner === ZeroAddress ? null : owner;
+  }
+
+  async getDecryptedRoyalty(contributionId: BigNumberish): Promise<DecryptedRoyalty> {
+    const [isRevealed, rulesetId] = await this.contract.getDecryptedRoyalty(contributionId);
+    return { isRevealed, rulesetId };
+  }
+
+  // Event history
+
+  async queryContributionRecorded(fromBlock?: BlockTag, toBlock?: BlockTag): Promise<ContributionRecorded[]> {
+    const logs = await this.contract.queryFilter(this.contract.filters.ContributionRecorded(), fromBlock, toBlock);
+    return logs.map((log) => ({
+      ...meta(log),
+      id: log.args.id,
+      contributorHash: log.args.contributorHash,
+      timestamp: log.args.timestamp,
+    }));
+  }
+
+  async queryRoyaltyCalculationRequested(
+    fromBlock?: BlockTag,
+    toBlock?: BlockTag
+  ): Promise<RoyaltyCalculationRequested[]> {
+    const logs = await this.contract.queryFilter(
+      this.contract.filters.RoyaltyCalculationRequested(),
+      fromBlock,
+      toBlock
+    );
+    return logs.map((log) => ({
+      ...meta(log),
+      contributionId: log.args.contributionId,
+      requestId: log.args.requestId,
+      verifier: log.args.verifier,
+    }));
+  }
+
+  async queryRoyaltyDecrypted(fromBlock?: BlockTag, toBlock?: BlockTag): Promise<RoyaltyDecrypted[]> {
+    const logs = await this.contract.queryFilter(this.contract.filters.RoyaltyDecrypted(), fromBlock, toBlock);
+    return logs.map((log) => ({ ...meta(log), contributionId: log.args.contributionId }));
+  }
+
+  async queryRewardPoolDeposited(fromBlock?: BlockTag, toBlock?: BlockTag): Promise<RewardPoolDeposited[]> {
+    const logs = await this.contract.queryFilter(this.contract.filters.RewardPoolDeposited(), fromBlock, toBlock);
+    return logs.map((log) => ({
+      ...meta(log),
+      sponsor: log.args.sponsor,
+      epoch: log.args.epoch,
+      amount: log.args.amount,
+    }));
+  }
+
+  async queryEpochRolledOver(fromBlock?: BlockTag, toBlock?: BlockTag): Promise<EpochRolledOver[]> {
+    const logs = await this.contract.queryFilter(this.contract.filters.EpochRolledOver(), fromBlock, toBlock);
+    return logs.map((log) => ({
+      ...meta(log),
+      fromEpoch: log.args.fromEpoch,
+      toEpoch: log.args.toEpoch,
+      amount: log.args.amount,
+    }));
+  }
+
+  async queryRoyaltyClaimRequested(fromBlock?: BlockTag, toBlock?: BlockTag): Promise<RoyaltyClaimRequested[]> {
+    const logs = await this.contract.queryFilter(this.contract.filters.RoyaltyClaimRequested(), fromBlock, toBlock);
+    return logs.map((log) => ({
+      ...meta(log),
+      contributorHash: log.args.contributorHash,
+      requestId: log.args.requestId,
+      payoutAddress: log.args.payoutAddress,
+      submitter: log.args.submitter,
+    }));
+  }
+
+  async queryRoyaltyPaid(fromBlock?: BlockTag, toBlock?: BlockTag): Promise<RoyaltyPaid[]> {
+    const logs = await this.contract.queryFilter(this.contract.filters.RoyaltyPaid(), fromBlock, toBlock);
+    return logs.map((log) => ({
+      ...meta(log),
+      requestId: log.args.requestId,
+      contributorHash: log.args.contributorHash,
+      payoutAddress: log.args.payoutAddress,
+      amount: log.args.amount,
+      executor: log.args.executor,
+    }));
+  }
+
+  async queryPayoutQueued(fromBlock?: BlockTag, toBlock?: BlockTag): Promise<PayoutQueued[]> {
+    const logs = await this.contract.queryFilter(this.contract.filters.PayoutQueued(), fromBlock, toBlock);
+    return logs.map((log) => ({
+      ...meta(log),
+      requestId: log.args.requestId,
+      operationId: log.args.operationId,
+      contributorHash: log.args.contributorHash,
+      payoutAddress: log.args.payoutAddress,
+      amount: log.args.amount,
+    }));
+  }
+
+  async queryWithdrawalProposed(fromBlock?: BlockTag, toBlock?: BlockTag): Promise<WithdrawalProposed[]> {
+    const logs = await this.contract.queryFilter(this.contract.filters.WithdrawalProposed(), fromBlock, toBlock);
+    return logs.map((log) => ({
+      ...meta(log),
+      operationId: log.args.operationId,
+      epoch: log.args.epoch,
+      recipient: log.args.recipient,
+      amount: log.args.amount,
+      proposer: log.args.proposer,
+    }));
+  }
+
+  // `operationId` narrows the query to one operation
+  async queryOperationApproved(
+    operationId?: BigNumberish,
+    fromBlock?: BlockTag,
+    toBlock?: BlockTag
+  ): Promise<OperationApproved[]> {
+    const logs = await this.contract.queryFilter(
+      this.contract.filters.OperationApproved(operationId),
+      fromBlock,
+      toBlock
+    );
+    return logs.map((log) => ({
+      ...meta(log),
+      operationId: log.args.operationId,
+      treasurer: log.args.treasurer,
+      approvals: log.args.approvals,
+    }));
+  }
+
+  async queryPoolWithdrawn(fromBlock?: BlockTag, toBlock?: BlockTag): Promise<PoolWithdrawn[]> {
+    const logs = await this.contract.queryFilter(this.contract.filters.PoolWithdrawn(), fromBlock, toBlock);
+    return logs.map((log) => ({
+      ...meta(log),
+      operationId: log.args.operationId,
+      epoch: log.args.epoch,
+      recipient: log.args.recipient,
+      amount: log.args.amount,
+    }));
+  }
+
+  // `contributionId` narrows the dispute queries to one contribution, `disputeId` the votes to one dispute
+  async queryDisputeOpened(
+    contributionId?: BigNumberish,
+    fromBlock?: BlockTag,
+    toBlock?: BlockTag
+  ): Promise<DisputeOpened[]> {
+    const logs = await this.contract.queryFilter(
+      this.contract.filters.DisputeOpened(undefined, contributionId),
+      fromBlock,
+      toBlock
+    );
+    return logs.map((log) => ({
+      ...meta(log),
+      disputeId: log.args.disputeId,
+      contributionId: log.args.contributionId,
+      challenger: log.args.challenger,
+      evidenceHash: log.args.evidenceHash,
+      bond: log.args.bond,
+    }));
+  }
+
+  async queryDisputeVoted(disputeId?: BigNumberish, fromBlock?: BlockTag, toBlock?: BlockTag): Promise<DisputeVoted[]> {
+    const logs = await this.contract.queryFilter(this.contract.filters.DisputeVoted(disputeId), fromBlock, toBlock);
+    return logs.map((log) => ({
+      ...meta(log),
+      disputeId: log.args.disputeId,
+      voter: log.args.voter,
+      uphold: log.args.uphold,
+    }));
+  }
+
+  async queryDisputeResolved(
+    contributionId?: BigNumberish,
+    fromBlock?: BlockTag,
+    toBlock?: BlockTag
+  ): Promise<DisputeResolved[]> {
+    const logs = await this.contract.queryFilter(
+      this.contract.filters.DisputeResolved(undefined, contributionId),
+      fromBlock,
+      toBlock
+    );
+    return logs.map((log) => ({
+      ...meta(log),
+      disputeId: log.args.disputeId,
+      contributionId: log.args.contributionId,
+      upheld: log.args.upheld,
+      resolvedBy: log.args.resolvedBy,
+    }));
+  }
+
+  async queryWeightRulesetCreated(fromBlock?: BlockTag, toBlock?: BlockTag): Promise<WeightRulesetCreated[]> {
+    const logs = await this.contract.queryFilter(this.contract.filters.WeightRulesetCreated(), fromBlock, toBlock);
+    return logs.map((log) => ({
+      ...meta(log),
+      rulesetId: log.args.rulesetId,
+      modelId: log.args.modelId,
+      computeWeight: Number(log.args.computeWeight),
+      qualityWeight: Number(log.args.qualityWeight),
+      impactWeight: Number(log.args.impactWeight),
+    }));
+  }
+
+  // `contributionId` narrows each query to one contribution
+  async queryReviewerAssigned(
+    contributionId?: BigNumberish,
+    fromBlock?: BlockTag,
+    toBlock?: BlockTag
+  ): Promise<ReviewerAssigned[]> {
+    const logs = await this.contract.queryFilter(
+      this.contract.filters.ReviewerAssigned(contributionId),
+      fromBlock,
+      toBlock
+    );
+    return logs.map((log) => ({
+      ...meta(log),
+      contributionId: log.args.contributionId,
+      reviewer: log.args.reviewer,
+      assignedBy: log.args.assignedBy,
+    }));
+  }
+
+  async queryEvidenceAttached(
+    contributionId?: BigNumberish,
+    fromBlock?: BlockTag,
+    toBlock?: BlockTag
+  ): Promise<EvidenceAttached[]> {
+    const logs = await this.contract.queryFilter(
+      this.contract.filters.EvidenceAttached(contributionId),
+      fromBlock,
+      toBlock
+    );
+    return logs.map((log) => ({
+      ...meta(log),
+      contributionId: log.args.contributionId,
+      contentHash: log.args.contentHash,
+      label: log.args.label,
+      attachedBy: log.args.attachedBy,
+    }));
+  }
+
+  async queryReviewDecided(
+    contributionId?: BigNumberish,
+    fromBlock?: BlockTag,
+    toBlock?: BlockTag
+  ): Promise<ReviewDecided[]> {
+    const logs = await this.contract.queryFilter(
+      this.contract.filters.ReviewDecided(contributionId),
+      fromBlock,
+      toBlock
+    );
+    return logs.map((log) => ({
+      ...meta(log),
+      contributionId: log.args.contributionId,
+      reviewer: log.args.reviewer,
+      approved: log.args.approved,
+      reason: log.args.reason,
+    }));
+  }
+
+  // Grants and revokes in chain order
+  async queryRoleChanges(fromBlock?: BlockTag, toBlock?: BlockTag): Promise<RoleChanged[]> {
+    const [grants, revokes] = await Promise.all([
+      this.contract.queryFilter(this.contract.filters.RoleGranted(), fromBlock, toBlock),
+      this.contract.queryFilter(this.contract.filters.RoleRevoked(), fromBlock, toBlock),
+    ]);
+    const change = (log: (typeof grants)[number], granted: boolean): RoleChanged => ({
+      ...meta(log),
+      role: log.args.role,
+      account: log.args.account,
+      sender: log.args.sender,
+      granted,
+    });
+    const changes = [...grants.map((log) => change(log, true)), ...revokes.map((log) => change(log, false))];
+    return changes.sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex);
+  }
+
+  async queryDecryptionFulfilled(fromBlock?: BlockTag, toBlock?: BlockTag): Promise<DecryptionFulfilled[]> {
+    const logs = await this.contract.queryFilter(this.contract.filters.DecryptionFulfilled(), fromBlock, toBlock);
+    return logs.map((log) => ({ ...meta(log), requestId: log.args.requestID }));
+  }
+
+  // `epoch` narrows the reveal queries to one epoch
+  async queryCommittedRevealRequested(
+    epoch?: BigNumberish,
+    fromBlock?: BlockTag,
+    toBlock?: BlockTag
+  ): Promise<CommittedRevealRequested[]> {
+    const logs = await this.contract.queryFilter(
+      this.contract.filters.CommittedRevealRequested(epoch),
+      fromBlock,
+      toBlock
+    );
+    return logs.map((log) => ({
+      ...meta(log),
+      epoch: log.args.epoch,
+      requestId: log.args.requestId,
+      requester: log.args.requester,
+    }));
+  }
+
+  async queryCommittedRevealed(
+    epoch?: BigNumberish,
+    fromBlock?: BlockTag,
+    toBlock?: BlockTag
+  ): Promise<CommittedRevealed[]> {
+    const logs = await this.contract.queryFilter(this.contract.filters.CommittedRevealed(epoch), fromBlock, toBlock);
+    return logs.map((log) => ({ ...meta(log), epoch: log.args.epoch, committed: log.args.committed }));
+  }
+
+  async queryApprovalThresholdChanged(fromBlock?: BlockTag, toBlock?: BlockTag): Promise<ApprovalThresholdChanged[]> {
+    const logs = await this.contract.queryFilter(
+      this.contract.filters.ApprovalThresholdChanged(),
+      fromBlock,
+      toBlock
+    );
+    return logs.map((log) => ({ ...meta(log), threshold: log.args.threshold, admin: log.args.admin }));
+  }
+
+  // `operationId` narrows the query to one operation
+  async queryOperationCancelled(
+    operationId?: BigNumberish,
+    fromBlock?: BlockTag,
+    toBlock?: BlockTag
+  ): Promise<OperationCancelled[]> {
+    const logs = await this.contract.queryFilter(
+      this.contract.filters.OperationCancelled(operationId),
+      fromBlock,
+      toBlock
+    );
+    return logs.map((log) => ({ ...meta(log), operationId: log.args.operationId, admin: log.args.admin }));
+  }
+
+  async queryDisputeTermsChanged(fromBlock?: BlockTag, toBlock?: BlockTag): Promise<DisputeTermsChanged[]> {
+    const logs = await this.contract.queryFilter(this.contract.filters.DisputeTermsChanged(), fromBlock, toBlock);
+    return logs.map((log) => ({
+      ...meta(log),
+      challengePeriod: log.args.challengePeriod,
+      bond: log.args.bond,
+      quorum: log.args.quorum,
+      admin: log.args.admin,
+    }));
+  }
+
+  // Live subscriptions; each returns an unsubscribe function.
+
+  // ethers hands listeners a ContractEventPayload after the event arguments, not the log typechain declares
+  private async subscribe<E extends TypedContractEvent, T>(
+    event: E,
+    parse: (log: TypedEventLog<E>) => T,
+    listener: (event: T) => void
+  ): Promise<() => Promise<void>> {
+    const handler = (...args: unknown[]) => {
+      const payload = args[args.length - 1] as ContractEventPayload;
+      listener(parse(payload.log as unknown as TypedEventLog<E>));
+    };
+    await this.contract.on(event, handler as TypedListener<E>);
+    return async () => {
+      await this.contract.off(event, handler as TypedListener<E>);
+    };
+  }
+
+  onContributionRecorded(listener: (event: ContributionRecorded) => void): Promise<() => Promise<void>> {
+    return this.subscribe(
+      this.contract.filters.ContributionRecorded,
+      (log) => ({
+        ...meta(log),
+        id: log.args.id,
+        contributorHash: log.args.contributorHash,
+        timestamp: log.args.timestamp,
+      }),
+      listener
+    );
+  }
+
+  onRoyaltyCalculationRequested(
+    listener: (event: RoyaltyCalculationRequested) => void
+  ): Promise<() => Promise<void>> {
+    return this.subscribe(
+      this.contract.filters.RoyaltyCalculationRequested,
+      (log) => ({
+        ...meta(log),
+        contributionId: log.args.contributionId,
+        requestId: log.args.requestId,
+        verifier: log.args.verifier,
+      }),
+      listener
+    );
+  }
+
+  onRoyaltyDecrypted(listener: (event: RoyaltyDecrypted) => void): Promise<() => Promise<void>> {
+    return this.subscribe(
+      this.contract.filters.RoyaltyDecrypted,
+      (log) => ({ ...meta(log), contributionId: log.args.contributionId }),
+      listener
+    );
+  }
+
+  onRewardPoolDeposited(listener: (event: RewardPoolDeposited) => void): Promise<() => Promise<void>> {
+    return this.subscribe(
+      this.contract.filters.RewardPoolDeposited,
+      (log) => ({ ...meta(log), sponsor: log.args.sponsor, epoch: log.args.epoch, amount: log.args.amount }),
+      listener
+    );
+  }
+
+  onRoyaltyPaid(listener: (event: RoyaltyPaid) => void): Promise<() => Promise<void>> {
+    return this.subscribe(
+      this.contract.filters.RoyaltyPaid,
+      (log) => ({
+        ...meta(log),
+        requestId: log.args.requestId,
+        contributorHash: log.args.contributorHash,
+        payoutAddress: log.args.payoutAddress,
+        amount: log.args.amount,
+        executor: log.args.executor,
+      }),
+      listener
+    );
+  }
+
+  onPayoutQueued(listener: (event: PayoutQueued) => void): Promise<() => Promise<void>> {
+    return this.subscribe(
+      this.contract.filters.PayoutQueued,
+      (log) => ({
+        ...meta(log),
+        requestId: log.args.requestId,
+        operationId: log.args.operationId,
+        contributorHash: log.args.contributorHash,
+        payoutAddress: log.args.payoutAddress,
+        amount: log.args.amount,
+      }),
+      listener
+    );
+  }
+
+  onDecryptionFulfilled(listener: (event: DecryptionFulfilled) => void): Promise<() => Promise<void>> {
+    return this.subscribe(
+      this.contract.filters.DecryptionFulfilled,
+      (log) => ({ ...meta(log), requestId: log.args.requestID }),
+      listener
+    );
+  }
+
+  onCommittedRevealRequested(listener: (event: CommittedRevealRequested) => void): Promise<() => Promise<void>> {
+    return this.subscribe(
+      this.contract.filters.CommittedRevealRequested,
+      (log) => ({ ...meta(log), epoch: log.args.epoch, requestId: log.args.requestId, requester: log.args.requester }),
+      listener
+    );
+  }
+
+  onCommittedRevealed(listener: (event: CommittedRevealed) => void): Promise<() => Promise<void>> {
+    return this.subscribe(
+      this.contract.filters.CommittedRevealed,
+      (log) => ({ ...meta(log), epoch: log.args.epoch, committed: log.args.committed }),
+      listener
+    );
+  }
+
+  onApprovalThresholdChanged(listener: (event: ApprovalThresholdChanged) => void): Promise<() => Promise<void>> {
+    return this.subscribe(
+      this.contract.filters.ApprovalThresholdChanged,
+      (log) => ({ ...meta(log), threshold: log.args.threshold, admin: log.args.admin }),
+      listener
+    );
+  }
+
+  onOperationCancelled(listener: (event: OperationCancelled) => void): Promise<() => Promise<void>> {
+    return this.subscribe(
+      this.contract.filters.OperationCancelled,
+      (log) => ({ ...meta(log), operationId: log.args.operationId, admin: log.args.admin }),
+      listener
+    );
+  }
+
+  onDisputeTermsChanged(listener: (event: DisputeTermsChanged) => void): Promise<() => Promise<void>> {
+    return this.subscribe(
+      this.contract.filters.DisputeTermsChanged,
+      (log) => ({
+        ...meta(log),
+        challengePeriod: log.args.challengePeriod,
+        bond: log.args.bond,
+        quorum: log.args.quorum,
+        admin: log.args.admin,
+      }),
+      listener
+    );
+  }
+}
@@ -0,0 +1,200 @@
+// royaltySimulator.ts
+import type { RoyaltyWeights } from "./royaltiesClient";
+
+const UINT32_MODULUS = 1n << 32n;
+const UINT64_MODULUS = 1n << 64n;
+const UINT128_MODULUS = 1n << 128n;
+
+// Contract's constructor profile
+export const DEFAULT_WEIGHTS: RoyaltyWeights = { computeWeight: 40, qualityWeight: 35, impactWeight: 25 };
+
+export interface SimulatedContribution {
+  contributor: string;
+  computeHours: bigint;
+  dataQuality: bigint;
+  modelImpact: bigint;
+  // Scored with the default weights when missing or without a profile
+  model?: string;
+}
+
+export interface SimulationInput {
+  contributions: SimulatedContribution[];
+  // Wei
+  pool: bigint;
+  defaultWeights?: RoyaltyWeights;
+  weightsByModel?: Record<string, RoyaltyWeights>;
+}
+
+export interface SimulatedShare {
+  contributor: string;
+  model: string | null;
+  weights: RoyaltyWeights;
+  // Encrypted euint64 score as the contract would hold it
+  score: bigint;
+  // Basis points of the pool
+  share: bigint;
+  payment: bigint;
+  // False for contributions whose contributor was already calculated; the contract rejects them
+  calculated: boolean;
+  warnings: string[];
+}
+
+export interface SimulationResult {
+  pool: bigint;
+  scoreTotal: bigint;
+  allocated: bigint;
+  unallocated: bigint;
+  // Basis points of the pool allocated
+  utilization: bigint;
+  shares: SimulatedShare[];
+  warnings: string[];
+}
+
+/**
+ * Runs the contract's royalty formula off-chain: metrics are euint32 inputs,
+ * scores and the epoch total are euint64 and wrap on overflow like any FHE
+ * arithmetic. `processRoyaltyCalculation` divides by the decrypted total
+ * under FHE, so `score * 10000` wraps in euint64 before the share is cast to
+ * euint32, and `score * pool` wraps in euint128. Contributions are simulated
+ * as one epoch.
+ */
+export function simulateRoyalties(input: SimulationInput): SimulationResult {
+  const defaultWeights = input.defaultWeights ?? DEFAULT_WEIGHTS;
+  const warnings: string[] = [];
+  const seen = new Set<string>();
+
+  const scored = input.contributions.map((contribution) => {
+    const rowWarnings: string[] = [];
+    const metric = (name: string, value: bigint) => {
+      if (value < 0n || value >= UINT32_MODULUS) {
+        const truncated = BigInt.asUintN(32, value);
+        rowWarnings.push(`${name} ${value} does not fit in uint32 and is truncated to ${truncated}`);
+        return truncated;
+      }
+      return value;
+    };
+    const computeHours = metric("computeHours", contribution.computeHours);
+    const dataQuality = metric("dataQuality", contribution.dataQuality);
+    const modelImpact = metric("modelImpact", contribution.modelImpact);
+
+    const profile = contribution.model ? input.weightsByModel?.[contribution.model] : undefined;
+    const weights = profile ?? defaultWeights;
+    const exact =
+      computeHours * BigInt(weights.computeWeight) +
+      dataQuality * BigInt(weights.qualityWeight) +
+      modelImpact * BigInt(weights.impactWeight);
+    if (exact >= UINT64_MODULUS) {
+      rowWarnings.push(`Score ${exact} overflows euint64 and wraps`);
+    }
+
+    // Only the first calculation per contributor hash is accepted on-chain
+    const calculated = !seen.has(contribution.contributor);
+    seen.add(contribution.contributor);
+    if (!calculated) {
+      rowWarnings.push("Contributor already has a calculated royalty; this contribution only adds to the total");
+    }
+
+    return {
+      contributor: contribution.contributor,
+      model: contribution.model ?? null,
+      weights,
+      score: exact % UINT64_MODULUS,
+      calculated,
+      warnings: rowWarnings,
+    };
+  });
+
+  const exactTotal = scored.reduce((total, row) => total + row.score, 0n);
+  if (exactTotal >= UINT64_MODULUS) {
+    warnings.push(`Score total ${exactTotal} overflows euint64 and wraps; shares are no longer bounded by the pool`);
+  }
+  const scoreTotal = exactTotal % UINT64_MODULUS;
+  if (scoreTotal === 0n && scored.length > 0) {
+    warnings.push("Score total is zero; every share and payment is zero");
+  }
+
+  const shares: SimulatedShare[] = scored.map((row) => {
+    let share = 0n;
+    let payment = 0n;
+    if (row.calculated && scoreTotal > 0n) {
+      const exactShare = (row.score * 10000n) / scoreTotal;
+      share = (((row.score * 10000n) % UINT64_MODULUS) / scoreTotal) % UINT32_MODULUS;
+      if (share !== exactShare) {
+        row.warnings.push(`Share ${exactShare} overflows euint64 or euint32 and is computed as ${share}`);
+      }
+      const exactPayment = (input.pool * row.score) / scoreTotal;
+      payment = ((input.pool * row.score) % UINT128_MODULUS) / scoreTotal;
+      if (payment !== exactPayment) {
+        row.warnings.push(`Payment ${exactPayment} overflows euint128 and is computed as ${payment}`);
+      }
+    }
+    return { ...row, share, payment };
+  });
+
+  const allocated = shares.reduce((total, row) => total + row.payment, 0n);
+  if (allocated > input.pool) {
+    warnings.push(`Payments of ${allocated} wei exceed the pool of ${input.pool} wei; late claims will revert`);
+  }
+
+  return {
+    pool: input.pool,
+    scoreTotal,
+    allocated,
+    unallocated: input.pool - allocated,
+    utilization: input.pool > 0n ? (allocated * 10000n) / input.pool : 0n,
+    shares,
+    warnings,
+  };
+}
+
+const toBigInt = (value: unknown, field: string, row: number): bigint => {
+  if (typeof value === "bigint") return value;
+  if (typeof value === "number" && Number.isInteger(value)) return BigInt(value);
+  if (typeof value === "string" && /^-?\d+$/.test(value.trim())) return BigInt(value.trim());
+  throw new Error(`Row ${row}: ${field} must be an integer, got ${JSON.stringify(value)}`);
+};
+
+function toContribution(record: Record<string, unknown>, row: number): SimulatedContribution {
+  const contributor = record.contributor;
+  if (typeof contributor !== "string" || contributor === "") {
+    throw new Error(`Row ${row}: contributor is required`);
+  }
+  const model = typeof record.model === "string" && record.model !== "" ? record.model : undefined;
+  return {
+    contributor,
+    computeHours: toBigInt(record.computeHours, "computeHours", row),
+    dataQuality: toBigInt(record.dataQuality, "dataQuality", row),
+    modelImpact: toBigInt(record.modelImpact, "modelImpact", row),
+    model,
+  };
+}
+
+/**
+ * Reads contributions from a JSON array or from CSV with a header row naming
+ * `contributor`, `computeHours`, `dataQuality`, `modelImpact` and optionally
+ * `model`. Rows are numbered from 1, not counting the CSV header.
+ */
+export function parseContributions(text: string, format: "json" | "csv"): SimulatedContribution[] {
+  if (format === "json") {
+    const parsed = JSON.parse(text);
+    if (!Array.isArray(parsed)) {
+      throw new Error("Expected a JSON array of contributions");
+    }
+    return parsed.map((record, i) => toContribution(record, i + 1));
+  }
+
+  const lines = text
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter((line) => line !== "" && !line.startsWith("#"));
+  if (lines.length === 0) return [];
+  const header = lines[0].split(",").map((cell) => cell.trim());
+  return lines.slice(1).map((line, i) => {
+    const cells = line.split(",").map((cell) => cell.trim());
+    const record: Record<string, unknown> = {};
+    header.forEach((name, column) => {
+      record[name] = cells[column];
+    });
+    return toContribution(record, i + 1);
+  });
+}
@@ -0,0 +1,54 @@
+// treasury.ts
+import type { BytesLike } from "ethers";
+import type { Operation, RoyaltiesClient } from "./royaltiesClient";
+
+// Payouts and pool withdrawals need `threshold` of the `treasurers` current treasurers
+export interface ApprovalPolicy {
+  threshold: bigint;
+  treasurers: bigint;
+}
+
+export async function loadApprovalPolicy(client: RoyaltiesClient): Promise<ApprovalPolicy> {
+  const [threshold, treasurers] = await Promise.all([client.getApprovalThreshold(), client.getTreasurerCount()]);
+  return { threshold, treasurers };
+}
+
+export function isExecutable(operation: Operation, policy: ApprovalPolicy): boolean {
+  return operation.status === "pending" && operation.approvals >= policy.threshold;
+}
+
+export function hasApproved(operation: Operation, account: string): boolean {
+  return operation.approvers.some((approver) => approver.toLowerCase() === account.toLowerCase());
+}
+
+/**
+ * Every payout and withdrawal, newest first. Operations are numbered from
+ * one, so they are read by id rather than replayed from events.
+ */
+export async function loadOperations(client: RoyaltiesClient, pendingOnly = false): Promise<Operation[]> {
+  const count = await client.getOperationCount();
+  const ids: bigint[] = [];
+  for (let id = count; id > 0n; id--) {
+    ids.push(id);
+  }
+  const operations = (await Promise.all(ids.map((id) => client.getOperation(id)))).filter(
+    (operation): operation is Operation => operation !== null
+  );
+  return pendingOnly ? operations.filter((operation) => operation.status === "pending") : operations;
+}
+
+export interface PayoutApproval {
+  operation: Operation;
+  policy: ApprovalPolicy;
+  executable: boolean;
+}
+
+// The payout of `contributorHash` waiting for treasurers, or null when none is queued
+export async function loadPayoutApproval(
+  client: RoyaltiesClient,
+  contributorHash: BytesLike
+): Promise<PayoutApproval | null> {
+  const [operation, policy] = await Promise.all([client.getPendingPayout(contributorHash), loadApprovalPolicy(client)]);
+  if (!operation) return null;
+  return { operation, policy, executable: isExecutable(operation, policy) };
+}
@@ -0,0 +1,108 @@
+// userDecryption.ts
+import { ZeroHash } from "ethers";
+import type { Signer, TypedDataField } from "ethers";
+import type { RoyaltiesClient } from "./royaltiesClient";
+
+/**
+ * The part of a relayer SDK `FhevmInstance` needed for user decryption.
+ */
+export interface UserDecryptionSource {
+  generateKeypair(): { publicKey: string; privateKey: string };
+  createEIP712(
+    publicKey: string,
+    contractAddresses: string[],
+    startTimestamp: string | number,
+    durationDays: string | number
+  ): {
+    domain: { chainId: number; name: string; verifyingContract: string; version: string };
+    types: Record<string, TypedDataField[]>;
+    primaryType: string;
+    message: Record<string, unknown>;
+  };
+  userDecrypt(
+    handles: { handle: string; contractAddress: string }[],
+    privateKey: string,
+    publicKey: string,
+    signature: string,
+    contractAddresses: string[],
+    userAddress: string,
+    startTimestamp: string | number,
+    durationDays: string | number
+  ): Promise<Record<string, bigint | boolean | string>>;
+}
+
+export interface RevealedRoyalty {
+  share: bigint;
+  paymentAmount: bigint;
+}
+
+const DEFAULT_DURATION_DAYS = 1;
+
+/**
+ * Decrypts ciphertext handles for the signer only. A throwaway keypair is
+ * generated, the signer authorizes it with an EIP-712 signature, and the
+ * relayer re-encrypts the values under that key; nothing is published.
+ */
+export async function userDecryptHandles(
+  fhevm: UserDecryptionSource,
+  signer: Signer,
+  contractAddress: string,
+  handles: string[],
+  durationDays = DEFAULT_DURATION_DAYS
+): Promise<Record<string, bigint>> {
+  const userAddress = await signer.getAddress();
+  const { publicKey, privateKey } = fhevm.generateKeypair();
+  const startTimestamp = Math.floor(Date.now() / 1000);
+  const contractAddresses = [contractAddress];
+
+  const eip712 = fhevm.createEIP712(publicKey, contractAddresses, startTimestamp, durationDays);
+  // ethers derives the domain type itself and rejects an explicit EIP712Domain entry
+  const signature = await signer.signTypedData(
+    eip712.domain,
+    { [eip712.primaryType]: eip712.types[eip712.primaryType] },
+    eip712.message
+  );
+
+  const results = await fhevm.userDecrypt(
+    handles.map((handle) => ({ handle, contractAddress })),
+    privateKey,
+    publicKey,
+    signature.replace("0x", ""),
+    contractAddresses,
+    userAddress,
+    startTimestamp,
+    durationDays
+  );
+
+  const values: Record<string, bigint> = {};
+  for (const handle of handles) {
+    const value = results[handle];
+    if (value === undefined) {
+      throw new Error(`Relayer returned no value for handle ${handle}`);
+    }
+    values[handle] = BigInt(value);
+  }
+  return values;
+}
+
+// Reveals the share (basis points) and payment amount of a contributor to that contributor only
+export async function revealRoyaltyShare(
+  fhevm: UserDecryptionSource,
+  signer: Signer,
+  client: RoyaltiesClient,
+  contributorHash: string
+): Promise<RevealedRoyalty> {
+  const distribution = await client.getRoyaltyDistribution(contributorHash);
+  if (distribution.encryptedShare === ZeroHash) {
+    throw new Error("No royalty share has been calculated for this contribution yet");
+  }
+
+  const values = await userDecryptHandles(fhevm, signer, client.address, [
+    distribution.encryptedShare,
+    distribution.encryptedPaymentAmount,
+  ]);
+  return {
+    share: values[distribution.encryptedShare],
+    paymentAmount: values[distribution.encryptedPaymentAmount],
+  };
+}
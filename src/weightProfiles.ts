@@ -0,0 +1,101 @@
+// weightProfiles.ts
+import { ZeroHash, id } from "ethers";
+import type { RoyaltiesClient, RoyaltyWeights, WeightRuleset } from "./royaltiesClient";
+
+// Contract's DEFAULT_MODEL; models without a profile of their own are scored with it
+export const DEFAULT_MODEL_ID = ZeroHash;
+
+// Models offered when submitting a contribution
+export const KNOWN_MODELS = ["Bittensor", "GPT-4", "LLaMA", "Stable Diffusion", "Custom"];
+
+export function modelIdFor(model: string): string {
+  return id(model);
+}
+
+export interface RulesetHistoryEntry extends WeightRuleset {
+  blockNumber: number;
+  transactionHash: string;
+  // Contributions whose calculated share was produced by this ruleset
+  calculatedContributionIds: bigint[];
+}
+
+export interface WeightProfile {
+  // null for the default profile
+  model: string | null;
+  modelId: string;
+  active: WeightRuleset;
+  // True while the model has no profile of its own and uses the default one
+  inherited: boolean;
+  // Every ruleset created for the model, oldest first
+  history: RulesetHistoryEntry[];
+}
+
+// Returns an error message, or null when the contract would accept the weights
+export function validateWeights(weights: RoyaltyWeights): string | null {
+  const values = [weights.computeWeight, weights.qualityWeight, weights.impactWeight];
+  if (values.some((value) => !Number.isInteger(value) || value < 0)) {
+    return "Weights must be whole, non-negative numbers";
+  }
+  const total = values.reduce((sum, value) => sum + value, 0);
+  if (total !== 100) {
+    return `Weights must sum to 100, not ${total}`;
+  }
+  return null;
+}
+
+/**
+ * Loads the default profile followed by one profile per model, together with
+ * the rulesets each of them went through and the shares those produced.
+ */
+export async function loadWeightProfiles(
+  client: RoyaltiesClient,
+  models: string[] = KNOWN_MODELS,
+  fromBlock = 0
+): Promise<WeightProfile[]> {
+  const [created, decrypted] = await Promise.all([
+    client.queryWeightRulesetCreated(fromBlock),
+    client.queryRoyaltyDecrypted(fromBlock),
+  ]);
+
+  const calculatedIds = Array.from(new Set(decrypted.map((event) => event.contributionId)));
+  const royalties = await Promise.all(
+    calculatedIds.map((contributionId) => client.getDecryptedRoyalty(contributionId))
+  );
+  const contributionsByRuleset = new Map<bigint, bigint[]>();
+  calculatedIds.forEach((contributionId, i) => {
+    const { rulesetId } = royalties[i];
+    contributionsByRuleset.set(rulesetId, [...(contributionsByRuleset.get(rulesetId) ?? []), contributionId]);
+  });
+
+  const rulesets = await Promise.all(created.map((event) => client.getWeightRuleset(event.rulesetId)));
+  const history = new Map<string, RulesetHistoryEntry[]>();
+  created.forEach((event, i) => {
+    const ruleset = rulesets[i];
+    if (!ruleset) return;
+    const entries = history.get(event.modelId) ?? [];
+    entries.push({
+      ...ruleset,
+      blockNumber: event.blockNumber,
+      transactionHash: event.transactionHash,
+      calculatedContributionIds: contributionsByRuleset.get(event.rulesetId) ?? [],
+    });
+    history.set(event.modelId, entries);
+  });
+
+  const profiles: { model: string | null; modelId: string }[] = [
+    { model: null, modelId: DEFAULT_MODEL_ID },
+    ...models.map((model) => ({ model, modelId: modelIdFor(model) })),
+  ];
+  return Promise.all(
+    profiles.map(async ({ model, modelId }) => {
+      const active = await client.getActiveRuleset(modelId);
+      return {
+        model,
+        modelId,
+        active,
+        inherited: active.modelId !== modelId,
+        history: history.get(modelId) ?? [],
+      };
+    })
+  );
+}
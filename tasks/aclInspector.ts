@@ -0,0 +1,69 @@
+// aclInspector.ts
+import { readFileSync } from "fs";
+import { join } from "path";
+import { task, types } from "hardhat/config";
+
+interface InspectArgs {
+  contribution: number;
+  contract?: string;
+  acl?: string;
+  oracle?: string;
+  admin?: string;
+}
+
+// Written by the deploy script next to the frontend sources
+const FRONTEND_CONFIG = join(__dirname, "..", "frontend", "web", "src", "config.json");
+
+task("acl-inspect", "Lists who the FHEVM ACL lets read each ciphertext handle of a contribution")
+  .addParam("contribution", "Contribution id", undefined, types.int)
+  .addOptionalParam("contract", "AiRoyalties_FHE address; defaults to the frontend config", undefined, types.string)
+  .addOptionalParam("acl", "ACL address; read from the mock FHEVM on local networks", undefined, types.string)
+  .addOptionalParam("oracle", "Decryption oracle address, shown for reference", undefined, types.string)
+  .addOptionalParam("admin", "Admin account to check; defaults to the first current admin", undefined, types.string)
+  .setAction(async (args: InspectArgs, hre) => {
+    // Loaded lazily so hardhat can start before typechain has generated ../types
+    const { IACL__factory } = await import("../types");
+    const { RoyaltiesClient } = await import("../src/royaltiesClient");
+    const { inspectContributionAcl } = await import("../src/aclInspector");
+
+    let aclAddress = args.acl;
+    let oracle = args.oracle;
+    if (!aclAddress && (hre.network.name === "hardhat" || hre.network.name === "localhost")) {
+      const { MockFhevm } = await import("../src/mockFhevm");
+      const mock = await MockFhevm.create(hre);
+      aclAddress = mock.addresses.acl;
+      oracle = oracle ?? mock.addresses.decryptionOracle;
+    }
+    if (!aclAddress) {
+      throw new Error(`Pass --acl with the ACL address of ${hre.network.name}`);
+    }
+    const contractAddress = args.contract ?? JSON.parse(readFileSync(FRONTEND_CONFIG, "utf8")).royaltiesContractAddress;
+    if (!contractAddress) {
+      throw new Error("Pass --contract or deploy the royalties contract first");
+    }
+
+    const provider = hre.ethers.provider;
+    const report = await inspectContributionAcl(
+      new RoyaltiesClient(contractAddress, provider),
+      IACL__factory.connect(aclAddress, provider),
+      args.contribution,
+      { oracle, admin: args.admin }
+    );
+
+    console.log(`Contribution ${report.contributionId} (${report.contributorHash})`);
+    for (const principal of report.principals) {
+      console.log(`  ${principal.role.padEnd(12)} ${principal.address ?? "unknown"}`);
+    }
+    console.table(
+      report.handles.map((handle) => ({
+        field: handle.name,
+        handle: handle.isSet ? handle.handle : "not set",
+        ...Object.fromEntries(handle.access.map((entry) => [entry.role, entry.allowed ? "yes" : "no"])),
+      }))
+    );
+
+    const undecryptable = report.handles.filter((handle) => handle.undecryptable);
+    for (const handle of undecryptable) {
+      console.warn(`Warning: nobody can decrypt ${handle.name} (${handle.handle})`);
+    }
+  });
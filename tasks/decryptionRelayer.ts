@@ -0,0 +1,37 @@
+// decryptionRelayer.ts
+import { task, types } from "hardhat/config";
+
+task("decryption-relayer", "Answers FHE decryption requests on a local hardhat node")
+  .addOptionalParam("interval", "Polling interval in milliseconds", 1_000, types.int)
+  .addOptionalParam("from", "First block to scan for requests", 0, types.int)
+  .setAction(async ({ interval, from }: { interval: number; from: number }, hre) => {
+    if (hre.network.name === "hardhat") {
+      throw new Error("Start `npx hardhat node` and run this task with --network localhost");
+    }
+
+    // Loaded lazily so hardhat can start before typechain has generated ../types
+    const { MockFhevm } = await import("../src/mockFhevm");
+    const { LocalDecryptionRelayer } = await import("../src/localDecryptionRelayer");
+
+    const mock = await MockFhevm.create(hre);
+    const relayer = new LocalDecryptionRelayer(mock, { fromBlock: from, pollIntervalMs: interval });
+    relayer.subscribe((relayed) => {
+      if (relayed.gaveUp) {
+        console.error(
+          `Giving up on request ${relayed.requestId} to ${relayed.contractAddress} ` +
+            `after ${relayed.attempts} attempts: ${relayed.error}`
+        );
+      } else if (relayed.error) {
+        console.error(`Request ${relayed.requestId} to ${relayed.contractAddress} failed: ${relayed.error}`);
+      } else {
+        console.log(
+          `Request ${relayed.requestId} to ${relayed.contractAddress} answered in ${relayed.callbackTransactionHash}`
+        );
+      }
+    });
+
+    console.log(`Relaying decryptions from oracle ${mock.addresses.decryptionOracle} on ${hre.network.name}`);
+    const stop = relayer.start();
+    await new Promise<void>((resolve) => process.once("SIGINT", resolve));
+    stop();
+  });
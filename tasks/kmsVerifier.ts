@@ -0,0 +1,66 @@
+// kmsVerifier.ts
+import { readFileSync } from "fs";
+import { join } from "path";
+import { task, types } from "hardhat/config";
+
+interface VerifyArgs {
+  tx: string;
+  contract?: string;
+  kms?: string;
+  json: boolean;
+}
+
+// Written by the deploy script next to the frontend sources
+const FRONTEND_CONFIG = join(__dirname, "..", "frontend", "web", "src", "config.json");
+
+task("verify-decryption", "Checks the KMS signatures of a RoyaltyDecrypted callback against the KMS signer set")
+  .addParam("tx", "Hash of the processRoyaltyCalculation transaction")
+  .addOptionalParam("contract", "AiRoyalties_FHE address; defaults to the frontend config", undefined, types.string)
+  .addOptionalParam("kms", "KMSVerifier address; read from the mock FHEVM on local networks", undefined, types.string)
+  .addFlag("json", "Print the audit report as JSON")
+  .setAction(async (args: VerifyArgs, hre) => {
+    const { RoyaltiesClient } = await import("../src/royaltiesClient");
+    const { auditRoyaltyDecryption } = await import("../src/kmsVerifier");
+
+    let kmsAddress = args.kms;
+    if (!kmsAddress && (hre.network.name === "hardhat" || hre.network.name === "localhost")) {
+      const { MockFhevm } = await import("../src/mockFhevm");
+      kmsAddress = (await MockFhevm.create(hre)).addresses.kmsVerifier;
+    }
+    if (!kmsAddress) {
+      throw new Error(`Pass --kms with the KMSVerifier address of ${hre.network.name}`);
+    }
+    const contractAddress = args.contract ?? JSON.parse(readFileSync(FRONTEND_CONFIG, "utf8")).royaltiesContractAddress;
+    if (!contractAddress) {
+      throw new Error("Pass --contract or deploy the royalties contract first");
+    }
+
+    const audit = await auditRoyaltyDecryption(
+      new RoyaltiesClient(contractAddress, hre.ethers.provider),
+      args.tx,
+      kmsAddress
+    );
+
+    if (args.json) {
+      console.log(JSON.stringify(audit, (_, value) => (typeof value === "bigint" ? value.toString() : value), 2));
+    } else {
+      console.log(`Contribution ${audit.contributionId}, request ${audit.requestId} (block ${audit.blockNumber})`);
+      console.log(`  score total ${audit.scoreTotal} of epoch ${audit.epoch}`);
+      console.log(`  KMSVerifier ${audit.kms.address}, threshold ${audit.kms.threshold} of ${audit.kms.signers.length}`);
+      console.log(`  digest ${audit.digest}`);
+      console.table(
+        audit.signatures.map((check) => ({
+          signer: check.signer ?? "unrecoverable",
+          trusted: check.trusted ? "yes" : "no",
+          duplicate: check.duplicate ? "yes" : "",
+        }))
+      );
+      for (const issue of audit.issues) {
+        console.warn(`Issue: ${issue}`);
+      }
+      console.log(audit.passed ? "PASS" : "FAIL");
+    }
+    if (!audit.passed) {
+      process.exitCode = 1;
+    }
+  });
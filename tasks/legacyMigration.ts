@@ -0,0 +1,113 @@
+// legacyMigration.ts
+import { existsSync, readFileSync, renameSync, writeFileSync } from "fs";
+import { join } from "path";
+import { task, types } from "hardhat/config";
+import type { MigrationMap } from "../src/legacyMigration";
+
+interface MigrateArgs {
+  map: string;
+  adapter?: string;
+  royalties?: string;
+  metrics?: string;
+  fromBlock?: number;
+  royaltiesFromBlock?: number;
+  dryRun: boolean;
+  updateRecords: boolean;
+}
+
+// Written by the deploy script next to the frontend sources
+const FRONTEND_CONFIG = join(__dirname, "..", "frontend", "web", "src", "config.json");
+
+// Written through a temporary file so an interrupted run never leaves a truncated mapping behind
+function saveMap(path: string, map: MigrationMap) {
+  writeFileSync(`${path}.tmp`, JSON.stringify(map, null, 2));
+  renameSync(`${path}.tmp`, path);
+}
+
+task("migrate-legacy", "Moves UniversalAdapter contribution records onto AiRoyalties_FHE")
+  .addParam("map", "Mapping file of legacy ids to new contribution ids; resumed from when it exists")
+  .addOptionalParam("adapter", "UniversalAdapter address; defaults to the frontend config", undefined, types.string)
+  .addOptionalParam("royalties", "AiRoyalties_FHE address; defaults to the frontend config", undefined, types.string)
+  .addOptionalParam(
+    "metrics",
+    "JSON file of { computeHours, dataQuality, modelImpact } by legacy id, for records without metrics",
+    undefined,
+    types.string
+  )
+  .addOptionalParam("fromBlock", "First UniversalAdapter block to scan", undefined, types.int)
+  .addOptionalParam("royaltiesFromBlock", "First AiRoyalties_FHE block to scan", undefined, types.int)
+  .addFlag("dryRun", "Report what would be migrated without sending transactions")
+  .addFlag("updateRecords", "Write the new contribution id back into each UniversalAdapter record")
+  .setAction(async (args: MigrateArgs, hre) => {
+    // Loaded lazily so hardhat can start before typechain has generated ../types; UniversalAdapter has
+    // no source in this repository, so it is not in the index typechain regenerates on compile
+    const { UniversalAdapter__factory } = await import("../types/factories/contracts/UniversalAdapter__factory");
+    const { RoyaltiesClient } = await import("../src/royaltiesClient");
+    const { emptyMigrationMap, migrateLegacyContributions } = await import("../src/legacyMigration");
+
+    const config = existsSync(FRONTEND_CONFIG) ? JSON.parse(readFileSync(FRONTEND_CONFIG, "utf8")) : {};
+    const adapterAddress = args.adapter ?? config.contractAddress;
+    const royaltiesAddress = args.royalties ?? config.royaltiesContractAddress;
+    if (!adapterAddress || !royaltiesAddress) {
+      throw new Error("Pass --adapter and --royalties or fill in the frontend config");
+    }
+
+    const [signer] = await hre.ethers.getSigners();
+    const { chainId } = await hre.ethers.provider.getNetwork();
+    let map = emptyMigrationMap(adapterAddress, royaltiesAddress, chainId);
+    if (existsSync(args.map)) {
+      map = JSON.parse(readFileSync(args.map, "utf8"));
+      if (
+        map.adapter.toLowerCase() !== adapterAddress.toLowerCase() ||
+        map.royalties.toLowerCase() !== royaltiesAddress.toLowerCase() ||
+        map.chainId !== chainId.toString()
+      ) {
+        throw new Error(`${args.map} belongs to another migration (${map.adapter} → ${map.royalties})`);
+      }
+      console.log(`Resuming from ${args.map} (${Object.keys(map.entries).length} records)`);
+    }
+
+    // `hardhat test` sets the plugin up itself; other networks have to ask for it
+    if (!args.dryRun && hre.network.name !== "hardhat") {
+      await hre.fhevm.initializeCLIApi();
+    }
+
+    const report = await migrateLegacyContributions(
+      UniversalAdapter__factory.connect(adapterAddress, signer),
+      new RoyaltiesClient(royaltiesAddress, signer),
+      hre.fhevm,
+      map,
+      {
+        dryRun: args.dryRun,
+        fromBlock: args.fromBlock,
+        royaltiesFromBlock: args.royaltiesFromBlock,
+        metrics: args.metrics ? JSON.parse(readFileSync(args.metrics, "utf8")) : undefined,
+        updateRecords: args.updateRecords,
+        onEntry: (entry, current) => {
+          saveMap(args.map, current);
+          const target = entry.contributionId ? ` → ${entry.contributionId}` : "";
+          console.log(`${entry.legacyId}: ${entry.status}${target}${entry.reason ? ` (${entry.reason})` : ""}`);
+        },
+      }
+    );
+
+    if (args.dryRun) {
+      console.table(
+        report.entries.map((entry) => ({
+          legacyId: entry.legacyId,
+          status: entry.status,
+          contributionId: entry.contributionId ?? "",
+          reason: entry.reason ?? "",
+        }))
+      );
+    }
+    const { migrated, existing, skipped, failed, planned } = report.counts;
+    console.log(
+      `Migrated ${migrated}, already on AiRoyalties_FHE ${existing}, skipped ${skipped}, failed ${failed}` +
+        (args.dryRun ? `, to migrate ${planned}` : "")
+    );
+    if (failed > 0) {
+      console.warn(`Run the task again with --map ${args.map} to retry the failed records`);
+      process.exitCode = 1;
+    }
+  });
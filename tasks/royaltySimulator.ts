@@ -0,0 +1,76 @@
+// royaltySimulator.ts
+import { readFileSync } from "fs";
+import { extname } from "path";
+import { task, types } from "hardhat/config";
+import type { RoyaltyWeights } from "../src/royaltiesClient";
+import { DEFAULT_WEIGHTS, parseContributions, simulateRoyalties } from "../src/royaltySimulator";
+import { validateWeights } from "../src/weightProfiles";
+
+interface SimulateArgs {
+  input: string;
+  pool: string;
+  weights?: string;
+  format?: string;
+  json: boolean;
+}
+
+task("simulate-royalties", "Runs the royalty formula off-chain over a file of contributions")
+  .addParam("input", "JSON or CSV file of contributions (contributor, computeHours, dataQuality, modelImpact, model)")
+  .addParam("pool", "Reward pool of the epoch in ETH")
+  .addOptionalParam(
+    "weights",
+    'JSON file of weight profiles by model name; "default" replaces the 40/35/25 profile',
+    undefined,
+    types.string
+  )
+  .addOptionalParam("format", "json or csv; taken from the file extension by default", undefined, types.string)
+  .addFlag("json", "Print the result as JSON")
+  .setAction(async (args: SimulateArgs, hre) => {
+    const format = (args.format ?? extname(args.input).slice(1)).toLowerCase();
+    if (format !== "json" && format !== "csv") {
+      throw new Error(`Cannot tell the format of ${args.input}; pass --format json or --format csv`);
+    }
+    const contributions = parseContributions(readFileSync(args.input, "utf8"), format);
+
+    const profiles: Record<string, RoyaltyWeights> = args.weights ? JSON.parse(readFileSync(args.weights, "utf8")) : {};
+    for (const [model, weights] of Object.entries(profiles)) {
+      const invalid = validateWeights(weights);
+      if (invalid) {
+        // The contract would refuse the profile, so the simulation would not match anything deployable
+        throw new Error(`Weights for ${model}: ${invalid}`);
+      }
+    }
+    const { default: defaultWeights = DEFAULT_WEIGHTS, ...weightsByModel } = profiles;
+
+    const result = simulateRoyalties({
+      contributions,
+      pool: hre.ethers.parseEther(args.pool),
+      defaultWeights,
+      weightsByModel,
+    });
+
+    if (args.json) {
+      console.log(JSON.stringify(result, (_, value) => (typeof value === "bigint" ? value.toString() : value), 2));
+      return;
+    }
+
+    const percent = (basisPoints: bigint) => `${(Number(basisPoints) / 100).toFixed(2)}%`;
+    console.table(
+      result.shares.map((share) => ({
+        contributor: share.contributor,
+        model: share.model ?? "default",
+        weights: `${share.weights.computeWeight}/${share.weights.qualityWeight}/${share.weights.impactWeight}`,
+        score: share.score.toString(),
+        share: percent(share.share),
+        payment: hre.ethers.formatEther(share.payment),
+        warnings: share.warnings.join("; "),
+      }))
+    );
+    console.log(`Score total:  ${result.scoreTotal}`);
+    console.log(`Allocated:    ${hre.ethers.formatEther(result.allocated)} ETH of ${args.pool} ETH`);
+    console.log(`Unallocated:  ${hre.ethers.formatEther(result.unallocated)} ETH`);
+    console.log(`Utilization:  ${percent(result.utilization)}`);
+    for (const warning of result.warnings) {
+      console.warn(`Warning: ${warning}`);
+    }
+  });
@@ -0,0 +1,1790 @@
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { takeSnapshot, time } from "@nomicfoundation/hardhat-network-helpers";
+import { expect } from "chai";
+import hre, { ethers } from "hardhat";
+import { createServer } from "http";
+import type { AddressInfo } from "net";
+import { inspectContributionAcl } from "../src/aclInspector";
+import { readDataBatch, readDataPage, streamDataPages } from "../src/batchReader";
+import type { DataPage, PageOptions } from "../src/batchReader";
+import {
+  createClaimProof,
+  deriveCommitment,
+  exportSecret,
+  importSecret,
+  migratedCommitment,
+} from "../src/contributorSecret";
+import { LEGACY_KEYS_KEY, syncContributionIndex } from "../src/contributionIndex";
+import {
+  availableActions,
+  chainState,
+  deriveState,
+  loadContributionEvents,
+  loadContributionFacts,
+  loadContributionHistory,
+} from "../src/contributionLifecycle";
+import { encryptContributionMetrics } from "../src/encryption";
+import type { ContributionMetrics } from "../src/encryption";
+import { DEFAULT_DECRYPTION_TIMEOUT_MS, DecryptionTracker, memoryStore } from "../src/decryptionTracker";
+import { canVote, loadDisputes } from "../src/disputes";
+import { auditRoyaltyDecryption, verifyDecryptionSignatures } from "../src/kmsVerifier";
+import { emptyMigrationMap, migrateLegacyContributions } from "../src/legacyMigration";
+import { LocalDecryptionRelayer } from "../src/localDecryptionRelayer";
+import { MockFhevm } from "../src/mockFhevm";
+import { reconcileAllocations, reconcileEpoch } from "../src/reconciliation";
+import { ProviderPool } from "../src/providerPool";
+import { loadRewardPoolSummary } from "../src/rewardPool";
+import { filterReviewQueue, findEvidence, hashEvidence, loadReviewQueue } from "../src/reviewQueue";
+import { ROLE_IDS, loadAccountRoles, loadRoleMembers } from "../src/roles";
+import { RoyaltiesClient } from "../src/royaltiesClient";
+import type { CommittedRevealed } from "../src/royaltiesClient";
+import { simulateRoyalties } from "../src/royaltySimulator";
+import { loadOperations, loadPayoutApproval } from "../src/treasury";
+import { revealRoyaltyShare } from "../src/userDecryption";
+import { loadWeightProfiles, modelIdFor } from "../src/weightProfiles";
+import { AiRoyalties_FHE__factory } from "../types";
+import type { AiRoyalties_FHE } from "../types";
+// UniversalAdapter has no source in this repository, so `hardhat compile` drops it from the generated index
+import { UniversalAdapter__factory } from "../types/factories/contracts/UniversalAdapter__factory";
+import type { UniversalAdapter } from "../types/contracts/UniversalAdapter";
+
+type Signers = {
+  deployer: HardhatEthersSigner;
+  alice: HardhatEthersSigner;
+  bob: HardhatEthersSigner;
+  verifier: HardhatEthersSigner;
+};
+
+const METRICS: ContributionMetrics = { computeHours: 10, dataQuality: 80, modelImpact: 50 };
+// 10 * 40 + 80 * 35 + 50 * 25
+const SCORE = 4450n;
+// Submitted by bob so alice's share is normalized against a second contribution
+const OTHER_METRICS: ContributionMetrics = { computeHours: 30, dataQuality: 60, modelImpact: 20 };
+const OTHER_SCORE = 3800n;
+const EXPECTED_SHARE = (SCORE * 10000n) / (SCORE + OTHER_SCORE);
+const POOL = ethers.parseEther("1");
+const EXPECTED_PAYMENT = (POOL * SCORE) / (SCORE + OTHER_SCORE);
+const EPOCH = 24 * 60 * 60;
+// Shorter than the contract's default so claims stay within the closing epoch
+const CHALLENGE_PERIOD = 60 * 60;
+const BOND = ethers.parseEther("0.01");
+
+// The deployer is admin and treasurer, the first six accounts may contribute and `verifier` requests calculations.
+// Calculated royalties can be disputed for an hour
+async function deployFixture(deployer: HardhatEthersSigner, verifier: HardhatEthersSigner) {
+  const contract = await new AiRoyalties_FHE__factory(deployer).deploy(EPOCH);
+  await contract.waitForDeployment();
+  for (const signer of (await ethers.getSigners()).slice(0, 6)) {
+    await contract.grantRole(ROLE_IDS.contributor, signer.address);
+  }
+  await contract.grantRole(ROLE_IDS.verifier, verifier.address);
+  await contract.grantRole(ROLE_IDS.treasurer, deployer.address);
+  await contract.setDisputeTerms(CHALLENGE_PERIOD, BOND, 2);
+  return { contract, address: await contract.getAddress() };
+}
+
+describe("AiRoyalties_FHE", function () {
+  let signers: Signers;
+  let mock: MockFhevm;
+  let contract: AiRoyalties_FHE;
+  let address: string;
+
+  async function submit(signer: HardhatEthersSigner, contributorHash: string, metrics = METRICS, modelId?: string) {
+    const encrypted = await encryptContributionMetrics(mock.instance, address, signer.address, metrics);
+    return new RoyaltiesClient(address, signer).submitEncryptedContribution({ ...encrypted, contributorHash, modelId });
+  }
+
+  function submitOther() {
+    return submit(signers.bob, ethers.id("bob"), OTHER_METRICS);
+  }
+
+  // Moves into the next epoch, which puts the current one into its closing phase
+  async function closeEpoch() {
+    await time.increase(EPOCH);
+  }
+
+  // The verifier takes the review and approves it, which calculations require
+  async function approve(contributionId: bigint) {
+    const client = new RoyaltiesClient(address, signers.verifier);
+    await client.assignReviewer(contributionId, signers.verifier.address);
+    await client.decideReview(contributionId, true);
+  }
+
+  async function calculate(contributionId: bigint) {
+    await approve(contributionId);
+    const result = await new RoyaltiesClient(address, signers.verifier).calculateRoyaltyShare(contributionId);
+    await mock.fulfillDecryptions();
+    return result;
+  }
+
+  async function passChallengePeriod() {
+    await time.increase(CHALLENGE_PERIOD);
+  }
+
+  // Only the contributor and the contract may decrypt a payment before it is claimed; tests read it through the mock
+  async function paymentOf(contributorHash: string) {
+    const { encryptedPaymentAmount } = await contract.royaltyDistributions(contributorHash);
+    return hre.fhevm.debugger.decryptEuint(FhevmType.euint128, encryptedPaymentAmount);
+  }
+
+  // Anyone may reveal the payments of a settled epoch in aggregate once none of them can be disputed
+  async function revealCommitted(epoch = 0n) {
+    await new RoyaltiesClient(address, signers.bob).revealCommitted(epoch);
+    await mock.fulfillDecryptions();
+  }
+
+  // Lets the oracle queue claimed payouts, then approves and executes them as the deployer, the only treasurer
+  async function releasePayouts() {
+    await mock.fulfillDecryptions();
+    const treasurer = new RoyaltiesClient(address, signers.deployer);
+    for (const operation of await loadOperations(treasurer, true)) {
+      await treasurer.approveOperation(operation.id);
+      await treasurer.executeOperation(operation.id);
+    }
+  }
+
+  before(async function () {
+    const ethSigners = await ethers.getSigners();
+    signers = { deployer: ethSigners[0], alice: ethSigners[1], bob: ethSigners[2], verifier: ethSigners[9] };
+  });
+
+  beforeEach(async function () {
+    // The oracle callbacks below are answered by the mock coprocessor
+    if (!hre.fhevm.isMock) {
+      console.warn(`This hardhat test suite cannot run on Sepolia Testnet`);
+      this.skip();
+    }
+
+    mock = await MockFhevm.create(hre);
+    ({ contract, address } = await deployFixture(signers.deployer, signers.verifier));
+  });
+
+  describe("depositRewardPool", function () {
+    it("adds deposits to the reward pool", async function () {
+      await expect(contract.connect(signers.deployer).depositRewardPool({ value: POOL }))
+        .to.emit(contract, "RewardPoolDeposited")
+        .withArgs(signers.deployer.address, 0n, POOL);
+      await contract.connect(signers.bob).depositRewardPool({ value: 5n });
+
+      expect(await contract.totalRewardPool()).to.eq(POOL + 5n);
+      expect(await ethers.provider.getBalance(address)).to.eq(POOL + 5n);
+    });
+  });
+
+  describe("submitEncryptedContribution", function () {
+    it("stores the encrypted metrics under a new id", async function () {
+      const contributorHash = ethers.id("alice");
+      const { contributionId, receipt } = await submit(signers.alice, contributorHash);
+
+      expect(contributionId).to.eq(1n);
+      expect(await contract.contributionCount()).to.eq(1n);
+      await expect(receipt.hash).to.emit(contract, "ContributionRecorded");
+
+      const stored = await contract.contributions(contributionId);
+      expect(stored.contributorHash).to.eq(contributorHash);
+      expect(await mock.decryptEuint32(stored.encryptedComputeHours)).to.eq(BigInt(METRICS.computeHours));
+      expect(await mock.decryptEuint32(stored.encryptedDataQuality)).to.eq(BigInt(METRICS.dataQuality));
+      expect(await mock.decryptEuint32(stored.encryptedModelImpact)).to.eq(BigInt(METRICS.modelImpact));
+    });
+
+    it("lets only the contract and the submitter access the metrics", async function () {
+      const { contributionId } = await submit(signers.alice, ethers.id("alice"));
+      const { encryptedComputeHours } = await contract.contributions(contributionId);
+
+      expect(await mock.isAllowed(encryptedComputeHours, address)).to.eq(true);
+      expect(await mock.isAllowed(encryptedComputeHours, signers.alice.address)).to.eq(true);
+      expect(await mock.isAllowed(encryptedComputeHours, signers.bob.address)).to.eq(false);
+    });
+
+    it("adds the encrypted score to the epoch's total", async function () {
+      const { contributionId } = await submit(signers.alice, ethers.id("alice"));
+      await submitOther();
+
+      const { encryptedScore } = await contract.contributions(contributionId);
+      const { encryptedScoreTotal } = await contract.epochs(0);
+      expect(await hre.fhevm.debugger.decryptEuint(FhevmType.euint64, encryptedScore)).to.eq(SCORE);
+      expect(await hre.fhevm.debugger.decryptEuint(FhevmType.euint64, encryptedScoreTotal)).to.eq(
+        SCORE + OTHER_SCORE
+      );
+      expect(await mock.isAllowed(encryptedScore, signers.alice.address)).to.eq(true);
+      expect(await mock.isAllowed(encryptedScoreTotal, signers.alice.address)).to.eq(false);
+    });
+
+    it("reports who may decrypt each handle of the contribution", async function () {
+      const { contributionId } = await submit(signers.alice, ethers.id("alice"));
+      const client = new RoyaltiesClient(address, signers.deployer);
+
+      const before = await inspectContributionAcl(client, mock, contributionId);
+      const access = (name: string) =>
+        Object.fromEntries(
+          before.handles.find((handle) => handle.name === name)!.access.map((entry) => [entry.role, entry.allowed])
+        );
+      expect(access("encryptedComputeHours")).to.deep.eq({
+        contract: true,
+        contributor: true,
+        admin: false,
+        oracle: false,
+      });
+      // The epoch total is only readable by the contract until a calculation sends it to the oracle
+      expect(access("encryptedScoreTotal")).to.deep.eq({
+        contract: true,
+        contributor: false,
+        admin: false,
+        oracle: false,
+      });
+      expect(before.handles.filter((handle) => !handle.isSet).map((handle) => handle.name)).to.deep.eq([
+        "encryptedShare",
+        "encryptedPaymentAmount",
+      ]);
+      expect(before.handles.some((handle) => handle.undecryptable)).to.eq(false);
+
+      await closeEpoch();
+      await calculate(contributionId);
+      const after = await inspectContributionAcl(client, mock, contributionId);
+      const oracleMay = (name: string) =>
+        after.handles.find((handle) => handle.name === name)!.access.find((entry) => entry.role === "oracle")!.allowed;
+      // Only the total goes to the oracle; the contribution's own score stays private
+      expect([oracleMay("encryptedScore"), oracleMay("encryptedScoreTotal")]).to.deep.eq([false, true]);
+      expect(after.handles.every((handle) => handle.isSet)).to.eq(true);
+    });
+
+    it("rejects inputs encrypted for another user", async function () {
+      const encrypted = await encryptContributionMetrics(mock.instance, address, signers.alice.address, METRICS);
+
+      await expect(
+        contract
+          .connect(signers.bob)
+          .submitEncryptedContribution(
+            encrypted.computeHours,
+            encrypted.dataQuality,
+            encrypted.modelImpact,
+            encrypted.inputProof,
+            ethers.id("bob"),
+            ethers.ZeroHash
+          )
+      ).to.be.reverted;
+    });
+
+    it("reserves a contributor hash for the account that first submitted under it", async function () {
+      const contributorHash = ethers.id("alice");
+      await submit(signers.alice, contributorHash);
+      await expect(submit(signers.bob, contributorHash)).to.be.revertedWith("Contributor hash in use");
+      await expect(submit(signers.alice, contributorHash)).not.to.be.reverted;
+      expect(await new RoyaltiesClient(address, signers.bob).getCommitmentOwner(contributorHash)).to.eq(
+        signers.alice.address
+      );
+    });
+  });
+
+  describe("calculateRoyaltyShare", function () {
+    it("computes the share under FHE once the oracle reveals the epoch's score total", async function () {
+      await contract.connect(signers.deployer).depositRewardPool({ value: POOL });
+      const contributorHash = ethers.id("alice");
+      const { contributionId } = await submit(signers.alice, contributorHash);
+      await submitOther();
+      await closeEpoch();
+      await approve(contributionId);
+
+      const { requestId, receipt } = await new RoyaltiesClient(address, signers.verifier).calculateRoyaltyShare(
+        contributionId
+      );
+      await expect(receipt.hash)
+        .to.emit(contract, "RoyaltyCalculationRequested")
+        .withArgs(contributionId, requestId, signers.verifier.address);
+      expect((await contract.getDecryptedRoyalty(contributionId)).isRevealed).to.eq(false);
+
+      await mock.fulfillDecryptions();
+
+      const revealed = await contract.getDecryptedRoyalty(contributionId);
+      expect(revealed.isRevealed).to.eq(true);
+
+      const distribution = await contract.royaltyDistributions(contributorHash);
+      expect(distribution.isClaimed).to.eq(false);
+      expect(await mock.decryptEuint32(distribution.encryptedShare)).to.eq(EXPECTED_SHARE);
+      expect(await paymentOf(contributorHash)).to.eq(EXPECTED_PAYMENT);
+      for (const handle of [distribution.encryptedShare, distribution.encryptedPaymentAmount]) {
+        expect(await mock.isAllowed(handle, address)).to.eq(true);
+        expect(await mock.isAllowed(handle, signers.alice.address)).to.eq(true);
+        expect(await mock.isAllowed(handle, signers.bob.address)).to.eq(false);
+        expect(await mock.isAllowed(handle, signers.verifier.address)).to.eq(false);
+        expect(await mock.isAllowedForDecryption(handle)).to.eq(false);
+      }
+    });
+
+    it("publicly decrypts nothing but the epoch's score total", async function () {
+      await contract.connect(signers.deployer).depositRewardPool({ value: POOL });
+      const { contributionId } = await submit(signers.alice, ethers.id("alice"));
+      await submitOther();
+      await closeEpoch();
+      await calculate(contributionId);
+
+      const { encryptedScore } = await contract.contributions(contributionId);
+      const epoch = await contract.epochs(0);
+      expect(await mock.isAllowedForDecryption(encryptedScore)).to.eq(false);
+      expect(await mock.isAllowedForDecryption(epoch.encryptedScoreTotal)).to.eq(true);
+      expect(epoch.scoreTotal).to.eq(SCORE + OTHER_SCORE);
+      // The epoch's payments are only summed under FHE until it is settled
+      expect([epoch.committed, epoch.committedRevealed]).to.deep.eq([0n, false]);
+      expect(await mock.isAllowedForDecryption(epoch.encryptedCommitted)).to.eq(false);
+      expect(await hre.fhevm.debugger.decryptEuint(FhevmType.euint128, epoch.encryptedCommitted)).to.eq(
+        EXPECTED_PAYMENT
+      );
+    });
+
+    it("rejects callbacks for unknown request ids", async function () {
+      await expect(
+        contract.connect(signers.bob).processRoyaltyCalculation(12345n, "0x", "0x")
+      ).to.be.revertedWith("Invalid request");
+    });
+
+    it("rejects callbacks without valid KMS signatures", async function () {
+      const { contributionId } = await submit(signers.alice, ethers.id("alice"));
+      await closeEpoch();
+      await approve(contributionId);
+      const { requestId } = await new RoyaltiesClient(address, signers.verifier).calculateRoyaltyShare(contributionId);
+      const forged = ethers.AbiCoder.defaultAbiCoder().encode(["uint64"], [SCORE]);
+
+      await expect(contract.connect(signers.bob).processRoyaltyCalculation(requestId, forged, "0x")).to.be.reverted;
+      expect((await contract.getDecryptedRoyalty(contributionId)).isRevealed).to.eq(false);
+    });
+    it("verifies the KMS signatures of the callback off-chain", async function () {
+      const { contributionId } = await submit(signers.alice, ethers.id("alice"));
+      await submitOther();
+      await closeEpoch();
+      await calculate(contributionId);
+      const client = new RoyaltiesClient(address, signers.deployer);
+      const [decrypted] = await client.queryRoyaltyDecrypted();
+
+      const audit = await auditRoyaltyDecryption(client, decrypted.transactionHash, mock.addresses.kmsVerifier);
+      expect(audit.issues).to.deep.eq([]);
+      expect(audit.passed).to.eq(true);
+      expect(audit.contributionId).to.eq(contributionId);
+      expect([audit.epoch, audit.scoreTotal]).to.deep.eq([0n, SCORE + OTHER_SCORE]);
+      expect(audit.handles).to.deep.eq([(await contract.epochs(0)).encryptedScoreTotal]);
+      expect(BigInt(audit.validSigners)).to.be.gte(audit.kms.threshold);
+
+      const { proof } = contract.interface.parseTransaction(
+        (await ethers.provider.getTransaction(decrypted.transactionHash))!
+      )!.args;
+      const forged = ethers.AbiCoder.defaultAbiCoder().encode(["uint64"], [SCORE]);
+      expect(verifyDecryptionSignatures(audit.kms, audit.handles, forged, proof).passed).to.eq(false);
+      const untrusted = { ...audit.kms, signers: [signers.bob.address] };
+      expect(verifyDecryptionSignatures(untrusted, audit.handles, audit.cleartexts, proof).issues).to.have.length(2);
+    });
+  });
+
+  describe("share normalization", function () {
+    it("gives a lone contributor the whole epoch pool", async function () {
+      await contract.connect(signers.deployer).depositRewardPool({ value: POOL });
+      const contributorHash = ethers.id("alice");
+      const { contributionId } = await submit(signers.alice, contributorHash);
+      await closeEpoch();
+      await calculate(contributionId);
+
+      const { encryptedShare } = await contract.royaltyDistributions(contributorHash);
+      expect(await mock.decryptEuint32(encryptedShare)).to.eq(10000n);
+      expect(await paymentOf(contributorHash)).to.eq(POOL);
+    });
+
+    it("keeps the payments of an epoch within its pool however high contributors score", async function () {
+      const contributors = (await ethers.getSigners()).slice(1, 6);
+      const high: ContributionMetrics = { computeHours: 1_000_000, dataQuality: 100, modelImpact: 100 };
+      // An odd pool so every payment is rounded down
+      const pool = POOL + 7n;
+      await contract.connect(signers.deployer).depositRewardPool({ value: pool });
+      const ids: bigint[] = [];
+      for (const [i, signer] of contributors.entries()) {
+        const metrics = { ...high, computeHours: high.computeHours + i };
+        ids.push((await submit(signer, ethers.id(`contributor-${i}`), metrics)).contributionId);
+      }
+      await closeEpoch();
+      for (const id of ids) {
+        await calculate(id);
+      }
+      await closeEpoch();
+      await passChallengePeriod();
+      await revealCommitted();
+
+      const reconciliation = await reconcileEpoch(new RoyaltiesClient(address, signers.deployer), 0);
+      expect(reconciliation.issues).to.deep.eq([]);
+      expect(reconciliation.committedRevealed).to.eq(true);
+      expect(reconciliation.committed <= pool).to.eq(true);
+      expect(pool - reconciliation.committed < BigInt(contributors.length)).to.eq(true);
+    });
+
+    it("flags commitments and payouts that exceed the pool", function () {
+      const allocation = { contributorHash: ethers.ZeroHash, amount: 600n };
+      const totals = { rewardPool: 1000n, committed: 1200n, committedRevealed: true, paid: 1200n };
+      const reconciliation = reconcileAllocations(0n, totals, [
+        { ...allocation, operationId: 1n },
+        { ...allocation, operationId: 2n },
+      ]);
+
+      expect(reconciliation.issues).to.deep.eq([
+        "Epoch paid 1200 wei, more than its pool of 1000 wei",
+        "Epoch committed 1200 wei, more than its pool of 1000 wei",
+      ]);
+      // Until the committed total is revealed only the payouts can be checked
+      const hidden = reconcileAllocations(0n, { ...totals, committed: 0n, committedRevealed: false, paid: 600n }, []);
+      expect(hidden.issues).to.deep.eq(["Epoch paid 600 wei but payouts sent 0 wei"]);
+    });
+  });
+
+  describe("weight profiles", function () {
+    const GPT4 = modelIdFor("GPT-4");
+    const COMPUTE_ONLY = { computeWeight: 100, qualityWeight: 0, impactWeight: 0 };
+
+    it("scores contributions with the default profile until a model has its own", async function () {
+      const { rulesetId } = await new RoyaltiesClient(address, signers.deployer).setWeightProfile(GPT4, COMPUTE_ONLY);
+      expect(rulesetId).to.eq(2n);
+
+      const { contributionId } = await submit(signers.alice, ethers.id("alice"), METRICS, GPT4);
+      const { contributionId: otherId } = await submit(signers.bob, ethers.id("bob"), METRICS, modelIdFor("LLaMA"));
+
+      const scored = await contract.contributions(contributionId);
+      expect(scored.rulesetId).to.eq(2n);
+      expect(await hre.fhevm.debugger.decryptEuint(FhevmType.euint64, scored.encryptedScore)).to.eq(
+        BigInt(METRICS.computeHours * 100)
+      );
+      const other = await contract.contributions(otherId);
+      expect(other.rulesetId).to.eq(1n);
+      expect(await hre.fhevm.debugger.decryptEuint(FhevmType.euint64, other.encryptedScore)).to.eq(SCORE);
+    });
+
+    it("records the ruleset that produced each share", async function () {
+      const admin = new RoyaltiesClient(address, signers.deployer);
+      await admin.setWeightProfile(GPT4, COMPUTE_ONLY);
+      const { contributionId } = await submit(signers.alice, ethers.id("alice"), METRICS, GPT4);
+      // Edits only apply to later contributions
+      await admin.setWeightProfile(GPT4, { computeWeight: 50, qualityWeight: 50, impactWeight: 0 });
+      await closeEpoch();
+      await calculate(contributionId);
+
+      expect((await contract.getDecryptedRoyalty(contributionId)).rulesetId).to.eq(2n);
+
+      const [defaults, ...models] = await loadWeightProfiles(admin, ["GPT-4", "LLaMA"]);
+      expect(defaults.active.id).to.eq(1n);
+      expect(defaults.history.map((entry) => entry.calculatedContributionIds)).to.deep.eq([[]]);
+      const [gpt4, llama] = models;
+      expect(gpt4.active).to.include({ id: 3n, computeWeight: 50, qualityWeight: 50, impactWeight: 0 });
+      expect(gpt4.inherited).to.eq(false);
+      expect(gpt4.history.map((entry) => entry.calculatedContributionIds)).to.deep.eq([[contributionId], []]);
+      expect(llama.inherited).to.eq(true);
+      expect(llama.active.id).to.eq(1n);
+    });
+
+    it("only lets the admin set profiles with weights summing to 100", async function () {
+      await expect(contract.connect(signers.alice).setWeightProfile(GPT4, 100, 0, 0)).to.be.revertedWith(
+        "Missing role"
+      );
+      await expect(contract.connect(signers.deployer).setWeightProfile(GPT4, 50, 30, 30)).to.be.revertedWith(
+        "Weights must sum to 100"
+      );
+    });
+  });
+
+  describe("simulateRoyalties", function () {
+    it("predicts the shares and payments processRoyaltyCalculation produces", async function () {
+      const gpt4 = { computeWeight: 70, qualityWeight: 10, impactWeight: 20 };
+      await new RoyaltiesClient(address, signers.deployer).setWeightProfile(modelIdFor("GPT-4"), gpt4);
+      const pool = POOL + 3n;
+      await contract.connect(signers.deployer).depositRewardPool({ value: pool });
+      const { contributionId: aliceId } = await submit(signers.alice, ethers.id("alice"), METRICS, modelIdFor("GPT-4"));
+      const { contributionId: bobId } = await submitOther();
+      await closeEpoch();
+      await calculate(aliceId);
+      await calculate(bobId);
+
+      const toBigInts = (metrics: ContributionMetrics) => ({
+        computeHours: BigInt(metrics.computeHours),
+        dataQuality: BigInt(metrics.dataQuality),
+        modelImpact: BigInt(metrics.modelImpact),
+      });
+      const simulation = simulateRoyalties({
+        contributions: [
+          { contributor: "alice", model: "GPT-4", ...toBigInts(METRICS) },
+          { contributor: "bob", ...toBigInts(OTHER_METRICS) },
+        ],
+        pool,
+        weightsByModel: { "GPT-4": gpt4 },
+      });
+
+      expect(simulation.warnings).to.deep.eq([]);
+      expect(simulation.scoreTotal).to.eq((await contract.epochs(0)).scoreTotal);
+      for (const [i, contributorHash] of [ethers.id("alice"), ethers.id("bob")].entries()) {
+        const { encryptedShare } = await contract.royaltyDistributions(contributorHash);
+        expect(simulation.shares[i].share).to.eq(await mock.decryptEuint32(encryptedShare));
+        expect(simulation.shares[i].payment).to.eq(await paymentOf(contributorHash));
+      }
+    });
+
+    it("warns about truncated metrics and a wrapping score total", function () {
+      const max = (1n << 32n) - 1n;
+      // Weights the contract would refuse, large enough for two scores to wrap the euint64 total
+      const simulation = simulateRoyalties({
+        contributions: [
+          { contributor: "whale-0", computeHours: max, dataQuality: 0n, modelImpact: 0n },
+          { contributor: "whale-1", computeHours: max + 1n, dataQuality: 0n, modelImpact: 0n },
+          { contributor: "whale-2", computeHours: max, dataQuality: 0n, modelImpact: 0n },
+        ],
+        pool: POOL,
+        defaultWeights: { computeWeight: Number(max), qualityWeight: 0, impactWeight: 0 },
+      });
+
+      expect(simulation.shares[1].score).to.eq(0n);
+      expect(simulation.shares[1].warnings).to.deep.eq([
+        `computeHours ${max + 1n} does not fit in uint32 and is truncated to 0`,
+      ]);
+      expect(simulation.warnings[0]).to.match(/^Score total \d+ overflows euint64/);
+      expect(simulation.allocated > POOL).to.eq(true);
+    });
+  });
+
+  describe("epochs", function () {
+    it("rejects calculations while the epoch is open", async function () {
+      const { contributionId } = await submit(signers.alice, ethers.id("alice"));
+
+      expect(await contract.epochPhase(0)).to.eq(0n);
+      await expect(contract.connect(signers.verifier).calculateRoyaltyShare(contributionId)).to.be.revertedWith(
+        "Epoch still open"
+      );
+    });
+
+    it("computes shares against the pool of the contribution's epoch", async function () {
+      await contract.connect(signers.deployer).depositRewardPool({ value: POOL });
+      const { contributionId } = await submit(signers.alice, ethers.id("alice"));
+      await submitOther();
+      await closeEpoch();
+      await contract.connect(signers.bob).depositRewardPool({ value: POOL * 5n });
+
+      expect(await contract.epochPhase(0)).to.eq(1n);
+      await calculate(contributionId);
+
+      expect(await paymentOf(ethers.id("alice"))).to.eq(EXPECTED_PAYMENT);
+      const epoch = await contract.epochs(0);
+      expect(epoch.rewardPool).to.eq(POOL);
+      expect(epoch.contributionCount).to.eq(2n);
+      expect(epoch.scoreTotal).to.eq(SCORE + OTHER_SCORE);
+      expect((await contract.epochs(1)).rewardPool).to.eq(POOL * 5n);
+    });
+
+    it("rejects calculations once the epoch is settled", async function () {
+      const { contributionId } = await submit(signers.alice, ethers.id("alice"));
+      await time.increase(2 * EPOCH);
+
+      expect(await contract.epochPhase(0)).to.eq(2n);
+      await expect(contract.connect(signers.verifier).calculateRoyaltyShare(contributionId)).to.be.revertedWith(
+        "Epoch settled"
+      );
+    });
+
+    it("rejects a second calculation for the same contributor", async function () {
+      const { contributionId } = await submit(signers.alice, ethers.id("alice"));
+      await closeEpoch();
+      await calculate(contributionId);
+
+      await expect(contract.connect(signers.verifier).calculateRoyaltyShare(contributionId)).to.be.revertedWith(
+        "Royalty already calculated"
+      );
+    });
+
+    it("rolls uncommitted funds of a settled epoch into the current one", async function () {
+      await contract.connect(signers.deployer).depositRewardPool({ value: POOL });
+      const { contributionId } = await submit(signers.alice, ethers.id("alice"));
+      await submitOther();
+      await closeEpoch();
+      await calculate(contributionId);
+      await expect(contract.rollOver(0)).to.be.revertedWith("Epoch not settled");
+
+      await closeEpoch();
+      await expect(contract.rollOver(0)).to.be.revertedWith("Committed total not revealed");
+      await revealCommitted();
+      const payment = EXPECTED_PAYMENT;
+      await expect(contract.rollOver(0))
+        .to.emit(contract, "EpochRolledOver")
+        .withArgs(0n, 2n, POOL - payment);
+
+      expect((await contract.epochs(0)).rewardPool).to.eq(payment);
+      expect((await contract.epochs(2)).rewardPool).to.eq(POOL - payment);
+      expect(await contract.totalRewardPool()).to.eq(POOL);
+      await expect(contract.rollOver(0)).to.be.revertedWith("Nothing to roll over");
+    });
+
+    it("reports the reveal of the committed total to queries and subscribers", async function () {
+      await contract.connect(signers.deployer).depositRewardPool({ value: POOL });
+      const { contributionId } = await submit(signers.alice, ethers.id("alice"));
+      await submitOther();
+      await closeEpoch();
+      await calculate(contributionId);
+      await closeEpoch();
+      const client = new RoyaltiesClient(address, signers.bob);
+      await expect(client.processCommittedReveal(12345n, "0x", "0x")).to.be.revertedWith("Invalid request");
+
+      const received: CommittedRevealed[] = [];
+      const unsubscribe = await client.onCommittedRevealed((event) => received.push(event));
+      try {
+        const { requestId, receipt } = await client.revealCommitted(0);
+        await mock.fulfillDecryptions();
+        const [requested] = await client.queryCommittedRevealRequested(0, receipt.blockNumber);
+        expect([requested.requestId, requested.requester]).to.deep.eq([requestId, signers.bob.address]);
+        const [revealed] = await client.queryCommittedRevealed(0, receipt.blockNumber);
+        expect(revealed.committed).to.eq(EXPECTED_PAYMENT);
+        expect(await client.queryCommittedRevealed(1, receipt.blockNumber)).to.deep.eq([]);
+
+        const deadline = Date.now() + 10_000;
+        while (received.length === 0 && Date.now() < deadline) {
+          await new Promise((resolve) => setTimeout(resolve, 100));
+        }
+        expect(received).to.deep.eq([revealed]);
+      } finally {
+        await unsubscribe();
+      }
+    });
+
+    it("rejects calculations answered after the committed total was requested", async function () {
+      await contract.connect(signers.deployer).depositRewardPool({ value: POOL });
+      const { contributionId } = await submit(signers.alice, ethers.id("alice"));
+      const { contributionId: otherId } = await submitOther();
+      await closeEpoch();
+      await calculate(contributionId);
+      // The relayer answers these requests itself, so they are rolled back before the plugin's oracle sees them
+      const snapshot = await takeSnapshot();
+      try {
+        const relayer = new LocalDecryptionRelayer(mock, { fromBlock: (await ethers.provider.getBlockNumber()) + 1 });
+        await approve(otherId);
+        const calculation = await new RoyaltiesClient(address, signers.verifier).calculateRoyaltyShare(otherId);
+        await closeEpoch();
+        const reveal = await new RoyaltiesClient(address, signers.bob).revealCommitted(0);
+
+        // The calculation is answered between the reveal request and its callback
+        const relayed = await relayer.relayPending();
+        expect(relayed.map((entry) => entry.requestId)).to.deep.eq([calculation.requestId, reveal.requestId]);
+        expect(relayed[0].error).to.include("Committed total requested");
+        expect(relayed[1].error).to.eq(undefined);
+        expect((await contract.getDecryptedRoyalty(otherId)).isRevealed).to.eq(false);
+        const epoch = await contract.epochs(0);
+        expect([epoch.committed, epoch.committedRevealed]).to.deep.eq([EXPECTED_PAYMENT, true]);
+        await expect(contract.rollOver(0))
+          .to.emit(contract, "EpochRolledOver")
+          .withArgs(0n, 2n, POOL - EXPECTED_PAYMENT);
+      } finally {
+        await snapshot.restore();
+      }
+    });
+  });
+
+  describe("contribution lifecycle", function () {
+    it("derives each state from on-chain facts", async function () {
+      await contract.connect(signers.deployer).depositRewardPool({ value: POOL });
+      const commitment = deriveCommitment(ethers.id("lifecycle secret"), "1");
+      const { contributionId } = await submit(signers.alice, commitment.contributorHash);
+      const client = new RoyaltiesClient(address, signers.alice);
+      const state = async () => chainState(await loadContributionFacts(client, contributionId.toString()));
+
+      expect(await state()).to.eq("submitted");
+      const verifier = client.connect(signers.verifier);
+      await verifier.assignReviewer(contributionId, signers.verifier.address);
+      expect(await state()).to.eq("under-review");
+      await verifier.decideReview(contributionId, true);
+      expect(await state()).to.eq("submitted");
+
+      await closeEpoch();
+      await verifier.calculateRoyaltyShare(contributionId);
+      expect(await state()).to.eq("calculating");
+      await mock.fulfillDecryptions();
+      expect(await state()).to.eq("calculated");
+      // Claims wait for the challenge period
+      const challenged = await loadContributionFacts(client, contributionId.toString());
+      expect(availableActions("calculated", challenged)).to.deep.eq(["dispute", "reveal"]);
+      await passChallengePeriod();
+      expect(await state()).to.eq("claimable");
+
+      const { chainId } = await ethers.provider.getNetwork();
+      const proof = await createClaimProof(commitment, address, chainId, signers.alice.address);
+      await client.claimRoyalty(commitment.contributorHash, signers.alice.address, proof);
+      expect(await state()).to.eq("claiming");
+      await mock.fulfillDecryptions();
+      // The decrypted payout waits for the treasurers
+      const facts = await loadContributionFacts(client, contributionId.toString());
+      expect(availableActions(chainState(facts), facts)).to.deep.eq(["approvePayout", "reveal"]);
+      await releasePayouts();
+      expect(await state()).to.eq("paid");
+    });
+
+    it("only allows transitions the graph and the chain support", async function () {
+      const client = new RoyaltiesClient(address, signers.alice);
+      const { contributionId } = await submit(signers.alice, ethers.id("alice"));
+      const id = contributionId.toString();
+      await client.connect(signers.verifier).assignReviewer(contributionId, signers.verifier.address);
+      const facts = await loadContributionFacts(client, id);
+      const history = await loadContributionHistory(client, id);
+      expect(history.map((entry) => entry.state)).to.deep.eq(["submitted", "under-review"]);
+      expect(deriveState(facts, history)).to.eq("under-review");
+
+      // The epoch settles before the review is decided
+      await closeEpoch();
+      await closeEpoch();
+      expect(deriveState(await loadContributionFacts(client, id), history)).to.eq("expired");
+      // A rejection is final
+      const rejected = [...history, { ...history[1], state: "rejected" as const }];
+      expect(() => deriveState(facts, rejected)).to.throw("cannot move from rejected to under-review");
+      expect(() => deriveState({ ...facts, onChain: false }, history)).to.throw(
+        "cannot move from under-review to draft"
+      );
+    });
+
+    it("loads the events of a page of contributions together, in chunks", async function () {
+      const client = new RoyaltiesClient(address, signers.deployer);
+      const { contributionId: aliceId } = await submit(signers.alice, ethers.id("alice"));
+      const { contributionId: bobId } = await submitOther();
+      await closeEpoch();
+      await calculate(aliceId);
+      await approve(bobId);
+
+      // Windows of a single block, so every event lands in another chunk
+      const events = await loadContributionEvents(client, [aliceId, bobId, 99n], { chunkSize: 1 });
+      expect(Array.from(events.contributions.keys())).to.deep.eq([aliceId, bobId]);
+      expect(events.decrypted.get(aliceId)).to.have.length(1);
+      expect(events.decrypted.has(bobId)).to.eq(false);
+      expect(events.decisions.get(bobId)).to.have.length(1);
+      for (const id of [aliceId, bobId]) {
+        const shared = await loadContributionFacts(client, id.toString(), { events });
+        expect(shared).to.deep.eq(await loadContributionFacts(client, id.toString()));
+        expect(await loadContributionHistory(client, id.toString(), { events })).to.deep.eq(
+          await loadContributionHistory(client, id.toString())
+        );
+      }
+      expect(chainState(await loadContributionFacts(client, "99", { events }))).to.eq("draft");
+    });
+  });
+
+  describe("decryption tracker", function () {
+    it("follows requests from chain history and resumes after the last synced block", async function () {
+      const client = new RoyaltiesClient(address, signers.deployer);
+      const fromBlock = await ethers.provider.getBlockNumber();
+      const { contributionId: aliceId } = await submit(signers.alice, ethers.id("alice"));
+      const { contributionId: bobId } = await submitOther();
+      await closeEpoch();
+      await approve(aliceId);
+      await approve(bobId);
+      const verifier = new RoyaltiesClient(address, signers.verifier);
+      const first = await verifier.calculateRoyaltyShare(aliceId);
+      const second = await verifier.calculateRoyaltyShare(bobId);
+
+      const windows: number[][] = [];
+      const queryFulfilled = client.queryDecryptionFulfilled.bind(client);
+      client.queryDecryptionFulfilled = (from, to) => {
+        windows.push([Number(from), Number(to)]);
+        return queryFulfilled(from, to);
+      };
+      const store = memoryStore();
+      const tracker = new DecryptionTracker(client, store);
+      // Windows of a single block, so each request is found in another chunk
+      await tracker.sync(fromBlock, { chunkSize: 1 });
+      const synced = await ethers.provider.getBlockNumber();
+      expect(store.loadCursor?.()).to.eq(synced);
+      expect(windows).to.have.length(synced - fromBlock + 1);
+      expect(tracker.list().map((request) => [request.requestId, request.contributionId, request.status])).to.deep.eq([
+        [first.requestId.toString(), aliceId.toString(), "pending"],
+        [second.requestId.toString(), bobId.toString(), "pending"],
+      ]);
+      const request = tracker.get(second.requestId)!;
+      const block = await ethers.provider.getBlock(second.receipt.blockNumber);
+      expect([request.requestBlock, request.requestedAt]).to.deep.eq([block!.number, block!.timestamp * 1000]);
+
+      tracker.checkTimeouts(request.requestedAt + DEFAULT_DECRYPTION_TIMEOUT_MS + 1);
+      expect(tracker.get(second.requestId)!.status).to.eq("timeout");
+
+      // A late callback still counts, and only the blocks since the previous sync are read again
+      await mock.fulfillDecryptions();
+      windows.length = 0;
+      await tracker.sync(fromBlock, { chunkSize: 1 });
+      expect(windows[0][0]).to.eq(synced + 1);
+      expect(tracker.list().map((request) => request.status)).to.deep.eq(["decrypted", "decrypted"]);
+      expect(tracker.get(second.requestId)!.callbackTransactionHash).to.be.a("string");
+      expect(store.load()).to.deep.eq(tracker.list());
+    });
+
+    it("marks requests failed once the relayer gives up on their callback", async function () {
+      await contract.connect(signers.deployer).depositRewardPool({ value: POOL });
+      const { contributionId } = await submit(signers.alice, ethers.id("alice"));
+      const { contributionId: otherId } = await submitOther();
+      await closeEpoch();
+      await calculate(contributionId);
+      // The relayer answers these requests itself, so they are rolled back before the plugin's oracle sees them
+      const snapshot = await takeSnapshot();
+      try {
+        const relayer = new LocalDecryptionRelayer(mock, {
+          fromBlock: (await ethers.provider.getBlockNumber()) + 1,
+          maxAttempts: 1,
+        });
+        const tracker = new DecryptionTracker(new RoyaltiesClient(address, signers.bob), memoryStore());
+        const unfollow = tracker.followResults(relayer);
+        await approve(otherId);
+        const calculation = await new RoyaltiesClient(address, signers.verifier).calculateRoyaltyShare(otherId);
+        await closeEpoch();
+        await new RoyaltiesClient(address, signers.bob).revealCommitted(0);
+        await tracker.sync();
+        expect(tracker.get(calculation.requestId)!.status).to.eq("pending");
+
+        await relayer.relayPending();
+        unfollow();
+        const failed = await tracker.waitFor(calculation.requestId);
+        expect(failed.status).to.eq("failed");
+        expect(failed.error).to.include("Committed total requested");
+        expect(tracker.latestForContribution(contributionId)!.status).to.eq("decrypted");
+      } finally {
+        await snapshot.restore();
+      }
+    });
+  });
+
+  describe("roles", function () {
+    it("restricts each operation to its role", async function () {
+      const outsider = (await ethers.getSigners())[7];
+      const encrypted = await encryptContributionMetrics(mock.instance, address, outsider.address, METRICS);
+      const outsiderClient = new RoyaltiesClient(address, outsider);
+      await expect(
+        outsiderClient.submitEncryptedContribution({ ...encrypted, contributorHash: ethers.id("outsider") })
+      ).to.be.revertedWith("Missing role");
+
+      const { contributionId } = await submit(signers.alice, ethers.id("alice"));
+      await closeEpoch();
+      await expect(contract.connect(signers.alice).calculateRoyaltyShare(contributionId)).to.be.revertedWith(
+        "Missing role"
+      );
+      await calculate(contributionId);
+      await closeEpoch();
+      await expect(contract.connect(signers.verifier).rollOver(0)).to.be.revertedWith("Missing role");
+      await expect(contract.connect(signers.bob).depositRewardPool({ value: POOL })).not.to.be.reverted;
+      expect(await loadAccountRoles(new RoyaltiesClient(address, signers.alice), signers.verifier.address)).to.deep.eq([
+        "verifier",
+      ]);
+    });
+
+    it("lets admins grant and revoke roles but never remove the last admin", async function () {
+      const client = new RoyaltiesClient(address, signers.deployer);
+      await expect(contract.connect(signers.alice).grantRole(ROLE_IDS.admin, signers.alice.address)).to.be.revertedWith(
+        "Missing role"
+      );
+      await expect(client.revokeRole(ROLE_IDS.admin, signers.deployer.address)).to.be.revertedWith(
+        "Cannot remove the last admin"
+      );
+
+      await client.grantRole(ROLE_IDS.admin, signers.alice.address);
+      await client.connect(signers.alice).revokeRole(ROLE_IDS.admin, signers.deployer.address);
+      await client.connect(signers.alice).revokeRole(ROLE_IDS.contributor, signers.bob.address);
+      expect(await client.getAdminCount()).to.eq(1n);
+
+      const members = await loadRoleMembers(client);
+      expect(members.admin.map((member) => member.account)).to.deep.eq([signers.alice.address]);
+      expect(members.admin[0].grantedBy).to.eq(signers.deployer.address);
+      expect(members.contributor.map((member) => member.account)).not.to.include(signers.bob.address);
+      expect(members.verifier.map((member) => member.account)).to.deep.eq([signers.verifier.address]);
+    });
+
+    it("records who performed each transition", async function () {
+      await contract.connect(signers.deployer).depositRewardPool({ value: POOL });
+      const commitment = deriveCommitment(ethers.id("history secret"), "1");
+      const { contributionId } = await submit(signers.alice, commitment.contributorHash);
+      await closeEpoch();
+      await calculate(contributionId);
+      await passChallengePeriod();
+      const { chainId } = await ethers.provider.getNetwork();
+      const proof = await createClaimProof(commitment, address, chainId, signers.alice.address);
+      const relayer = new RoyaltiesClient(address, signers.bob);
+      await relayer.claimRoyalty(commitment.contributorHash, signers.alice.address, proof);
+      await releasePayouts();
+
+      const history = await loadContributionHistory(relayer, contributionId.toString());
+      expect(history.map((entry) => [entry.state, entry.actor])).to.deep.eq([
+        ["submitted", signers.alice.address],
+        ["under-review", signers.verifier.address],
+        ["submitted", signers.verifier.address],
+        ["calculating", signers.verifier.address],
+        ["calculated", null],
+        ["claiming", signers.bob.address],
+        ["paid", signers.deployer.address],
+      ]);
+    });
+  });
+
+  describe("reviews", function () {
+    it("only calculates royalties of approved contributions", async function () {
+      const { contributionId } = await submit(signers.alice, ethers.id("alice"));
+      await closeEpoch();
+      const verifier = new RoyaltiesClient(address, signers.verifier);
+      await expect(verifier.calculateRoyaltyShare(contributionId)).to.be.revertedWith("Contribution not approved");
+
+      await approve(contributionId);
+      await expect(verifier.calculateRoyaltyShare(contributionId)).not.to.be.reverted;
+      const review = await verifier.getReview(contributionId);
+      expect([review.status, review.reviewer]).to.deep.eq(["approved", signers.verifier.address]);
+    });
+
+    it("lets admins assign verifiers and only the assigned verifier decide", async function () {
+      const other = (await ethers.getSigners())[8];
+      await contract.grantRole(ROLE_IDS.verifier, other.address);
+      const { contributionId } = await submit(signers.alice, ethers.id("alice"));
+      const admin = new RoyaltiesClient(address, signers.deployer);
+      const verifier = admin.connect(signers.verifier);
+
+      await expect(admin.assignReviewer(contributionId, signers.alice.address)).to.be.revertedWith(
+        "Reviewer is not a verifier"
+      );
+      await expect(admin.connect(signers.bob).assignReviewer(contributionId, other.address)).to.be.revertedWith(
+        "Cannot assign reviewer"
+      );
+      await admin.assignReviewer(contributionId, other.address);
+      // Verifiers can only take reviews nobody has been assigned yet
+      await expect(verifier.assignReviewer(contributionId, signers.verifier.address)).to.be.revertedWith(
+        "Cannot assign reviewer"
+      );
+      await expect(verifier.decideReview(contributionId, true)).to.be.revertedWith("Not the assigned reviewer");
+
+      const reviewer = admin.connect(other);
+      await expect(reviewer.decideReview(contributionId, false)).to.be.revertedWith("Rejection needs a reason");
+      await expect(reviewer.decideReview(contributionId, false, "Eval report does not match the logs"))
+        .to.emit(contract, "ReviewDecided")
+        .withArgs(contributionId, other.address, false, "Eval report does not match the logs");
+      await expect(reviewer.decideReview(contributionId, true)).to.be.revertedWith("Review already decided");
+
+      await closeEpoch();
+      await expect(verifier.calculateRoyaltyShare(contributionId)).to.be.revertedWith("Contribution not approved");
+      const facts = await loadContributionFacts(admin, contributionId.toString());
+      expect(chainState(facts)).to.eq("rejected");
+    });
+
+    it("never lets a verifier review their own contribution", async function () {
+      await contract.grantRole(ROLE_IDS.contributor, signers.verifier.address);
+      const { contributionId } = await submit(signers.verifier, ethers.id("verifier"));
+      const verifier = new RoyaltiesClient(address, signers.verifier);
+
+      await expect(verifier.assignReviewer(contributionId, signers.verifier.address)).to.be.revertedWith(
+        "Cannot review own contribution"
+      );
+      await expect(
+        verifier.connect(signers.deployer).assignReviewer(contributionId, signers.verifier.address)
+      ).to.be.revertedWith("Cannot review own contribution");
+      await expect(verifier.decideReview(contributionId, true)).to.be.revertedWith("Not the assigned reviewer");
+    });
+
+    it("lists evidence and the audit trail in the review queue", async function () {
+      const { contributionId } = await submit(signers.alice, ethers.id("alice"));
+      const { contributionId: otherId } = await submitOther();
+      const report = "eval report: accuracy 0.91";
+      const alice = new RoyaltiesClient(address, signers.alice);
+
+      await alice.attachEvidence(contributionId, hashEvidence(report), "eval report");
+      await expect(
+        alice.connect(signers.bob).attachEvidence(contributionId, hashEvidence("x"), "logs")
+      ).to.be.revertedWith("Cannot attach evidence");
+      await expect(alice.attachEvidence(contributionId, ethers.ZeroHash, "empty")).to.be.revertedWith(
+        "Invalid evidence hash"
+      );
+      await approve(contributionId);
+
+      const queue = await loadReviewQueue(alice);
+      expect(queue.map((item) => item.contributionId)).to.deep.eq([otherId, contributionId]);
+      const [, item] = queue;
+      expect(item.submitter).to.eq(signers.alice.address);
+      expect(item.trail.map((entry) => entry.kind)).to.deep.eq(["evidence", "assigned", "decided"]);
+      expect(findEvidence(item, report)).to.include({ label: "eval report", attachedBy: signers.alice.address });
+      expect(findEvidence(item, "another report")).to.eq(null);
+
+      const ids = (filter: Parameters<typeof filterReviewQueue>[1]) =>
+        filterReviewQueue(queue, filter, signers.verifier.address).map((entry) => entry.contributionId);
+      expect(ids("awaiting")).to.deep.eq([otherId]);
+      expect(ids("assigned")).to.deep.eq([]);
+      expect(ids("decided")).to.deep.eq([contributionId]);
+      await expect(alice.attachEvidence(contributionId, hashEvidence(report), "late")).to.be.revertedWith(
+        "Review already decided"
+      );
+    });
+  });
+
+  describe("disputes", function () {
+    const commitment = deriveCommitment(ethers.id("disputed secret"), "1");
+    const evidence = hashEvidence("the eval report was run on the training set");
+    let contributionId: bigint;
+
+    async function claim() {
+      const { chainId } = await ethers.provider.getNetwork();
+      const proof = await createClaimProof(commitment, address, chainId, signers.alice.address);
+      return new RoyaltiesClient(address, signers.alice).claimRoyalty(
+        commitment.contributorHash,
+        signers.alice.address,
+        proof
+      );
+    }
+
+    beforeEach(async function () {
+      await contract.connect(signers.deployer).depositRewardPool({ value: POOL });
+      ({ contributionId } = await submit(signers.alice, commitment.contributorHash));
+      await submitOther();
+      await closeEpoch();
+      await calculate(contributionId);
+    });
+
+    it("voids the royalty and refunds the bond when a dispute is upheld", async function () {
+      const outsider = (await ethers.getSigners())[7];
+      const challenger = new RoyaltiesClient(address, signers.bob);
+      await expect(challenger.connect(outsider).openDispute(contributionId, evidence, BOND)).to.be.revertedWith(
+        "Cannot open dispute"
+      );
+      await expect(challenger.connect(signers.alice).openDispute(contributionId, evidence, BOND)).to.be.revertedWith(
+        "Cannot dispute own contribution"
+      );
+      await expect(challenger.openDispute(contributionId, ethers.ZeroHash, BOND)).to.be.revertedWith(
+        "Invalid evidence hash"
+      );
+      await expect(challenger.openDispute(contributionId, evidence, BOND - 1n)).to.be.revertedWith("Wrong bond");
+
+      const { disputeId, receipt } = await challenger.openDispute(contributionId, evidence, BOND);
+      await expect(receipt.hash)
+        .to.emit(contract, "DisputeOpened")
+        .withArgs(disputeId, contributionId, signers.bob.address, evidence, BOND);
+      await expect(challenger.openDispute(contributionId, evidence, BOND)).to.be.revertedWith("Dispute already open");
+      const facts = await loadContributionFacts(challenger, contributionId.toString());
+      expect(chainState(facts)).to.eq("disputed");
+      expect(availableActions("disputed", facts)).to.deep.eq(["reveal"]);
+
+      // An open dispute keeps the royalty frozen after the challenge period
+      await passChallengePeriod();
+      await expect(claim()).to.be.revertedWith("Royalty disputed");
+
+      await closeEpoch();
+      await expect(revealCommitted()).to.be.revertedWith("Royalties still disputable");
+      await expect(contract.resolveDispute(disputeId, true)).to.changeEtherBalance(signers.bob, BOND);
+      const [resolved] = await challenger.queryDisputeResolved(contributionId);
+      expect([resolved.upheld, resolved.resolvedBy]).to.deep.eq([true, signers.deployer.address]);
+      // The voided payment was the only one calculated, so nothing remains committed
+      await revealCommitted();
+      expect((await challenger.getEpochTotals(0)).committed).to.eq(0n);
+      expect(chainState(await loadContributionFacts(challenger, contributionId.toString()))).to.eq("rejected");
+      await expect(claim()).to.be.revertedWith("Royalty voided");
+      const reconciliation = await reconcileEpoch(challenger, 0);
+      expect(reconciliation.issues).to.deep.eq([]);
+      expect(reconciliation.allocations).to.deep.eq([]);
+
+      const history = await loadContributionHistory(challenger, contributionId.toString());
+      expect(history.slice(-2).map((entry) => [entry.state, entry.actor])).to.deep.eq([
+        ["disputed", signers.bob.address],
+        ["rejected", signers.deployer.address],
+      ]);
+    });
+
+    it("lets verifiers dismiss a dispute and adds the bond to the pool", async function () {
+      const other = (await ethers.getSigners())[8];
+      await contract.grantRole(ROLE_IDS.verifier, other.address);
+      const challenger = new RoyaltiesClient(address, signers.bob);
+      const { disputeId } = await challenger.openDispute(contributionId, evidence, BOND);
+      await expect(claim()).to.be.revertedWith("Challenge period running");
+      // The contract holds the bond outside the pool until the dispute is resolved
+      const held = await loadRewardPoolSummary(challenger);
+      expect([held.balance, held.contractBalance, held.disputeBonds]).to.deep.eq([POOL, POOL + BOND, BOND]);
+      expect(held.surplus).to.eq(0n);
+
+      const verifier = challenger.connect(signers.verifier);
+      await expect(challenger.voteOnDispute(disputeId, true)).to.be.revertedWith("Missing role");
+      const [open] = await loadDisputes(verifier);
+      expect(canVote(open, ["verifier"], signers.verifier.address)).to.eq(true);
+      await verifier.voteOnDispute(disputeId, false);
+      await expect(verifier.voteOnDispute(disputeId, false)).to.be.revertedWith("Already voted");
+
+      const poolBefore = await contract.totalRewardPool();
+      // The second vote reaches the quorum and resolves the dispute
+      await expect(verifier.connect(other).voteOnDispute(disputeId, false))
+        .to.emit(contract, "DisputeResolved")
+        .withArgs(disputeId, contributionId, false, other.address);
+      expect(await contract.totalRewardPool()).to.eq(poolBefore + BOND);
+      const dismissed = await loadRewardPoolSummary(challenger);
+      expect([dismissed.balance, dismissed.disputeBonds, dismissed.surplus]).to.deep.eq([POOL + BOND, 0n, 0n]);
+      await expect(contract.resolveDispute(disputeId, true)).to.be.revertedWith("Dispute not open");
+
+      const [item] = await loadDisputes(verifier);
+      expect(item).to.include({ status: "dismissed", contributor: signers.alice.address, dismissVotes: 2n });
+      expect(item.votes.map((vote) => vote.voter)).to.deep.eq([signers.verifier.address, other.address]);
+      expect(item.resolution?.resolvedBy).to.eq(other.address);
+      expect(canVote(item, ["verifier"], signers.verifier.address)).to.eq(false);
+
+      await passChallengePeriod();
+      await expect(challenger.openDispute(contributionId, evidence, BOND)).to.be.revertedWith("Challenge period over");
+      await expect(claim()).not.to.be.reverted;
+    });
+  });
+
+  describe("contribution index", function () {
+    let adapter: UniversalAdapter;
+    let fromBlock: number;
+
+    beforeEach(async function () {
+      adapter = await new UniversalAdapter__factory(signers.deployer).deploy();
+      await adapter.waitForDeployment();
+      fromBlock = await ethers.provider.getBlockNumber();
+    });
+
+    async function store(key: string, signer = signers.deployer) {
+      const receipt = await (await adapter.connect(signer).setData(key, ethers.toUtf8Bytes("{}"))).wait();
+      return receipt!.blockNumber;
+    }
+
+    // Records the block windows queried, and fails every query after the first `failAfter`
+    function watchQueries(failAfter = Infinity) {
+      const windows: number[][] = [];
+      const original = adapter.queryFilter;
+      const queryFilter = original.bind(adapter) as (...args: unknown[]) => Promise<unknown[]>;
+      adapter.queryFilter = ((...args: unknown[]) => {
+        windows.push([Number(args[1]), Number(args[2])]);
+        if (windows.length > failAfter) return Promise.reject(new Error("RPC unavailable"));
+        return queryFilter(...args);
+      }) as typeof original;
+      return { windows, restore: () => (adapter.queryFilter = original) };
+    }
+
+    it("only scans the blocks after the snapshot when syncing again", async function () {
+      const created = await store("contribution_1");
+      await store(LEGACY_KEYS_KEY);
+      await store("profile_alice");
+      const snapshot = await syncContributionIndex(adapter, null, { fromBlock });
+      expect(snapshot.lastBlock).to.eq(await ethers.provider.getBlockNumber());
+      expect(snapshot.entries).to.deep.eq([
+        { id: "1", creator: signers.deployer.address, createdBlock: created, updatedBlock: created },
+      ]);
+
+      const updated = await store("contribution_1", signers.alice);
+      const second = await store("contribution_2", signers.alice);
+      const { windows, restore } = watchQueries();
+      const next = await syncContributionIndex(adapter, snapshot, { chunkSize: 1 });
+      restore();
+      expect(windows[0][0]).to.eq(snapshot.lastBlock + 1);
+      expect(windows.map(([from]) => from)).to.deep.eq([updated, second]);
+      // The first submitter stays the creator
+      expect(next.entries).to.deep.eq([
+        { id: "1", creator: signers.deployer.address, createdBlock: created, updatedBlock: updated },
+        { id: "2", creator: signers.alice.address, createdBlock: second, updatedBlock: second },
+      ]);
+      expect(await syncContributionIndex(adapter, next)).to.deep.eq(next);
+    });
+
+    it("resumes an interrupted sync from the last snapshot it completed", async function () {
+      await store("contribution_1");
+      const snapshot = await syncContributionIndex(adapter, null, { fromBlock });
+      await store("contribution_2");
+      await store("contribution_3", signers.alice);
+
+      // The RPC drops out after the first block window
+      const { restore } = watchQueries(1);
+      await expect(syncContributionIndex(adapter, snapshot, { chunkSize: 1 })).to.be.rejectedWith("RPC unavailable");
+      restore();
+
+      const resumed = await syncContributionIndex(adapter, snapshot, { chunkSize: 1 });
+      expect(resumed.entries.map((entry) => entry.id)).to.deep.eq(["1", "2", "3"]);
+      expect(resumed).to.deep.eq(await syncContributionIndex(adapter, null, { fromBlock }));
+    });
+  });
+
+  describe("batch reads", function () {
+    // Seven stored keys; `contribution_8` is never written
+    const keys = [1, 2, 3, 4, 5, 6, 7].map((i) => `contribution_${i}`);
+    const valueOf = (key: string) => ethers.hexlify(ethers.toUtf8Bytes(`value of ${key}`));
+    let adapter: UniversalAdapter;
+
+    before(async function () {
+      adapter = await new UniversalAdapter__factory(signers.deployer).deploy();
+      await adapter.waitForDeployment();
+      for (const key of keys) {
+        await (await adapter.setData(key, valueOf(key))).wait();
+      }
+    });
+
+    async function readPages(pageKeys: string[], options: PageOptions) {
+      const pages: DataPage[] = [];
+      for await (const page of streamDataPages(adapter, pageKeys, options)) {
+        pages.push(page);
+      }
+      return pages;
+    }
+
+    it("reads every key in order across batch boundaries", async function () {
+      // The hardhat network has no Multicall3, so batches fall back to bounded parallel calls
+      const records = await readDataBatch(adapter, [...keys, "contribution_8"], { batchSize: 3, concurrency: 2 });
+      expect(records).to.deep.eq([
+        ...keys.map((key) => ({ key, value: valueOf(key) })),
+        { key: "contribution_8", value: "0x" },
+      ]);
+    });
+
+    it("stops after a page that ends exactly at the last key", async function () {
+      const pages = await readPages(keys.slice(0, 6), { pageSize: 3, batchSize: 2 });
+      expect(pages.map((page) => page.nextCursor)).to.deep.eq([3, null]);
+      expect(pages.flatMap((page) => page.records.map((record) => record.key))).to.deep.eq(keys.slice(0, 6));
+    });
+
+    it("ends with a partial page and resumes from a cursor", async function () {
+      const pages = await readPages(keys, { pageSize: 3 });
+      expect(pages.map((page) => [page.records.length, page.nextCursor])).to.deep.eq([
+        [3, 3],
+        [3, 6],
+        [1, null],
+      ]);
+      expect(pages[2].records).to.deep.eq([{ key: keys[6], value: valueOf(keys[6]) }]);
+
+      const resumed = await readPages(keys, { pageSize: 3, cursor: pages[0].nextCursor! });
+      expect(resumed).to.deep.eq(pages.slice(1));
+    });
+
+    it("returns a single empty page for an empty range", async function () {
+      expect(await readDataBatch(adapter, [])).to.deep.eq([]);
+      expect(await readPages([], { pageSize: 3 })).to.deep.eq([{ records: [], nextCursor: null }]);
+      expect(await readDataPage(adapter, keys, { pageSize: 3, cursor: keys.length })).to.deep.eq({
+        records: [],
+        nextCursor: null,
+      });
+    });
+  });
+
+  describe("legacy migration", function () {
+    // Form payload of the original frontend, stored base64-encoded in the record's `data` field
+    const legacyPayload = (form: object) => `FHE-${Buffer.from(JSON.stringify(form)).toString("base64")}`;
+
+    async function deployAdapter(records: Record<string, object>) {
+      const adapter = await new UniversalAdapter__factory(signers.deployer).deploy();
+      await adapter.waitForDeployment();
+      for (const [legacyId, record] of Object.entries(records)) {
+        const value = ethers.toUtf8Bytes(JSON.stringify(record));
+        await (await adapter.setData(`contribution_${legacyId}`, value)).wait();
+      }
+      return adapter;
+    }
+
+    it("submits legacy records once and resumes from the mapping", async function () {
+      const adapter = await deployAdapter({
+        "1-payload": { data: legacyPayload({ model: "GPT-4", ...METRICS }), owner: signers.alice.address },
+        "2-plain": { data: legacyPayload({ model: "BERT" }), owner: signers.bob.address, model: "BERT" },
+        "3-native": { fheContributionId: "7", owner: signers.bob.address },
+        "4-ownerless": { ...OTHER_METRICS },
+      });
+      const royalties = new RoyaltiesClient(address, signers.deployer);
+      const map = emptyMigrationMap(await adapter.getAddress(), address, 31337n);
+
+      const dryRun = await migrateLegacyContributions(adapter, royalties, mock.instance, map, { dryRun: true });
+      expect(dryRun.counts).to.include({ planned: 1, existing: 1, skipped: 2 });
+      expect(map.entries).to.deep.eq({});
+
+      const options = { metrics: { "2-plain": OTHER_METRICS }, updateRecords: true };
+      const first = await migrateLegacyContributions(adapter, royalties, mock.instance, map, options);
+      expect(first.counts).to.include({ migrated: 2, existing: 1, skipped: 1, failed: 0 });
+      expect(map.entries["3-native"].contributionId).to.eq("7");
+      expect(map.entries["4-ownerless"].reason).to.match(/no owner/);
+
+      const migrated = map.entries["1-payload"];
+      const stored = await contract.contributions(migrated.contributionId!);
+      expect(stored.contributorHash).to.eq(migratedCommitment(signers.alice.address, "1-payload").contributorHash);
+      expect(stored.modelId).to.eq(modelIdFor("GPT-4"));
+      expect(await hre.fhevm.debugger.decryptEuint(FhevmType.euint64, stored.encryptedScore)).to.eq(SCORE);
+      const record = JSON.parse(ethers.toUtf8String(await adapter.getData("contribution_1-payload")));
+      expect(record).to.include({ fheContributionId: migrated.contributionId, migrated: true });
+
+      // A lost mapping is rebuilt from ContributionRecorded instead of submitting again
+      const lost = emptyMigrationMap(await adapter.getAddress(), address, 31337n);
+      const second = await migrateLegacyContributions(adapter, royalties, mock.instance, lost, options);
+      expect(second.counts).to.include({ migrated: 2, failed: 0 });
+      expect(lost.entries["1-payload"].contributionId).to.eq(migrated.contributionId);
+      expect(await contract.contributionCount()).to.eq(2n);
+    });
+
+    it("does not take over a migrated commitment another account submitted under", async function () {
+      const adapter = await deployAdapter({ legacy: { ...METRICS, owner: signers.alice.address } });
+      const { contributorHash } = migratedCommitment(signers.alice.address, "legacy");
+      await submit(signers.bob, contributorHash);
+
+      const map = emptyMigrationMap(await adapter.getAddress(), address, 31337n);
+      const royalties = new RoyaltiesClient(address, signers.deployer);
+      const report = await migrateLegacyContributions(adapter, royalties, mock.instance, map);
+      expect(report.counts).to.include({ migrated: 0, failed: 1 });
+      expect(map.entries.legacy.reason).to.eq(`Contributor hash is already used by ${signers.bob.address}`);
+      expect(await contract.contributionCount()).to.eq(1n);
+    });
+
+    it("lets the legacy owner claim a migrated contribution with their wallet", async function () {
+      const adapter = await deployAdapter({ legacy: { ...METRICS, owner: signers.alice.address } });
+      const map = emptyMigrationMap(await adapter.getAddress(), address, 31337n);
+      const royalties = new RoyaltiesClient(address, signers.deployer);
+      await migrateLegacyContributions(adapter, royalties, mock.instance, map);
+      const contributionId = BigInt(map.entries.legacy.contributionId!);
+      expect(map.entries.legacy.ownerGranted).to.eq(true);
+      expect(await contract.contributorOf(contributionId)).to.eq(signers.alice.address);
+      const stored = await contract.contributions(contributionId);
+      expect(await mock.isAllowed(stored.encryptedScore, signers.alice.address)).to.eq(true);
+
+      // Another run finds the entry complete and sends nothing
+      const nonce = await ethers.provider.getTransactionCount(signers.deployer.address);
+      await migrateLegacyContributions(adapter, royalties, mock.instance, map);
+      expect(await ethers.provider.getTransactionCount(signers.deployer.address)).to.eq(nonce);
+
+      await contract.connect(signers.deployer).depositRewardPool({ value: POOL });
+      await closeEpoch();
+      await calculate(contributionId);
+      await passChallengePeriod();
+
+      const commitment = { ...migratedCommitment(signers.alice.address, "legacy"), claimKey: signers.alice };
+      const aliceClient = new RoyaltiesClient(address, signers.alice);
+      const revealed = await revealRoyaltyShare(mock.instance, signers.alice, aliceClient, commitment.contributorHash);
+      expect(revealed).to.deep.eq({ share: 10000n, paymentAmount: POOL });
+
+      const { chainId } = await ethers.provider.getNetwork();
+      const proof = await createClaimProof(commitment, address, chainId, signers.bob.address);
+      const { receipt } = await royalties.claimRoyalty(commitment.contributorHash, signers.bob.address, proof);
+      await expect(receipt.hash).to.emit(contract, "RoyaltyClaimRequested");
+
+      const wrongKey = { ...commitment, claimKey: signers.bob };
+      const forged = await createClaimProof(wrongKey, address, chainId, signers.bob.address);
+      await expect(
+        royalties.claimRoyalty(commitment.contributorHash, signers.bob.address, forged)
+      ).to.be.revertedWith("Invalid claim signature");
+    });
+  });
+
+  describe("claimRoyalty", function () {
+    const SECRET = ethers.id("alice's contributor secret");
+    const commitment = deriveCommitment(SECRET, "alice-1");
+    const contributorHash = commitment.contributorHash;
+
+    async function prove(payoutAddress: string, claimCommitment = commitment) {
+      const { chainId } = await ethers.provider.getNetwork();
+      return createClaimProof(claimCommitment, address, chainId, payoutAddress);
+    }
+
+    let otherContributionId: bigint;
+
+    beforeEach(async function () {
+      await contract.connect(signers.deployer).depositRewardPool({ value: POOL });
+      const { contributionId } = await submit(signers.alice, contributorHash);
+      ({ contributionId: otherContributionId } = await submitOther());
+      await closeEpoch();
+      await calculate(contributionId);
+      await passChallengePeriod();
+    });
+
+    it("pays the payout address once the oracle answers and a treasurer approves", async function () {
+      const client = new RoyaltiesClient(address, signers.alice);
+      const payment = EXPECTED_PAYMENT;
+      const { requestId, receipt } = await client.claimRoyalty(
+        contributorHash,
+        signers.bob.address,
+        await prove(signers.bob.address)
+      );
+      await expect(receipt.hash)
+        .to.emit(contract, "RoyaltyClaimRequested")
+        .withArgs(contributorHash, requestId, signers.bob.address, signers.alice.address);
+      expect((await contract.royaltyDistributions(contributorHash)).isClaimed).to.eq(false);
+
+      const balanceBefore = await ethers.provider.getBalance(signers.bob.address);
+      await mock.fulfillDecryptions();
+      const queued = await client.waitForPayoutQueued(requestId, receipt.blockNumber, 1_000);
+      expect([queued.payoutAddress, queued.amount]).to.deep.eq([signers.bob.address, payment]);
+      expect(await ethers.provider.getBalance(signers.bob.address)).to.eq(balanceBefore);
+
+      await releasePayouts();
+      const paid = await client.waitForRoyaltyPaid(requestId, receipt.blockNumber, 1_000);
+      expect(paid.payoutAddress).to.eq(signers.bob.address);
+      expect(paid.amount).to.eq(payment);
+      expect(paid.executor).to.eq(signers.deployer.address);
+      expect(await ethers.provider.getBalance(signers.bob.address)).to.eq(balanceBefore + payment);
+      expect(await contract.totalRewardPool()).to.eq(POOL - payment);
+      expect((await contract.royaltyDistributions(contributorHash)).isClaimed).to.eq(true);
+    });
+
+    it("rejects a second claim", async function () {
+      const client = new RoyaltiesClient(address, signers.alice);
+      const proof = await prove(signers.alice.address);
+      await client.claimRoyalty(contributorHash, signers.alice.address, proof);
+      await mock.fulfillDecryptions();
+      await expect(client.claimRoyalty(contributorHash, signers.alice.address, proof)).to.be.revertedWith(
+        "Payout awaiting approval"
+      );
+
+      await releasePayouts();
+      await expect(client.claimRoyalty(contributorHash, signers.alice.address, proof)).to.be.revertedWith(
+        "Already claimed"
+      );
+    });
+
+    it("moves the payment from unclaimed to paid out in the pool summary", async function () {
+      const client = new RoyaltiesClient(address, signers.alice);
+      const payment = EXPECTED_PAYMENT;
+
+      // The payment stays encrypted, so the whole pool of the epoch may still be owed
+      const before = await loadRewardPoolSummary(client);
+      expect(before.deposited).to.eq(POOL);
+      expect([before.committed, before.unclaimed, before.undisclosed]).to.deep.eq([0n, 0n, POOL]);
+      expect(before.uncommitted).to.eq(0n);
+
+      await client.claimRoyalty(contributorHash, signers.alice.address, await prove(signers.alice.address));
+      await releasePayouts();
+
+      const after = await loadRewardPoolSummary(client);
+      expect(after.balance).to.eq(POOL - payment);
+      expect(after.paidOut).to.eq(payment);
+      expect(after.undisclosed).to.eq(POOL - payment);
+
+      await closeEpoch();
+      await revealCommitted();
+      const revealed = await loadRewardPoolSummary(client);
+      expect([revealed.committed, revealed.unclaimed, revealed.undisclosed]).to.deep.eq([payment, 0n, 0n]);
+      expect(revealed.uncommitted).to.eq(POOL - payment);
+    });
+
+    it("lets any account submit a claim proven with the contributor secret", async function () {
+      // e.g. the contributor on a new device with another wallet
+      const { receipt } = await new RoyaltiesClient(address, signers.deployer).claimRoyalty(
+        contributorHash,
+        signers.alice.address,
+        await prove(signers.alice.address)
+      );
+      await expect(receipt.hash).to.emit(contract, "RoyaltyClaimRequested");
+    });
+
+    it("relays requests after a reverting callback and retries it", async function () {
+      // The relayer answers these requests itself, so they are rolled back before the plugin's oracle sees them
+      const snapshot = await takeSnapshot();
+      try {
+        const client = new RoyaltiesClient(address, signers.alice);
+        const proof = await prove(signers.alice.address);
+        const relayer = new LocalDecryptionRelayer(mock, {
+          fromBlock: (await ethers.provider.getBlockNumber()) + 1,
+          retryDelayMs: 0,
+        });
+        const first = await client.claimRoyalty(contributorHash, signers.alice.address, proof);
+        // Its callback reverts once the first claim queued the payout
+        const second = await client.claimRoyalty(contributorHash, signers.alice.address, proof);
+        await approve(otherContributionId);
+        const verifier = new RoyaltiesClient(address, signers.verifier);
+        const calculation = await verifier.calculateRoyaltyShare(otherContributionId);
+
+        const relayed = await relayer.relayPending();
+        expect(relayed.map((entry) => entry.requestId)).to.deep.eq([
+          first.requestId,
+          second.requestId,
+          calculation.requestId,
+        ]);
+        expect(relayed[0].callbackTransactionHash).to.be.a("string");
+        expect(relayed[1].callbackTransactionHash).to.eq(undefined);
+        expect(relayed[1].error).to.include("Payout awaiting approval");
+        expect(relayed[2].callbackTransactionHash).to.be.a("string");
+        expect((await client.getDecryptedRoyalty(otherContributionId)).isRevealed).to.eq(true);
+
+        // Only the failed request is tried again, until its callback can pass
+        const [again] = await relayer.relayPending();
+        expect([again.requestId, again.error]).to.deep.eq([second.requestId, relayed[1].error]);
+        const admin = new RoyaltiesClient(address, signers.deployer);
+        const [operation] = await loadOperations(admin, true);
+        await admin.cancelOperation(operation.id);
+        const retried = await relayer.relayPending();
+        expect(retried.map((entry) => [entry.requestId, entry.error])).to.deep.eq([[second.requestId, undefined]]);
+        expect(retried[0].attempts).to.eq(3);
+        expect(await loadPayoutApproval(client, contributorHash)).not.to.eq(null);
+        expect(await relayer.relayPending()).to.deep.eq([]);
+      } finally {
+        await snapshot.restore();
+      }
+    });
+
+    it("gives up on a callback that keeps reverting", async function () {
+      // The relayer answers these requests itself, so they are rolled back before the plugin's oracle sees them
+      const snapshot = await takeSnapshot();
+      try {
+        const client = new RoyaltiesClient(address, signers.alice);
+        const proof = await prove(signers.alice.address);
+        const fromBlock = (await ethers.provider.getBlockNumber()) + 1;
+        const relayer = new LocalDecryptionRelayer(mock, { fromBlock, maxAttempts: 3, retryDelayMs: 0 });
+        await client.claimRoyalty(contributorHash, signers.alice.address, proof);
+        // Its callback reverts for as long as the first claim's payout is queued
+        const second = await client.claimRoyalty(contributorHash, signers.alice.address, proof);
+        await relayer.relayPending();
+
+        // Failed callbacks wait for their backoff before they are sent again
+        const backingOff = new LocalDecryptionRelayer(mock, { fromBlock, retryDelayMs: 60_000 });
+        const [failed] = await backingOff.relayPending();
+        expect([failed.requestId, failed.attempts, failed.gaveUp]).to.deep.eq([second.requestId, 1, undefined]);
+        expect(await backingOff.relayPending()).to.deep.eq([]);
+
+        const [retried] = await relayer.relayPending();
+        expect([retried.requestId, retried.attempts, retried.gaveUp]).to.deep.eq([second.requestId, 2, undefined]);
+        const [last] = await relayer.relayPending();
+        expect([last.requestId, last.attempts, last.gaveUp]).to.deep.eq([second.requestId, 3, true]);
+        expect(last.error).to.include("Payout awaiting approval");
+
+        // Later requests are still relayed, the abandoned one is not sent again
+        await approve(otherContributionId);
+        const calculation = await new RoyaltiesClient(address, signers.verifier).calculateRoyaltyShare(
+          otherContributionId
+        );
+        const relayed = await relayer.relayPending();
+        expect(relayed.map((entry) => [entry.requestId, entry.error])).to.deep.eq([[calculation.requestId, undefined]]);
+        expect(await relayer.relayPending()).to.deep.eq([]);
+      } finally {
+        await snapshot.restore();
+      }
+    });
+
+    it("rejects claims without a valid proof", async function () {
+      const client = new RoyaltiesClient(address, signers.bob);
+      const bobsProof = await prove(signers.bob.address);
+
+      // Signed for another payout address
+      await expect(client.claimRoyalty(contributorHash, signers.deployer.address, bobsProof)).to.be.revertedWith(
+        "Invalid claim signature"
+      );
+      // Claim key and salt of another secret
+      const forged = await prove(signers.bob.address, deriveCommitment(ethers.id("bob's secret"), "alice-1"));
+      await expect(client.claimRoyalty(contributorHash, signers.bob.address, forged)).to.be.revertedWith(
+        "Invalid commitment"
+      );
+      await expect(client.claimRoyalty(contributorHash, ethers.ZeroAddress, bobsProof)).to.be.revertedWith(
+        "Invalid payout address"
+      );
+      await expect(client.claimRoyalty(ethers.id("unknown"), signers.bob.address, bobsProof)).to.be.revertedWith(
+        "No royalty calculated"
+      );
+    });
+
+    it("restores the commitments from an exported secret", async function () {
+      const keystore = await exportSecret(SECRET, "correct horse");
+
+      const restored = await importSecret(keystore, "correct horse");
+      expect(restored).to.eq(SECRET);
+      expect(deriveCommitment(restored, "alice-1").contributorHash).to.eq(contributorHash);
+      await expect(importSecret(keystore, "wrong")).to.be.rejected;
+    });
+
+    it("rejects callbacks for unknown request ids", async function () {
+      await expect(
+        contract.connect(signers.bob).processRoyaltyPayment(12345n, "0x", "0x")
+      ).to.be.revertedWith("Invalid request");
+    });
+
+    describe("treasurer approvals", function () {
+      let treasurers: HardhatEthersSigner[];
+
+      // Makes the deployer, bob and a third account treasurers and requires two of them
+      beforeEach(async function () {
+        treasurers = [signers.deployer, signers.bob, (await ethers.getSigners())[7]];
+        const admin = new RoyaltiesClient(address, signers.deployer);
+        await expect(admin.setApprovalThreshold(2)).to.be.revertedWith("Invalid threshold");
+        for (const treasurer of treasurers.slice(1)) {
+          await admin.grantRole(ROLE_IDS.treasurer, treasurer.address);
+        }
+        await admin.setApprovalThreshold(2);
+      });
+
+      it("executes a payout only once the threshold of treasurers approved it", async function () {
+        const client = new RoyaltiesClient(address, signers.alice);
+        await client.claimRoyalty(contributorHash, signers.alice.address, await prove(signers.alice.address));
+        await mock.fulfillDecryptions();
+
+        const pending = await loadPayoutApproval(client, contributorHash);
+        expect(pending?.operation).to.include({ kind: "payout", amount: EXPECTED_PAYMENT, approvals: 0n });
+        const operationId = pending!.operation.id;
+        await expect(client.approveOperation(operationId)).to.be.revertedWith("Missing role");
+
+        await client.connect(treasurers[0]).approveOperation(operationId);
+        await expect(client.connect(treasurers[0]).approveOperation(operationId)).to.be.revertedWith(
+          "Already approved"
+        );
+        await expect(client.executeOperation(operationId)).to.be.revertedWith("Not enough approvals");
+        await client.connect(treasurers[1]).approveOperation(operationId);
+        expect((await loadPayoutApproval(client, contributorHash))?.executable).to.eq(true);
+
+        // Anyone may execute once the approvals are in
+        await expect(client.executeOperation(operationId))
+          .to.emit(contract, "RoyaltyPaid")
+          .withArgs(
+            pending!.operation.requestId,
+            contributorHash,
+            signers.alice.address,
+            EXPECTED_PAYMENT,
+            signers.alice.address
+          );
+        expect(await loadPayoutApproval(client, contributorHash)).to.eq(null);
+        await expect(client.executeOperation(operationId)).to.be.revertedWith("Operation closed");
+      });
+
+      it("stops counting approvals of revoked treasurers", async function () {
+        const admin = new RoyaltiesClient(address, signers.deployer);
+        await admin.claimRoyalty(contributorHash, signers.alice.address, await prove(signers.alice.address));
+        await mock.fulfillDecryptions();
+        const [operation] = await loadOperations(admin, true);
+        await admin.approveOperation(operation.id);
+        await admin.connect(treasurers[1]).approveOperation(operation.id);
+
+        await admin.revokeRole(ROLE_IDS.treasurer, treasurers[1].address);
+        await expect(admin.revokeRole(ROLE_IDS.treasurer, treasurers[2].address)).to.be.revertedWith(
+          "Too few treasurers for the threshold"
+        );
+        expect((await admin.getOperation(operation.id))?.approvals).to.eq(1n);
+        await expect(admin.executeOperation(operation.id)).to.be.revertedWith("Not enough approvals");
+        await admin.connect(treasurers[2]).approveOperation(operation.id);
+        await expect(admin.executeOperation(operation.id)).not.to.be.reverted;
+      });
+
+      it("lets an admin cancel a queued payout so it can be claimed again", async function () {
+        const admin = new RoyaltiesClient(address, signers.deployer);
+        const proof = await prove(signers.alice.address);
+        await admin.claimRoyalty(contributorHash, signers.alice.address, proof);
+        await mock.fulfillDecryptions();
+        const [operation] = await loadOperations(admin, true);
+
+        await expect(admin.connect(signers.bob).cancelOperation(operation.id)).to.be.revertedWith("Missing role");
+        const cancelled = await admin.cancelOperation(operation.id);
+        await expect(admin.approveOperation(operation.id)).to.be.revertedWith("Operation closed");
+        const [cancellation] = await admin.queryOperationCancelled(operation.id, cancelled.blockNumber);
+        expect(cancellation.admin).to.eq(signers.deployer.address);
+        const [threshold] = await admin.queryApprovalThresholdChanged();
+        expect([threshold.threshold, threshold.admin]).to.deep.eq([2n, signers.deployer.address]);
+        const [terms] = await admin.queryDisputeTermsChanged();
+        expect([terms.challengePeriod, terms.bond, terms.quorum]).to.deep.eq([BigInt(CHALLENGE_PERIOD), BOND, 2n]);
+        const { contributionId } = await admin.getRoyaltyDistribution(contributorHash);
+        const facts = async (options = {}) => loadContributionFacts(admin, contributionId.toString(), options);
+        expect(chainState(await facts())).to.eq("claimable");
+        expect(availableActions("claimable", await facts())).to.include("claim");
+
+        await expect(admin.claimRoyalty(contributorHash, signers.alice.address, proof)).not.to.be.reverted;
+        expect(chainState(await facts())).to.eq("claiming");
+        // A claim the oracle never answered, e.g. because its callback reverted, stops blocking a new one
+        expect(chainState(await facts({ claimTimeoutMs: 0 }))).to.eq("claimable");
+        const history = await loadContributionHistory(admin, contributionId.toString());
+        expect(history.slice(-3).map((entry) => [entry.state, entry.actor])).to.deep.eq([
+          ["claiming", signers.deployer.address],
+          ["claimable", signers.deployer.address],
+          ["claiming", signers.deployer.address],
+        ]);
+      });
+
+      it("withdraws uncommitted funds of a settled epoch once approved", async function () {
+        const admin = new RoyaltiesClient(address, signers.deployer);
+        const uncommitted = POOL - EXPECTED_PAYMENT;
+        const recipient = (await ethers.getSigners())[8];
+        await expect(admin.proposeWithdrawal(0, recipient.address, uncommitted)).to.be.revertedWith(
+          "Epoch not settled"
+        );
+        await closeEpoch();
+        await expect(admin.connect(signers.alice).proposeWithdrawal(0, recipient.address, 1n)).to.be.revertedWith(
+          "Missing role"
+        );
+        await expect(admin.proposeWithdrawal(0, recipient.address, 1n)).to.be.revertedWith(
+          "Committed total not revealed"
+        );
+        await revealCommitted();
+        await expect(admin.proposeWithdrawal(0, recipient.address, uncommitted + 1n)).to.be.revertedWith(
+          "Exceeds uncommitted pool"
+        );
+
+        // Proposing counts as the first approval
+        const { operationId } = await admin.proposeWithdrawal(0, recipient.address, uncommitted);
+        expect((await admin.getOperation(operationId))?.approvers).to.deep.eq([signers.deployer.address]);
+        await expect(admin.executeOperation(operationId)).to.be.revertedWith("Not enough approvals");
+        await admin.connect(treasurers[1]).approveOperation(operationId);
+
+        const balanceBefore = await ethers.provider.getBalance(recipient.address);
+        await expect(admin.executeOperation(operationId))
+          .to.emit(contract, "PoolWithdrawn")
+          .withArgs(operationId, 0n, recipient.address, uncommitted);
+        expect(await ethers.provider.getBalance(recipient.address)).to.eq(balanceBefore + uncommitted);
+        expect((await admin.getEpochTotals(0)).rewardPool).to.eq(EXPECTED_PAYMENT);
+        const summary = await loadRewardPoolSummary(admin);
+        expect([summary.withdrawn, summary.balance]).to.deep.eq([uncommitted, EXPECTED_PAYMENT]);
+      });
+    });
+  });
+});
+
+describe("ProviderPool", function () {
+  const servers: { close(): Promise<void> }[] = [];
+
+  // JSON-RPC endpoint answering every call with block 16 after `delayMs`, or with HTTP 500 when `fail` is set
+  async function rpcEndpoint(options: { delayMs?: number; fail?: boolean } = {}) {
+    let requests = 0;
+    const server = createServer((req, res) => {
+      let body = "";
+      req.on("data", (chunk) => (body += chunk));
+      req.on("end", () => {
+        requests += 1;
+        setTimeout(() => {
+          if (options.fail) {
+            res.writeHead(500).end();
+            return;
+          }
+          const payload = JSON.parse(body);
+          const answer = (call: { id: number }) => ({ jsonrpc: "2.0", id: call.id, result: "0x10" });
+          res
+            .writeHead(200, { "content-type": "application/json" })
+            .end(JSON.stringify(Array.isArray(payload) ? payload.map(answer) : answer(payload)));
+        }, options.delayMs ?? 0);
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    servers.push({ close: () => new Promise<void>((resolve) => server.close(() => resolve())) });
+    return { url: `http://127.0.0.1:${(server.address() as AddressInfo).port}`, requests: () => requests };
+  }
+
+  const network = (...rpcUrls: string[]) => ({ name: "local", chainId: 31337, rpcUrls });
+
+  afterEach(async function () {
+    await Promise.all(servers.splice(0).map((server) => server.close()));
+  });
+
+  it("fails over to the next endpoint and skips the failed one while it cools down", async function () {
+    const failing = await rpcEndpoint({ fail: true });
+    const healthy = await rpcEndpoint();
+    const pool = new ProviderPool(network(failing.url, healthy.url), { cooldownMs: 60_000 });
+    try {
+      expect(await pool.run((provider) => provider.getBlockNumber())).to.eq(16);
+      const [failed, used] = pool.health();
+      expect(failed.consecutiveFailures).to.eq(1);
+      expect(failed.cooldownUntil).to.be.greaterThan(Date.now());
+      expect(failed.lastError).to.be.a("string");
+      expect([used.consecutiveFailures, used.lastError]).to.deep.eq([0, null]);
+
+      expect(await pool.provider.getBlockNumber()).to.eq(16);
+      expect([failing.requests(), healthy.requests()]).to.deep.eq([1, 2]);
+    } finally {
+      pool.destroy();
+    }
+  });
+
+  it("routes requests to the fastest endpoint once probed", async function () {
+    const slow = await rpcEndpoint({ delayMs: 200 });
+    const fast = await rpcEndpoint();
+    const pool = new ProviderPool(network(slow.url, fast.url));
+    try {
+      const [probedSlow, probedFast] = await pool.probe();
+      expect(probedSlow.latencyMs).to.be.greaterThan(probedFast.latencyMs!);
+
+      // Sent uncached, unlike the block number the probe just read
+      await pool.run((provider) => provider.send("eth_blockNumber", []));
+      expect([slow.requests(), fast.requests()]).to.deep.eq([1, 2]);
+    } finally {
+      pool.destroy();
+    }
+  });
+
+  it("times out slow endpoints and fails once every endpoint did", async function () {
+    const slow = await rpcEndpoint({ delayMs: 300 });
+    const failing = await rpcEndpoint({ fail: true });
+    const pool = new ProviderPool(network(slow.url, failing.url), { timeoutMs: 50 });
+    try {
+      await expect(pool.run((provider) => provider.getBlockNumber())).to.be.rejectedWith(
+        "All RPC providers failed for local"
+      );
+      const [timedOut, failed] = pool.health();
+      expect(timedOut.lastError).to.eq("RPC timeout after 50ms");
+      expect(failed.consecutiveFailures).to.eq(1);
+      expect(timedOut.score).to.be.lessThan(1);
+    } finally {
+      pool.destroy();
+    }
+  });
+});
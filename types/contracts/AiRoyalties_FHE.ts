@@ -0,0 +1,2612 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type {
+  BaseContract,
+  BigNumberish,
+  BytesLike,
+  FunctionFragment,
+  Result,
+  Interface,
+  EventFragment,
+  AddressLike,
+  ContractRunner,
+  ContractMethod,
+  Listener,
+} from "ethers";
+import type {
+  TypedContractEvent,
+  TypedDeferredTopicFilter,
+  TypedEventLog,
+  TypedLogDescription,
+  TypedListener,
+  TypedContractMethod,
+} from "../common";
+
+export interface AiRoyalties_FHEInterface extends Interface {
+  getFunction(
+    nameOrSignature:
+      | "ADMIN_ROLE"
+      | "CONTRIBUTOR_ROLE"
+      | "DEFAULT_MODEL"
+      | "TREASURER_ROLE"
+      | "VERIFIER_ROLE"
+      | "activeDisputes"
+      | "activeRulesets"
+      | "adminCount"
+      | "approvalCount"
+      | "approvalThreshold"
+      | "approveOperation"
+      | "approversOf"
+      | "assignReviewer"
+      | "attachEvidence"
+      | "calculateRoyaltyShare"
+      | "cancelOperation"
+      | "challengePeriod"
+      | "claimDigest"
+      | "claimRoyalty"
+      | "commitmentOf"
+      | "commitmentOwners"
+      | "contributionCount"
+      | "contributions"
+      | "contributorOf"
+      | "currentEpoch"
+      | "decideReview"
+      | "decryptedRoyalties"
+      | "depositRewardPool"
+      | "disputeBond"
+      | "disputeCount"
+      | "disputeQuorum"
+      | "disputeVotes"
+      | "disputes"
+      | "epochDuration"
+      | "epochPhase"
+      | "epochStart"
+      | "epochs"
+      | "executeOperation"
+      | "genesisTimestamp"
+      | "getDecryptedRoyalty"
+      | "grantRole"
+      | "hasRole"
+      | "openDispute"
+      | "operationApprovals"
+      | "operationCount"
+      | "operations"
+      | "pendingPayouts"
+      | "processCommittedReveal"
+      | "processRoyaltyCalculation"
+      | "processRoyaltyPayment"
+      | "proposeWithdrawal"
+      | "protocolId"
+      | "resolveDispute"
+      | "revealCommitted"
+      | "reviews"
+      | "revokeRole"
+      | "rollOver"
+      | "royaltyDistributions"
+      | "rulesetFor"
+      | "setApprovalThreshold"
+      | "setDisputeTerms"
+      | "setWeightProfile"
+      | "submitEncryptedContribution"
+      | "totalRewardPool"
+      | "transferContribution"
+      | "treasurerCount"
+      | "voteOnDispute"
+      | "weightRulesetCount"
+      | "weightRulesets"
+  ): FunctionFragment;
+
+  getEvent(
+    nameOrSignatureOrTopic:
+      | "ApprovalThresholdChanged"
+      | "CommittedRevealRequested"
+      | "CommittedRevealed"
+      | "ContributionRecorded"
+      | "ContributionTransferred"
+      | "DecryptionFulfilled"
+      | "DisputeOpened"
+      | "DisputeResolved"
+      | "DisputeTermsChanged"
+      | "DisputeVoted"
+      | "EpochRolledOver"
+      | "EvidenceAttached"
+      | "OperationApproved"
+      | "OperationCancelled"
+      | "PayoutQueued"
+      | "PoolWithdrawn"
+      | "ReviewDecided"
+      | "ReviewerAssigned"
+      | "RewardPoolDeposited"
+      | "RoleGranted"
+      | "RoleRevoked"
+      | "RoyaltyCalculationRequested"
+      | "RoyaltyClaimRequested"
+      | "RoyaltyDecrypted"
+      | "RoyaltyPaid"
+      | "WeightRulesetCreated"
+      | "WithdrawalProposed"
+  ): EventFragment;
+
+  encodeFunctionData(
+    functionFragment: "ADMIN_ROLE",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "CONTRIBUTOR_ROLE",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "DEFAULT_MODEL",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "TREASURER_ROLE",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "VERIFIER_ROLE",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "activeDisputes",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "activeRulesets",
+    values: [BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "adminCount",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "approvalCount",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "approvalThreshold",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "approveOperation",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "approversOf",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "assignReviewer",
+    values: [BigNumberish, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "attachEvidence",
+    values: [BigNumberish, BytesLike, string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "calculateRoyaltyShare",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "cancelOperation",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "challengePeriod",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "claimDigest",
+    values: [BytesLike, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "claimRoyalty",
+    values: [BytesLike, AddressLike, AddressLike, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "commitmentOf",
+    values: [AddressLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "commitmentOwners",
+    values: [BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "contributionCount",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "contributions",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "contributorOf",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "currentEpoch",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "decideReview",
+    values: [BigNumberish, boolean, string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "decryptedRoyalties",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "depositRewardPool",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "disputeBond",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "disputeCount",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "disputeQuorum",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "disputeVotes",
+    values: [BigNumberish, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "disputes",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "epochDuration",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "epochPhase",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "epochStart",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "epochs",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "executeOperation",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "genesisTimestamp",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getDecryptedRoyalty",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "grantRole",
+    values: [BytesLike, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "hasRole",
+    values: [BytesLike, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "openDispute",
+    values: [BigNumberish, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "operationApprovals",
+    values: [BigNumberish, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "operationCount",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "operations",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "pendingPayouts",
+    values: [BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "processCommittedReveal",
+    values: [BigNumberish, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "processRoyaltyCalculation",
+    values: [BigNumberish, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "processRoyaltyPayment",
+    values: [BigNumberish, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "proposeWithdrawal",
+    values: [BigNumberish, AddressLike, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "protocolId",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "resolveDispute",
+    values: [BigNumberish, boolean]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "revealCommitted",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "reviews",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "revokeRole",
+    values: [BytesLike, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "rollOver",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "royaltyDistributions",
+    values: [BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "rulesetFor",
+    values: [BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setApprovalThreshold",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setDisputeTerms",
+    values: [BigNumberish, BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setWeightProfile",
+    values: [BytesLike, BigNumberish, BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "submitEncryptedContribution",
+    values: [BytesLike, BytesLike, BytesLike, BytesLike, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "totalRewardPool",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "transferContribution",
+    values: [BigNumberish, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "treasurerCount",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "voteOnDispute",
+    values: [BigNumberish, boolean]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "weightRulesetCount",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "weightRulesets",
+    values: [BigNumberish]
+  ): string;
+
+  decodeFunctionResult(functionFragment: "ADMIN_ROLE", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "CONTRIBUTOR_ROLE",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "DEFAULT_MODEL",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "TREASURER_ROLE",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "VERIFIER_ROLE",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "activeDisputes",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "activeRulesets",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "adminCount", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "approvalCount",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "approvalThreshold",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "approveOperation",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "approversOf",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "assignReviewer",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "attachEvidence",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "calculateRoyaltyShare",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "cancelOperation",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "challengePeriod",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "claimDigest",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "claimRoyalty",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "commitmentOf",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "commitmentOwners",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "contributionCount",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "contributions",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "contributorOf",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "currentEpoch",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "decideReview",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "decryptedRoyalties",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "depositRewardPool",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "disputeBond",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "disputeCount",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "disputeQuorum",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "disputeVotes",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "disputes", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "epochDuration",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "epochPhase", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "epochStart", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "epochs", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "executeOperation",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "genesisTimestamp",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getDecryptedRoyalty",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "grantRole", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "hasRole", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "openDispute",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "operationApprovals",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "operationCount",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "operations", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "pendingPayouts",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "processCommittedReveal",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "processRoyaltyCalculation",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "processRoyaltyPayment",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "proposeWithdrawal",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "protocolId", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "resolveDispute",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "revealCommitted",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "reviews", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "revokeRole", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "rollOver", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "royaltyDistributions",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "rulesetFor", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "setApprovalThreshold",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setDisputeTerms",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setWeightProfile",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "submitEncryptedContribution",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "totalRewardPool",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "transferContribution",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "treasurerCount",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "voteOnDispute",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "weightRulesetCount",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "weightRulesets",
+    data: BytesLike
+  ): Result;
+}
+
+export namespace ApprovalThresholdChangedEvent {
+  export type InputTuple = [threshold: BigNumberish, admin: AddressLike];
+  export type OutputTuple = [threshold: bigint, admin: string];
+  export interface OutputObject {
+    threshold: bigint;
+    admin: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace CommittedRevealRequestedEvent {
+  export type InputTuple = [
+    epoch: BigNumberish,
+    requestId: BigNumberish,
+    requester: AddressLike
+  ];
+  export type OutputTuple = [
+    epoch: bigint,
+    requestId: bigint,
+    requester: string
+  ];
+  export interface OutputObject {
+    epoch: bigint;
+    requestId: bigint;
+    requester: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace CommittedRevealedEvent {
+  export type InputTuple = [epoch: BigNumberish, committed: BigNumberish];
+  export type OutputTuple = [epoch: bigint, committed: bigint];
+  export interface OutputObject {
+    epoch: bigint;
+    committed: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ContributionRecordedEvent {
+  export type InputTuple = [
+    id: BigNumberish,
+    contributorHash: BytesLike,
+    timestamp: BigNumberish
+  ];
+  export type OutputTuple = [
+    id: bigint,
+    contributorHash: string,
+    timestamp: bigint
+  ];
+  export interface OutputObject {
+    id: bigint;
+    contributorHash: string;
+    timestamp: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ContributionTransferredEvent {
+  export type InputTuple = [
+    contributionId: BigNumberish,
+    from: AddressLike,
+    to: AddressLike
+  ];
+  export type OutputTuple = [contributionId: bigint, from: string, to: string];
+  export interface OutputObject {
+    contributionId: bigint;
+    from: string;
+    to: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DecryptionFulfilledEvent {
+  export type InputTuple = [requestID: BigNumberish];
+  export type OutputTuple = [requestID: bigint];
+  export interface OutputObject {
+    requestID: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DisputeOpenedEvent {
+  export type InputTuple = [
+    disputeId: BigNumberish,
+    contributionId: BigNumberish,
+    challenger: AddressLike,
+    evidenceHash: BytesLike,
+    bond: BigNumberish
+  ];
+  export type OutputTuple = [
+    disputeId: bigint,
+    contributionId: bigint,
+    challenger: string,
+    evidenceHash: string,
+    bond: bigint
+  ];
+  export interface OutputObject {
+    disputeId: bigint;
+    contributionId: bigint;
+    challenger: string;
+    evidenceHash: string;
+    bond: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DisputeResolvedEvent {
+  export type InputTuple = [
+    disputeId: BigNumberish,
+    contributionId: BigNumberish,
+    upheld: boolean,
+    resolvedBy: AddressLike
+  ];
+  export type OutputTuple = [
+    disputeId: bigint,
+    contributionId: bigint,
+    upheld: boolean,
+    resolvedBy: string
+  ];
+  export interface OutputObject {
+    disputeId: bigint;
+    contributionId: bigint;
+    upheld: boolean;
+    resolvedBy: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DisputeTermsChangedEvent {
+  export type InputTuple = [
+    challengePeriod: BigNumberish,
+    bond: BigNumberish,
+    quorum: BigNumberish,
+    admin: AddressLike
+  ];
+  export type OutputTuple = [
+    challengePeriod: bigint,
+    bond: bigint,
+    quorum: bigint,
+    admin: string
+  ];
+  export interface OutputObject {
+    challengePeriod: bigint;
+    bond: bigint;
+    quorum: bigint;
+    admin: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DisputeVotedEvent {
+  export type InputTuple = [
+    disputeId: BigNumberish,
+    voter: AddressLike,
+    uphold: boolean
+  ];
+  export type OutputTuple = [disputeId: bigint, voter: string, uphold: boolean];
+  export interface OutputObject {
+    disputeId: bigint;
+    voter: string;
+    uphold: boolean;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace EpochRolledOverEvent {
+  export type InputTuple = [
+    fromEpoch: BigNumberish,
+    toEpoch: BigNumberish,
+    amount: BigNumberish
+  ];
+  export type OutputTuple = [
+    fromEpoch: bigint,
+    toEpoch: bigint,
+    amount: bigint
+  ];
+  export interface OutputObject {
+    fromEpoch: bigint;
+    toEpoch: bigint;
+    amount: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace EvidenceAttachedEvent {
+  export type InputTuple = [
+    contributionId: BigNumberish,
+    contentHash: BytesLike,
+    label: string,
+    attachedBy: AddressLike
+  ];
+  export type OutputTuple = [
+    contributionId: bigint,
+    contentHash: string,
+    label: string,
+    attachedBy: string
+  ];
+  export interface OutputObject {
+    contributionId: bigint;
+    contentHash: string;
+    label: string;
+    attachedBy: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace OperationApprovedEvent {
+  export type InputTuple = [
+    operationId: BigNumberish,
+    treasurer: AddressLike,
+    approvals: BigNumberish
+  ];
+  export type OutputTuple = [
+    operationId: bigint,
+    treasurer: string,
+    approvals: bigint
+  ];
+  export interface OutputObject {
+    operationId: bigint;
+    treasurer: string;
+    approvals: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace OperationCancelledEvent {
+  export type InputTuple = [operationId: BigNumberish, admin: AddressLike];
+  export type OutputTuple = [operationId: bigint, admin: string];
+  export interface OutputObject {
+    operationId: bigint;
+    admin: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace PayoutQueuedEvent {
+  export type InputTuple = [
+    requestId: BigNumberish,
+    operationId: BigNumberish,
+    contributorHash: BytesLike,
+    payoutAddress: AddressLike,
+    amount: BigNumberish
+  ];
+  export type OutputTuple = [
+    requestId: bigint,
+    operationId: bigint,
+    contributorHash: string,
+    payoutAddress: string,
+    amount: bigint
+  ];
+  export interface OutputObject {
+    requestId: bigint;
+    operationId: bigint;
+    contributorHash: string;
+    payoutAddress: string;
+    amount: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace PoolWithdrawnEvent {
+  export type InputTuple = [
+    operationId: BigNumberish,
+    epoch: BigNumberish,
+    recipient: AddressLike,
+    amount: BigNumberish
+  ];
+  export type OutputTuple = [
+    operationId: bigint,
+    epoch: bigint,
+    recipient: string,
+    amount: bigint
+  ];
+  export interface OutputObject {
+    operationId: bigint;
+    epoch: bigint;
+    recipient: string;
+    amount: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ReviewDecidedEvent {
+  export type InputTuple = [
+    contributionId: BigNumberish,
+    reviewer: AddressLike,
+    approved: boolean,
+    reason: string
+  ];
+  export type OutputTuple = [
+    contributionId: bigint,
+    reviewer: string,
+    approved: boolean,
+    reason: string
+  ];
+  export interface OutputObject {
+    contributionId: bigint;
+    reviewer: string;
+    approved: boolean;
+    reason: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ReviewerAssignedEvent {
+  export type InputTuple = [
+    contributionId: BigNumberish,
+    reviewer: AddressLike,
+    assignedBy: AddressLike
+  ];
+  export type OutputTuple = [
+    contributionId: bigint,
+    reviewer: string,
+    assignedBy: string
+  ];
+  export interface OutputObject {
+    contributionId: bigint;
+    reviewer: string;
+    assignedBy: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace RewardPoolDepositedEvent {
+  export type InputTuple = [
+    sponsor: AddressLike,
+    epoch: BigNumberish,
+    amount: BigNumberish
+  ];
+  export type OutputTuple = [sponsor: string, epoch: bigint, amount: bigint];
+  export interface OutputObject {
+    sponsor: string;
+    epoch: bigint;
+    amount: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace RoleGrantedEvent {
+  export type InputTuple = [
+    role: BytesLike,
+    account: AddressLike,
+    sender: AddressLike
+  ];
+  export type OutputTuple = [role: string, account: string, sender: string];
+  export interface OutputObject {
+    role: string;
+    account: string;
+    sender: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace RoleRevokedEvent {
+  export type InputTuple = [
+    role: BytesLike,
+    account: AddressLike,
+    sender: AddressLike
+  ];
+  export type OutputTuple = [role: string, account: string, sender: string];
+  export interface OutputObject {
+    role: string;
+    account: string;
+    sender: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace RoyaltyCalculationRequestedEvent {
+  export type InputTuple = [
+    contributionId: BigNumberish,
+    requestId: BigNumberish,
+    verifier: AddressLike
+  ];
+  export type OutputTuple = [
+    contributionId: bigint,
+    requestId: bigint,
+    verifier: string
+  ];
+  export interface OutputObject {
+    contributionId: bigint;
+    requestId: bigint;
+    verifier: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace RoyaltyClaimRequestedEvent {
+  export type InputTuple = [
+    contributorHash: BytesLike,
+    requestId: BigNumberish,
+    payoutAddress: AddressLike,
+    submitter: AddressLike
+  ];
+  export type OutputTuple = [
+    contributorHash: string,
+    requestId: bigint,
+    payoutAddress: string,
+    submitter: string
+  ];
+  export interface OutputObject {
+    contributorHash: string;
+    requestId: bigint;
+    payoutAddress: string;
+    submitter: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace RoyaltyDecryptedEvent {
+  export type InputTuple = [contributionId: BigNumberish];
+  export type OutputTuple = [contributionId: bigint];
+  export interface OutputObject {
+    contributionId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace RoyaltyPaidEvent {
+  export type InputTuple = [
+    requestId: BigNumberish,
+    contributorHash: BytesLike,
+    payoutAddress: AddressLike,
+    amount: BigNumberish,
+    executor: AddressLike
+  ];
+  export type OutputTuple = [
+    requestId: bigint,
+    contributorHash: string,
+    payoutAddress: string,
+    amount: bigint,
+    executor: string
+  ];
+  export interface OutputObject {
+    requestId: bigint;
+    contributorHash: string;
+    payoutAddress: string;
+    amount: bigint;
+    executor: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace WeightRulesetCreatedEvent {
+  export type InputTuple = [
+    rulesetId: BigNumberish,
+    modelId: BytesLike,
+    computeWeight: BigNumberish,
+    qualityWeight: BigNumberish,
+    impactWeight: BigNumberish
+  ];
+  export type OutputTuple = [
+    rulesetId: bigint,
+    modelId: string,
+    computeWeight: bigint,
+    qualityWeight: bigint,
+    impactWeight: bigint
+  ];
+  export interface OutputObject {
+    rulesetId: bigint;
+    modelId: string;
+    computeWeight: bigint;
+    qualityWeight: bigint;
+    impactWeight: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace WithdrawalProposedEvent {
+  export type InputTuple = [
+    operationId: BigNumberish,
+    epoch: BigNumberish,
+    recipient: AddressLike,
+    amount: BigNumberish,
+    proposer: AddressLike
+  ];
+  export type OutputTuple = [
+    operationId: bigint,
+    epoch: bigint,
+    recipient: string,
+    amount: bigint,
+    proposer: string
+  ];
+  export interface OutputObject {
+    operationId: bigint;
+    epoch: bigint;
+    recipient: string;
+    amount: bigint;
+    proposer: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export interface AiRoyalties_FHE extends BaseContract {
+  connect(runner?: ContractRunner | null): AiRoyalties_FHE;
+  waitForDeployment(): Promise<this>;
+
+  interface: AiRoyalties_FHEInterface;
+
+  queryFilter<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+  queryFilter<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+
+  on<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  on<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  once<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  once<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  listeners<TCEvent extends TypedContractEvent>(
+    event: TCEvent
+  ): Promise<Array<TypedListener<TCEvent>>>;
+  listeners(eventName?: string): Promise<Array<Listener>>;
+  removeAllListeners<TCEvent extends TypedContractEvent>(
+    event?: TCEvent
+  ): Promise<this>;
+
+  ADMIN_ROLE: TypedContractMethod<[], [string], "view">;
+
+  CONTRIBUTOR_ROLE: TypedContractMethod<[], [string], "view">;
+
+  DEFAULT_MODEL: TypedContractMethod<[], [string], "view">;
+
+  TREASURER_ROLE: TypedContractMethod<[], [string], "view">;
+
+  VERIFIER_ROLE: TypedContractMethod<[], [string], "view">;
+
+  activeDisputes: TypedContractMethod<[arg0: BigNumberish], [bigint], "view">;
+
+  activeRulesets: TypedContractMethod<[arg0: BytesLike], [bigint], "view">;
+
+  adminCount: TypedContractMethod<[], [bigint], "view">;
+
+  approvalCount: TypedContractMethod<
+    [operationId: BigNumberish],
+    [bigint],
+    "view"
+  >;
+
+  approvalThreshold: TypedContractMethod<[], [bigint], "view">;
+
+  approveOperation: TypedContractMethod<
+    [operationId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  approversOf: TypedContractMethod<
+    [operationId: BigNumberish],
+    [string[]],
+    "view"
+  >;
+
+  assignReviewer: TypedContractMethod<
+    [contributionId: BigNumberish, reviewer: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  attachEvidence: TypedContractMethod<
+    [contributionId: BigNumberish, contentHash: BytesLike, label: string],
+    [void],
+    "nonpayable"
+  >;
+
+  calculateRoyaltyShare: TypedContractMethod<
+    [contributionId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  cancelOperation: TypedContractMethod<
+    [operationId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  challengePeriod: TypedContractMethod<[], [bigint], "view">;
+
+  claimDigest: TypedContractMethod<
+    [contributorHash: BytesLike, payoutAddress: AddressLike],
+    [string],
+    "view"
+  >;
+
+  claimRoyalty: TypedContractMethod<
+    [
+      contributorHash: BytesLike,
+      payoutAddress: AddressLike,
+      claimer: AddressLike,
+      salt: BytesLike,
+      signature: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  commitmentOf: TypedContractMethod<
+    [claimer: AddressLike, salt: BytesLike],
+    [string],
+    "view"
+  >;
+
+  commitmentOwners: TypedContractMethod<[arg0: BytesLike], [string], "view">;
+
+  contributionCount: TypedContractMethod<[], [bigint], "view">;
+
+  contributions: TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [
+        bigint,
+        string,
+        string,
+        string,
+        bigint,
+        string,
+        bigint,
+        string,
+        string,
+        bigint
+      ] & {
+        id: bigint;
+        encryptedComputeHours: string;
+        encryptedDataQuality: string;
+        encryptedModelImpact: string;
+        timestamp: bigint;
+        contributorHash: string;
+        epoch: bigint;
+        encryptedScore: string;
+        modelId: string;
+        rulesetId: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  contributorOf: TypedContractMethod<
+    [contributionId: BigNumberish],
+    [string],
+    "view"
+  >;
+
+  currentEpoch: TypedContractMethod<[], [bigint], "view">;
+
+  decideReview: TypedContractMethod<
+    [contributionId: BigNumberish, approved: boolean, reason: string],
+    [void],
+    "nonpayable"
+  >;
+
+  decryptedRoyalties: TypedContractMethod<
+    [arg0: BigNumberish],
+    [[boolean, bigint] & { isRevealed: boolean; rulesetId: bigint }],
+    "view"
+  >;
+
+  depositRewardPool: TypedContractMethod<[], [void], "payable">;
+
+  disputeBond: TypedContractMethod<[], [bigint], "view">;
+
+  disputeCount: TypedContractMethod<[], [bigint], "view">;
+
+  disputeQuorum: TypedContractMethod<[], [bigint], "view">;
+
+  disputeVotes: TypedContractMethod<
+    [arg0: BigNumberish, arg1: AddressLike],
+    [boolean],
+    "view"
+  >;
+
+  disputes: TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, string, bigint, string, bigint, bigint, bigint, bigint] & {
+        contributionId: bigint;
+        challenger: string;
+        bond: bigint;
+        evidenceHash: string;
+        status: bigint;
+        openedAt: bigint;
+        upholdVotes: bigint;
+        dismissVotes: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  epochDuration: TypedContractMethod<[], [bigint], "view">;
+
+  epochPhase: TypedContractMethod<[epoch: BigNumberish], [bigint], "view">;
+
+  epochStart: TypedContractMethod<[epoch: BigNumberish], [bigint], "view">;
+
+  epochs: TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [
+        bigint,
+        bigint,
+        bigint,
+        bigint,
+        string,
+        bigint,
+        string,
+        bigint,
+        bigint,
+        boolean,
+        boolean
+      ] & {
+        rewardPool: bigint;
+        committed: bigint;
+        paid: bigint;
+        contributionCount: bigint;
+        encryptedScoreTotal: string;
+        scoreTotal: bigint;
+        encryptedCommitted: string;
+        challengesEndAt: bigint;
+        openDisputes: bigint;
+        committedRevealed: boolean;
+        revealRequested: boolean;
+      }
+    ],
+    "view"
+  >;
+
+  executeOperation: TypedContractMethod<
+    [operationId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  genesisTimestamp: TypedContractMethod<[], [bigint], "view">;
+
+  getDecryptedRoyalty: TypedContractMethod<
+    [contributionId: BigNumberish],
+    [[boolean, bigint] & { isRevealed: boolean; rulesetId: bigint }],
+    "view"
+  >;
+
+  grantRole: TypedContractMethod<
+    [role: BytesLike, account: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  hasRole: TypedContractMethod<
+    [role: BytesLike, account: AddressLike],
+    [boolean],
+    "view"
+  >;
+
+  openDispute: TypedContractMethod<
+    [contributionId: BigNumberish, evidenceHash: BytesLike],
+    [bigint],
+    "payable"
+  >;
+
+  operationApprovals: TypedContractMethod<
+    [arg0: BigNumberish, arg1: AddressLike],
+    [boolean],
+    "view"
+  >;
+
+  operationCount: TypedContractMethod<[], [bigint], "view">;
+
+  operations: TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, bigint, string, bigint, bigint, string, bigint] & {
+        kind: bigint;
+        status: bigint;
+        recipient: string;
+        amount: bigint;
+        epoch: bigint;
+        contributorHash: string;
+        requestId: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  pendingPayouts: TypedContractMethod<[arg0: BytesLike], [bigint], "view">;
+
+  processCommittedReveal: TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  processRoyaltyCalculation: TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  processRoyaltyPayment: TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  proposeWithdrawal: TypedContractMethod<
+    [epoch: BigNumberish, recipient: AddressLike, amount: BigNumberish],
+    [bigint],
+    "nonpayable"
+  >;
+
+  protocolId: TypedContractMethod<[], [bigint], "view">;
+
+  resolveDispute: TypedContractMethod<
+    [disputeId: BigNumberish, uphold: boolean],
+    [void],
+    "nonpayable"
+  >;
+
+  revealCommitted: TypedContractMethod<
+    [epoch: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  reviews: TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, string, bigint, bigint] & {
+        status: bigint;
+        reviewer: string;
+        evidenceCount: bigint;
+        decidedAt: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  revokeRole: TypedContractMethod<
+    [role: BytesLike, account: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  rollOver: TypedContractMethod<[epoch: BigNumberish], [void], "nonpayable">;
+
+  royaltyDistributions: TypedContractMethod<
+    [arg0: BytesLike],
+    [
+      [string, string, boolean, bigint, bigint, bigint, boolean] & {
+        encryptedShare: string;
+        encryptedPaymentAmount: string;
+        isClaimed: boolean;
+        epoch: bigint;
+        contributionId: bigint;
+        challengeEndsAt: bigint;
+        isVoided: boolean;
+      }
+    ],
+    "view"
+  >;
+
+  rulesetFor: TypedContractMethod<[modelId: BytesLike], [bigint], "view">;
+
+  setApprovalThreshold: TypedContractMethod<
+    [threshold: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  setDisputeTerms: TypedContractMethod<
+    [period: BigNumberish, bond: BigNumberish, quorum: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  setWeightProfile: TypedContractMethod<
+    [
+      modelId: BytesLike,
+      computeWeight: BigNumberish,
+      qualityWeight: BigNumberish,
+      impactWeight: BigNumberish
+    ],
+    [bigint],
+    "nonpayable"
+  >;
+
+  submitEncryptedContribution: TypedContractMethod<
+    [
+      computeHours: BytesLike,
+      dataQuality: BytesLike,
+      modelImpact: BytesLike,
+      inputProof: BytesLike,
+      contributorHash: BytesLike,
+      modelId: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  totalRewardPool: TypedContractMethod<[], [bigint], "view">;
+
+  transferContribution: TypedContractMethod<
+    [contributionId: BigNumberish, to: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  treasurerCount: TypedContractMethod<[], [bigint], "view">;
+
+  voteOnDispute: TypedContractMethod<
+    [disputeId: BigNumberish, uphold: boolean],
+    [void],
+    "nonpayable"
+  >;
+
+  weightRulesetCount: TypedContractMethod<[], [bigint], "view">;
+
+  weightRulesets: TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [string, bigint, bigint, bigint, bigint] & {
+        modelId: string;
+        computeWeight: bigint;
+        qualityWeight: bigint;
+        impactWeight: bigint;
+        createdAt: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  getFunction<T extends ContractMethod = ContractMethod>(
+    key: string | FunctionFragment
+  ): T;
+
+  getFunction(
+    nameOrSignature: "ADMIN_ROLE"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "CONTRIBUTOR_ROLE"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "DEFAULT_MODEL"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "TREASURER_ROLE"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "VERIFIER_ROLE"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "activeDisputes"
+  ): TypedContractMethod<[arg0: BigNumberish], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "activeRulesets"
+  ): TypedContractMethod<[arg0: BytesLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "adminCount"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "approvalCount"
+  ): TypedContractMethod<[operationId: BigNumberish], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "approvalThreshold"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "approveOperation"
+  ): TypedContractMethod<[operationId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "approversOf"
+  ): TypedContractMethod<[operationId: BigNumberish], [string[]], "view">;
+  getFunction(
+    nameOrSignature: "assignReviewer"
+  ): TypedContractMethod<
+    [contributionId: BigNumberish, reviewer: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "attachEvidence"
+  ): TypedContractMethod<
+    [contributionId: BigNumberish, contentHash: BytesLike, label: string],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "calculateRoyaltyShare"
+  ): TypedContractMethod<[contributionId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "cancelOperation"
+  ): TypedContractMethod<[operationId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "challengePeriod"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "claimDigest"
+  ): TypedContractMethod<
+    [contributorHash: BytesLike, payoutAddress: AddressLike],
+    [string],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "claimRoyalty"
+  ): TypedContractMethod<
+    [
+      contributorHash: BytesLike,
+      payoutAddress: AddressLike,
+      claimer: AddressLike,
+      salt: BytesLike,
+      signature: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "commitmentOf"
+  ): TypedContractMethod<
+    [claimer: AddressLike, salt: BytesLike],
+    [string],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "commitmentOwners"
+  ): TypedContractMethod<[arg0: BytesLike], [string], "view">;
+  getFunction(
+    nameOrSignature: "contributionCount"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "contributions"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [
+        bigint,
+        string,
+        string,
+        string,
+        bigint,
+        string,
+        bigint,
+        string,
+        string,
+        bigint
+      ] & {
+        id: bigint;
+        encryptedComputeHours: string;
+        encryptedDataQuality: string;
+        encryptedModelImpact: string;
+        timestamp: bigint;
+        contributorHash: string;
+        epoch: bigint;
+        encryptedScore: string;
+        modelId: string;
+        rulesetId: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "contributorOf"
+  ): TypedContractMethod<[contributionId: BigNumberish], [string], "view">;
+  getFunction(
+    nameOrSignature: "currentEpoch"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "decideReview"
+  ): TypedContractMethod<
+    [contributionId: BigNumberish, approved: boolean, reason: string],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "decryptedRoyalties"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [[boolean, bigint] & { isRevealed: boolean; rulesetId: bigint }],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "depositRewardPool"
+  ): TypedContractMethod<[], [void], "payable">;
+  getFunction(
+    nameOrSignature: "disputeBond"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "disputeCount"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "disputeQuorum"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "disputeVotes"
+  ): TypedContractMethod<
+    [arg0: BigNumberish, arg1: AddressLike],
+    [boolean],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "disputes"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, string, bigint, string, bigint, bigint, bigint, bigint] & {
+        contributionId: bigint;
+        challenger: string;
+        bond: bigint;
+        evidenceHash: string;
+        status: bigint;
+        openedAt: bigint;
+        upholdVotes: bigint;
+        dismissVotes: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "epochDuration"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "epochPhase"
+  ): TypedContractMethod<[epoch: BigNumberish], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "epochStart"
+  ): TypedContractMethod<[epoch: BigNumberish], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "epochs"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [
+        bigint,
+        bigint,
+        bigint,
+        bigint,
+        string,
+        bigint,
+        string,
+        bigint,
+        bigint,
+        boolean,
+        boolean
+      ] & {
+        rewardPool: bigint;
+        committed: bigint;
+        paid: bigint;
+        contributionCount: bigint;
+        encryptedScoreTotal: string;
+        scoreTotal: bigint;
+        encryptedCommitted: string;
+        challengesEndAt: bigint;
+        openDisputes: bigint;
+        committedRevealed: boolean;
+        revealRequested: boolean;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "executeOperation"
+  ): TypedContractMethod<[operationId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "genesisTimestamp"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "getDecryptedRoyalty"
+  ): TypedContractMethod<
+    [contributionId: BigNumberish],
+    [[boolean, bigint] & { isRevealed: boolean; rulesetId: bigint }],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "grantRole"
+  ): TypedContractMethod<
+    [role: BytesLike, account: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "hasRole"
+  ): TypedContractMethod<
+    [role: BytesLike, account: AddressLike],
+    [boolean],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "openDispute"
+  ): TypedContractMethod<
+    [contributionId: BigNumberish, evidenceHash: BytesLike],
+    [bigint],
+    "payable"
+  >;
+  getFunction(
+    nameOrSignature: "operationApprovals"
+  ): TypedContractMethod<
+    [arg0: BigNumberish, arg1: AddressLike],
+    [boolean],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "operationCount"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "operations"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, bigint, string, bigint, bigint, string, bigint] & {
+        kind: bigint;
+        status: bigint;
+        recipient: string;
+        amount: bigint;
+        epoch: bigint;
+        contributorHash: string;
+        requestId: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "pendingPayouts"
+  ): TypedContractMethod<[arg0: BytesLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "processCommittedReveal"
+  ): TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "processRoyaltyCalculation"
+  ): TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "processRoyaltyPayment"
+  ): TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "proposeWithdrawal"
+  ): TypedContractMethod<
+    [epoch: BigNumberish, recipient: AddressLike, amount: BigNumberish],
+    [bigint],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "protocolId"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "resolveDispute"
+  ): TypedContractMethod<
+    [disputeId: BigNumberish, uphold: boolean],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "revealCommitted"
+  ): TypedContractMethod<[epoch: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "reviews"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, string, bigint, bigint] & {
+        status: bigint;
+        reviewer: string;
+        evidenceCount: bigint;
+        decidedAt: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "revokeRole"
+  ): TypedContractMethod<
+    [role: BytesLike, account: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "rollOver"
+  ): TypedContractMethod<[epoch: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "royaltyDistributions"
+  ): TypedContractMethod<
+    [arg0: BytesLike],
+    [
+      [string, string, boolean, bigint, bigint, bigint, boolean] & {
+        encryptedShare: string;
+        encryptedPaymentAmount: string;
+        isClaimed: boolean;
+        epoch: bigint;
+        contributionId: bigint;
+        challengeEndsAt: bigint;
+        isVoided: boolean;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "rulesetFor"
+  ): TypedContractMethod<[modelId: BytesLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "setApprovalThreshold"
+  ): TypedContractMethod<[threshold: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "setDisputeTerms"
+  ): TypedContractMethod<
+    [period: BigNumberish, bond: BigNumberish, quorum: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "setWeightProfile"
+  ): TypedContractMethod<
+    [
+      modelId: BytesLike,
+      computeWeight: BigNumberish,
+      qualityWeight: BigNumberish,
+      impactWeight: BigNumberish
+    ],
+    [bigint],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "submitEncryptedContribution"
+  ): TypedContractMethod<
+    [
+      computeHours: BytesLike,
+      dataQuality: BytesLike,
+      modelImpact: BytesLike,
+      inputProof: BytesLike,
+      contributorHash: BytesLike,
+      modelId: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "totalRewardPool"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "transferContribution"
+  ): TypedContractMethod<
+    [contributionId: BigNumberish, to: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "treasurerCount"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "voteOnDispute"
+  ): TypedContractMethod<
+    [disputeId: BigNumberish, uphold: boolean],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "weightRulesetCount"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "weightRulesets"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [string, bigint, bigint, bigint, bigint] & {
+        modelId: string;
+        computeWeight: bigint;
+        qualityWeight: bigint;
+        impactWeight: bigint;
+        createdAt: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  getEvent(
+    key: "ApprovalThresholdChanged"
+  ): TypedContractEvent<
+    ApprovalThresholdChangedEvent.InputTuple,
+    ApprovalThresholdChangedEvent.OutputTuple,
+    ApprovalThresholdChangedEvent.OutputObject
+  >;
+  getEvent(
+    key: "CommittedRevealRequested"
+  ): TypedContractEvent<
+    CommittedRevealRequestedEvent.InputTuple,
+    CommittedRevealRequestedEvent.OutputTuple,
+    CommittedRevealRequestedEvent.OutputObject
+  >;
+  getEvent(
+    key: "CommittedRevealed"
+  ): TypedContractEvent<
+    CommittedRevealedEvent.InputTuple,
+    CommittedRevealedEvent.OutputTuple,
+    CommittedRevealedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ContributionRecorded"
+  ): TypedContractEvent<
+    ContributionRecordedEvent.InputTuple,
+    ContributionRecordedEvent.OutputTuple,
+    ContributionRecordedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ContributionTransferred"
+  ): TypedContractEvent<
+    ContributionTransferredEvent.InputTuple,
+    ContributionTransferredEvent.OutputTuple,
+    ContributionTransferredEvent.OutputObject
+  >;
+  getEvent(
+    key: "DecryptionFulfilled"
+  ): TypedContractEvent<
+    DecryptionFulfilledEvent.InputTuple,
+    DecryptionFulfilledEvent.OutputTuple,
+    DecryptionFulfilledEvent.OutputObject
+  >;
+  getEvent(
+    key: "DisputeOpened"
+  ): TypedContractEvent<
+    DisputeOpenedEvent.InputTuple,
+    DisputeOpenedEvent.OutputTuple,
+    DisputeOpenedEvent.OutputObject
+  >;
+  getEvent(
+    key: "DisputeResolved"
+  ): TypedContractEvent<
+    DisputeResolvedEvent.InputTuple,
+    DisputeResolvedEvent.OutputTuple,
+    DisputeResolvedEvent.OutputObject
+  >;
+  getEvent(
+    key: "DisputeTermsChanged"
+  ): TypedContractEvent<
+    DisputeTermsChangedEvent.InputTuple,
+    DisputeTermsChangedEvent.OutputTuple,
+    DisputeTermsChangedEvent.OutputObject
+  >;
+  getEvent(
+    key: "DisputeVoted"
+  ): TypedContractEvent<
+    DisputeVotedEvent.InputTuple,
+    DisputeVotedEvent.OutputTuple,
+    DisputeVotedEvent.OutputObject
+  >;
+  getEvent(
+    key: "EpochRolledOver"
+  ): TypedContractEvent<
+    EpochRolledOverEvent.InputTuple,
+    EpochRolledOverEvent.OutputTuple,
+    EpochRolledOverEvent.OutputObject
+  >;
+  getEvent(
+    key: "EvidenceAttached"
+  ): TypedContractEvent<
+    EvidenceAttachedEvent.InputTuple,
+    EvidenceAttachedEvent.OutputTuple,
+    EvidenceAttachedEvent.OutputObject
+  >;
+  getEvent(
+    key: "OperationApproved"
+  ): TypedContractEvent<
+    OperationApprovedEvent.InputTuple,
+    OperationApprovedEvent.OutputTuple,
+    OperationApprovedEvent.OutputObject
+  >;
+  getEvent(
+    key: "OperationCancelled"
+  ): TypedContractEvent<
+    OperationCancelledEvent.InputTuple,
+    OperationCancelledEvent.OutputTuple,
+    OperationCancelledEvent.OutputObject
+  >;
+  getEvent(
+    key: "PayoutQueued"
+  ): TypedContractEvent<
+    PayoutQueuedEvent.InputTuple,
+    PayoutQueuedEvent.OutputTuple,
+    PayoutQueuedEvent.OutputObject
+  >;
+  getEvent(
+    key: "PoolWithdrawn"
+  ): TypedContractEvent<
+    PoolWithdrawnEvent.InputTuple,
+    PoolWithdrawnEvent.OutputTuple,
+    PoolWithdrawnEvent.OutputObject
+  >;
+  getEvent(
+    key: "ReviewDecided"
+  ): TypedContractEvent<
+    ReviewDecidedEvent.InputTuple,
+    ReviewDecidedEvent.OutputTuple,
+    ReviewDecidedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ReviewerAssigned"
+  ): TypedContractEvent<
+    ReviewerAssignedEvent.InputTuple,
+    ReviewerAssignedEvent.OutputTuple,
+    ReviewerAssignedEvent.OutputObject
+  >;
+  getEvent(
+    key: "RewardPoolDeposited"
+  ): TypedContractEvent<
+    RewardPoolDepositedEvent.InputTuple,
+    RewardPoolDepositedEvent.OutputTuple,
+    RewardPoolDepositedEvent.OutputObject
+  >;
+  getEvent(
+    key: "RoleGranted"
+  ): TypedContractEvent<
+    RoleGrantedEvent.InputTuple,
+    RoleGrantedEvent.OutputTuple,
+    RoleGrantedEvent.OutputObject
+  >;
+  getEvent(
+    key: "RoleRevoked"
+  ): TypedContractEvent<
+    RoleRevokedEvent.InputTuple,
+    RoleRevokedEvent.OutputTuple,
+    RoleRevokedEvent.OutputObject
+  >;
+  getEvent(
+    key: "RoyaltyCalculationRequested"
+  ): TypedContractEvent<
+    RoyaltyCalculationRequestedEvent.InputTuple,
+    RoyaltyCalculationRequestedEvent.OutputTuple,
+    RoyaltyCalculationRequestedEvent.OutputObject
+  >;
+  getEvent(
+    key: "RoyaltyClaimRequested"
+  ): TypedContractEvent<
+    RoyaltyClaimRequestedEvent.InputTuple,
+    RoyaltyClaimRequestedEvent.OutputTuple,
+    RoyaltyClaimRequestedEvent.OutputObject
+  >;
+  getEvent(
+    key: "RoyaltyDecrypted"
+  ): TypedContractEvent<
+    RoyaltyDecryptedEvent.InputTuple,
+    RoyaltyDecryptedEvent.OutputTuple,
+    RoyaltyDecryptedEvent.OutputObject
+  >;
+  getEvent(
+    key: "RoyaltyPaid"
+  ): TypedContractEvent<
+    RoyaltyPaidEvent.InputTuple,
+    RoyaltyPaidEvent.OutputTuple,
+    RoyaltyPaidEvent.OutputObject
+  >;
+  getEvent(
+    key: "WeightRulesetCreated"
+  ): TypedContractEvent<
+    WeightRulesetCreatedEvent.InputTuple,
+    WeightRulesetCreatedEvent.OutputTuple,
+    WeightRulesetCreatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "WithdrawalProposed"
+  ): TypedContractEvent<
+    WithdrawalProposedEvent.InputTuple,
+    WithdrawalProposedEvent.OutputTuple,
+    WithdrawalProposedEvent.OutputObject
+  >;
+
+  filters: {
+    "ApprovalThresholdChanged(uint256,address)": TypedContractEvent<
+      ApprovalThresholdChangedEvent.InputTuple,
+      ApprovalThresholdChangedEvent.OutputTuple,
+      ApprovalThresholdChangedEvent.OutputObject
+    >;
+    ApprovalThresholdChanged: TypedContractEvent<
+      ApprovalThresholdChangedEvent.InputTuple,
+      ApprovalThresholdChangedEvent.OutputTuple,
+      ApprovalThresholdChangedEvent.OutputObject
+    >;
+
+    "CommittedRevealRequested(uint256,uint256,address)": TypedContractEvent<
+      CommittedRevealRequestedEvent.InputTuple,
+      CommittedRevealRequestedEvent.OutputTuple,
+      CommittedRevealRequestedEvent.OutputObject
+    >;
+    CommittedRevealRequested: TypedContractEvent<
+      CommittedRevealRequestedEvent.InputTuple,
+      CommittedRevealRequestedEvent.OutputTuple,
+      CommittedRevealRequestedEvent.OutputObject
+    >;
+
+    "CommittedRevealed(uint256,uint256)": TypedContractEvent<
+      CommittedRevealedEvent.InputTuple,
+      CommittedRevealedEvent.OutputTuple,
+      CommittedRevealedEvent.OutputObject
+    >;
+    CommittedRevealed: TypedContractEvent<
+      CommittedRevealedEvent.InputTuple,
+      CommittedRevealedEvent.OutputTuple,
+      CommittedRevealedEvent.OutputObject
+    >;
+
+    "ContributionRecorded(uint256,bytes32,uint256)": TypedContractEvent<
+      ContributionRecordedEvent.InputTuple,
+      ContributionRecordedEvent.OutputTuple,
+      ContributionRecordedEvent.OutputObject
+    >;
+    ContributionRecorded: TypedContractEvent<
+      ContributionRecordedEvent.InputTuple,
+      ContributionRecordedEvent.OutputTuple,
+      ContributionRecordedEvent.OutputObject
+    >;
+
+    "ContributionTransferred(uint256,address,address)": TypedContractEvent<
+      ContributionTransferredEvent.InputTuple,
+      ContributionTransferredEvent.OutputTuple,
+      ContributionTransferredEvent.OutputObject
+    >;
+    ContributionTransferred: TypedContractEvent<
+      ContributionTransferredEvent.InputTuple,
+      ContributionTransferredEvent.OutputTuple,
+      ContributionTransferredEvent.OutputObject
+    >;
+
+    "DecryptionFulfilled(uint256)": TypedContractEvent<
+      DecryptionFulfilledEvent.InputTuple,
+      DecryptionFulfilledEvent.OutputTuple,
+      DecryptionFulfilledEvent.OutputObject
+    >;
+    DecryptionFulfilled: TypedContractEvent<
+      DecryptionFulfilledEvent.InputTuple,
+      DecryptionFulfilledEvent.OutputTuple,
+      DecryptionFulfilledEvent.OutputObject
+    >;
+
+    "DisputeOpened(uint256,uint256,address,bytes32,uint256)": TypedContractEvent<
+      DisputeOpenedEvent.InputTuple,
+      DisputeOpenedEvent.OutputTuple,
+      DisputeOpenedEvent.OutputObject
+    >;
+    DisputeOpened: TypedContractEvent<
+      DisputeOpenedEvent.InputTuple,
+      DisputeOpenedEvent.OutputTuple,
+      DisputeOpenedEvent.OutputObject
+    >;
+
+    "DisputeResolved(uint256,uint256,bool,address)": TypedContractEvent<
+      DisputeResolvedEvent.InputTuple,
+      DisputeResolvedEvent.OutputTuple,
+      DisputeResolvedEvent.OutputObject
+    >;
+    DisputeResolved: TypedContractEvent<
+      DisputeResolvedEvent.InputTuple,
+      DisputeResolvedEvent.OutputTuple,
+      DisputeResolvedEvent.OutputObject
+    >;
+
+    "DisputeTermsChanged(uint256,uint256,uint256,address)": TypedContractEvent<
+      DisputeTermsChangedEvent.InputTuple,
+      DisputeTermsChangedEvent.OutputTuple,
+      DisputeTermsChangedEvent.OutputObject
+    >;
+    DisputeTermsChanged: TypedContractEvent<
+      DisputeTermsChangedEvent.InputTuple,
+      DisputeTermsChangedEvent.OutputTuple,
+      DisputeTermsChangedEvent.OutputObject
+    >;
+
+    "DisputeVoted(uint256,address,bool)": TypedContractEvent<
+      DisputeVotedEvent.InputTuple,
+      DisputeVotedEvent.OutputTuple,
+      DisputeVotedEvent.OutputObject
+    >;
+    DisputeVoted: TypedContractEvent<
+      DisputeVotedEvent.InputTuple,
+      DisputeVotedEvent.OutputTuple,
+      DisputeVotedEvent.OutputObject
+    >;
+
+    "EpochRolledOver(uint256,uint256,uint256)": TypedContractEvent<
+      EpochRolledOverEvent.InputTuple,
+      EpochRolledOverEvent.OutputTuple,
+      EpochRolledOverEvent.OutputObject
+    >;
+    EpochRolledOver: TypedContractEvent<
+      EpochRolledOverEvent.InputTuple,
+      EpochRolledOverEvent.OutputTuple,
+      EpochRolledOverEvent.OutputObject
+    >;
+
+    "EvidenceAttached(uint256,bytes32,string,address)": TypedContractEvent<
+      EvidenceAttachedEvent.InputTuple,
+      EvidenceAttachedEvent.OutputTuple,
+      EvidenceAttachedEvent.OutputObject
+    >;
+    EvidenceAttached: TypedContractEvent<
+      EvidenceAttachedEvent.InputTuple,
+      EvidenceAttachedEvent.OutputTuple,
+      EvidenceAttachedEvent.OutputObject
+    >;
+
+    "OperationApproved(uint256,address,uint256)": TypedContractEvent<
+      OperationApprovedEvent.InputTuple,
+      OperationApprovedEvent.OutputTuple,
+      OperationApprovedEvent.OutputObject
+    >;
+    OperationApproved: TypedContractEvent<
+      OperationApprovedEvent.InputTuple,
+      OperationApprovedEvent.OutputTuple,
+      OperationApprovedEvent.OutputObject
+    >;
+
+    "OperationCancelled(uint256,address)": TypedContractEvent<
+      OperationCancelledEvent.InputTuple,
+      OperationCancelledEvent.OutputTuple,
+      OperationCancelledEvent.OutputObject
+    >;
+    OperationCancelled: TypedContractEvent<
+      OperationCancelledEvent.InputTuple,
+      OperationCancelledEvent.OutputTuple,
+      OperationCancelledEvent.OutputObject
+    >;
+
+    "PayoutQueued(uint256,uint256,bytes32,address,uint256)": TypedContractEvent<
+      PayoutQueuedEvent.InputTuple,
+      PayoutQueuedEvent.OutputTuple,
+      PayoutQueuedEvent.OutputObject
+    >;
+    PayoutQueued: TypedContractEvent<
+      PayoutQueuedEvent.InputTuple,
+      PayoutQueuedEvent.OutputTuple,
+      PayoutQueuedEvent.OutputObject
+    >;
+
+    "PoolWithdrawn(uint256,uint256,address,uint256)": TypedContractEvent<
+      PoolWithdrawnEvent.InputTuple,
+      PoolWithdrawnEvent.OutputTuple,
+      PoolWithdrawnEvent.OutputObject
+    >;
+    PoolWithdrawn: TypedContractEvent<
+      PoolWithdrawnEvent.InputTuple,
+      PoolWithdrawnEvent.OutputTuple,
+      PoolWithdrawnEvent.OutputObject
+    >;
+
+    "ReviewDecided(uint256,address,bool,string)": TypedContractEvent<
+      ReviewDecidedEvent.InputTuple,
+      ReviewDecidedEvent.OutputTuple,
+      ReviewDecidedEvent.OutputObject
+    >;
+    ReviewDecided: TypedContractEvent<
+      ReviewDecidedEvent.InputTuple,
+      ReviewDecidedEvent.OutputTuple,
+      ReviewDecidedEvent.OutputObject
+    >;
+
+    "ReviewerAssigned(uint256,address,address)": TypedContractEvent<
+      ReviewerAssignedEvent.InputTuple,
+      ReviewerAssignedEvent.OutputTuple,
+      ReviewerAssignedEvent.OutputObject
+    >;
+    ReviewerAssigned: TypedContractEvent<
+      ReviewerAssignedEvent.InputTuple,
+      ReviewerAssignedEvent.OutputTuple,
+      ReviewerAssignedEvent.OutputObject
+    >;
+
+    "RewardPoolDeposited(address,uint256,uint256)": TypedContractEvent<
+      RewardPoolDepositedEvent.InputTuple,
+      RewardPoolDepositedEvent.OutputTuple,
+      RewardPoolDepositedEvent.OutputObject
+    >;
+    RewardPoolDeposited: TypedContractEvent<
+      RewardPoolDepositedEvent.InputTuple,
+      RewardPoolDepositedEvent.OutputTuple,
+      RewardPoolDepositedEvent.OutputObject
+    >;
+
+    "RoleGranted(bytes32,address,address)": TypedContractEvent<
+      RoleGrantedEvent.InputTuple,
+      RoleGrantedEvent.OutputTuple,
+      RoleGrantedEvent.OutputObject
+    >;
+    RoleGranted: TypedContractEvent<
+      RoleGrantedEvent.InputTuple,
+      RoleGrantedEvent.OutputTuple,
+      RoleGrantedEvent.OutputObject
+    >;
+
+    "RoleRevoked(bytes32,address,address)": TypedContractEvent<
+      RoleRevokedEvent.InputTuple,
+      RoleRevokedEvent.OutputTuple,
+      RoleRevokedEvent.OutputObject
+    >;
+    RoleRevoked: TypedContractEvent<
+      RoleRevokedEvent.InputTuple,
+      RoleRevokedEvent.OutputTuple,
+      RoleRevokedEvent.OutputObject
+    >;
+
+    "RoyaltyCalculationRequested(uint256,uint256,address)": TypedContractEvent<
+      RoyaltyCalculationRequestedEvent.InputTuple,
+      RoyaltyCalculationRequestedEvent.OutputTuple,
+      RoyaltyCalculationRequestedEvent.OutputObject
+    >;
+    RoyaltyCalculationRequested: TypedContractEvent<
+      RoyaltyCalculationRequestedEvent.InputTuple,
+      RoyaltyCalculationRequestedEvent.OutputTuple,
+      RoyaltyCalculationRequestedEvent.OutputObject
+    >;
+
+    "RoyaltyClaimRequested(bytes32,uint256,address,address)": TypedContractEvent<
+      RoyaltyClaimRequestedEvent.InputTuple,
+      RoyaltyClaimRequestedEvent.OutputTuple,
+      RoyaltyClaimRequestedEvent.OutputObject
+    >;
+    RoyaltyClaimRequested: TypedContractEvent<
+      RoyaltyClaimRequestedEvent.InputTuple,
+      RoyaltyClaimRequestedEvent.OutputTuple,
+      RoyaltyClaimRequestedEvent.OutputObject
+    >;
+
+    "RoyaltyDecrypted(uint256)": TypedContractEvent<
+      RoyaltyDecryptedEvent.InputTuple,
+      RoyaltyDecryptedEvent.OutputTuple,
+      RoyaltyDecryptedEvent.OutputObject
+    >;
+    RoyaltyDecrypted: TypedContractEvent<
+      RoyaltyDecryptedEvent.InputTuple,
+      RoyaltyDecryptedEvent.OutputTuple,
+      RoyaltyDecryptedEvent.OutputObject
+    >;
+
+    "RoyaltyPaid(uint256,bytes32,address,uint256,address)": TypedContractEvent<
+      RoyaltyPaidEvent.InputTuple,
+      RoyaltyPaidEvent.OutputTuple,
+      RoyaltyPaidEvent.OutputObject
+    >;
+    RoyaltyPaid: TypedContractEvent<
+      RoyaltyPaidEvent.InputTuple,
+      RoyaltyPaidEvent.OutputTuple,
+      RoyaltyPaidEvent.OutputObject
+    >;
+
+    "WeightRulesetCreated(uint256,bytes32,uint32,uint32,uint32)": TypedContractEvent<
+      WeightRulesetCreatedEvent.InputTuple,
+      WeightRulesetCreatedEvent.OutputTuple,
+      WeightRulesetCreatedEvent.OutputObject
+    >;
+    WeightRulesetCreated: TypedContractEvent<
+      WeightRulesetCreatedEvent.InputTuple,
+      WeightRulesetCreatedEvent.OutputTuple,
+      WeightRulesetCreatedEvent.OutputObject
+    >;
+
+    "WithdrawalProposed(uint256,uint256,address,uint256,address)": TypedContractEvent<
+      WithdrawalProposedEvent.InputTuple,
+      WithdrawalProposedEvent.OutputTuple,
+      WithdrawalProposedEvent.OutputObject
+    >;
+    WithdrawalProposed: TypedContractEvent<
+      WithdrawalProposedEvent.InputTuple,
+      WithdrawalProposedEvent.OutputTuple,
+      WithdrawalProposedEvent.OutputObject
+    >;
+  };
+}
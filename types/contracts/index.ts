@@ -1,4 +1,5 @@
 /* Autogenerated file. Do not edit manually. */
 /* tslint:disable */
 /* eslint-disable */
+export type { AiRoyalties_FHE } from "./AiRoyalties_FHE";
 export type { UniversalAdapter } from "./UniversalAdapter";
@@ -0,0 +1,2309 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type {
+  Signer,
+  BigNumberish,
+  ContractDeployTransaction,
+  ContractRunner,
+} from "ethers";
+import type { NonPayableOverrides } from "../../common";
+import type {
+  AiRoyalties_FHE,
+  AiRoyalties_FHEInterface,
+} from "../../contracts/AiRoyalties_FHE";
+
+const _abi = [
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_epochDuration",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "constructor",
+  },
+  {
+    inputs: [],
+    name: "HandlesAlreadySavedForRequestID",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidKMSSignatures",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NoHandleFoundForRequestID",
+    type: "error",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "threshold",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "admin",
+        type: "address",
+      },
+    ],
+    name: "ApprovalThresholdChanged",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "epoch",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "requester",
+        type: "address",
+      },
+    ],
+    name: "CommittedRevealRequested",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "epoch",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "committed",
+        type: "uint256",
+      },
+    ],
+    name: "CommittedRevealed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "bytes32",
+        name: "contributorHash",
+        type: "bytes32",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+    ],
+    name: "ContributionRecorded",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "contributionId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "from",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+    ],
+    name: "ContributionTransferred",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestID",
+        type: "uint256",
+      },
+    ],
+    name: "DecryptionFulfilled",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "disputeId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "contributionId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "challenger",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "bytes32",
+        name: "evidenceHash",
+        type: "bytes32",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "bond",
+        type: "uint256",
+      },
+    ],
+    name: "DisputeOpened",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "disputeId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "contributionId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "bool",
+        name: "upheld",
+        type: "bool",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "resolvedBy",
+        type: "address",
+      },
+    ],
+    name: "DisputeResolved",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "challengePeriod",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "bond",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "quorum",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "admin",
+        type: "address",
+      },
+    ],
+    name: "DisputeTermsChanged",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "disputeId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "voter",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "bool",
+        name: "uphold",
+        type: "bool",
+      },
+    ],
+    name: "DisputeVoted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "fromEpoch",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "toEpoch",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+    ],
+    name: "EpochRolledOver",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "contributionId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "contentHash",
+        type: "bytes32",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "label",
+        type: "string",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "attachedBy",
+        type: "address",
+      },
+    ],
+    name: "EvidenceAttached",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "operationId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "treasurer",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "approvals",
+        type: "uint256",
+      },
+    ],
+    name: "OperationApproved",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "operationId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "admin",
+        type: "address",
+      },
+    ],
+    name: "OperationCancelled",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "operationId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "contributorHash",
+        type: "bytes32",
+      },
+      {
+        indexed: false,
+        internalType: "address",
+        name: "payoutAddress",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+    ],
+    name: "PayoutQueued",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "operationId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "epoch",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "recipient",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+    ],
+    name: "PoolWithdrawn",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "contributionId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "reviewer",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "bool",
+        name: "approved",
+        type: "bool",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "reason",
+        type: "string",
+      },
+    ],
+    name: "ReviewDecided",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "contributionId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "reviewer",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "assignedBy",
+        type: "address",
+      },
+    ],
+    name: "ReviewerAssigned",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "sponsor",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "epoch",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+    ],
+    name: "RewardPoolDeposited",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "sender",
+        type: "address",
+      },
+    ],
+    name: "RoleGranted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "sender",
+        type: "address",
+      },
+    ],
+    name: "RoleRevoked",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "contributionId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "verifier",
+        type: "address",
+      },
+    ],
+    name: "RoyaltyCalculationRequested",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "contributorHash",
+        type: "bytes32",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "address",
+        name: "payoutAddress",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "address",
+        name: "submitter",
+        type: "address",
+      },
+    ],
+    name: "RoyaltyClaimRequested",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "contributionId",
+        type: "uint256",
+      },
+    ],
+    name: "RoyaltyDecrypted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "contributorHash",
+        type: "bytes32",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "payoutAddress",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "address",
+        name: "executor",
+        type: "address",
+      },
+    ],
+    name: "RoyaltyPaid",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "rulesetId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "modelId",
+        type: "bytes32",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "computeWeight",
+        type: "uint32",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "qualityWeight",
+        type: "uint32",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "impactWeight",
+        type: "uint32",
+      },
+    ],
+    name: "WeightRulesetCreated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "operationId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "epoch",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "recipient",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "address",
+        name: "proposer",
+        type: "address",
+      },
+    ],
+    name: "WithdrawalProposed",
+    type: "event",
+  },
+  {
+    inputs: [],
+    name: "ADMIN_ROLE",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "CONTRIBUTOR_ROLE",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "DEFAULT_MODEL",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "TREASURER_ROLE",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "VERIFIER_ROLE",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "activeDisputes",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    name: "activeRulesets",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "adminCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "operationId",
+        type: "uint256",
+      },
+    ],
+    name: "approvalCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "count",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "approvalThreshold",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "operationId",
+        type: "uint256",
+      },
+    ],
+    name: "approveOperation",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "operationId",
+        type: "uint256",
+      },
+    ],
+    name: "approversOf",
+    outputs: [
+      {
+        internalType: "address[]",
+        name: "",
+        type: "address[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "contributionId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "reviewer",
+        type: "address",
+      },
+    ],
+    name: "assignReviewer",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "contributionId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes32",
+        name: "contentHash",
+        type: "bytes32",
+      },
+      {
+        internalType: "string",
+        name: "label",
+        type: "string",
+      },
+    ],
+    name: "attachEvidence",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "contributionId",
+        type: "uint256",
+      },
+    ],
+    name: "calculateRoyaltyShare",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "operationId",
+        type: "uint256",
+      },
+    ],
+    name: "cancelOperation",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "challengePeriod",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "contributorHash",
+        type: "bytes32",
+      },
+      {
+        internalType: "address",
+        name: "payoutAddress",
+        type: "address",
+      },
+    ],
+    name: "claimDigest",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "contributorHash",
+        type: "bytes32",
+      },
+      {
+        internalType: "address payable",
+        name: "payoutAddress",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "claimer",
+        type: "address",
+      },
+      {
+        internalType: "bytes32",
+        name: "salt",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "signature",
+        type: "bytes",
+      },
+    ],
+    name: "claimRoyalty",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "claimer",
+        type: "address",
+      },
+      {
+        internalType: "bytes32",
+        name: "salt",
+        type: "bytes32",
+      },
+    ],
+    name: "commitmentOf",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "pure",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    name: "commitmentOwners",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "contributionCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "contributions",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+      {
+        internalType: "euint32",
+        name: "encryptedComputeHours",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint32",
+        name: "encryptedDataQuality",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint32",
+        name: "encryptedModelImpact",
+        type: "bytes32",
+      },
+      {
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes32",
+        name: "contributorHash",
+        type: "bytes32",
+      },
+      {
+        internalType: "uint256",
+        name: "epoch",
+        type: "uint256",
+      },
+      {
+        internalType: "euint64",
+        name: "encryptedScore",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes32",
+        name: "modelId",
+        type: "bytes32",
+      },
+      {
+        internalType: "uint256",
+        name: "rulesetId",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "contributionId",
+        type: "uint256",
+      },
+    ],
+    name: "contributorOf",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "currentEpoch",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "contributionId",
+        type: "uint256",
+      },
+      {
+        internalType: "bool",
+        name: "approved",
+        type: "bool",
+      },
+      {
+        internalType: "string",
+        name: "reason",
+        type: "string",
+      },
+    ],
+    name: "decideReview",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "decryptedRoyalties",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "isRevealed",
+        type: "bool",
+      },
+      {
+        internalType: "uint256",
+        name: "rulesetId",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "depositRewardPool",
+    outputs: [],
+    stateMutability: "payable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "disputeBond",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "disputeCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "disputeQuorum",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "disputeVotes",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "disputes",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "contributionId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "challenger",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "bond",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes32",
+        name: "evidenceHash",
+        type: "bytes32",
+      },
+      {
+        internalType: "enum AiRoyalties_FHE.DisputeStatus",
+        name: "status",
+        type: "uint8",
+      },
+      {
+        internalType: "uint256",
+        name: "openedAt",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "upholdVotes",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "dismissVotes",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "epochDuration",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "epoch",
+        type: "uint256",
+      },
+    ],
+    name: "epochPhase",
+    outputs: [
+      {
+        internalType: "enum AiRoyalties_FHE.EpochPhase",
+        name: "",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "epoch",
+        type: "uint256",
+      },
+    ],
+    name: "epochStart",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "epochs",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "rewardPool",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "committed",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "paid",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "contributionCount",
+        type: "uint256",
+      },
+      {
+        internalType: "euint64",
+        name: "encryptedScoreTotal",
+        type: "bytes32",
+      },
+      {
+        internalType: "uint64",
+        name: "scoreTotal",
+        type: "uint64",
+      },
+      {
+        internalType: "euint128",
+        name: "encryptedCommitted",
+        type: "bytes32",
+      },
+      {
+        internalType: "uint256",
+        name: "challengesEndAt",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "openDisputes",
+        type: "uint256",
+      },
+      {
+        internalType: "bool",
+        name: "committedRevealed",
+        type: "bool",
+      },
+      {
+        internalType: "bool",
+        name: "revealRequested",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "operationId",
+        type: "uint256",
+      },
+    ],
+    name: "executeOperation",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "genesisTimestamp",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "contributionId",
+        type: "uint256",
+      },
+    ],
+    name: "getDecryptedRoyalty",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "isRevealed",
+        type: "bool",
+      },
+      {
+        internalType: "uint256",
+        name: "rulesetId",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
+      },
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "grantRole",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
+      },
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "hasRole",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "contributionId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes32",
+        name: "evidenceHash",
+        type: "bytes32",
+      },
+    ],
+    name: "openDispute",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "payable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "operationApprovals",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "operationCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "operations",
+    outputs: [
+      {
+        internalType: "enum AiRoyalties_FHE.OperationKind",
+        name: "kind",
+        type: "uint8",
+      },
+      {
+        internalType: "enum AiRoyalties_FHE.OperationStatus",
+        name: "status",
+        type: "uint8",
+      },
+      {
+        internalType: "address payable",
+        name: "recipient",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "epoch",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes32",
+        name: "contributorHash",
+        type: "bytes32",
+      },
+      {
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    name: "pendingPayouts",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes",
+        name: "cleartexts",
+        type: "bytes",
+      },
+      {
+        internalType: "bytes",
+        name: "proof",
+        type: "bytes",
+      },
+    ],
+    name: "processCommittedReveal",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes",
+        name: "cleartexts",
+        type: "bytes",
+      },
+      {
+        internalType: "bytes",
+        name: "proof",
+        type: "bytes",
+      },
+    ],
+    name: "processRoyaltyCalculation",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes",
+        name: "cleartexts",
+        type: "bytes",
+      },
+      {
+        internalType: "bytes",
+        name: "proof",
+        type: "bytes",
+      },
+    ],
+    name: "processRoyaltyPayment",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "epoch",
+        type: "uint256",
+      },
+      {
+        internalType: "address payable",
+        name: "recipient",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+    ],
+    name: "proposeWithdrawal",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "protocolId",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "pure",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "disputeId",
+        type: "uint256",
+      },
+      {
+        internalType: "bool",
+        name: "uphold",
+        type: "bool",
+      },
+    ],
+    name: "resolveDispute",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "epoch",
+        type: "uint256",
+      },
+    ],
+    name: "revealCommitted",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "reviews",
+    outputs: [
+      {
+        internalType: "enum AiRoyalties_FHE.ReviewStatus",
+        name: "status",
+        type: "uint8",
+      },
+      {
+        internalType: "address",
+        name: "reviewer",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "evidenceCount",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "decidedAt",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
+      },
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "revokeRole",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "epoch",
+        type: "uint256",
+      },
+    ],
+    name: "rollOver",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    name: "royaltyDistributions",
+    outputs: [
+      {
+        internalType: "euint32",
+        name: "encryptedShare",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint128",
+        name: "encryptedPaymentAmount",
+        type: "bytes32",
+      },
+      {
+        internalType: "bool",
+        name: "isClaimed",
+        type: "bool",
+      },
+      {
+        internalType: "uint256",
+        name: "epoch",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "contributionId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "challengeEndsAt",
+        type: "uint256",
+      },
+      {
+        internalType: "bool",
+        name: "isVoided",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "modelId",
+        type: "bytes32",
+      },
+    ],
+    name: "rulesetFor",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "threshold",
+        type: "uint256",
+      },
+    ],
+    name: "setApprovalThreshold",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "period",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "bond",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "quorum",
+        type: "uint256",
+      },
+    ],
+    name: "setDisputeTerms",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "modelId",
+        type: "bytes32",
+      },
+      {
+        internalType: "uint32",
+        name: "computeWeight",
+        type: "uint32",
+      },
+      {
+        internalType: "uint32",
+        name: "qualityWeight",
+        type: "uint32",
+      },
+      {
+        internalType: "uint32",
+        name: "impactWeight",
+        type: "uint32",
+      },
+    ],
+    name: "setWeightProfile",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "externalEuint32",
+        name: "computeHours",
+        type: "bytes32",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "dataQuality",
+        type: "bytes32",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "modelImpact",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+      {
+        internalType: "bytes32",
+        name: "contributorHash",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes32",
+        name: "modelId",
+        type: "bytes32",
+      },
+    ],
+    name: "submitEncryptedContribution",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "totalRewardPool",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "contributionId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+    ],
+    name: "transferContribution",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "treasurerCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "disputeId",
+        type: "uint256",
+      },
+      {
+        internalType: "bool",
+        name: "uphold",
+        type: "bool",
+      },
+    ],
+    name: "voteOnDispute",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "weightRulesetCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "weightRulesets",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "modelId",
+        type: "bytes32",
+      },
+      {
+        internalType: "uint32",
+        name: "computeWeight",
+        type: "uint32",
+      },
+      {
+        internalType: "uint32",
+        name: "qualityWeight",
+        type: "uint32",
+      },
+      {
+        internalType: "uint32",
+        name: "impactWeight",
+        type: "uint32",
+      },
+      {
+        internalType: "uint256",
+        name: "createdAt",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+] as const;
+
+const _bytecode =
+  "0x60c034620003ae57601f62005bba38819003918201601f1916830192916001600160401b03919082851184861017620003425780849260409687528339602093849181010312620003ae57515f606062000058620003b2565b82815282868201528287820152015262000071620003b2565b606073687820221192c5b662b25367f70076a37bc79b6c9182815273848b0066793bcc60346da1f49049357399b8d595808783015273a02cda4ca3a71d7c46997716f4283aa851c28812918289820152731364cbbf2cdf5032c47d8226a6f6fbd2afcdacac938491015260018060a01b0319937f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970090858254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970190848254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970290838254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497039182541617905580156200036a576080524260a0527fa49807205ce4d355092ef5a8a18f56e8913cf4a201fbe287825b095693c2177590815f525f8352835f20335f528352835f20916001928360ff19825416179055825483810180911162000356578355339033907f2f8788117e7eff1d82e926ec794901d17c78024a50270940304540a733656f0d5f80a4816003556202a300601355662386f26fc100006014556002601555600b5491808301809311620003565782600b5584519360a08501928584109084111762000342575f9460026060937ffa9bf37413e02b1e7da984a61f023bf8d1906646e59d40746b6d9b41777cbf4e95895287835283830160288152898401602381528685016019815263ffffffff60808701944286528b8d52600c89528d8d209751885587019351166bffffffff00000000000000008d67ffffffff00000000865495518b1b169351901b16926001808b1b031916171717905551910155848052600d81528386862055602386519160288352820152601986820152a3516157e79081620003d382396080518181816118990152818161285c0152614c59015260a0518181816110b2015281816118d40152614c320152f35b634e487b7160e01b5f52604160045260245ffd5b634e487b7160e01b5f52601160045260245ffd5b835162461bcd60e51b815260048101849052601660248201527f496e76616c69642065706f6368206475726174696f6e000000000000000000006044820152606490fd5b5f80fd5b60405190608082016001600160401b03811183821017620003425760405256fe6080604090808252600480361015610015575f80fd5b60e05f35811c92836306c16733146144775750826309c85e24146144595782630e70306d146141b2578263122cc895146141945782631390f2cb14613fdc57826313f9db8914613a2a57826315be946814613a1057826316a38f1f146138ba578263176126701461370457826317baaf20146136e65782631991d98b1461338c5782631acb612c146131de5782631cee070014613153578263203d82cb1461310e57826323d3c142146130f05782632b7832b3146130d25782632c398c411461300d5782632f2ff15d14612e4357826334b25ee214612bcf57826334cc11f514612b8a578263351d4a1114612b5b578263358ca8ff14612aa55782633e88be9514612a7557826340ad01ea14612a565782634857f03914612a2e5782634e5895031461287f5782634ff0876a1461284557826350e9572e146127eb578263564a565d146127645782635a9e55be1461273d5782635b18056b146127205782635c9452271461264357826362e65db31461261b5782636a0a98881461256d57826372d60c7314611fcc57826375b238fc14611fa55782637667180814611f895782637776643914611f185782637d0eef6114611efa5782637fac796a14611eca578263846b58c414611eab57826391d1485414611e67578263a0016b8c14611da4578263a28889e114611d86578263a4f5df1214611916578263a62af7d114611347578263a9ded81c146118f8578263aa9354a314611884578263b2e9949d146117e9578263be29d043146117c1578263bea6029414611390578263bec8352614611347578263c2a6a1151461117c578263c6b61e4c146110d5578263cacf66ab1461109b578263d27411ce14610f80578263d2ede62f14610f46578263d547741f14610d5a578263da1f12ab14610d3e578263dfaf3109146109a6578263e177c25314610988578263e7705db614610961578263e83ddcea14610904578263eafb79e2146108dd578263f0a3a97c146108b6578263f3eca9f51461050557508163f3f480d9146104e7578163f97343d414610384575063fd31278814610319575f80fd5b5f3660031901126103805761032c614c2d565b906103393460055461475a565b600555815f526006602052805f2061035234825461475a565b9055513481527fd7459d222ee057eef2b44884c35ceceac3fe18de58e882d0e5801e996b2891d160203392a3005b5f80fd5b8234610380576060366003190112610380578135602435916044356001600160401b038111610380576103ba90369086016145f5565b9091835f52602095600787526103d4825f20541515614979565b845f52601d875260018060a01b03825f205416331480156104bf575b1561048557610400861515615083565b845f52600e87526001825f2061042360ff82541661041d81614631565b15614a08565b01805491600183018093116104725750555185815233957fed2e5bb605bd7639cef9d6042d2f9f422b9e6b73d4099a523b24e2e29ee3fd0d939192839261046d9284019190614ad9565b0390a4005b601190634e487b7160e01b5f525260245ffd5b86606492519162461bcd60e51b8352820152601660248201527543616e6e6f74206174746163682065766964656e636560501b6044820152fd5b505f805160206157bb8339815191525f525f8752815f20335f52875260ff825f2054166103f0565b8234610380575f366003190112610380576020906013549051908152f35b908380600319360112610380578135916024908135915f8051602061573b8339815191525f526020955f8752845f20335f52875260ff855f205416801561088e575b15610856575f868152601d8852859020546001600160a01b03908116331461081457865f52600a885260ff865f205416156107d957865f52600788526005865f2001545f5260088852855f20916105a560ff600685015416156148cb565b600583015442101561079f57875f5260188952865f2054610766576105cb861515615083565b6014543403610737576016549060018201809211610725578160165587519261010084018481106001600160401b03821117610713579360079261068a8d8b8d8f9686999760039c9b83528752838701903382528288019234845260608901948552601760808a01965f885260a08b0199428b5260c08c019b5f8d52019b5f8d525f52525f209a518b5560018b019151166001600160601b0360a01b82541617905551600289015551898801555161068281614631565b8a87016150c7565b51600585015551600684015551910155601654875f5260188952865f205501545f52600686526008845f20019081549260018401809411610702575050556016549282519182523485830152837f98c991f7285f257f67bf1e9d81df216473b9f95f097bf418fe966962ffb5ead5843394a451908152f35b601190634e487b7160e01b5f52525ffd5b86604189634e487b7160e01b5f52525ffd5b84601187634e487b7160e01b5f52525ffd5b865162461bcd60e51b81528086018a9052600a818601526915dc9bdb99c8189bdb9960b21b6044820152606490fd5b865162461bcd60e51b81528086018a9052601481860152732234b9b83aba329030b63932b0b23c9037b832b760611b6044820152606490fd5b865162461bcd60e51b81528086018a90526015818601527421b430b63632b733b2903832b934b7b21037bb32b960591b6044820152606490fd5b855162461bcd60e51b815280850189905260168185015275149bde585b1d1e481b9bdd0818d85b18dd5b185d195960521b6044820152606490fd5b855162461bcd60e51b8152808501899052601f818501527f43616e6e6f742064697370757465206f776e20636f6e747269627574696f6e006044820152606490fd5b845162461bcd60e51b81528084018890526013818401527243616e6e6f74206f70656e206469737075746560681b6044820152606490fd5b505f805160206157bb8339815191525f525f8752845f20335f52875260ff855f205416610547565b8334610380575f36600319011261038057602090515f805160206156fb8339815191528152f35b8334610380575f36600319011261038057602090515f8051602061573b8339815191528152f35b50823461038057602036600319011261038057608091355f52600e602052805f2080549060ff821692600260018301549201549281519461094481614631565b855260081c6001600160a01b031660208501528301526060820152f35b8334610380575f36600319011261038057602090515f805160206157bb8339815191528152f35b5034610380576020366003190112610380576109a49035614ce8565b005b83346103805760c0366003190112610380576001600160401b03606435818111610380576109d790369086016145f5565b91608435925f8051602061573b8339815191525f526020925f8452855f20335f528452610a0960ff875f205416614929565b5f85815260098552869020546001600160a01b03168015908115610d34575b5015610cf157845f5260098452855f206001600160601b0360a01b903382825416179055610a8e610a86610a67610a60368787614545565b8c356152b6565b93610a7e610a76368884614545565b6024356152b6565b953691614545565b6044356152b6565b97610a993084615457565b610aa33085615457565b610aad308a615457565b610ab73384615457565b610ac13385615457565b610acb338a615457565b89549860018a01809a11610cde57898b55610ae4614c2d565b928a5f52601d8852895f20903390825416179055610b0360a435614c97565b94855f52600c8852610b818a610b60815f206001610b208a615653565b910190610b668d610b60610b4363ffffffff9485875416908015610cd057615595565b9184610b4e8b615653565b918754901c16908015610cd057615595565b906153b5565b93610b7088615653565b9254901c16908015610cd057615595565b94610b8c3087615457565b610b963387615457565b845f52600689528a5f206003810180549060018201809211610cbc57918f91610bd0935501610bc68882546153b5565b8091553090615457565b8a5197610140890190811189821017610ca957938895938b938e9f937feb669bb1d42f354c005fa7cf61929cc82d04d70b69928fb82467cea4d4b872ed9f8f908e60079161012060099f9e9c8e61010091875283815284810197885286810198895260608101998a52608081019a428c5260a082019d8e5260c082019e8f5281019e8f52019d8e60a4359052019d8e525f52525f209b518c555160018c01555160028b01555160038a015551908801555160058701555160068601555160078501555160088401555191015582519182524290820152a2005b60418e634e487b7160e01b5f525260245ffd5b5060118f634e487b7160e01b5f525260245ffd5b50610cd9615542565b615595565b60118b634e487b7160e01b5f525260245ffd5b855162461bcd60e51b8152808901859052601760248201527f436f6e7472696275746f72206861736820696e207573650000000000000000006044820152606490fd5b9050331489610a28565b8334610380575f36600319011261038057602090516127118152f35b838234610380578160031936011261038057803591610d776145df565b915f8051602061579b83398151915290815f526020915f8352835f20335f528352610da760ff855f205416614929565b5f8681528084528481206001600160a01b039096168082529584528490205460ff1615610f11578514610e9d575b5f805160206156fb8339815191528514610e2b575b50835f525f8152815f2090835f52525f2060ff19815416905533917ff6391f5c32d9c69d2a47ea670b442974b53935d1edc7fd64eb21e047a839171b5f80a4005b60025490600354821115610e4e575f198201918211610472575060025584610dea565b835162461bcd60e51b81529081018390526024808201527f546f6f20666577207472656173757265727320666f72207468652074687265736044820152631a1bdb1960e21b6064820152608490fd5b6001546001811115610ecf575f198101908111610ebc57600155610dd5565b601182634e487b7160e01b5f525260245ffd5b50915162461bcd60e51b815291820152601c60248201527f43616e6e6f742072656d6f766520746865206c6173742061646d696e000000006044820152606490fd5b50915162461bcd60e51b815291820152601060248201526f149bdb19481b9bdd0819dc985b9d195960821b6044820152606490fd5b83823461038057816003193601126103805735906001600160a01b038216820361038057610f7960209260243590614cba565b9051908152f35b83823461038057602080600319360112610380578135915f805160206156fb8339815191525f525f8252835f20335f528252610fc160ff855f205416614929565b610fde6002610fcf85614b38565b610fd881614631565b14614a4d565b825f5260068252835f2093610ff960ff600987015416614a8d565b845460018601549283821115611061575090611038837f9feaca9e79ed633012e6a930dee2fc50c178f3c030d61bfc2661cc9ac599bd049594936146ed565b91611041614c2d565b9655855f5260068352805f2061105883825461475a565b905551908152a3005b825162461bcd60e51b815290810185905260146024820152732737ba3434b733903a37903937b6361037bb32b960611b6044820152606490fd5b8334610380575f36600319011261038057602090517f00000000000000000000000000000000000000000000000000000000000000008152f35b8334610380576020366003190112610380578260ff9161016094355f526006602052805f20908154946001830154936002840154906003850154908501546001600160401b0360058701541691600687015493600788015496600960088a01549901549981519c8d5260208d01528b015260608a0152608089015260a088015260c0870152850152610100840152818116151561012084015260081c161515610140820152f35b5082346103805760803660031901126103805763ffffffff90823560243583811690819003610380576044358481168091036103805760643590858216809203610380575f8051602061579b8339815191525f526020965f8852855f20335f5288526111ed60ff875f205416614929565b6064611202846111fd858861475a565b61475a565b0361130457600b549660018801809811610ebc5787600b5586519160a08301908382106001600160401b038311176112f15750928895926002878c8b7ffa9bf37413e02b1e7da984a61f023bf8d1906646e59d40746b6d9b41777cbf4e999660609982528c8652828601928984526bffffffff00000000000000008388019389855267ffffffff000000008d8a01948c865260808b0198428a525f52600c8552825f209a518b5560018b019751169387549651901b169351901b16926001600160601b031916171717905551910155865f52600d8a5285885f205587519283528983015286820152a351908152f35b604190634e487b7160e01b5f525260245ffd5b855162461bcd60e51b8152908101889052601760248201527f57656967687473206d7573742073756d20746f203130300000000000000000006044820152606490fd5b83823461038057602036600319011261038057355f52600a602052805f2061138c600160ff835416920154925192839283602090939291936040810194151581520152565b0390f35b50823461038057602080600319360112610380578235905f805160206157bb8339815191525f525f8152825f20335f5281526113d160ff845f205416614929565b815f5260078152825f20926113e884541515614979565b6006840154936113f785614b38565b61140081614631565b801561178b5780611412600292614631565b1461175857835f52600e835260ff825f2054169061142f82614631565b600180920361171557600501545f908152601f8452829020546001600160a01b03959086166116d257825191611464836144ee565b6001835284830191853684375f526006855287845f20015461148584614908565b525f917f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf0093845498805f8051602061577b8339815191525416803b15610380578751637d6e912360e11b8152808d018a9052905f9082908183816114ec602482018a6153ff565b03925af180156116c8576116b5575b507f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497025416803b156116b1578651633263b83b60e01b8152808c018b905260606024820152908590829081838161155460648201896153ff565b6372d60c7360e01b604483015203925af180156116a75790859161168f575b508990525f8051602061571b8339815191528088528685205461167f5789855287528584209051916001600160401b03831161166c57600160401b831161166c578154838355808410611645575b50908452868420845b8381106116345750505050508154905f19821461162157509060017f33070edd54fd87af55768f833587f51d8ade902f9b1af0fb8a5938c6858b7e88949392019055845f52601a825283815f2055519384523393a3005b634e487b7160e01b815260118852602490fd5b8251828201559188019184016115ca565b82865284848a882092830192015b8281106116615750506115c1565b5f8155018590611653565b634e487b7160e01b855260418b52602485fd5b8651633f06d22b60e01b81528b90fd5b611698906144c0565b6116a357838b611573565b8380fd5b87513d87823e3d90fd5b8480fd5b6116c09195506144c0565b5f938b6114fb565b88513d5f823e3d90fd5b825162461bcd60e51b8152808801859052601a60248201527f526f79616c747920616c72656164792063616c63756c617465640000000000006044820152606490fd5b825162461bcd60e51b8152808801859052601960248201527f436f6e747269627574696f6e206e6f7420617070726f766564000000000000006044820152606490fd5b815162461bcd60e51b8152808701849052600d60248201526c115c1bd8da081cd95d1d1b1959609a1b6044820152606490fd5b825162461bcd60e51b8152808801859052601060248201526f22b837b1b41039ba34b6361037b832b760811b6044820152606490fd5b50823461038057602036600319011261038057602091355f5260128252805f20549051908152f35b9083346103805760203660031901126103805781355f526010602052805f2080549160ff83169260ff8160081c16916001840154916002850154938760038701549601549683519860028210156118715750885261184681614631565b602088015260101c6001600160a01b0316908601526060850152608084015260a083015260c0820152f35b602190634e487b7160e01b5f525260245ffd5b508234610380576020366003190112610380577f00000000000000000000000000000000000000000000000000000000000000008235818102939181159185041417156104725750610f796020927f000000000000000000000000000000000000000000000000000000000000000061475a565b8334610380575f366003190112610380576020906015549051908152f35b838234610380578160031936011261038057803590611933614622565b5f805160206157bb8339815191525f526020915f8352845f20335f52835261196060ff865f205416614929565b5f8481526017845285902060018082015491936001600160a01b0392831680151580611d6a575b61199090614af9565b33141580611d53575b15611d1057865f5260198652875f20335f52865260ff885f205416611cdd57865f5260198652875f20335f528652875f209060ff19918383825416179055805f14611cc65760068601805490848201809211611cb357555b88519015158152877f910296c2d7f214e2d62a9c4e6e403cc9c5ac4585d96830dbf018e51c75fd0826883393a36006858101546015549196908211611bf2575050865f5260178652875f2096848801838382541617905587545f52601887525f89812055875490818a51918583527fa27015a0377c0d9543b642a583459fa12fc2b5b76aca6689c025f244f6f2ffe58a3394a45f52600786526005885f2001545f5260088652875f209060038201545f52858752885f2090600882018054905f198201918211611bdf5755828701805490911684179055850180549183015494909187918115611bcf575b8615611bbb575b6064905f875f8051602061575b83398151915254168d51998a9586946303056db360e31b865285015260248401528160448401525af19081156116c8575f91611b8c575b5f945084938493611b3f848695600295553090615457565b890154169701968754905af1611b53614767565b5015611b5b57005b611b8793611b7c91611b6b614c2d565b938554945f52525f2091825461475a565b90555460055461475a565b600555005b9390508581813d8311611bb4575b611ba48183614509565b8101031261038057515f93611b27565b503d611b9a565b95506064611bc76154c0565b969050611ae3565b9050611bd96154c0565b90611adc565b601188634e487b7160e01b5f525260245ffd5b9092506007919697935001541015611c0657005b805f5260178552855f209360028386019182541617905583545f52601885525f86812055835490818751915f83527fa27015a0377c0d9543b642a583459fa12fc2b5b76aca6689c025f244f6f2ffe5883394a45f52600784526005855f2001545f52600884526003855f2001545f528184526008855f20018054915f198301928311610472575055611b8793611b7c916002611ca0614c2d565b9401948554945f52525f2091825461475a565b601187634e487b7160e01b5f525260245ffd5b60078601805490848201809211611cb357556119f1565b875162461bcd60e51b8152808501879052600d60248201526c105b1c9958591e481d9bdd1959609a1b6044820152606490fd5b875162461bcd60e51b8152808501879052601a60248201527f43616e6e6f7420766f7465206f6e206f776e20646973707574650000000000006044820152606490fd5b5084545f52601d865282885f205416331415611999565b5061199060ff8688015416611d7e81614631565b159050611987565b8334610380575f366003190112610380576020906016549051908152f35b508234610380576020366003190112610380578135915f8051602061579b8339815191525f525f602052815f20335f52602052611de660ff835f205416614929565b82151580611e5b575b15611e25575081600355519081527f277730b401192380cf27998473f73c859990a68a5548794ed6bafcf98b5a98ea60203392a2005b6020606492519162461bcd60e51b83528201526011602482015270125b9d985b1a59081d1a1c995cda1bdb19607a1b6044820152fd5b50600254831115611def565b508234610380578060031936011261038057602091611e846145df565b90355f525f8352815f209060018060a01b03165f52825260ff815f20541690519015158152f35b50823461038057602036600319011261038057610f7960209235614c97565b50823461038057602036600319011261038057602091355f526009825260018060a01b03815f2054169051908152f35b8334610380575f366003190112610380576020906003549051908152f35b8382346103805760203660031901126103805780355f526008602052815f2080549260018201549260ff600284015416916003840154918401549260ff600660058701549601541695825197885260208801521515908601526060850152608084015260a0830152151560c0820152f35b8334610380575f36600319011261038057602090610f79614c2d565b8334610380575f36600319011261038057602090515f8051602061579b8339815191528152f35b83823461038057611fdc36614599565b9390825f52602090601a8252825f205495611ff8871515614796565b865f5260078352835f20906005820180545f52601f855260018060a01b039361202685885f205416156147d4565b600684019283545f5260068752875f209860ff60098b015460081c1661252a579082612051926150df565b858180518101031261038057850151916001600160401b03978884168094036103805760058101805467ffffffffffffffff19168517905583156124725760078501938a898987548015612464575b60645f8051602061575b833981519152945f8d87541695519586948593630afe14ad60e31b85528401526127106024840152600160f81b60448401525af190811561245a57908d915f91612429575b508a8c85831561240e575b6121076044915f956155f4565b948d875416925194859384926307227b9160e21b988985528185015260248401525af190811561240457918c8f928c908e955f916123ca575b50915f91604494939c54975416905196879586948552840152600660248401525af19081156123c0578d9493928b928b925f91612381575b5094848960069895601f60099e966122056121be6122d09f9e9c986121b36122a99a6001600160801b0360079f541690801561237857615595565b801561236a576155f4565b985b6121de8e8801610bc68c825481811561235a575b1561234a576156a6565b8a5f52601d8352845f20541680956121f63082615457565b612200308c615457565b615457565b61220f8489615457565b8a545f52525f20906001600160601b0360a01b8254161790556122346013544261475a565b9586910180548211612342575b505054918c519761225189614491565b88528b88019081528c8801905f8252606089019384526080890194855260a0890195865260c08901965f8852545f5260088d528d5f2098518955516001890155511515600288019060ff801983541691151516179055565b516003860155518b85015551600584015551151591019060ff801983541691151516179055565b01549282519483860191868310908311176112f1575091600a61231892600195948352858752808701948552875f52525f2093511515849060ff801983541691151516179055565b519101557f53be9f9330380a5cde4d67432333af5d87509e82d5afc677c373f80c547045165f80a2005b55845f612241565b90506123546154c0565b906156a6565b90506123646154c0565b906121d4565b506123736154c0565b6155f4565b50610cd96154c0565b935050969593945081813d83116123b9575b61239d8183614509565b810103126103805751939491938c93928a918a91906007612178565b503d612393565b8a513d5f823e3d90fd5b9593945050505082813d83116123fd575b6123e58183614509565b810103126103805790518a918e918d908c905f612140565b503d6123db565b8c513d5f823e3d90fd5b5f935061210760449161241f615542565b95509150506120fa565b8092508b8092503d8311612453575b6124428183614509565b81010312610380578c90518f6120ef565b503d612438565b8b513d5f823e3d90fd5b5061246d615542565b6120a0565b9091939492505f86845f8051602061575b833981519152541660448c8b519485938492639cd07acb60e01b8452828185015260248401525af19081156116c857888c97969594939289925f916124ec575b50946122a96006956122d0989560079560099c95601f8b926122056124e66154c0565b986121c0565b949850505082819592953d8311612523575b6125088183614509565b810103126103805790518a95919390879089906122a96124c3565b503d6124fe565b885162461bcd60e51b8152808c01899052601960248201527f436f6d6d697474656420746f74616c20726571756573746564000000000000006044820152606490fd5b8382346103805760209081600319360112610380578290355f52818052805f208151928381835491828152019081935f52825f20905f5b8181106125fe57505050846125ba910385614509565b825181815293518185018190528493840192915f5b8281106125de57505050500390f35b83516001600160a01b0316855286955093810193928101926001016125cf565b82546001600160a01b0316845292840192600192830192016125a4565b50823461038057602036600319011261038057602091355f52600d8252805f20549051908152f35b838234610380576020366003190112610380578035915f8051602061579b8339815191525f525f602052805f20335f5260205261268560ff825f205416614929565b825f526010602052805f209160ff83546126ab60018060a01b038260101c16151561464f565b6126c3828260081c166126bd81614631565b1561468f565b61ff0019811661020017855516906002821015611871575015612709575b33837ffd6081567ca53e7c77aff76e8cc9cfb2872b64e660f64d885730829bc5a18ca15f80a3005b60035f9201548252601260205281205581806126e1565b508234610380575f36600319011261038057602091549051908152f35b508234610380578060031936011261038057610f7960209261275d6145df565b9035614be5565b838234610380576020366003190112610380576101009281355f526017602052825f2080549360018060a01b036001830154169360028301549060ff600385015491850154169160058501549360076006870154960154978151998a5260208a015288015260608701526127d781614631565b608086015260a085015260c0840152820152f35b5082346103805760203660031901126103805760a091355f52600c602052805f20908154916001810154600263ffffffff9201549280519485528282166020860152828260201c16818601521c1660608301526080820152f35b8334610380575f36600319011261038057602090517f00000000000000000000000000000000000000000000000000000000000000008152f35b50823461038057806003193601126103805781359061289c6145df565b90825f52602091601d835260018060a01b039283835f20541633036129f6578382169586156129bf575090859291855f52600e81526128e585845f205460081c168514156149bc565b855f5260078152825f20946128fe836001880154615457565b61290c836002880154615457565b61291a836003880154615457565b612928836007880154615457565b865f52601d82526005845f20966001600160601b0360a01b978789825416179055019081545f52601f8352845f205416612986575b8433887fb1a892b9d9fdf7a3b773dcd2f340cc3ac377e37e73318d4e32afdca95f0794d45f80a4005b6129a7601f93600884526001865f206129a0838254615457565b0154615457565b545f52525f209182541617905582828180808061295d565b60649184519162461bcd60e51b8352820152601360248201527224b73b30b634b21031b7b73a3934b13aba37b960691b6044820152fd5b8560649184519162461bcd60e51b835282015260136024820152722737ba103a34329031b7b73a3934b13aba37b960691b6044820152fd5b50823461038057602036600319011261038057602091355f5260188252805f20549051908152f35b50823461038057602036600319011261038057610f7960209235614b69565b50823461038057602036600319011261038057602091355f52601d825260018060a01b03815f2054169051908152f35b50823461038057612ab536614599565b90825f52601b602052835f205494612ace861515614796565b5f1986019586116104725750926020926001926001600160801b03612b437fd4da7294a8e10f7dd975bad8257bd9ead1a1f448244b65a67a5cd1a75acc4d4197895f5260068852612b35865f2094826009870197612b3060ff8a5416156147d4565b6150df565b878082518301019101614860565b169301839055805460ff1916600117905551908152a2005b50823461038057602036600319011261038057612b7a60209235614b38565b905190612b8681614631565b8152f35b508234610380578060031936011261038057602091612ba76145df565b90355f5260118352815f209060018060a01b03165f52825260ff815f20541690519015158152f35b8382346103805781600319360112610380578035612beb614622565b5f8051602061579b8339815191525f526020925f8452845f20335f528452612c1860ff865f205416614929565b5f8381526017855285902060018101546001600160a01b039291612c4a918416151590839082612e2b575b5050614af9565b835f5260178552855f2093835f14612e2157612c6a60015b8387016150c7565b84545f52601886525f878120558454908188519186151583527fa27015a0377c0d9543b642a583459fa12fc2b5b76aca6689c025f244f6f2ffe5893394a45f52600785526005865f2001545f5260088552855f2060038101545f5260068652865f20600881018054905f198201918211612e0e57555f94879190612d08575b505050505015612cf557005b611b7c611b879360066002611ca0614c2d565b8293949550600680929301600160ff19825416179055019160018354910154938115612dfe575b8415612dea575b6064905f875f8051602061575b83398151915254168b5197889586946303056db360e31b865285015260248401528160448401525af1918215612de0575f92612daf575b505f8093612d8e8483958495553090615457565b6001860154166002860154905af1612da4614767565b508480808581612ce9565b909291508481813d8311612dd9575b612dc88183614509565b81010312610380575190915f612d7a565b503d612dbe565b86513d5f823e3d90fd5b93506064612df66154c0565b949050612d36565b9050612e086154c0565b90612d2f565b601185634e487b7160e01b5f525260245ffd5b612c6a6002612c62565b60ff9250015416612e3b81614631565b158289612c43565b508234610380578060031936011261038057813591612e606145df565b915f8051602061579b83398151915290815f526020915f8352815f20335f528352612e9060ff835f205416614929565b851491828015612ff7575b8015612fe1575b8015612fcb575b15612f9a575f8681528082528281206001600160a01b039096168082529582528290205460ff16612f6157855f525f8152815f2090855f52525f20600160ff19825416179055612f4b575b5f805160206156fb8339815191528314612f32575b5033917f2f8788117e7eff1d82e926ec794901d17c78024a50270940304540a733656f0d5f80a4005b6002549060018201809211610472575060025582612f09565b60015460018101809111610ebc57600155612ef4565b8390606492519162461bcd60e51b83528201526014602482015273149bdb1948185b1c9958591e4819dc985b9d195960621b6044820152fd5b8390606492519162461bcd60e51b8352820152600c60248201526b556e6b6e6f776e20726f6c6560a01b6044820152fd5b505f8051602061573b8339815191528614612ea9565b505f805160206156fb8339815191528614612ea2565b505f805160206157bb8339815191528614612e9b565b83823461038057606036600319011261038057803591602435604435925f8051602061579b8339815191525f525f602052825f20335f5260205261305660ff845f205416614929565b831561309e5750836013558060145582601555815193845260208401528201527f5ca8ebc77f5dff5247407169d2d379086765ece0cad51868c61f7749d513a30160603392a2005b606490602084519162461bcd60e51b8352820152600e60248201526d496e76616c69642071756f72756d60901b6044820152fd5b8334610380575f366003190112610380576020906001549051908152f35b8334610380575f36600319011261038057602090600f549051908152f35b50823461038057806003193601126103805760209161312b6145df565b90355f5260198352815f209060018060a01b03165f52825260ff815f20541690519015158152f35b915034610380576020366003190112610380576101409281355f526007602052805f2090815493600183015493600284015490600385015490850154600586015491600687015493600788015496600960088a01549901549981519b8c5260208c01528a01526060890152608088015260a087015260c0860152840152610100830152610120820152f35b838234610380576060366003190112610380578035906131fc614622565b906044356001600160401b0381116103805761321b90369083016145f5565b5f805160206157bb8339815191525f526020935f8552865f20335f52855261324860ff885f205416614929565b5f868152600e86528790208054909133600883901c6001600160a01b0316036133495761327b60ff831661041d81614631565b8015958187613340575b156132fd5750916132ef93917fb9836dcf6d19a471fd215f72bd8caa644901ce1ae1d1809a11af70975442c362979695935f146132f45760ff60015b6132ca81614631565b169060ff19161781556002429101558780519586951586528501523397840191614ad9565b0390a3005b60ff60026132c1565b895162461bcd60e51b8152908101889052601860248201527f52656a656374696f6e206e65656473206120726561736f6e00000000000000006044820152606490fd5b50841515613285565b885162461bcd60e51b8152808701889052601960248201527f4e6f74207468652061737369676e6564207265766965776572000000000000006044820152606490fd5b838234610380576060366003190112610380578035916133aa6145df565b604435925f805160206156fb83398151915294855f526020955f8752845f20335f52875260ff906133df82875f205416614929565b6133ed6002610fcf85614b38565b6001600160a01b0394851680156136af57871561367b57835f5260068952865f209361341e84600987015416614a8d565b61343a6134328654600180980154906146ed565b8a111561470e565b600f54858101809111611cb35780600f5588519061345782614491565b8682528b8a8c8285015f815282860190888252606087019283526080870193888552601060a08901965f885260c08a01985f8a525f52525f209651600281101561366857918d9593918c9b9a999897959360ff199d8e8a54169116178855516134bf81614631565b6134c990886146ce565b51865462010000600160b01b03191660109190911b62010000600160b01b0316178655518b86015551600285015551600384015551910155600f5489519a8b523360208c0152998a908060408101037f677eb3097e824b14a1490e7dac676d83fc71bf175643468f8c0c6787d43e252691a45f525f8852855f20335f52885280865f20541661355790614929565b865f526010885280865f2054868160101c1615156135749061464f565b60081c1661358181614631565b1561358b9061468f565b865f5260118852855f20335f528852855f20541661363257855f5260118752845f20335f52875281855f2091825416179055845f52858052835f2090815492600160401b8410156112f15750820181556135e59190614964565b819291549060031b9133831b921b191617905561360182614b69565b8151908152827ffac824e999209c5f06949ea91b57243f7b16451fb251893c799ff5dd9191b56b853393a351908152f35b845162461bcd60e51b8152808401889052601060248201526f105b1c9958591e48185c1c1c9bdd995960821b6044820152606490fd5b60218e634e487b7160e01b5f525260245ffd5b865162461bcd60e51b81528086018a9052600e60248201526d125b9d985b1a5908185b5bdd5b9d60921b6044820152606490fd5b865162461bcd60e51b81528086018a90526011602482015270125b9d985b1a59081c9958da5c1a595b9d607a1b6044820152606490fd5b8334610380575f366003190112610380576020906014549051908152f35b8382346103805781600319360112610380578035916137216145df565b835f5260209060078252613739835f20541515614979565b5f805160206157bb8339815191525f525f8252825f209360018060a01b039283831695865f52815260ff855f2054161561387857865f52601d815261378584865f2054168714156149bc565b865f52600e8152845f20948554946137a360ff871661041d81614631565b5f8051602061579b8339815191525f525f8352815f20335f52835260ff825f205416908115613858575b501561381e57505050610100600160a81b031990911660089190911b610100600160a81b031617905533917f4f8ff837ca64c9c5038ad675758dbd8144e8ecfd279c6e70c2fd7fb8102f66aa5f80a4005b5162461bcd60e51b815291820152601660248201527521b0b73737ba1030b9b9b4b3b7103932bb34b2bbb2b960511b604482015260649150fd5b33891491508161386a575b50896137cd565b90508560081c161589613863565b845162461bcd60e51b815291820152601a60248201527f5265766965776572206973206e6f742061207665726966696572000000000000604482015260649150fd5b83823461038057602080600319360112610380578135915f805160206156fb8339815191525f525f8252835f20335f5282526138fb60ff855f205416614929565b825f5260108252835f20549061393160ff60018060a01b0393613924858260101c16151561464f565b60081c166126bd81614631565b835f5260118352845f20335f52835260ff855f2054166139da57835f5260118352845f20335f528352845f20600160ff19825416179055835f52828052845f20805491600160401b8310156112f15750816139b49160017ffac824e999209c5f06949ea91b57243f7b16451fb251893c799ff5dd9191b56b969594018155614964565b819291549060031b9133831b921b19161790556139d083614b69565b93519384523393a3005b845162461bcd60e51b8152908101839052601060248201526f105b1c9958591e48185c1c1c9bdd995960821b6044820152606490fd5b8334610380575f36600319011261038057602090515f8152f35b8382346103805760a036600319011261038057803591613a486145df565b6001600160a01b0392604480359291858416908185036103805760646001600160401b0360843581811161038057613a8390369085016145f5565b8b5f96929652602097601f89528b8b5f20541615613fa3578b16988915613f6957613ab18d91863590614cba565b03613f3357613ac0898d614be5565b613acc6041831461487f565b81891161038057818b116103805788870135918b1015613f2057613b127f7fffffffffffffffffffffffffffffff5d576e7357a4501ddfe92f46681b20a083111561487f565b8a51898101917f19457468657265756d205369676e6564204d6573736167653a0a3332000000008352603c820152603c8152613b4d816144d3565b519020958a519687528a81013560f81c89880152358a87015260608601525f8052865f6080600197885afa156116c857613b96908a5f5116613b9081151561487f565b1461487f565b895f5260088652875f2060ff600282015416613eed578a5f5260128752613bc0895f205415614814565b613bd160ff600683015416156148cb565b60058101544210613eac57838101545f5260188752885f2054613e7857885190613bfa826144ee565b8582528588830191893684370154613c1183614908565b525f937f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf009788549c805f8051602061577b8339815191525416803b15610380575f8c8f51928391637d6e912360e11b83528c830152818381613c76602482018d6153ff565b03925af18015613e6e57613e5b575b507f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649702541690813b15613e57579186918e838f613ce1968c915197889687958694633263b83b60e01b86528501526060602485015283018b6153ff565b90631390f2cb60e01b9083015203925af18015613e4d57908591613e39575b508b90525f8051602061571b8339815191528089528a852054613e29578b855288528984209151928311613e1657600160401b8311613e16578154838355808410613def575b5090835286832085845b848110613ddd5750505050508354915f198314613dca57897fa503c56ada4b1cb012d421905798579f4cc3abe1edac42873868cddbc93aabdc60608b8b8b8b8b8b8b019055835f52601c815286835f2055601e8152825f20826001600160601b0360a01b82541617905582519384528301523390820152a2005b634e487b7160e01b825260119052602490fd5b89845194019381840155018690613d50565b82855286848a872092830192015b828110613e0b575050613d46565b5f8155018790613dfd565b634e487b7160e01b845260418552602484fd5b8a51633f06d22b60e01b81528690fd5b613e42906144c0565b6116a357838d613d00565b8b513d87823e3d90fd5b8680fd5b613e669197506144c0565b5f958f613c85565b8e513d5f823e3d90fd5b885162461bcd60e51b8152808501889052601060248201526f149bde585b1d1e48191a5cdc1d5d195960821b818801528390fd5b885162461bcd60e51b8152808501889052601860248201527f4368616c6c656e676520706572696f642072756e6e696e670000000000000000818801528390fd5b885162461bcd60e51b8152808501889052600f60248201526e105b1c9958591e4818db185a5b5959608a1b818801528390fd5b603286634e487b7160e01b5f525260245ffd5b895162461bcd60e51b81528086018990526012602482015271125b9d985b1a590818dbdb5b5a5d1b595b9d60721b818901528490fd5b8a5162461bcd60e51b81528087018a90526016602482015275496e76616c6964207061796f7574206164647265737360501b818a01528590fd5b8a5162461bcd60e51b81528087018a90526015602482015274139bc81c9bde585b1d1e4818d85b18dd5b185d1959605a1b818a01528590fd5b50823461038057613fec36614599565b919092815f526020601c8152614053825f20549561400b871515614796565b865f5260088352614045845f209661402a60ff60028a015416156147d4565b885f526012855261403e865f205415614814565b82876150df565b828082518301019101614860565b95835f52601e825260018060a01b03946001600160801b03600387865f205416920154981691600f5460018101809111610ebc5780600f5585519261409784614491565b5f84528584019a5f8c52878501918252606085018681526080860191825260a08601928c845260c08701948b86525f5260108952895f2096516002811015614181577f7cd9d7fe28e58e25ea854ff656cd2926200f7d83599c5ba5a3d430b39ce7bbd59b9c9d9e61411e9160ff80198b541691161789555161411881614631565b886146ce565b51865462010000600160b01b03191660109190911b62010000600160b01b031617865551600186015551600285015551600384015551910155600f545f88815260128452848120829055868152601e8452849020548451971687529186015293a4005b602187634e487b7160e01b5f525260245ffd5b8334610380575f36600319011261038057602090600b549051908152f35b8382346103805760209081600319360112610380578035805f5260108352835f2090815460018060a01b03916141ee838360101c16151561464f565b61420160ff8360081c166126bd81614631565b61420a81614b69565b6003541161441f57600284019182545f526006875260ff885f209161010061ff00198216178755166002811015614181576143f0576002810190815490614257600188019283549061475a565b9054106143ad57614293906003870180545f5260088a5260028b5f2001600160ff19825416179055545f52601289525f8a81205554825461475a565b90555b60018401956142a887546005546146ed565b6005555f80808087895460101c168b54905af16142c3614767565b50156143795784549260ff841660028110156143665761432d57505050928201546003909201549354945194855233602086015260109290921c909116927fdbfb904a84a17c6167688ec2ff9a6e2e1f593c9b2b7d47825cc6655e29fd755090806040810161046d565b9093929195507fab214313283982e8ae10c2a3889d0556901f5c363b3db5603323913cc84dd6489450549554965196875260101c1694a4005b602188634e487b7160e01b5f525260245ffd5b8560649189519162461bcd60e51b8352820152600f60248201526e151c985b9cd9995c8819985a5b1959608a1b6044820152fd5b885162461bcd60e51b8152808801899052601760248201527f496e73756666696369656e742065706f636820706f6f6c0000000000000000006044820152606490fd5b6144186001860154825461441361440b6001860154836146ed565b83111561470e565b6146ed565b9055614296565b865162461bcd60e51b815280860187905260146024820152734e6f7420656e6f75676820617070726f76616c7360601b6044820152606490fd5b8334610380575f366003190112610380576020906005549051908152f35b34610380575f366003190112610380576020906002548152f35b60e081019081106001600160401b038211176144ac57604052565b634e487b7160e01b5f52604160045260245ffd5b6001600160401b0381116144ac57604052565b606081019081106001600160401b038211176144ac57604052565b604081019081106001600160401b038211176144ac57604052565b90601f801991011681019081106001600160401b038211176144ac57604052565b6001600160401b0381116144ac57601f01601f191660200190565b9291926145518261452a565b9161455f6040519384614509565b829481845281830111610380578281602093845f960137010152565b9080601f830112156103805781602061459693359101614545565b90565b606060031982011261038057600435916001600160401b0360243581811161038057836145c89160040161457b565b92604435918211610380576145969160040161457b565b602435906001600160a01b038216820361038057565b9181601f84011215610380578235916001600160401b038311610380576020838186019501011161038057565b60243590811515820361038057565b6003111561463b57565b634e487b7160e01b5f52602160045260245ffd5b1561465657565b60405162461bcd60e51b81526020600482015260116024820152702ab735b737bbb71037b832b930ba34b7b760791b6044820152606490fd5b1561469657565b60405162461bcd60e51b815260206004820152601060248201526f13dc195c985d1a5bdb8818db1bdcd95960821b6044820152606490fd5b906146d881614631565b61ff0082549160081b169061ff001916179055565b919082039182116146fa57565b634e487b7160e01b5f52601160045260245ffd5b1561471557565b60405162461bcd60e51b815260206004820152601860248201527f4578636565647320756e636f6d6d697474656420706f6f6c00000000000000006044820152606490fd5b919082018092116146fa57565b3d15614791573d906147788261452a565b916147866040519384614509565b82523d5f602084013e565b606090565b1561479d57565b60405162461bcd60e51b815260206004820152600f60248201526e125b9d985b1a59081c995c5d595cdd608a1b6044820152606490fd5b156147db57565b60405162461bcd60e51b8152602060048201526011602482015270105b1c9958591e481c1c9bd8d95cdcd959607a1b6044820152606490fd5b1561481b57565b60405162461bcd60e51b815260206004820152601860248201527f5061796f7574206177616974696e6720617070726f76616c00000000000000006044820152606490fd5b9081602091031261038057516001600160801b03811681036103805790565b1561488657565b60405162461bcd60e51b815260206004820152601760248201527f496e76616c696420636c61696d207369676e61747572650000000000000000006044820152606490fd5b156148d257565b60405162461bcd60e51b815260206004820152600e60248201526d149bde585b1d1e481d9bda59195960921b6044820152606490fd5b8051156149155760200190565b634e487b7160e01b5f52603260045260245ffd5b1561493057565b60405162461bcd60e51b815260206004820152600c60248201526b4d697373696e6720726f6c6560a01b6044820152606490fd5b8054821015614915575f5260205f2001905f90565b1561498057565b60405162461bcd60e51b81526020600482015260146024820152732ab735b737bbb71031b7b73a3934b13aba34b7b760611b6044820152606490fd5b156149c357565b60405162461bcd60e51b815260206004820152601e60248201527f43616e6e6f7420726576696577206f776e20636f6e747269627574696f6e00006044820152606490fd5b15614a0f57565b60405162461bcd60e51b815260206004820152601660248201527514995d9a595dc8185b1c9958591e48191958da59195960521b6044820152606490fd5b15614a5457565b60405162461bcd60e51b8152602060048201526011602482015270115c1bd8da081b9bdd081cd95d1d1b1959607a1b6044820152606490fd5b15614a9457565b60405162461bcd60e51b815260206004820152601c60248201527f436f6d6d697474656420746f74616c206e6f742072657665616c6564000000006044820152606490fd5b908060209392818452848401375f828201840152601f01601f1916010190565b15614b0057565b60405162461bcd60e51b815260206004820152601060248201526f2234b9b83aba32903737ba1037b832b760811b6044820152606490fd5b614b40614c2d565b9081811015614b6357600181018091116146fa5714614b5e57600290565b600190565b50505f90565b905f915f5260208080526040805f205f928154935b848110614b8c575050505050565b5f805160206156fb8339815191525f525f8252835f20614bac8285614964565b60018060a01b0391549060031b1c165f52825260ff845f205416614bd3575b600101614b7e565b95600181018091116146fa5795614bcb565b90604051906020820192308452466040840152606083015260018060a01b031660808201526080815260a081018181106001600160401b038211176144ac5760405251902090565b614c577f0000000000000000000000000000000000000000000000000000000000000000426146ed565b7f0000000000000000000000000000000000000000000000000000000000000000908115614c83570490565b634e487b7160e01b5f52601260045260245ffd5b5f908152600d60205260409020548015614cae5790565b505f805260405f205490565b604080516001600160a01b0390921660208301908152828201939093528152614ce2816144d3565b51902090565b614cf66002610fcf83614b38565b805f5260209060068252604091825f20926009840180549460ff861661503f57600781015442101580615033575b15614fef5761ff0019861661010017825560060154948515614fb8575050805193614d4e856144ee565b600194600181528381019184368437614d6682614908565b527f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf0080545f8051602061577b8339815191525490976001600160a01b0394918516935f9290853b1561038057875196637d6e912360e11b88526004976024978b8a83015281808a8101614dd990876153ff565b03815a5f948591f180156123c057614fa5575b507f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497025416803b156116b157848c8a51928391633263b83b60e01b83528b83015260608a830152818381614e4260648201896153ff565b63358ca8ff60e01b604483015203925af18015614f9b57908591614f87575b508b90525f8051602061571b833981519152808a5288852054614f77578b855289528784209051916001600160401b038311614f6557600160401b8311614f65578154838355808410614f3e575b50908452888420845b838110614f2d5750505050508154905f198214614f1b575060010190556001850191828611610702575050907fe8b074fcb8e7079d5a77662d99df2ad49d2175068d4dc2d1952c9c3b32a28a0a9291855f52601b8352815f2055519384523393a3565b634e487b7160e01b8152601185528390fd5b825182820155918a01918401614eb8565b82865284848c882092830192015b828110614f5a575050614eaf565b5f8155018590614f4c565b634e487b7160e01b8552604188528685fd5b8851633f06d22b60e01b81528890fd5b614f90906144c0565b6116a357835f614e61565b89513d87823e3d90fd5b614fb09195506144c0565b5f935f614dec565b61ffff1916610101179055515f81529192507fd4da7294a8e10f7dd975bad8257bd9ead1a1f448244b65a67a5cd1a75acc4d4191a2565b825162461bcd60e51b815260048101859052601a60248201527f526f79616c74696573207374696c6c2064697370757461626c650000000000006044820152606490fd5b50600881015415614d24565b825162461bcd60e51b815260048101859052601860248201527f436f6d6d697474656420746f74616c2072657665616c656400000000000000006044820152606490fd5b1561508a57565b60405162461bcd60e51b8152602060048201526015602482015274092dcecc2d8d2c840caecd2c8cadcc6ca40d0c2e6d605b1b6044820152606490fd5b906150d181614631565b60ff80198354169116179055565b9190825f525f8051602061571b83398151915291602091838352604093845f2054156152a557855f528352835f209084518083868295549384815201905f52865f20925f5b8882821061528f5750505061513b92500383614509565b8051808501908186116146fa5786018091116146fa576151dc5f869461518a896151ef968151968161517689935180928d80870191016153de565b8201908a8201520388810187520185614509565b6151fe60018060a01b037f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497035416948a51988997889687956378542ead60e01b87526060600488015260648701906153ff565b6003199384878303016024880152615432565b91848303016044850152615432565b03925af1918215615285575f9261524e575b50501561523e57507f1af0453083661051f6e56e5c070792320652e612154bf9af8637bb1e7655b99d5f80a2565b5163cf6c44e960e01b8152600490fd5b90809250813d831161527e575b6152658183614509565b8101031261038057518015158103610380575f80615210565b503d61525b565b83513d5f823e3d90fd5b8554845260019586019588955093019201615124565b845163d66ca67560e01b8152600490fd5b60206153069260018060a01b0392835f8051602061575b8339815191525416905f60405180978195829463196d0b9b60e01b84526004840152336024840152608060448401526084830190615432565b6004606483015203925af1918215615376575f92615381575b505f8051602061577b8339815191525416803b1561038057604051630f8e573b60e21b815260048101839052336024820152905f908290604490829084905af180156153765761536d575090565b614596906144c0565b6040513d5f823e3d90fd5b9091506020813d6020116153ad575b8161539d60209383614509565b810103126103805751905f61531f565b3d9150615390565b906145969180156153d0575b816156a6579050612354615542565b506153d9615542565b6153c1565b5f5b8381106153ef5750505f910152565b81810151838201526020016153e0565b9081518082526020808093019301915f5b82811061541e575050505090565b835185529381019392810192600101615410565b9060209161544b815180928185528580860191016153de565b601f01601f1916010190565b5f8051602061577b833981519152546001600160a01b031691823b1561038057604051635ca4b5b160e11b815260048101929092526001600160a01b03166024820152905f908290604490829084905af18015615376576154b55750565b6154be906144c0565b565b5f8051602061575b83398151915254604051639cd07acb60e01b81525f60048201819052600660248301529091602091839160449183916001600160a01b03165af1908115615376575f91615513575090565b90506020813d60201161553a575b8161552e60209383614509565b81010312610380575190565b3d9150615521565b5f8051602061575b83398151915254604051639cd07acb60e01b81525f60048201819052600560248301529091602091839160449183916001600160a01b03165af1908115615376575f91615513575090565b5f8051602061575b83398151915254604051630afe14ad60e31b815260048101929092526024820192909252600160f81b604482015290602090829060649082905f906001600160a01b03165af1908115615376575f91615513575090565b5f8051602061575b83398151915254604051635a53accb60e01b815260048101929092526024820192909252600160f81b604482015290602090829060649082905f906001600160a01b03165af1908115615376575f91615513575090565b5f8051602061575b833981519152546040516307227b9160e21b8152600481019290925260056024830152602090829060449082905f906001600160a01b03165af1908115615376575f91615513575090565b90602090606460018060a01b035f8051602061575b8339815191525416935f604051958694859363022f65e760e31b8552600485015260248401528160448401525af1908115615376575f9161551357509056fe3496e2e73c4d42b75d702e60d9e48102720b8691234415963a5a857b86425d07878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf01e2889e7308860b3fe8df0daa86fccfea4d71e43776719a57be28cf90b6db81e99e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497019e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649700a49807205ce4d355092ef5a8a18f56e8913cf4a201fbe287825b095693c217750ce23c3e399818cfee81a7ab0880f714e53d7672b08df0fa62f2843416e1ea09a164736f6c6343000818000a";
+
+type AiRoyalties_FHEConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: AiRoyalties_FHEConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class AiRoyalties_FHE__factory extends ContractFactory {
+  constructor(...args: AiRoyalties_FHEConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    _epochDuration: BigNumberish,
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(_epochDuration, overrides || {});
+  }
+  override deploy(
+    _epochDuration: BigNumberish,
+    overrides?: NonPayableOverrides & { from?: string }
+  ) {
+    return super.deploy(_epochDuration, overrides || {}) as Promise<
+      AiRoyalties_FHE & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(runner: ContractRunner | null): AiRoyalties_FHE__factory {
+    return super.connect(runner) as AiRoyalties_FHE__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): AiRoyalties_FHEInterface {
+    return new Interface(_abi) as AiRoyalties_FHEInterface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): AiRoyalties_FHE {
+    return new Contract(address, _abi, runner) as unknown as AiRoyalties_FHE;
+  }
+}
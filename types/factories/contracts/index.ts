@@ -1,4 +1,5 @@
 /* Autogenerated file. Do not edit manually. */
 /* tslint:disable */
 /* eslint-disable */
+export { AiRoyalties_FHE__factory } from "./AiRoyalties_FHE__factory";
 export { UniversalAdapter__factory } from "./UniversalAdapter__factory";
@@ -45,6 +45,10 @@ declare module "hardhat/types/runtime" {
       name: "IInputVerifier",
       signerOrOptions?: ethers.Signer | FactoryOptions
     ): Promise<Contracts.IInputVerifier__factory>;
+    getContractFactory(
+      name: "AiRoyalties_FHE",
+      signerOrOptions?: ethers.Signer | FactoryOptions
+    ): Promise<Contracts.AiRoyalties_FHE__factory>;
     getContractFactory(
       name: "UniversalAdapter",
       signerOrOptions?: ethers.Signer | FactoryOptions
@@ -90,6 +94,11 @@ declare module "hardhat/types/runtime" {
       address: string | ethers.Addressable,
       signer?: ethers.Signer
     ): Promise<Contracts.IInputVerifier>;
+    getContractAt(
+      name: "AiRoyalties_FHE",
+      address: string | ethers.Addressable,
+      signer?: ethers.Signer
+    ): Promise<Contracts.AiRoyalties_FHE>;
     getContractAt(
       name: "UniversalAdapter",
       address: string | ethers.Addressable,
@@ -128,6 +137,10 @@ declare module "hardhat/types/runtime" {
       name: "IInputVerifier",
       signerOrOptions?: ethers.Signer | DeployContractOptions
     ): Promise<Contracts.IInputVerifier>;
+    deployContract(
+      name: "AiRoyalties_FHE",
+      signerOrOptions?: ethers.Signer | DeployContractOptions
+    ): Promise<Contracts.AiRoyalties_FHE>;
     deployContract(
       name: "UniversalAdapter",
       signerOrOptions?: ethers.Signer | DeployContractOptions
@@ -173,6 +186,11 @@ declare module "hardhat/types/runtime" {
       args: any[],
       signerOrOptions?: ethers.Signer | DeployContractOptions
     ): Promise<Contracts.IInputVerifier>;
+    deployContract(
+      name: "AiRoyalties_FHE",
+      args: any[],
+      signerOrOptions?: ethers.Signer | DeployContractOptions
+    ): Promise<Contracts.AiRoyalties_FHE>;
     deployContract(
       name: "UniversalAdapter",
       args: any[],